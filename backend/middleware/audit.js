@@ -0,0 +1,43 @@
+const AuditEvent = require('../models/AuditEvent');
+const { diffDocuments } = require('../utils/audit');
+
+// Gives the routes of a resource type req.audit(action, { before, after }) to record what was
+// done once it is saved. Views are only recorded when a single record is opened; lists and
+// searches, which the viewer runs in the background to sync, are not.
+// An event that cannot be written is logged without failing the request.
+const audit = (resourceType) => {
+  return (req, res, next) => {
+    const toEvent = (action, document, changes = []) => ({
+      actor: {
+        userId: req.user._id,
+        username: req.user.username,
+        role: req.user.role
+      },
+      // The practice that owns the record, which differs from the actor's when an annotation
+      // is shared outside its practice. Measurements have no practice and belong to the actor.
+      practiceId: document.practiceId !== undefined ? document.practiceId : req.user.practiceId,
+      action,
+      resourceType,
+      resourceId: String(document._id),
+      studyInstanceUID: document.studyInstanceUID,
+      changes,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    req.audit = async (action, { before, after }) => {
+      try {
+        const changes = action === 'view' ? [] : diffDocuments(before, after);
+        await AuditEvent.create(toEvent(action, after || before, changes));
+      } catch (error) {
+        console.error('Audit log error:', error);
+      }
+    };
+
+    next();
+  };
+};
+
+module.exports = {
+  audit
+};
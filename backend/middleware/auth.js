@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const { hasPermission } = require('../utils/permissions');
 
 const auth = async (req, res, next) => {
   try {
@@ -76,6 +77,25 @@ const authorize = (...roles) => {
   };
 };
 
+// Requires every listed permission of the role matrix in utils/permissions.js
+const requirePermission = (...permissions) => {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Access denied. Authentication required.' });
+    }
+
+    if (!permissions.every(permission => hasPermission(req.user, permission))) {
+      return res.status(403).json({
+        error: 'Access denied. Insufficient permissions.',
+        required: permissions,
+        current: req.user.role
+      });
+    }
+
+    next();
+  };
+};
+
 const generateTokens = (userId) => {
   const accessToken = jwt.sign(
     { userId },
@@ -108,6 +128,7 @@ module.exports = {
   auth,
   optionalAuth,
   authorize,
+  requirePermission,
   generateTokens,
   verifyRefreshToken
 };
@@ -0,0 +1,68 @@
+const express = require('express');
+const cors = require('cors');
+const multer = require('multer');
+
+// Stand-in for a dental AI model, for local development and tests of the inference adapter.
+// It does not look at the image: it answers with a fixed caries box and periapical lesion
+// outline placed relative to the image size, so the viewer workflow can be exercised end to end.
+
+const PORT = process.env.MOCK_INFERENCE_PORT || 5055;
+
+const app = express();
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 50 * 1024 * 1024 } });
+
+app.use(cors({ origin: process.env.CORS_ORIGIN || 'http://localhost:3000' }));
+
+const getDetections = ({ width, height, tooth }) => {
+  const box = {
+    x: Math.round(width * 0.42),
+    y: Math.round(height * 0.3),
+    width: Math.round(width * 0.08),
+    height: Math.round(height * 0.06)
+  };
+
+  // A rough circle below the box, where the apex of the tooth would be
+  const centerX = width * 0.46;
+  const centerY = height * 0.62;
+  const radius = Math.min(width, height) * 0.04;
+  const polygon = Array.from({ length: 12 }, (_, index) => {
+    const angle = (index / 12) * 2 * Math.PI;
+    return [
+      Math.round(centerX + radius * Math.cos(angle)),
+      Math.round(centerY + radius * Math.sin(angle))
+    ];
+  });
+
+  return [
+    { label: 'caries', score: 0.87, box, tooth },
+    { label: 'periapical radiolucency', score: 0.64, polygon, tooth }
+  ];
+};
+
+app.post('/infer', upload.single('image'), (req, res) => {
+  let request;
+  try {
+    request = JSON.parse(req.body?.request || '{}');
+  } catch (error) {
+    return res.status(400).json({ error: 'The request field must be JSON' });
+  }
+
+  const width = Number(request.width);
+  const height = Number(request.height);
+  if (!req.file || !(width > 0) || !(height > 0)) {
+    return res.status(400).json({ error: 'An image and its width and height are required' });
+  }
+
+  res.json({
+    model: 'mock-dental-detector-1',
+    detections: getDetections({ width, height, tooth: request.tooth })
+  });
+});
+
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`Mock dental inference server listening on port ${PORT}`);
+  });
+}
+
+module.exports = app;
@@ -1,4 +1,47 @@
 const mongoose = require('mongoose');
+const {
+  TOOTH_SYSTEMS,
+  normalizeToothSystem,
+  isValidTooth,
+  getEquivalentTeeth
+} = require('../utils/toothNumbering');
+const {
+  FINDING_CONDITIONS,
+  TOOTH_SURFACES,
+  FINDING_SEVERITIES,
+  getFindingQuery
+} = require('../utils/dentalFindings');
+const { hasPermission } = require('../utils/permissions');
+
+const findingSchema = new mongoose.Schema({
+  condition: {
+    type: String,
+    enum: FINDING_CONDITIONS,
+    required: true
+  },
+  surfaces: [{
+    type: String,
+    enum: TOOTH_SURFACES
+  }],
+  severity: {
+    type: String,
+    enum: FINDING_SEVERITIES
+  },
+  codes: {
+    snomedCT: {
+      type: String,
+      trim: true
+    },
+    cdt: {
+      type: String,
+      trim: true,
+      uppercase: true
+    }
+  }
+}, { _id: false });
+
+// Submitted for review (final), approved (reviewed) and archived annotations are no longer edited
+const LOCKED_STATUSES = ['final', 'reviewed', 'archived'];
 
 const annotationSchema = new mongoose.Schema({
   userId: {
@@ -6,6 +49,11 @@ const annotationSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // The practice of the author; its members can read the annotation unless it is private
+  practiceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Practice'
+  },
   studyInstanceUID: {
     type: String,
     required: true,
@@ -22,13 +70,21 @@ const annotationSchema = new mongoose.Schema({
   tooth: {
     system: {
       type: String,
-      enum: ['FDI', 'Universal'],
-      required: true
+      enum: TOOTH_SYSTEMS,
+      required: true,
+      set: system => normalizeToothSystem(system) || system
     },
     value: {
       type: String,
       required: true,
-      trim: true
+      trim: true,
+      uppercase: true,
+      validate: {
+        validator: function(value) {
+          return isValidTooth({ system: this.tooth?.system, value });
+        },
+        message: props => `${props.value} is not a valid tooth for the selected numbering system`
+      }
     }
   },
   category: {
@@ -36,6 +92,7 @@ const annotationSchema = new mongoose.Schema({
     enum: ['diagnosis', 'treatment', 'observation', 'note'],
     required: true
   },
+  findings: [findingSchema],
   content: {
     text: {
       type: String,
@@ -64,7 +121,14 @@ const annotationSchema = new mongoose.Schema({
       type: String,
       value: Number,
       unit: String
-    }]
+    }],
+    // Set when the annotation records an AI suggestion accepted by its author
+    aiSuggestion: {
+      providerId: String,
+      model: String,
+      score: Number,
+      edited: Boolean
+    }
   },
   status: {
     type: String,
@@ -106,7 +170,17 @@ const annotationSchema = new mongoose.Schema({
       ref: 'User'
     },
     reviewedAt: Date,
-    comments: String
+    comments: String,
+    // Rejected annotations go back to draft with the comments of the reviewer
+    decision: {
+      type: String,
+      enum: ['approved', 'rejected']
+    }
+  },
+  // Incremented on every save, for conflict detection on offline edits
+  version: {
+    type: Number,
+    default: 1
   }
 }, {
   timestamps: true
@@ -119,7 +193,10 @@ annotationSchema.index({ category: 1 });
 annotationSchema.index({ status: 1 });
 annotationSchema.index({ priority: 1 });
 annotationSchema.index({ tags: 1 });
+annotationSchema.index({ 'findings.condition': 1 });
 annotationSchema.index({ createdAt: -1 });
+annotationSchema.index({ practiceId: 1, studyInstanceUID: 1 });
+annotationSchema.index({ practiceId: 1, status: 1, updatedAt: 1 });
 
 // Compound indexes
 annotationSchema.index({ 
@@ -140,12 +217,33 @@ annotationSchema.virtual('toothDisplay').get(function() {
   return `${this.tooth.system} ${this.tooth.value}`;
 });
 
-// Static method to find annotations by tooth
-annotationSchema.statics.findByTooth = function(userId, toothSystem, toothValue, options = {}) {
+// Populated references are documents, plain ones ObjectIds
+const getId = value => (value?._id ?? value)?.toString();
+
+// Query for the annotations a user can read: their own, and the non-private annotations of
+// their practice or shared with them
+annotationSchema.statics.getAccessQuery = function(user) {
+  const conditions = [
+    { userId: user._id },
+    { isPrivate: false, 'sharedWith.userId': user._id }
+  ];
+
+  if (user.practiceId) {
+    conditions.push({ isPrivate: false, practiceId: user.practiceId });
+  }
+
+  return { $or: conditions };
+};
+
+// Static method to find annotations by tooth, matching the tooth in any numbering system
+annotationSchema.statics.findByTooth = function(user, toothSystem, toothValue, options = {}) {
+  const equivalents = getEquivalentTeeth({ system: toothSystem, value: toothValue });
   const query = {
-    userId,
-    'tooth.system': toothSystem,
-    'tooth.value': toothValue
+    $and: [this.getAccessQuery(user)],
+    $or: equivalents.map(tooth => ({
+      'tooth.system': tooth.system,
+      'tooth.value': tooth.value
+    }))
   };
   
   if (options.studyInstanceUID) {
@@ -159,6 +257,8 @@ annotationSchema.statics.findByTooth = function(userId, toothSystem, toothValue,
   if (options.status) {
     query.status = options.status;
   }
+
+  Object.assign(query, getFindingQuery(options));
   
   return this.find(query)
     .sort({ createdAt: -1 })
@@ -167,9 +267,9 @@ annotationSchema.statics.findByTooth = function(userId, toothSystem, toothValue,
 };
 
 // Static method to get annotation statistics
-annotationSchema.statics.getStats = function(userId, studyInstanceUID) {
+annotationSchema.statics.getStats = function(user, studyInstanceUID) {
   return this.aggregate([
-    { $match: { userId: mongoose.Types.ObjectId(userId), studyInstanceUID } },
+    { $match: { ...this.getAccessQuery(user), studyInstanceUID } },
     {
       $group: {
         _id: null,
@@ -197,10 +297,68 @@ annotationSchema.statics.getStats = function(userId, studyInstanceUID) {
   ]);
 };
 
-// Method to check if user can access annotation
-annotationSchema.methods.canAccess = function(userId, permission = 'read') {
+// Values to count for the facets of a search, with `isArray` for fields holding several
+const SEARCH_FACETS = {
+  category: { path: '$category' },
+  status: { path: '$status' },
+  priority: { path: '$priority' },
+  tags: { path: '$tags', isArray: true },
+  condition: { path: '$findings.condition', isArray: true },
+  author: { path: '$userId' },
+  study: { path: '$studyInstanceUID' }
+};
+const SEARCH_FACET_LIMIT = 20;
+
+const countFacet = ({ path, isArray }) => [
+  // Each annotation is counted once per value, however many findings share it
+  { $project: { value: isArray ? { $setUnion: [{ $ifNull: [path, []] }, []] } : path } },
+  ...(isArray ? [{ $unwind: '$value' }] : []),
+  { $match: { value: { $ne: null } } },
+  { $group: { _id: '$value', count: { $sum: 1 } } },
+  { $sort: { count: -1, _id: 1 } },
+  { $limit: SEARCH_FACET_LIMIT }
+];
+
+// Counts of the annotations matching `match` per category, status, priority, tag, finding,
+// author and study, most frequent first. `match` must not rely on mongoose casting.
+annotationSchema.statics.getSearchFacets = async function(match) {
+  const [counts] = await this.aggregate([
+    { $match: match },
+    {
+      $facet: Object.fromEntries(
+        Object.entries(SEARCH_FACETS).map(([facet, definition]) => [facet, countFacet(definition)])
+      )
+    }
+  ]);
+
+  const facets = Object.fromEntries(
+    Object.keys(SEARCH_FACETS).map(facet => [
+      facet,
+      (counts?.[facet] || []).map(({ _id, count }) => ({ value: getId(_id), count }))
+    ])
+  );
+
+  // Authors are listed by name
+  const authors = await mongoose.model('User')
+    .find({ _id: { $in: facets.author.map(author => author.value) } })
+    .select('profile.firstName profile.lastName username');
+  facets.author.forEach(author => {
+    const user = authors.find(candidate => getId(candidate._id) === author.value);
+    author.label = user
+      ? [user.profile?.firstName, user.profile?.lastName].filter(Boolean).join(' ') || user.username
+      : undefined;
+  });
+
+  return facets;
+};
+
+// Method to check if user can access annotation. 'delete' is reserved to the owner and to
+// those managing the practice's annotations; role permissions are checked by the routes.
+annotationSchema.methods.canAccess = function(user, permission = 'read') {
+  const userId = getId(user._id);
+
   // Owner always has access
-  if (this.userId.toString() === userId.toString()) {
+  if (getId(this.userId) === userId) {
     return true;
   }
   
@@ -208,10 +366,20 @@ annotationSchema.methods.canAccess = function(userId, permission = 'read') {
   if (this.isPrivate) {
     return false;
   }
+
+  // Members of the practice read its annotations; managers also edit and delete them
+  const isSamePractice = Boolean(user.practiceId) && getId(this.practiceId) === getId(user.practiceId);
+  if (isSamePractice && (permission === 'read' || hasPermission(user, 'annotations:manage'))) {
+    return true;
+  }
+
+  if (permission === 'delete') {
+    return false;
+  }
   
   // Check shared permissions
   const sharedEntry = this.sharedWith.find(
-    entry => entry.userId.toString() === userId.toString()
+    entry => getId(entry.userId) === userId
   );
   
   if (!sharedEntry) {
@@ -225,12 +393,20 @@ annotationSchema.methods.canAccess = function(userId, permission = 'read') {
   return true; // read access
 };
 
+annotationSchema.methods.isLocked = function() {
+  return LOCKED_STATUSES.includes(this.status);
+};
+
 // Pre-save middleware
 annotationSchema.pre('save', function(next) {
   // Ensure tags are unique and lowercase
   if (this.tags) {
     this.tags = [...new Set(this.tags.map(tag => tag.toLowerCase()))];
   }
+
+  if (this.isModified() && !this.isNew) {
+    this.version += 1;
+  }
   
   next();
 });
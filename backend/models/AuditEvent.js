@@ -0,0 +1,75 @@
+const mongoose = require('mongoose');
+const { AUDIT_ACTIONS, AUDIT_RESOURCE_TYPES } = require('../utils/audit');
+
+// Who viewed or changed a piece of clinical data, and how. Events are written once and never
+// updated or deleted; the actor is copied so the trail survives changes to the user.
+const auditEventSchema = new mongoose.Schema({
+  actor: {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    username: String,
+    role: String
+  },
+  practiceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Practice'
+  },
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: true
+  },
+  resourceType: {
+    type: String,
+    enum: AUDIT_RESOURCE_TYPES,
+    required: true
+  },
+  resourceId: {
+    type: String,
+    required: true
+  },
+  studyInstanceUID: String,
+  // Fields that changed, with their values before and after
+  changes: [{
+    _id: false,
+    path: String,
+    before: mongoose.Schema.Types.Mixed,
+    after: mongoose.Schema.Types.Mixed
+  }],
+  ip: String,
+  userAgent: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+auditEventSchema.index({ resourceType: 1, resourceId: 1, createdAt: -1 });
+auditEventSchema.index({ practiceId: 1, createdAt: -1 });
+auditEventSchema.index({ 'actor.userId': 1, createdAt: -1 });
+auditEventSchema.index({ studyInstanceUID: 1, createdAt: -1 });
+
+const rejectChange = function(next) {
+  next(new Error('Audit events cannot be changed'));
+};
+
+auditEventSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return rejectChange(next);
+  }
+  next();
+});
+
+[
+  'updateOne',
+  'updateMany',
+  'replaceOne',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete'
+].forEach(operation => auditEventSchema.pre(operation, rejectChange));
+
+module.exports = mongoose.model('AuditEvent', auditEventSchema);
@@ -0,0 +1,143 @@
+const mongoose = require('mongoose');
+const {
+  TOOTH_SYSTEMS,
+  normalizeToothSystem,
+  isValidTooth,
+  getEquivalentTeeth
+} = require('../utils/toothNumbering');
+
+// Measurements may be taken without a tooth selected, so the tooth is an optional subdocument
+const toothSchema = new mongoose.Schema({
+  system: {
+    type: String,
+    enum: TOOTH_SYSTEMS,
+    required: true,
+    set: system => normalizeToothSystem(system) || system
+  },
+  value: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+    validate: {
+      validator: function(value) {
+        return isValidTooth({ system: this.system, value });
+      },
+      message: props => `${props.value} is not a valid tooth for the selected numbering system`
+    }
+  }
+}, {
+  _id: false
+});
+
+const measurementSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Measurement UID assigned by the viewer, used to match later updates and removals
+  measurementUID: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  studyInstanceUID: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  seriesInstanceUID: {
+    type: String,
+    trim: true
+  },
+  sopInstanceUID: {
+    type: String,
+    trim: true
+  },
+  frameOfReferenceUID: {
+    type: String,
+    trim: true
+  },
+  toolName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  tooth: {
+    type: toothSchema,
+    default: undefined
+  },
+  preset: {
+    id: String,
+    label: String
+  },
+  value: Number,
+  unit: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  // Geometry needed to redraw the measurement: handle points, frame and referenced image
+  annotation: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  // Incremented on every save, for conflict detection on offline edits
+  version: {
+    type: Number,
+    default: 1
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+// Indexes for performance
+measurementSchema.index({ userId: 1, measurementUID: 1 }, { unique: true });
+measurementSchema.index({ userId: 1, studyInstanceUID: 1 });
+measurementSchema.index({ 'tooth.system': 1, 'tooth.value': 1 });
+measurementSchema.index({ 'preset.id': 1 });
+measurementSchema.index({ createdAt: -1 });
+
+// Pre-save middleware to increment version
+measurementSchema.pre('save', function(next) {
+  if (this.isModified() && !this.isNew) {
+    this.version += 1;
+  }
+  next();
+});
+
+// Virtual for tooth display
+measurementSchema.virtual('toothDisplay').get(function() {
+  return this.tooth ? `${this.tooth.system} ${this.tooth.value}` : null;
+});
+
+// Static method to find measurements by tooth, matching the tooth in any numbering system
+measurementSchema.statics.findByTooth = function(userId, toothSystem, toothValue, options = {}) {
+  const equivalents = getEquivalentTeeth({ system: toothSystem, value: toothValue });
+  const query = {
+    userId,
+    $or: equivalents.map(tooth => ({
+      'tooth.system': tooth.system,
+      'tooth.value': tooth.value
+    }))
+  };
+
+  if (options.studyInstanceUID) {
+    query.studyInstanceUID = options.studyInstanceUID;
+  }
+
+  if (options.presetId) {
+    query['preset.id'] = options.presetId;
+  }
+
+  return this.find(query).sort({ createdAt: -1 });
+};
+
+module.exports = mongoose.model('Measurement', measurementSchema);
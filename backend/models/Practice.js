@@ -0,0 +1,29 @@
+const mongoose = require('mongoose');
+
+// A dental practice: the tenant its users, annotations and viewer states belong to
+const practiceSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  phone: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('Practice', practiceSchema);
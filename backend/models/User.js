@@ -1,5 +1,7 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { TOOTH_SYSTEMS } = require('../utils/toothNumbering');
+const { ROLES, getPermissions } = require('../utils/permissions');
 
 const userSchema = new mongoose.Schema({
   username: {
@@ -25,9 +27,14 @@ const userSchema = new mongoose.Schema({
   },
   role: {
     type: String,
-    enum: ['dentist', 'hygienist', 'assistant', 'admin'],
+    enum: ROLES,
     default: 'dentist'
   },
+  // Users registered before practices were introduced have none and only see their own data
+  practiceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Practice'
+  },
   profile: {
     firstName: {
       type: String,
@@ -72,7 +79,7 @@ const userSchema = new mongoose.Schema({
     },
     defaultToothSystem: {
       type: String,
-      enum: ['FDI', 'Universal'],
+      enum: TOOTH_SYSTEMS,
       default: 'FDI'
     },
     autoSave: {
@@ -113,6 +120,7 @@ const userSchema = new mongoose.Schema({
 userSchema.index({ email: 1 });
 userSchema.index({ username: 1 });
 userSchema.index({ 'refreshTokens.token': 1 });
+userSchema.index({ practiceId: 1 });
 
 // Hash password before saving
 userSchema.pre('save', async function(next) {
@@ -137,11 +145,12 @@ userSchema.virtual('fullName').get(function() {
   return `${this.profile.firstName} ${this.profile.lastName}`;
 });
 
-// Remove sensitive data when converting to JSON
+// Remove sensitive data when converting to JSON, and list what the role permits for the client
 userSchema.methods.toJSON = function() {
   const user = this.toObject();
   delete user.password;
   delete user.refreshTokens;
+  user.permissions = getPermissions(user.role);
   return user;
 };
 
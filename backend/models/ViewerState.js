@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { TOOTH_SYSTEMS, normalizeToothSystem } = require('../utils/toothNumbering');
 
 const viewerStateSchema = new mongoose.Schema({
   userId: {
@@ -6,6 +7,10 @@ const viewerStateSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  practiceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Practice'
+  },
   studyInstanceUID: {
     type: String,
     required: true,
@@ -21,6 +26,9 @@ const viewerStateSchema = new mongoose.Schema({
     viewports: [{
       viewportId: String,
       displaySetInstanceUID: String,
+      // Display set UIDs change between sessions, so viewports are restored from their series
+      seriesInstanceUIDs: [String],
+      viewportType: String,
       imageIndex: Number,
       zoom: Number,
       pan: {
@@ -37,7 +45,9 @@ const viewerStateSchema = new mongoose.Schema({
         center: Number
       },
       colormap: String,
-      invert: Boolean
+      invert: Boolean,
+      // Cornerstone camera (position, focal point, view up, parallel scale, flips)
+      camera: mongoose.Schema.Types.Mixed
     }],
     
     // Layout configuration
@@ -76,8 +86,9 @@ const viewerStateSchema = new mongoose.Schema({
       selectedTooth: {
         system: {
           type: String,
-          enum: ['FDI', 'Universal'],
-          default: 'FDI'
+          enum: TOOTH_SYSTEMS,
+          default: 'FDI',
+          set: system => normalizeToothSystem(system) || system
         },
         value: String
       },
@@ -86,7 +97,10 @@ const viewerStateSchema = new mongoose.Schema({
         enum: ['standard', 'dental'],
         default: 'dental'
       },
-      hangingProtocol: String
+      hangingProtocol: String,
+      hangingProtocolStageIndex: Number,
+      // Image calibrations keyed by SOPInstanceUID
+      calibrations: mongoose.Schema.Types.Mixed
     },
     
     // Custom metadata
@@ -112,6 +126,7 @@ const viewerStateSchema = new mongoose.Schema({
 viewerStateSchema.index({ userId: 1, studyInstanceUID: 1 });
 viewerStateSchema.index({ sessionId: 1 });
 viewerStateSchema.index({ userId: 1, updatedAt: -1 });
+viewerStateSchema.index({ practiceId: 1 });
 
 // Compound index for unique user-study-session combination
 viewerStateSchema.index({ 
@@ -128,6 +143,18 @@ viewerStateSchema.pre('save', function(next) {
   next();
 });
 
+// Query for the states a user saved within their current practice
+viewerStateSchema.statics.getOwnerQuery = function(user) {
+  return { userId: user._id, practiceId: user.practiceId || null };
+};
+
+// Query for the states a user can open: their own and those of colleagues in their practice
+viewerStateSchema.statics.getAccessQuery = function(user) {
+  return user.practiceId
+    ? { $or: [this.getOwnerQuery(user), { practiceId: user.practiceId }] }
+    : this.getOwnerQuery(user);
+};
+
 // Static method to find latest state for user and study
 viewerStateSchema.statics.findLatestForStudy = function(userId, studyInstanceUID) {
   return this.findOne({ userId, studyInstanceUID })
@@ -135,18 +162,19 @@ viewerStateSchema.statics.findLatestForStudy = function(userId, studyInstanceUID
     .exec();
 };
 
-// Static method to cleanup old states (keep only latest 10 per user-study)
+// Static method to cleanup old states (keep only latest 10 per user-study). Returns the
+// deleted states, for the audit trail.
 viewerStateSchema.statics.cleanupOldStates = async function(userId, studyInstanceUID) {
   const states = await this.find({ userId, studyInstanceUID })
     .sort({ updatedAt: -1 })
     .skip(10)
-    .select('_id')
     .exec();
   
   if (states.length > 0) {
     const idsToDelete = states.map(state => state._id);
     await this.deleteMany({ _id: { $in: idsToDelete } });
   }
+  return states;
 };
 
 module.exports = mongoose.model('ViewerState', viewerStateSchema);
@@ -1,13 +1,34 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const { body, query, validationResult } = require('express-validator');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs').promises;
 const Annotation = require('../models/Annotation');
-const { auth, authorize } = require('../middleware/auth');
+const AuditEvent = require('../models/AuditEvent');
+const { auth, requirePermission } = require('../middleware/auth');
+const { hasPermission } = require('../utils/permissions');
+const { audit } = require('../middleware/audit');
+const { getBaseVersion, isVersionConflict, sendVersionConflict } = require('../utils/versioning');
+const { getDateRangeQuery } = require('../utils/dateRange');
+const {
+  TOOTH_SYSTEMS,
+  normalizeToothSystem,
+  isValidTooth,
+  getEquivalentTeeth
+} = require('../utils/toothNumbering');
+const {
+  FINDING_CONDITIONS,
+  TOOTH_SURFACES,
+  normalizeFindings,
+  getFindingsError,
+  getFindingQuery
+} = require('../utils/dentalFindings');
 
 const router = express.Router();
 
+router.use(audit('annotation'));
+
 // Configure multer for audio file uploads
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
@@ -40,17 +61,64 @@ const upload = multer({
   }
 });
 
+// Multipart requests (audio uploads) send nested fields as JSON strings
+const parseJsonField = (value) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Checked against the tooth of the request, or of the stored annotation on update
+const validateFindings = (getTooth) => body('findings')
+  .optional()
+  .customSanitizer(normalizeFindings)
+  .custom(async (findings, { req }) => {
+    const error = getFindingsError(findings, await getTooth(req));
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  });
+
+// Rejects unknown condition and surface filters instead of silently matching nothing
+const getFindingFilterError = ({ condition, surface }) => {
+  if (condition && !FINDING_CONDITIONS.includes(condition)) {
+    return `Unknown finding condition ${condition}`;
+  }
+  if (surface && !TOOTH_SURFACES.includes(String(surface).toUpperCase())) {
+    return `Unknown tooth surface ${surface}`;
+  }
+  return null;
+};
+
+const sendLocked = (res, annotation) =>
+  res.status(423).json({
+    error: 'Annotation is locked',
+    details: `Annotations with status ${annotation.status} cannot be changed`,
+    status: annotation.status
+  });
+
 // Validation rules
 const createAnnotationValidation = [
   body('studyInstanceUID')
     .notEmpty()
     .withMessage('Study Instance UID is required'),
+  body('tooth')
+    .customSanitizer(parseJsonField),
   body('tooth.system')
-    .isIn(['FDI', 'Universal'])
+    .customSanitizer(normalizeToothSystem)
+    .isIn(TOOTH_SYSTEMS)
     .withMessage('Invalid tooth system'),
   body('tooth.value')
     .notEmpty()
-    .withMessage('Tooth value is required'),
+    .withMessage('Tooth value is required')
+    .custom((value, { req }) => isValidTooth(req.body.tooth))
+    .withMessage('Invalid tooth for the selected numbering system'),
   body('category')
     .isIn(['diagnosis', 'treatment', 'observation', 'note'])
     .withMessage('Invalid category'),
@@ -68,7 +136,8 @@ const createAnnotationValidation = [
   body('tags.*')
     .optional()
     .isLength({ max: 50 })
-    .withMessage('Each tag must be less than 50 characters')
+    .withMessage('Each tag must be less than 50 characters'),
+  validateFindings(req => req.body.tooth)
 ];
 
 const updateAnnotationValidation = [
@@ -80,10 +149,11 @@ const updateAnnotationValidation = [
     .optional()
     .isIn(['diagnosis', 'treatment', 'observation', 'note'])
     .withMessage('Invalid category'),
+  // Submitting and reviewing go through their own endpoints
   body('status')
     .optional()
-    .isIn(['draft', 'final', 'reviewed', 'archived'])
-    .withMessage('Invalid status'),
+    .isIn(['draft', 'archived'])
+    .withMessage('Invalid status. Use the submit and review endpoints to finalize an annotation'),
   body('priority')
     .optional()
     .isIn(['low', 'normal', 'high', 'urgent'])
@@ -91,11 +161,17 @@ const updateAnnotationValidation = [
   body('tags')
     .optional()
     .isArray()
-    .withMessage('Tags must be an array')
+    .withMessage('Tags must be an array'),
+  validateFindings(req =>
+    Annotation.findById(req.params.id)
+      .select('tooth')
+      .then(annotation => annotation?.tooth)
+      .catch(() => null)
+  )
 ];
 
 // Create annotation
-router.post('/', auth, upload.single('audio'), createAnnotationValidation, async (req, res) => {
+router.post('/', auth, requirePermission('annotations:create'), upload.single('audio'), createAnnotationValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -116,6 +192,7 @@ router.post('/', auth, upload.single('audio'), createAnnotationValidation, async
       tooth,
       category,
       content,
+      findings,
       metadata,
       priority,
       tags,
@@ -124,12 +201,14 @@ router.post('/', auth, upload.single('audio'), createAnnotationValidation, async
 
     const annotationData = {
       userId: req.user._id,
+      practiceId: req.user.practiceId,
       studyInstanceUID,
       seriesInstanceUID,
       sopInstanceUID,
       tooth: typeof tooth === 'string' ? JSON.parse(tooth) : tooth,
       category,
       content: typeof content === 'string' ? JSON.parse(content) : content,
+      findings: findings || [],
       metadata: metadata ? (typeof metadata === 'string' ? JSON.parse(metadata) : metadata) : {},
       priority: priority || 'normal',
       tags: tags ? (typeof tags === 'string' ? JSON.parse(tags) : tags) : [],
@@ -148,6 +227,7 @@ router.post('/', auth, upload.single('audio'), createAnnotationValidation, async
 
     const annotation = new Annotation(annotationData);
     await annotation.save();
+    await req.audit('create', { after: annotation });
 
     // Populate user info for response
     await annotation.populate('userId', 'profile.firstName profile.lastName');
@@ -171,9 +251,37 @@ router.post('/', auth, upload.single('audio'), createAnnotationValidation, async
   }
 });
 
-// Get annotations
-router.get('/', auth, async (req, res) => {
+const searchAnnotationsValidation = [
+  query('authorId')
+    .optional()
+    .custom(value => mongoose.Types.ObjectId.isValid(value))
+    .withMessage('Invalid author ID'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date'),
+  query('facets')
+    .optional()
+    .isBoolean()
+    .withMessage('Facets must be true or false')
+];
+
+// Search the annotations the user can read across studies: their own, those shared with them
+// and the non-private annotations of their practice
+router.get('/', auth, requirePermission('annotations:read'), searchAnnotationsValidation, async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
     const {
       studyInstanceUID,
       toothSystem,
@@ -182,19 +290,43 @@ router.get('/', auth, async (req, res) => {
       status,
       priority,
       tags,
+      condition,
+      surface,
       search,
+      authorId,
+      from,
+      to,
+      facets,
       limit = 50,
       skip = 0
     } = req.query;
 
-    const userId = req.user._id;
-    let query = { userId };
+    const findingFilterError = getFindingFilterError({ condition, surface });
+    if (findingFilterError) {
+      return res.status(400).json({
+        error: 'Invalid finding filter',
+        details: findingFilterError
+      });
+    }
+
+    let query = {
+      $and: [Annotation.getAccessQuery(req.user)],
+      ...getFindingQuery({ condition, surface })
+    };
 
     // Build query filters
     if (studyInstanceUID) query.studyInstanceUID = studyInstanceUID;
     if (toothSystem && toothValue) {
-      query['tooth.system'] = toothSystem;
-      query['tooth.value'] = toothValue;
+      query.$or = getEquivalentTeeth({ system: toothSystem, value: toothValue }).map(tooth => ({
+        'tooth.system': tooth.system,
+        'tooth.value': tooth.value
+      }));
+      if (query.$or.length === 0) {
+        return res.status(400).json({
+          error: 'Invalid tooth',
+          details: `Unknown tooth ${toothSystem} ${toothValue}`
+        });
+      }
     }
     if (category) query.category = category;
     if (status) query.status = status;
@@ -204,6 +336,10 @@ router.get('/', auth, async (req, res) => {
       query.tags = { $in: tagArray };
     }
 
+    // Cast by hand as the facet aggregation does not cast like find
+    if (authorId) query.userId = new mongoose.Types.ObjectId(authorId);
+    if (from || to) query.createdAt = getDateRangeQuery(from, to);
+
     // Text search
     if (search) {
       query.$text = { $search: search };
@@ -226,7 +362,9 @@ router.get('/', auth, async (req, res) => {
         limit: parseInt(limit),
         skip: parseInt(skip),
         hasMore: parseInt(skip) + parseInt(limit) < total
-      }
+      },
+      // Counts over every match, not only this page, for filter chips
+      facets: facets === 'true' ? await Annotation.getSearchFacets(query) : undefined
     });
 
   } catch (error) {
@@ -238,8 +376,57 @@ router.get('/', auth, async (req, res) => {
   }
 });
 
+// Annotations of the practice submitted for review by colleagues, oldest first
+router.get('/review-queue', auth, requirePermission('annotations:review'), async (req, res) => {
+  try {
+    const { studyInstanceUID, limit = 50, skip = 0 } = req.query;
+
+    // Annotations are reviewed within their practice, not by those they are shared with
+    if (!req.user.practiceId) {
+      return res.json({
+        annotations: [],
+        pagination: { total: 0, limit: parseInt(limit), skip: parseInt(skip), hasMore: false }
+      });
+    }
+
+    const query = {
+      $and: [Annotation.getAccessQuery(req.user)],
+      practiceId: req.user.practiceId,
+      status: 'final',
+      userId: { $ne: req.user._id }
+    };
+    if (studyInstanceUID) query.studyInstanceUID = studyInstanceUID;
+
+    const annotations = await Annotation.find(query)
+      .sort({ updatedAt: 1 })
+      .limit(parseInt(limit))
+      .skip(parseInt(skip))
+      .populate('userId', 'profile.firstName profile.lastName')
+      .exec();
+
+    const total = await Annotation.countDocuments(query);
+
+    res.json({
+      annotations,
+      pagination: {
+        total,
+        limit: parseInt(limit),
+        skip: parseInt(skip),
+        hasMore: parseInt(skip) + parseInt(limit) < total
+      }
+    });
+
+  } catch (error) {
+    console.error('Get review queue error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve review queue',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 // Get annotation by ID
-router.get('/:id', auth, async (req, res) => {
+router.get('/:id', auth, requirePermission('annotations:read'), async (req, res) => {
   try {
     const annotation = await Annotation.findById(req.params.id)
       .populate('userId', 'profile.firstName profile.lastName')
@@ -254,12 +441,14 @@ router.get('/:id', auth, async (req, res) => {
     }
 
     // Check access permissions
-    if (!annotation.canAccess(req.user._id)) {
+    if (!annotation.canAccess(req.user)) {
       return res.status(403).json({
         error: 'Access denied'
       });
     }
 
+    await req.audit('view', { after: annotation });
+
     res.json({ annotation });
 
   } catch (error) {
@@ -271,8 +460,45 @@ router.get('/:id', auth, async (req, res) => {
   }
 });
 
+// Get the audit trail of an annotation, for those who can read it
+router.get('/:id/history', auth, requirePermission('annotations:read'), async (req, res) => {
+  try {
+    const annotation = await Annotation.findById(req.params.id);
+
+    if (!annotation) {
+      return res.status(404).json({
+        error: 'Annotation not found'
+      });
+    }
+
+    if (!annotation.canAccess(req.user)) {
+      return res.status(403).json({
+        error: 'Access denied'
+      });
+    }
+
+    const events = await AuditEvent.find({
+      resourceType: 'annotation',
+      resourceId: String(annotation._id)
+    })
+      // Where colleagues connected from is for auditors only
+      .select(hasPermission(req.user, 'audit:read') ? '' : '-ip -userAgent')
+      .sort({ createdAt: -1 })
+      .exec();
+
+    res.json({ events });
+
+  } catch (error) {
+    console.error('Get annotation history error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve annotation history',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 // Update annotation
-router.put('/:id', auth, updateAnnotationValidation, async (req, res) => {
+router.put('/:id', auth, requirePermission('annotations:update'), updateAnnotationValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -291,14 +517,18 @@ router.put('/:id', auth, updateAnnotationValidation, async (req, res) => {
     }
 
     // Check write permissions
-    if (!annotation.canAccess(req.user._id, 'write')) {
+    if (!annotation.canAccess(req.user, 'write')) {
       return res.status(403).json({
         error: 'Access denied'
       });
     }
 
+    if (isVersionConflict(annotation, getBaseVersion(req))) {
+      return sendVersionConflict(res, annotation);
+    }
+
     // Update allowed fields
-    const allowedUpdates = ['content', 'category', 'status', 'priority', 'tags', 'metadata', 'isPrivate'];
+    const allowedUpdates = ['content', 'category', 'findings', 'status', 'priority', 'tags', 'metadata', 'isPrivate'];
     const updates = {};
 
     Object.keys(req.body).forEach(key => {
@@ -307,8 +537,21 @@ router.put('/:id', auth, updateAnnotationValidation, async (req, res) => {
       }
     });
 
+    // Locked annotations can only be archived once reviewed
+    const isArchiving = annotation.status === 'reviewed' && updates.status === 'archived' &&
+      Object.keys(updates).every(key => key === 'status');
+    if (annotation.isLocked() && !isArchiving) {
+      return sendLocked(res, annotation);
+    }
+
+    const before = annotation.toObject();
+    // Edits of the text keep the recording of a voice note
+    if (updates.content) {
+      updates.content = { ...before.content, ...updates.content };
+    }
     Object.assign(annotation, updates);
     await annotation.save();
+    await req.audit('update', { before, after: annotation });
 
     await annotation.populate('userId', 'profile.firstName profile.lastName');
 
@@ -327,7 +570,7 @@ router.put('/:id', auth, updateAnnotationValidation, async (req, res) => {
 });
 
 // Delete annotation
-router.delete('/:id', auth, async (req, res) => {
+router.delete('/:id', auth, requirePermission('annotations:delete'), async (req, res) => {
   try {
     const annotation = await Annotation.findById(req.params.id);
 
@@ -337,13 +580,21 @@ router.delete('/:id', auth, async (req, res) => {
       });
     }
 
-    // Only owner can delete
-    if (annotation.userId.toString() !== req.user._id.toString()) {
+    // Only the owner or a manager of the practice's annotations can delete
+    if (!annotation.canAccess(req.user, 'delete')) {
       return res.status(403).json({
         error: 'Access denied. Only the owner can delete this annotation.'
       });
     }
 
+    if (isVersionConflict(annotation, getBaseVersion(req))) {
+      return sendVersionConflict(res, annotation);
+    }
+
+    if (annotation.isLocked()) {
+      return sendLocked(res, annotation);
+    }
+
     // Delete associated audio file if exists
     if (annotation.content.audioData?.filename) {
       const audioPath = path.join(__dirname, '../uploads/audio', annotation.content.audioData.filename);
@@ -351,6 +602,7 @@ router.delete('/:id', auth, async (req, res) => {
     }
 
     await Annotation.deleteOne({ _id: req.params.id });
+    await req.audit('delete', { before: annotation });
 
     res.json({
       message: 'Annotation deleted successfully'
@@ -365,17 +617,163 @@ router.delete('/:id', auth, async (req, res) => {
   }
 });
 
+// Submit a draft for review, locking it until a reviewer rejects it
+router.post('/:id/submit', auth, requirePermission('annotations:update'), async (req, res) => {
+  try {
+    const annotation = await Annotation.findById(req.params.id);
+
+    if (!annotation) {
+      return res.status(404).json({
+        error: 'Annotation not found'
+      });
+    }
+
+    if (!annotation.canAccess(req.user, 'write')) {
+      return res.status(403).json({
+        error: 'Access denied'
+      });
+    }
+
+    if (annotation.status !== 'draft') {
+      return res.status(409).json({
+        error: 'Only draft annotations can be submitted for review',
+        status: annotation.status
+      });
+    }
+
+    const before = annotation.toObject();
+    annotation.status = 'final';
+    annotation.reviewedBy = undefined;
+    await annotation.save();
+    await req.audit('update', { before, after: annotation });
+
+    res.json({
+      message: 'Annotation submitted for review',
+      annotation
+    });
+
+  } catch (error) {
+    console.error('Submit annotation error:', error);
+    res.status(500).json({
+      error: 'Failed to submit annotation for review',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Approve a submitted annotation, or return it to its author as a draft with comments
+router.post('/:id/review', auth, requirePermission('annotations:review'), [
+  body('decision')
+    .isIn(['approve', 'reject'])
+    .withMessage('Decision must be approve or reject'),
+  body('comments')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Comments must be less than 1000 characters'),
+  body('comments')
+    .if(body('decision').equals('reject'))
+    .trim()
+    .notEmpty()
+    .withMessage('Comments are required when rejecting an annotation')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const annotation = await Annotation.findById(req.params.id);
+
+    if (!annotation) {
+      return res.status(404).json({
+        error: 'Annotation not found'
+      });
+    }
+
+    if (!annotation.canAccess(req.user)) {
+      return res.status(403).json({
+        error: 'Access denied'
+      });
+    }
+
+    if (annotation.userId.toString() === req.user._id.toString()) {
+      return res.status(403).json({
+        error: 'Access denied. Annotations cannot be reviewed by their author.'
+      });
+    }
+
+    // Sharing lets colleagues of other practices read an annotation, not review it
+    if (!req.user.practiceId || String(annotation.practiceId) !== String(req.user.practiceId)) {
+      return res.status(403).json({
+        error: 'Access denied. Annotations are reviewed within their practice.'
+      });
+    }
+
+    if (annotation.status !== 'final') {
+      return res.status(409).json({
+        error: 'Only annotations submitted for review can be reviewed',
+        status: annotation.status
+      });
+    }
+
+    const { decision, comments } = req.body;
+    const before = annotation.toObject();
+    annotation.status = decision === 'approve' ? 'reviewed' : 'draft';
+    annotation.reviewedBy = {
+      userId: req.user._id,
+      reviewedAt: new Date(),
+      comments,
+      decision: decision === 'approve' ? 'approved' : 'rejected'
+    };
+    await annotation.save();
+    await req.audit('review', { before, after: annotation });
+
+    await annotation.populate('reviewedBy.userId', 'profile.firstName profile.lastName');
+
+    res.json({
+      message: decision === 'approve' ? 'Annotation approved' : 'Annotation returned to its author',
+      annotation
+    });
+
+  } catch (error) {
+    console.error('Review annotation error:', error);
+    res.status(500).json({
+      error: 'Failed to review annotation',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 // Get annotations by tooth
-router.get('/tooth/:system/:value', auth, async (req, res) => {
+router.get('/tooth/:system/:value', auth, requirePermission('annotations:read'), async (req, res) => {
   try {
-    const { system, value } = req.params;
-    const { studyInstanceUID, category, status } = req.query;
+    const system = normalizeToothSystem(req.params.system);
+    const { value } = req.params;
+    const { studyInstanceUID, category, status, condition, surface } = req.query;
+
+    if (!isValidTooth({ system, value })) {
+      return res.status(400).json({
+        error: 'Invalid tooth',
+        details: `Unknown tooth ${req.params.system} ${value}`
+      });
+    }
+
+    const findingFilterError = getFindingFilterError({ condition, surface });
+    if (findingFilterError) {
+      return res.status(400).json({
+        error: 'Invalid finding filter',
+        details: findingFilterError
+      });
+    }
 
     const annotations = await Annotation.findByTooth(
-      req.user._id,
+      req.user,
       system,
       value,
-      { studyInstanceUID, category, status }
+      { studyInstanceUID, category, status, condition, surface }
     );
 
     res.json({ annotations });
@@ -390,10 +788,10 @@ router.get('/tooth/:system/:value', auth, async (req, res) => {
 });
 
 // Get annotation statistics
-router.get('/stats/:studyInstanceUID', auth, async (req, res) => {
+router.get('/stats/:studyInstanceUID', auth, requirePermission('annotations:read'), async (req, res) => {
   try {
     const { studyInstanceUID } = req.params;
-    const stats = await Annotation.getStats(req.user._id, studyInstanceUID);
+    const stats = await Annotation.getStats(req.user, studyInstanceUID);
 
     res.json({
       stats: stats[0] || {
@@ -414,7 +812,7 @@ router.get('/stats/:studyInstanceUID', auth, async (req, res) => {
 });
 
 // Serve audio files
-router.get('/audio/:filename', auth, async (req, res) => {
+router.get('/audio/:filename', auth, requirePermission('annotations:read'), async (req, res) => {
   try {
     const { filename } = req.params;
     const audioPath = path.join(__dirname, '../uploads/audio', filename);
@@ -430,7 +828,7 @@ router.get('/audio/:filename', auth, async (req, res) => {
       });
     }
 
-    if (!annotation.canAccess(req.user._id)) {
+    if (!annotation.canAccess(req.user)) {
       return res.status(403).json({
         error: 'Access denied'
       });
@@ -445,6 +843,8 @@ router.get('/audio/:filename', auth, async (req, res) => {
       });
     }
 
+    await req.audit('view', { after: annotation });
+
     // Set appropriate headers
     res.setHeader('Content-Type', annotation.content.audioData.mimeType);
     res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
@@ -462,7 +862,7 @@ router.get('/audio/:filename', auth, async (req, res) => {
 });
 
 // Share annotation
-router.post('/:id/share', auth, [
+router.post('/:id/share', auth, requirePermission('annotations:share'), [
   body('userIds')
     .isArray()
     .withMessage('User IDs must be an array'),
@@ -495,6 +895,7 @@ router.post('/:id/share', auth, [
     }
 
     const { userIds, permission } = req.body;
+    const before = annotation.toObject();
 
     // Add new shared users
     userIds.forEach(userId => {
@@ -514,6 +915,7 @@ router.post('/:id/share', auth, [
     });
 
     await annotation.save();
+    await req.audit('share', { before, after: annotation });
 
     res.json({
       message: 'Annotation shared successfully',
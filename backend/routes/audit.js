@@ -0,0 +1,101 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const { query, validationResult } = require('express-validator');
+const AuditEvent = require('../models/AuditEvent');
+const { auth, requirePermission } = require('../middleware/auth');
+const { AUDIT_ACTIONS, AUDIT_RESOURCE_TYPES } = require('../utils/audit');
+const { getDateRangeQuery } = require('../utils/dateRange');
+
+const router = express.Router();
+
+// Validation rules
+const auditQueryValidation = [
+  query('resourceType')
+    .optional()
+    .isIn(AUDIT_RESOURCE_TYPES)
+    .withMessage('Invalid resource type'),
+  query('action')
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage('Invalid action'),
+  query('actorId')
+    .optional()
+    .custom(value => mongoose.Types.ObjectId.isValid(value))
+    .withMessage('Invalid actor ID'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be an ISO 8601 date'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Limit must be between 1 and 500')
+];
+
+// Search the audit trail of the practice
+router.get('/', auth, requirePermission('audit:read'), auditQueryValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const {
+      resourceType,
+      resourceId,
+      studyInstanceUID,
+      actorId,
+      action,
+      from,
+      to,
+      limit = 100,
+      skip = 0
+    } = req.query;
+
+    // Users without a practice only see their own actions
+    const query = req.user.practiceId
+      ? { practiceId: req.user.practiceId }
+      : { 'actor.userId': req.user._id };
+
+    if (resourceType) query.resourceType = resourceType;
+    if (resourceId) query.resourceId = resourceId;
+    if (studyInstanceUID) query.studyInstanceUID = studyInstanceUID;
+    if (actorId) query['actor.userId'] = actorId;
+    if (action) query.action = action;
+    if (from || to) query.createdAt = getDateRangeQuery(from, to);
+
+    const events = await AuditEvent.find(query)
+      .sort({ createdAt: -1 })
+      .limit(parseInt(limit))
+      .skip(parseInt(skip))
+      .exec();
+
+    const total = await AuditEvent.countDocuments(query);
+
+    res.json({
+      events,
+      pagination: {
+        total,
+        limit: parseInt(limit),
+        skip: parseInt(skip),
+        hasMore: parseInt(skip) + parseInt(limit) < total
+      }
+    });
+
+  } catch (error) {
+    console.error('Get audit events error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve audit events',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+module.exports = router;
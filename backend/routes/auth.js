@@ -2,7 +2,9 @@ const express = require('express');
 const { body, validationResult } = require('express-validator');
 const rateLimit = require('express-rate-limit');
 const User = require('../models/User');
+const Practice = require('../models/Practice');
 const { auth, generateTokens, verifyRefreshToken } = require('../middleware/auth');
+const { TOOTH_SYSTEMS } = require('../utils/toothNumbering');
 
 const router = express.Router();
 
@@ -39,10 +41,15 @@ const registerValidation = [
   body('profile.lastName')
     .isLength({ min: 1, max: 50 })
     .withMessage('Last name is required and must be less than 50 characters'),
+  // Roles are assigned by the practice administrator, see routes/practice.js
   body('role')
+    .not()
+    .exists()
+    .withMessage('Roles cannot be chosen at registration'),
+  body('profile.practice.name')
     .optional()
-    .isIn(['dentist', 'hygienist', 'assistant', 'admin'])
-    .withMessage('Invalid role specified')
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Practice name must be between 1 and 100 characters')
 ];
 
 const loginValidation = [
@@ -66,7 +73,7 @@ router.post('/register', authLimiter, registerValidation, async (req, res) => {
       });
     }
 
-    const { username, email, password, profile, role } = req.body;
+    const { username, email, password, profile } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({
@@ -80,16 +87,32 @@ router.post('/register', authLimiter, registerValidation, async (req, res) => {
       });
     }
 
+    // Registering opens a new practice with the registrant as its administrator;
+    // colleagues are added to it by them
+    const practice = new Practice({
+      name: profile.practice?.name || `${profile.lastName} Dental Practice`,
+      address: profile.practice?.address,
+      phone: profile.practice?.phone
+    });
+
+    await practice.save();
+
     // Create new user
     const user = new User({
       username,
       email,
       password,
       profile,
-      role: role || 'dentist'
+      role: 'admin',
+      practiceId: practice._id
     });
 
-    await user.save();
+    try {
+      await user.save();
+    } catch (error) {
+      await Practice.deleteOne({ _id: practice._id });
+      throw error;
+    }
 
     // Generate tokens
     const { accessToken, refreshToken } = generateTokens(user._id);
@@ -295,7 +318,7 @@ router.put('/profile', auth, [
     .withMessage('Invalid theme'),
   body('preferences.defaultToothSystem')
     .optional()
-    .isIn(['FDI', 'Universal'])
+    .isIn(TOOTH_SYSTEMS)
     .withMessage('Invalid tooth system')
 ], async (req, res) => {
   try {
@@ -0,0 +1,330 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Measurement = require('../models/Measurement');
+const { auth, requirePermission } = require('../middleware/auth');
+const { audit } = require('../middleware/audit');
+const { getBaseVersion, isVersionConflict, sendVersionConflict } = require('../utils/versioning');
+const {
+  TOOTH_SYSTEMS,
+  normalizeToothSystem,
+  isValidTooth,
+  getEquivalentTeeth
+} = require('../utils/toothNumbering');
+
+const router = express.Router();
+
+router.use(audit('measurement'));
+
+// Validation rules
+const saveMeasurementValidation = [
+  body('studyInstanceUID')
+    .notEmpty()
+    .withMessage('Study Instance UID is required'),
+  body('toolName')
+    .notEmpty()
+    .withMessage('Tool name is required'),
+  body('label')
+    .optional()
+    .isLength({ max: 200 })
+    .withMessage('Label must be less than 200 characters'),
+  body('tooth')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Tooth must be an object'),
+  body('tooth.system')
+    .if(body('tooth').exists({ values: 'null' }))
+    .customSanitizer(normalizeToothSystem)
+    .isIn(TOOTH_SYSTEMS)
+    .withMessage('Invalid tooth system'),
+  body('tooth.value')
+    .if(body('tooth').exists({ values: 'null' }))
+    .custom((value, { req }) => isValidTooth(req.body.tooth))
+    .withMessage('Invalid tooth for the selected numbering system'),
+  body('value')
+    .optional({ values: 'null' })
+    .isFloat()
+    .withMessage('Value must be a number'),
+  body('unit')
+    .optional()
+    .isLength({ max: 20 })
+    .withMessage('Unit must be less than 20 characters'),
+  body('annotation')
+    .optional()
+    .isObject()
+    .withMessage('Annotation must be an object')
+];
+
+const createMeasurementValidation = [
+  body('measurementUID')
+    .notEmpty()
+    .withMessage('Measurement UID is required'),
+  ...saveMeasurementValidation
+];
+
+const getMeasurementFields = (data) => ({
+  studyInstanceUID: data.studyInstanceUID,
+  seriesInstanceUID: data.seriesInstanceUID,
+  sopInstanceUID: data.sopInstanceUID,
+  frameOfReferenceUID: data.frameOfReferenceUID,
+  toolName: data.toolName,
+  label: data.label,
+  tooth: data.tooth || undefined,
+  preset: data.preset,
+  value: data.value ?? undefined,
+  unit: data.unit,
+  annotation: data.annotation || {}
+});
+
+// Create measurement
+router.post('/', auth, requirePermission('measurements:write'), createMeasurementValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const measurement = new Measurement({
+      userId: req.user._id,
+      measurementUID: req.body.measurementUID,
+      ...getMeasurementFields(req.body)
+    });
+    await measurement.save();
+    await req.audit('create', { after: measurement });
+
+    res.status(201).json({
+      message: 'Measurement created successfully',
+      measurement
+    });
+
+  } catch (error) {
+    console.error('Create measurement error:', error);
+
+    if (error.code === 11000) {
+      return res.status(409).json({
+        error: 'Measurement already exists'
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to create measurement',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Save measurement, creating it if the viewer has not synced it before
+router.put('/:measurementUID', auth, requirePermission('measurements:write'), saveMeasurementValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { measurementUID } = req.params;
+    const userId = req.user._id;
+
+    let measurement = await Measurement.findOne({ userId, measurementUID });
+    const created = !measurement;
+
+    if (isVersionConflict(measurement, getBaseVersion(req))) {
+      return sendVersionConflict(res, measurement);
+    }
+
+    const before = measurement?.toObject();
+
+    if (measurement) {
+      Object.assign(measurement, getMeasurementFields(req.body));
+    } else {
+      measurement = new Measurement({
+        userId,
+        measurementUID,
+        ...getMeasurementFields(req.body)
+      });
+    }
+
+    await measurement.save();
+    await req.audit(created ? 'create' : 'update', { before, after: measurement });
+
+    res.status(created ? 201 : 200).json({
+      message: 'Measurement saved successfully',
+      measurement
+    });
+
+  } catch (error) {
+    console.error('Save measurement error:', error);
+
+    if (error.code === 11000) {
+      return res.status(409).json({
+        error: 'Concurrent modification detected. Please refresh and try again.'
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to save measurement',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Get measurements
+router.get('/', auth, requirePermission('measurements:read'), async (req, res) => {
+  try {
+    const {
+      studyInstanceUID,
+      toothSystem,
+      toothValue,
+      presetId,
+      limit = 100,
+      skip = 0
+    } = req.query;
+
+    const userId = req.user._id;
+    let query = { userId };
+
+    // Build query filters
+    if (studyInstanceUID) query.studyInstanceUID = studyInstanceUID;
+    if (toothSystem && toothValue) {
+      query.$or = getEquivalentTeeth({ system: toothSystem, value: toothValue }).map(tooth => ({
+        'tooth.system': tooth.system,
+        'tooth.value': tooth.value
+      }));
+      if (query.$or.length === 0) {
+        return res.status(400).json({
+          error: 'Invalid tooth',
+          details: `Unknown tooth ${toothSystem} ${toothValue}`
+        });
+      }
+    }
+    if (presetId) query['preset.id'] = presetId;
+
+    const measurements = await Measurement.find(query)
+      .sort({ createdAt: 1 })
+      .limit(parseInt(limit))
+      .skip(parseInt(skip))
+      .exec();
+
+    const total = await Measurement.countDocuments(query);
+
+    res.json({
+      measurements,
+      pagination: {
+        total,
+        limit: parseInt(limit),
+        skip: parseInt(skip),
+        hasMore: parseInt(skip) + parseInt(limit) < total
+      }
+    });
+
+  } catch (error) {
+    console.error('Get measurements error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve measurements',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Get measurements by tooth
+router.get('/tooth/:system/:value', auth, requirePermission('measurements:read'), async (req, res) => {
+  try {
+    const system = normalizeToothSystem(req.params.system);
+    const { value } = req.params;
+    const { studyInstanceUID, presetId } = req.query;
+
+    if (!isValidTooth({ system, value })) {
+      return res.status(400).json({
+        error: 'Invalid tooth',
+        details: `Unknown tooth ${req.params.system} ${value}`
+      });
+    }
+
+    const measurements = await Measurement.findByTooth(
+      req.user._id,
+      system,
+      value,
+      { studyInstanceUID, presetId }
+    );
+
+    res.json({ measurements });
+
+  } catch (error) {
+    console.error('Get tooth measurements error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve tooth measurements',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Get measurement by viewer UID
+router.get('/:measurementUID', auth, requirePermission('measurements:read'), async (req, res) => {
+  try {
+    const measurement = await Measurement.findOne({
+      userId: req.user._id,
+      measurementUID: req.params.measurementUID
+    });
+
+    if (!measurement) {
+      return res.status(404).json({
+        error: 'Measurement not found'
+      });
+    }
+
+    await req.audit('view', { after: measurement });
+
+    res.json({ measurement });
+
+  } catch (error) {
+    console.error('Get measurement error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve measurement',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Delete measurement
+router.delete('/:measurementUID', auth, requirePermission('measurements:delete'), async (req, res) => {
+  try {
+    const measurement = await Measurement.findOne({
+      userId: req.user._id,
+      measurementUID: req.params.measurementUID
+    });
+
+    if (isVersionConflict(measurement, getBaseVersion(req))) {
+      return sendVersionConflict(res, measurement);
+    }
+
+    const result = await Measurement.deleteOne({
+      userId: req.user._id,
+      measurementUID: req.params.measurementUID
+    });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({
+        error: 'Measurement not found'
+      });
+    }
+
+    await req.audit('delete', { before: measurement });
+
+    res.json({
+      message: 'Measurement deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete measurement error:', error);
+    res.status(500).json({
+      error: 'Failed to delete measurement',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+module.exports = router;
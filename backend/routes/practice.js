@@ -0,0 +1,272 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const { body, validationResult } = require('express-validator');
+const Practice = require('../models/Practice');
+const User = require('../models/User');
+const { auth, requirePermission } = require('../middleware/auth');
+const { ROLES, ROLE_PERMISSIONS } = require('../utils/permissions');
+
+const router = express.Router();
+
+// Users registered before practices were introduced have none to manage
+const requirePractice = (req, res, next) => {
+  if (!req.user.practiceId) {
+    return res.status(404).json({
+      error: 'Practice not found'
+    });
+  }
+  next();
+};
+
+// Validation rules
+const practiceValidation = [
+  body('name')
+    .optional()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Practice name must be between 1 and 100 characters'),
+  body('address')
+    .optional()
+    .isLength({ max: 200 })
+    .withMessage('Address must be less than 200 characters'),
+  body('phone')
+    .optional()
+    .isLength({ max: 20 })
+    .withMessage('Phone must be less than 20 characters')
+];
+
+const createUserValidation = [
+  body('username')
+    .isLength({ min: 3, max: 50 })
+    .withMessage('Username must be between 3 and 50 characters')
+    .matches(/^[a-zA-Z0-9_-]+$/)
+    .withMessage('Username can only contain letters, numbers, underscores, and hyphens'),
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email'),
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+  body('profile.firstName')
+    .isLength({ min: 1, max: 50 })
+    .withMessage('First name is required and must be less than 50 characters'),
+  body('profile.lastName')
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Last name is required and must be less than 50 characters'),
+  body('role')
+    .isIn(ROLES)
+    .withMessage('Invalid role specified')
+];
+
+const updateUserValidation = [
+  body('role')
+    .optional()
+    .isIn(ROLES)
+    .withMessage('Invalid role specified'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
+
+// Get the practice of the current user, with the permissions of each role
+router.get('/', auth, requirePractice, async (req, res) => {
+  try {
+    const practice = await Practice.findById(req.user.practiceId);
+
+    if (!practice) {
+      return res.status(404).json({
+        error: 'Practice not found'
+      });
+    }
+
+    res.json({
+      practice,
+      roles: ROLE_PERMISSIONS
+    });
+
+  } catch (error) {
+    console.error('Get practice error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve practice',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Update practice details
+router.put('/', auth, requirePermission('users:manage'), requirePractice, practiceValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const practice = await Practice.findById(req.user.practiceId);
+
+    if (!practice) {
+      return res.status(404).json({
+        error: 'Practice not found'
+      });
+    }
+
+    ['name', 'address', 'phone'].forEach(key => {
+      if (req.body[key] !== undefined) {
+        practice[key] = req.body[key];
+      }
+    });
+
+    await practice.save();
+
+    res.json({
+      message: 'Practice updated successfully',
+      practice
+    });
+
+  } catch (error) {
+    console.error('Update practice error:', error);
+    res.status(500).json({
+      error: 'Failed to update practice',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// List the users of the practice
+router.get('/users', auth, requirePermission('users:manage'), requirePractice, async (req, res) => {
+  try {
+    const users = await User.find({ practiceId: req.user.practiceId })
+      .sort({ 'profile.lastName': 1, 'profile.firstName': 1 })
+      .exec();
+
+    res.json({ users });
+
+  } catch (error) {
+    console.error('Get practice users error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve practice users',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Add a user to the practice with the role chosen by the administrator
+router.post('/users', auth, requirePermission('users:manage'), requirePractice, createUserValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { username, email, password, profile, role } = req.body;
+
+    const existingUser = await User.findOne({
+      $or: [{ email }, { username }]
+    });
+
+    if (existingUser) {
+      return res.status(400).json({
+        error: 'User already exists',
+        field: existingUser.email === email ? 'email' : 'username'
+      });
+    }
+
+    const user = new User({
+      username,
+      email,
+      password,
+      profile,
+      role,
+      practiceId: req.user.practiceId
+    });
+
+    await user.save();
+
+    res.status(201).json({
+      message: 'User created successfully',
+      user
+    });
+
+  } catch (error) {
+    console.error('Create practice user error:', error);
+    res.status(500).json({
+      error: 'Failed to create user',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// Assign a role to a user of the practice, or deactivate them
+router.put('/users/:id', auth, requirePermission('users:manage'), requirePractice, updateUserValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({
+        error: 'User not found'
+      });
+    }
+
+    const user = await User.findOne({
+      _id: req.params.id,
+      practiceId: req.user.practiceId
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found'
+      });
+    }
+
+    // Keeps the practice from being left without an administrator
+    if (user._id.equals(req.user._id)) {
+      return res.status(400).json({
+        error: 'Administrators cannot change their own role or deactivate themselves'
+      });
+    }
+
+    const { role, isActive } = req.body;
+
+    if (role !== undefined) {
+      user.role = role;
+    }
+
+    if (isActive !== undefined) {
+      user.isActive = isActive === true || isActive === 'true';
+      if (!user.isActive) {
+        // Sign the user out of every device
+        user.refreshTokens = [];
+      }
+    }
+
+    await user.save();
+
+    res.json({
+      message: 'User updated successfully',
+      user
+    });
+
+  } catch (error) {
+    console.error('Update practice user error:', error);
+    res.status(500).json({
+      error: 'Failed to update user',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+module.exports = router;
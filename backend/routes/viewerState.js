@@ -1,10 +1,15 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const { body, query, validationResult } = require('express-validator');
 const ViewerState = require('../models/ViewerState');
-const { auth } = require('../middleware/auth');
+const { auth, requirePermission } = require('../middleware/auth');
+const { audit } = require('../middleware/audit');
+const { getBaseVersion, isVersionConflict, sendVersionConflict } = require('../utils/versioning');
 
 const router = express.Router();
 
+router.use(audit('viewerState'));
+
 // Validation rules
 const saveStateValidation = [
   body('studyInstanceUID')
@@ -25,7 +30,7 @@ const getStateValidation = [
 ];
 
 // Save viewer state
-router.post('/save', auth, saveStateValidation, async (req, res) => {
+router.post('/save', auth, requirePermission('viewerState:write'), saveStateValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -40,11 +45,17 @@ router.post('/save', auth, saveStateValidation, async (req, res) => {
 
     // Check for existing state with same user, study, and session
     let viewerState = await ViewerState.findOne({
-      userId,
+      ...ViewerState.getOwnerQuery(req.user),
       studyInstanceUID,
       sessionId
     });
 
+    if (isVersionConflict(viewerState, getBaseVersion(req))) {
+      return sendVersionConflict(res, viewerState);
+    }
+
+    const before = viewerState?.toObject();
+
     if (viewerState) {
       // Update existing state
       viewerState.state = state;
@@ -53,6 +64,7 @@ router.post('/save', auth, saveStateValidation, async (req, res) => {
       // Create new state
       viewerState = new ViewerState({
         userId,
+        practiceId: req.user.practiceId,
         studyInstanceUID,
         sessionId,
         state,
@@ -61,9 +73,13 @@ router.post('/save', auth, saveStateValidation, async (req, res) => {
     }
 
     await viewerState.save();
+    await req.audit(before ? 'update' : 'create', { before, after: viewerState });
 
     // Cleanup old states (keep only latest 10 per user-study)
-    await ViewerState.cleanupOldStates(userId, studyInstanceUID);
+    const removedStates = await ViewerState.cleanupOldStates(userId, studyInstanceUID);
+    for (const removedState of removedStates) {
+      await req.audit('delete', { before: removedState });
+    }
 
     res.json({
       message: 'Viewer state saved successfully',
@@ -89,7 +105,7 @@ router.post('/save', auth, saveStateValidation, async (req, res) => {
 });
 
 // Get viewer state
-router.get('/', auth, getStateValidation, async (req, res) => {
+router.get('/', auth, requirePermission('viewerState:read'), getStateValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -100,9 +116,10 @@ router.get('/', auth, getStateValidation, async (req, res) => {
     }
 
     const { studyInstanceUID, sessionId } = req.query;
-    const userId = req.user._id;
 
-    let query = { userId, studyInstanceUID };
+    // The latest state restores the user's own work. States of colleagues are only opened
+    // explicitly, from the history or by id.
+    let query = { ...ViewerState.getOwnerQuery(req.user), studyInstanceUID };
     
     if (sessionId) {
       query.sessionId = sessionId;
@@ -118,6 +135,8 @@ router.get('/', auth, getStateValidation, async (req, res) => {
       });
     }
 
+    await req.audit('view', { after: viewerState });
+
     res.json({
       state: viewerState.state,
       stateId: viewerState._id,
@@ -138,7 +157,7 @@ router.get('/', auth, getStateValidation, async (req, res) => {
 });
 
 // Get all states for a study
-router.get('/history', auth, getStateValidation, async (req, res) => {
+router.get('/history', auth, requirePermission('viewerState:read'), getStateValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -149,18 +168,19 @@ router.get('/history', auth, getStateValidation, async (req, res) => {
     }
 
     const { studyInstanceUID } = req.query;
-    const userId = req.user._id;
+    const accessQuery = ViewerState.getAccessQuery(req.user);
     const limit = parseInt(req.query.limit) || 10;
     const skip = parseInt(req.query.skip) || 0;
 
-    const states = await ViewerState.find({ userId, studyInstanceUID })
+    const states = await ViewerState.find({ ...accessQuery, studyInstanceUID })
       .sort({ updatedAt: -1 })
       .limit(limit)
       .skip(skip)
-      .select('sessionId version autoSaved createdAt updatedAt')
+      .select('userId sessionId version autoSaved createdAt updatedAt')
+      .populate('userId', 'profile.firstName profile.lastName')
       .exec();
 
-    const total = await ViewerState.countDocuments({ userId, studyInstanceUID });
+    const total = await ViewerState.countDocuments({ ...accessQuery, studyInstanceUID });
 
     res.json({
       states,
@@ -182,14 +202,13 @@ router.get('/history', auth, getStateValidation, async (req, res) => {
 });
 
 // Delete viewer state
-router.delete('/:stateId', auth, async (req, res) => {
+router.delete('/:stateId', auth, requirePermission('viewerState:delete'), async (req, res) => {
   try {
     const { stateId } = req.params;
-    const userId = req.user._id;
 
     const viewerState = await ViewerState.findOne({
       _id: stateId,
-      userId
+      ...ViewerState.getOwnerQuery(req.user)
     });
 
     if (!viewerState) {
@@ -199,6 +218,7 @@ router.delete('/:stateId', auth, async (req, res) => {
     }
 
     await ViewerState.deleteOne({ _id: stateId });
+    await req.audit('delete', { before: viewerState });
 
     res.json({
       message: 'Viewer state deleted successfully'
@@ -214,7 +234,7 @@ router.delete('/:stateId', auth, async (req, res) => {
 });
 
 // Auto-save endpoint (higher frequency, minimal validation)
-router.post('/auto-save', auth, async (req, res) => {
+router.post('/auto-save', auth, requirePermission('viewerState:write'), async (req, res) => {
   try {
     const { studyInstanceUID, sessionId, state } = req.body;
     
@@ -224,11 +244,17 @@ router.post('/auto-save', auth, async (req, res) => {
       });
     }
 
-    const userId = req.user._id;
+    const ownerQuery = ViewerState.getOwnerQuery(req.user);
+
+    // Read in full, as the audit trail records the change
+    const existing = await ViewerState.findOne({ ...ownerQuery, studyInstanceUID, sessionId });
+    if (isVersionConflict(existing, getBaseVersion(req))) {
+      return sendVersionConflict(res, existing);
+    }
 
     // Use upsert for auto-save to handle concurrent requests
     const result = await ViewerState.findOneAndUpdate(
-      { userId, studyInstanceUID, sessionId },
+      { ...ownerQuery, studyInstanceUID, sessionId },
       { 
         state, 
         autoSaved: true,
@@ -240,6 +266,7 @@ router.post('/auto-save', auth, async (req, res) => {
         runValidators: false // Skip validation for performance
       }
     );
+    await req.audit(existing ? 'update' : 'create', { before: existing, after: result });
 
     res.json({
       success: true,
@@ -258,13 +285,12 @@ router.post('/auto-save', auth, async (req, res) => {
 });
 
 // Get user's recent studies with states
-router.get('/recent-studies', auth, async (req, res) => {
+router.get('/recent-studies', auth, requirePermission('viewerState:read'), async (req, res) => {
   try {
-    const userId = req.user._id;
     const limit = parseInt(req.query.limit) || 10;
 
     const recentStudies = await ViewerState.aggregate([
-      { $match: { userId } },
+      { $match: ViewerState.getOwnerQuery(req.user) },
       {
         $group: {
           _id: '$studyInstanceUID',
@@ -295,4 +321,49 @@ router.get('/recent-studies', auth, async (req, res) => {
   }
 });
 
+// Get a saved viewer state by id, to compare versions or roll back to one. States of
+// colleagues in the practice can be opened too, e.g. by a referrer shown a case.
+router.get('/:stateId', auth, requirePermission('viewerState:read'), async (req, res) => {
+  try {
+    const { stateId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(stateId)) {
+      return res.status(404).json({
+        error: 'Viewer state not found'
+      });
+    }
+
+    const viewerState = await ViewerState.findOne({
+      _id: stateId,
+      ...ViewerState.getAccessQuery(req.user)
+    });
+
+    if (!viewerState) {
+      return res.status(404).json({
+        error: 'Viewer state not found'
+      });
+    }
+
+    await req.audit('view', { after: viewerState });
+
+    res.json({
+      state: viewerState.state,
+      stateId: viewerState._id,
+      studyInstanceUID: viewerState.studyInstanceUID,
+      version: viewerState.version,
+      sessionId: viewerState.sessionId,
+      autoSaved: viewerState.autoSaved,
+      createdAt: viewerState.createdAt,
+      updatedAt: viewerState.updatedAt
+    });
+
+  } catch (error) {
+    console.error('Get state by id error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve viewer state',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 module.exports = router;
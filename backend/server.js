@@ -9,6 +9,9 @@ require('dotenv').config();
 const authRoutes = require('./routes/auth');
 const viewerStateRoutes = require('./routes/viewerState');
 const annotationsRoutes = require('./routes/annotations');
+const measurementsRoutes = require('./routes/measurements');
+const practiceRoutes = require('./routes/practice');
+const auditRoutes = require('./routes/audit');
 const connectDB = require('./config/database');
 
 const app = express();
@@ -40,7 +43,7 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Base-Version']
 }));
 
 // Rate limiting
@@ -80,6 +83,9 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/viewer-state', viewerStateRoutes);
 app.use('/api/annotations', annotationsRoutes);
+app.use('/api/measurements', measurementsRoutes);
+app.use('/api/practice', practiceRoutes);
+app.use('/api/audit', auditRoutes);
 
 // Error handling middleware
 app.use((err, req, res, next) => {
@@ -0,0 +1,62 @@
+// Audit trail of the clinical data: what was done to an annotation, measurement or viewer
+// state, and which fields changed.
+
+const AUDIT_ACTIONS = ['view', 'create', 'update', 'share', 'review', 'delete'];
+
+const AUDIT_RESOURCE_TYPES = ['annotation', 'measurement', 'viewerState'];
+
+// Bookkeeping fields that change on every save
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt', 'version'];
+
+// Nested objects are compared field by field down to this depth, e.g. "content.text" or
+// "state.viewports"; deeper changes are recorded on the enclosing field
+const MAX_DIFF_DEPTH = 2;
+
+const toSnapshot = document => {
+  if (!document) {
+    return {};
+  }
+  const plain = typeof document.toObject === 'function' ? document.toObject() : document;
+  return JSON.parse(JSON.stringify(plain));
+};
+
+const isPlainObject = value => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const collectChanges = (before, after, path, depth, changes) => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  keys.forEach(key => {
+    if (!path && IGNORED_FIELDS.includes(key)) {
+      return;
+    }
+
+    const fieldPath = path ? `${path}.${key}` : key;
+    const previous = before[key];
+    const next = after[key];
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      return;
+    }
+
+    if (depth < MAX_DIFF_DEPTH && isPlainObject(previous) && isPlainObject(next)) {
+      collectChanges(previous, next, fieldPath, depth + 1, changes);
+      return;
+    }
+
+    changes.push({ path: fieldPath, before: previous, after: next });
+  });
+
+  return changes;
+};
+
+// Changes between two versions of a document; a missing version stands for a document that
+// did not exist yet or no longer exists
+const diffDocuments = (before, after) =>
+  collectChanges(toSnapshot(before), toSnapshot(after), '', 1, []);
+
+module.exports = {
+  AUDIT_ACTIONS,
+  AUDIT_RESOURCE_TYPES,
+  toSnapshot,
+  diffDocuments
+};
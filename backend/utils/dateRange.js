@@ -0,0 +1,21 @@
+// Creation date bounds of the list and search routes. A date without a time covers its whole
+// day, so `to=2026-03-31` includes the records created on the 31st.
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const getDateRangeQuery = (from, to) => {
+  const range = {};
+  if (from) range.$gte = new Date(from);
+  if (to && DATE_ONLY.test(to)) {
+    const nextDay = new Date(to);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    range.$lt = nextDay;
+  } else if (to) {
+    range.$lte = new Date(to);
+  }
+  return range;
+};
+
+module.exports = {
+  getDateRangeQuery
+};
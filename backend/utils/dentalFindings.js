@@ -0,0 +1,114 @@
+// Structured findings recorded on annotations: a condition from the catalogue, the tooth
+// surfaces it involves, a severity and optional SNOMED CT / ADA CDT codes.
+// Kept in step with extensions/dental/src/dentalFindings.ts.
+
+const { findTooth } = require('./toothNumbering');
+
+const FINDING_CONDITIONS = [
+  'caries',
+  'periapical-lesion',
+  'restoration',
+  'missing',
+  'implant',
+  'root-canal-treated'
+];
+
+// Conditions located on surfaces of the crown; the others concern the whole tooth
+const SURFACE_CONDITIONS = ['caries', 'restoration'];
+
+const TOOTH_SURFACES = ['M', 'O', 'D', 'B', 'L', 'I'];
+
+const FINDING_SEVERITIES = ['mild', 'moderate', 'severe'];
+
+const SNOMED_CT_PATTERN = /^\d{6,18}$/;
+const CDT_PATTERN = /^D\d{4}$/;
+
+// Incisors and canines (positions 1-3) have an incisal edge, premolars and molars an occlusal surface
+const getToothSurfaces = (tooth) => {
+  const entry = findTooth(tooth);
+  if (!entry) {
+    return TOOTH_SURFACES;
+  }
+  const isAnterior = Number(entry.FDI[1]) <= 3;
+  return TOOTH_SURFACES.filter(surface => surface !== (isAnterior ? 'O' : 'I'));
+};
+
+// Multipart requests send findings as a JSON string; surfaces are upper-cased, de-duplicated
+// and put in the M-O-D-B-L-I order used to write them, e.g. "MOD"
+const normalizeFindings = (findings) => {
+  let parsed = findings;
+  if (typeof findings === 'string') {
+    try {
+      parsed = JSON.parse(findings);
+    } catch {
+      return findings;
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  return parsed.map(finding => {
+    if (!finding || typeof finding !== 'object') {
+      return finding;
+    }
+    const surfaces = Array.isArray(finding.surfaces)
+      ? finding.surfaces.map(surface => String(surface).trim().toUpperCase())
+      : [];
+    return {
+      ...finding,
+      surfaces: TOOTH_SURFACES.filter(surface => surfaces.includes(surface))
+        .concat(surfaces.filter(surface => !TOOTH_SURFACES.includes(surface)))
+    };
+  });
+};
+
+// Returns the first problem with the findings of an annotation on `tooth`, or null
+const getFindingsError = (findings, tooth) => {
+  if (!Array.isArray(findings)) {
+    return 'Findings must be an array';
+  }
+
+  const toothSurfaces = getToothSurfaces(tooth);
+  for (const finding of findings) {
+    if (!FINDING_CONDITIONS.includes(finding?.condition)) {
+      return `Unknown finding condition ${finding?.condition}`;
+    }
+    const invalidSurface = finding.surfaces.find(surface => !toothSurfaces.includes(surface));
+    if (invalidSurface) {
+      return `Surface ${invalidSurface} does not apply to this tooth`;
+    }
+    if (finding.surfaces.length && !SURFACE_CONDITIONS.includes(finding.condition)) {
+      return `Surfaces cannot be recorded for ${finding.condition}`;
+    }
+    if (finding.severity && !FINDING_SEVERITIES.includes(finding.severity)) {
+      return `Unknown severity ${finding.severity}`;
+    }
+    if (finding.codes?.snomedCT && !SNOMED_CT_PATTERN.test(finding.codes.snomedCT)) {
+      return `Invalid SNOMED CT code ${finding.codes.snomedCT}`;
+    }
+    if (finding.codes?.cdt && !CDT_PATTERN.test(finding.codes.cdt)) {
+      return `Invalid CDT code ${finding.codes.cdt}`;
+    }
+  }
+  return null;
+};
+
+// Query on annotations with a finding of `condition`, optionally involving `surface`
+const getFindingQuery = ({ condition, surface }) => {
+  const match = {};
+  if (condition) match.condition = condition;
+  if (surface) match.surfaces = String(surface).toUpperCase();
+  return Object.keys(match).length ? { findings: { $elemMatch: match } } : {};
+};
+
+module.exports = {
+  FINDING_CONDITIONS,
+  SURFACE_CONDITIONS,
+  TOOTH_SURFACES,
+  FINDING_SEVERITIES,
+  getToothSurfaces,
+  normalizeFindings,
+  getFindingsError,
+  getFindingQuery
+};
@@ -0,0 +1,68 @@
+// What each role may do within its practice. Referrers are outside clinicians given
+// read-only access to the practice's annotations, viewer states and measurements.
+// Kept in step with extensions/dental/src/dentalPermissions.ts.
+
+const ROLES = ['admin', 'dentist', 'hygienist', 'assistant', 'referrer'];
+
+const PERMISSIONS = [
+  'annotations:read',
+  'annotations:create',
+  // Own annotations and those shared with write access
+  'annotations:update',
+  'annotations:delete',
+  'annotations:share',
+  // Update and delete any non-private annotation of the practice
+  'annotations:manage',
+  // Approve or reject the annotations colleagues submit for review
+  'annotations:review',
+  'viewerState:read',
+  'viewerState:write',
+  'viewerState:delete',
+  'measurements:read',
+  'measurements:write',
+  'measurements:delete',
+  // Add users to the practice and assign their roles
+  'users:manage',
+  // Search the audit trail of the practice
+  'audit:read'
+];
+
+const ROLE_PERMISSIONS = {
+  admin: PERMISSIONS,
+  dentist: PERMISSIONS.filter(permission => !['users:manage', 'audit:read'].includes(permission)),
+  hygienist: [
+    'annotations:read',
+    'annotations:create',
+    'annotations:update',
+    'annotations:delete',
+    'annotations:share',
+    'viewerState:read',
+    'viewerState:write',
+    'viewerState:delete',
+    'measurements:read',
+    'measurements:write',
+    'measurements:delete'
+  ],
+  assistant: [
+    'annotations:read',
+    'annotations:create',
+    'annotations:update',
+    'viewerState:read',
+    'viewerState:write',
+    'measurements:read',
+    'measurements:write'
+  ],
+  referrer: ['annotations:read', 'viewerState:read', 'measurements:read']
+};
+
+const getPermissions = role => ROLE_PERMISSIONS[role] || [];
+
+const hasPermission = (user, permission) => getPermissions(user?.role).includes(permission);
+
+module.exports = {
+  ROLES,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  getPermissions,
+  hasPermission
+};
@@ -0,0 +1,88 @@
+// Tooth numbering helpers shared by the annotation, viewer state and user models.
+// Teeth are identified internally by their FDI number; Universal and Palmer values are
+// derived from the FDI quadrant (1-4 permanent, 5-8 primary) and position.
+
+const TOOTH_SYSTEMS = ['FDI', 'Universal', 'Palmer'];
+
+const PRIMARY_LETTERS = 'ABCDEFGHIJKLMNOPQRST';
+const PALMER_QUADRANTS = ['UR', 'UL', 'LL', 'LR'];
+
+const getUniversalValue = (quadrant, position) => {
+  switch (quadrant) {
+    case 1: return `${9 - position}`;
+    case 2: return `${8 + position}`;
+    case 3: return `${25 - position}`;
+    case 4: return `${24 + position}`;
+    case 5: return PRIMARY_LETTERS[5 - position];
+    case 6: return PRIMARY_LETTERS[4 + position];
+    case 7: return PRIMARY_LETTERS[15 - position];
+    case 8: return PRIMARY_LETTERS[14 + position];
+    default: return null;
+  }
+};
+
+const getPalmerValue = (quadrant, position) => {
+  const quadrantCode = PALMER_QUADRANTS[(quadrant - 1) % 4];
+  return quadrant > 4
+    ? `${quadrantCode}${PRIMARY_LETTERS[position - 1]}`
+    : `${quadrantCode}${position}`;
+};
+
+const TEETH = [];
+for (let quadrant = 1; quadrant <= 8; quadrant++) {
+  const teethInQuadrant = quadrant > 4 ? 5 : 8;
+  for (let position = 1; position <= teethInQuadrant; position++) {
+    TEETH.push({
+      FDI: `${quadrant}${position}`,
+      Universal: getUniversalValue(quadrant, position),
+      Palmer: getPalmerValue(quadrant, position),
+      dentition: quadrant > 4 ? 'primary' : 'permanent'
+    });
+  }
+}
+
+// Accepts the spellings used by the viewer ('UNIVERSAL', 'PALMER') as well as our own
+const normalizeToothSystem = (system) => {
+  const normalized = String(system || '').trim().toLowerCase();
+  return TOOTH_SYSTEMS.find(name => name.toLowerCase() === normalized) || null;
+};
+
+const findTooth = (tooth) => {
+  const system = normalizeToothSystem(tooth?.system);
+  if (!system || !tooth?.value) {
+    return null;
+  }
+
+  const value = String(tooth.value).trim().toUpperCase();
+  return TEETH.find(entry => entry[system] === value) || null;
+};
+
+const isValidTooth = (tooth) => Boolean(findTooth(tooth));
+
+// Converts a { system, value } tooth into another numbering system
+const convertTooth = (tooth, targetSystem) => {
+  const entry = findTooth(tooth);
+  const system = normalizeToothSystem(targetSystem);
+  if (!entry || !system) {
+    return null;
+  }
+  return { system, value: entry[system] };
+};
+
+// All spellings of the same tooth, used to match annotations tagged in any system
+const getEquivalentTeeth = (tooth) => {
+  const entry = findTooth(tooth);
+  if (!entry) {
+    return [];
+  }
+  return TOOTH_SYSTEMS.map(system => ({ system, value: entry[system] }));
+};
+
+module.exports = {
+  TOOTH_SYSTEMS,
+  normalizeToothSystem,
+  findTooth,
+  isValidTooth,
+  convertTooth,
+  getEquivalentTeeth
+};
@@ -0,0 +1,26 @@
+// Optimistic concurrency for writes the dental client replays after queueing them offline.
+// The client sends the version of the document it last saw in the X-Base-Version header;
+// a document saved since by someone else is reported as a conflict for the user to resolve.
+
+const BASE_VERSION_HEADER = 'X-Base-Version';
+
+const getBaseVersion = req => {
+  const value = parseInt(req.get(BASE_VERSION_HEADER), 10);
+  return Number.isFinite(value) ? value : null;
+};
+
+const isVersionConflict = (document, baseVersion) =>
+  baseVersion !== null && Boolean(document) && (document.version || 1) > baseVersion;
+
+const sendVersionConflict = (res, document) =>
+  res.status(409).json({
+    error: 'Version conflict',
+    currentVersion: document.version
+  });
+
+module.exports = {
+  BASE_VERSION_HEADER,
+  getBaseVersion,
+  isVersionConflict,
+  sendVersionConflict
+};
@@ -72,6 +72,20 @@ const commandsModule = (props: withAppTypes) => {
       // });
     },
 
+    /**
+     * Generates the naturalized report without storing or downloading it, so that
+     * callers can add content before saving it themselves.
+     *
+     * @param measurementData An array of measurements from the measurements service
+     * that you wish to serialize.
+     * @param additionalFindingTypes toolTypes that should be stored with labels as Findings
+     * @param options Naturalized DICOM JSON headers to merge into the displaySet.
+     * @return The naturalized report
+     */
+    generateReport: ({ measurementData, additionalFindingTypes = [], options = {} }) => {
+      return _generateReport(measurementData, additionalFindingTypes, options);
+    },
+
     /**
      *
      * @param measurementData An array of measurements from the measurements service
@@ -167,6 +181,7 @@ const commandsModule = (props: withAppTypes) => {
   };
 
   const definitions = {
+    generateReport: actions.generateReport,
     downloadReport: actions.downloadReport,
     storeMeasurements: actions.storeMeasurements,
     hydrateStructuredReport: actions.hydrateStructuredReport,
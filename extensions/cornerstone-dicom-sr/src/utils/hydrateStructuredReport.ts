@@ -197,6 +197,8 @@ export default function hydrateStructuredReport(
     };
   }
 
+  const onSRMeasurementHydration = customizationService.getCustomization('onSRMeasurementHydration');
+
   Object.keys(hydratableMeasurementsInSR).forEach(annotationType => {
     const toolDataForAnnotationType = hydratableMeasurementsInSR[annotationType];
 
@@ -228,6 +230,11 @@ export default function hydrateStructuredReport(
         }
       });
 
+      // Lets extensions restore their own metadata from the codes of the measurement group
+      if (typeof onSRMeasurementHydration === 'function') {
+        Object.assign(annotation.metadata, onSRMeasurementHydration({ annotation, toolData }));
+      }
+
       const matchingMapping = mappings.find(m => m.annotationType === annotationType);
 
       const newAnnotationUID = measurementService.addRawMeasurement(
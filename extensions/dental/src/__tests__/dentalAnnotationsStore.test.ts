@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for the local note store shared by the studies opened in the browser
+ */
+
+import {
+  getStoredToothFindings,
+  linkStoredAnnotation,
+  loadToothAnnotations,
+  saveToothAnnotations,
+} from '../dentalAnnotationsStore';
+
+const caries = { condition: 'caries', surfaces: ['O'], codes: { snomedCT: '80967001' } };
+const implant = { condition: 'implant', surfaces: [], codes: { cdt: 'D6010' } };
+
+describe('Dental annotations store', () => {
+  beforeEach(() => localStorage.clear());
+
+  test('should only report the findings noted on the study', () => {
+    const firstPatientNote = { id: 'first', text: 'Caries', findings: [caries] };
+    const secondPatientNote = { id: 'second', text: 'Implant', findings: [implant] };
+
+    saveToothAnnotations('FDI 36', [firstPatientNote], 'study-1');
+    // The panel hands back the first note without its study once the next patient is open
+    saveToothAnnotations('FDI 36', [firstPatientNote, secondPatientNote], 'study-2');
+    saveToothAnnotations('FDI 11', [{ id: 'legacy', text: 'Old', findings: [caries] }]);
+
+    expect(getStoredToothFindings('study-1')).toEqual([
+      { tooth: { system: 'FDI', value: '36' }, findings: [caries] },
+    ]);
+    expect(getStoredToothFindings('study-2')).toEqual([
+      { tooth: { system: 'FDI', value: '36' }, findings: [implant] },
+    ]);
+    expect(getStoredToothFindings(null)).toEqual([]);
+  });
+
+  test('should link stored notes to the annotation they were saved as', () => {
+    saveToothAnnotations('FDI 36', [{ id: 'note', text: 'Caries' }], 'study-1');
+
+    expect(linkStoredAnnotation('note', 'annotation-1')).toBe(true);
+    expect(loadToothAnnotations('FDI 36')).toEqual([
+      expect.objectContaining({
+        id: 'note',
+        backendId: 'annotation-1',
+        review: { status: 'draft' },
+      }),
+    ]);
+    expect(linkStoredAnnotation('deleted', 'annotation-2')).toBe(false);
+  });
+});
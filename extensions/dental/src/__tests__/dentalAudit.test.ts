@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for the audit trail descriptions
+ */
+
+import {
+  DentalAuditEvent,
+  describeDentalAuditChange,
+  describeDentalAuditEvent,
+  summarizeDentalAuditHistory,
+} from '../dentalAudit';
+
+const createEvent = (overrides: Partial<DentalAuditEvent>): DentalAuditEvent => ({
+  _id: 'event',
+  actor: { userId: 'user-1', username: 'jdoe', role: 'dentist' },
+  action: 'update',
+  resourceType: 'annotation',
+  resourceId: 'annotation-1',
+  changes: [],
+  createdAt: '2026-03-02T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('Dental audit trail', () => {
+  test('should describe who did what to the note', () => {
+    expect(describeDentalAuditEvent(createEvent({ action: 'review' }))).toBe(
+      'jdoe (dentist) reviewed the note'
+    );
+    expect(
+      describeDentalAuditEvent(createEvent({ actor: { userId: 'user-2' }, action: 'delete' }))
+    ).toBe('Unknown user deleted the note');
+  });
+
+  test('should show short values of changed fields and name the others', () => {
+    expect(describeDentalAuditChange({ path: 'status', before: 'draft', after: 'final' })).toBe(
+      'status: draft → final'
+    );
+    expect(describeDentalAuditChange({ path: 'isPrivate', after: true })).toBe(
+      'privacy: none → true'
+    );
+    expect(describeDentalAuditChange({ path: 'findings', before: [], after: [{}] })).toBe(
+      'findings changed'
+    );
+    expect(
+      describeDentalAuditChange({ path: 'content.text', before: 'Caries', after: 'x'.repeat(60) })
+    ).toBe('text changed');
+  });
+
+  test('should count the views per user apart from the changes', () => {
+    const summary = summarizeDentalAuditHistory([
+      createEvent({ _id: '4', action: 'view' }),
+      createEvent({ _id: '3', action: 'update' }),
+      createEvent({ _id: '2', action: 'view', actor: { userId: 'user-3', username: 'referrer' } }),
+      createEvent({ _id: '1', action: 'view' }),
+      createEvent({ _id: '0', action: 'create' }),
+    ]);
+
+    expect(summary.changes.map(event => event._id)).toEqual(['3', '0']);
+    expect(summary.viewers).toEqual([
+      { name: 'jdoe', count: 2 },
+      { name: 'referrer', count: 1 },
+    ]);
+  });
+});
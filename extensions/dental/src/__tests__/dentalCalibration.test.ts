@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for dental image calibration
+ */
+
+import {
+  applyDentalCalibration,
+  createDentalCalibration,
+  getCalibrationKey,
+  getDentalCalibration,
+  restoreDentalCalibrations,
+  setDentalCalibration,
+  subscribeToDentalCalibrations,
+} from '../dentalCalibration';
+
+describe('Dental calibration', () => {
+  beforeEach(() => {
+    restoreDentalCalibrations({});
+  });
+
+  test('should scale from the known reference length', () => {
+    const calibration = createDentalCalibration({
+      referenceLabel: 'Implant',
+      referenceLength: 10,
+      measuredLength: 125,
+    });
+
+    expect(calibration).toMatchObject({ referenceLength: 10, measuredLength: 125, scale: 0.08 });
+    expect(applyDentalCalibration(250, calibration)).toBeCloseTo(20);
+    expect(applyDentalCalibration(250, null)).toBe(250);
+    expect(applyDentalCalibration(undefined, calibration)).toBeUndefined();
+  });
+
+  test('should reject references without a positive length', () => {
+    expect(
+      createDentalCalibration({ referenceLabel: 'Implant', referenceLength: 0, measuredLength: 5 })
+    ).toBeNull();
+    expect(
+      createDentalCalibration({ referenceLabel: 'Implant', referenceLength: 10, measuredLength: 0 })
+    ).toBeNull();
+  });
+
+  test('should key calibrations by SOP instance', () => {
+    expect(getCalibrationKey({ SOPInstanceUID: 'sop-1', referencedImageId: 'wadors:1' })).toBe(
+      'sop-1'
+    );
+    expect(getCalibrationKey({ referencedImageId: 'wadors:1' })).toBe('wadors:1');
+    expect(getCalibrationKey({})).toBeNull();
+  });
+
+  test('should store, clear and restore calibrations and notify listeners', () => {
+    const calibration = createDentalCalibration({
+      referenceLabel: 'Calibration ball',
+      referenceLength: 5,
+      measuredLength: 50,
+    });
+    const listener = jest.fn();
+    const unsubscribe = subscribeToDentalCalibrations(listener);
+
+    setDentalCalibration('sop-1', calibration);
+    expect(getDentalCalibration('sop-1')).toEqual(calibration);
+
+    setDentalCalibration('sop-1', null);
+    expect(getDentalCalibration('sop-1')).toBeNull();
+
+    restoreDentalCalibrations({ 'sop-2': calibration });
+    expect(getDentalCalibration('sop-2')).toEqual(calibration);
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    setDentalCalibration('sop-2', null);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
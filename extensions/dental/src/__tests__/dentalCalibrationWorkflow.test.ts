@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for calibrating dental measurements from a reference line of known length
+ */
+
+import {
+  initializeDentalMeasurements,
+  selectDentalMeasurementPreset,
+  startDentalCalibration,
+  teardownDentalMeasurements,
+} from '../dentalMeasurementsManager';
+import { getDentalCalibration, restoreDentalCalibrations } from '../dentalCalibration';
+
+// The core package pulls in the cornerstone rendering stack, which does not load under jsdom
+jest.mock('@ohif/core', () => {
+  let nextId = 0;
+  return { utils: { uuidv4: () => `uuid-${++nextId}` } };
+});
+
+const measurementService = {
+  subscribe: jest.fn((event: string, handler: (data: any) => void) => ({
+    unsubscribe: jest.fn(),
+  })),
+  update: jest.fn(),
+  getMeasurements: jest.fn(() => []),
+  EVENTS: {
+    MEASUREMENT_ADDED: 'MEASUREMENT_ADDED',
+    MEASUREMENT_UPDATED: 'MEASUREMENT_UPDATED',
+    MEASUREMENT_REMOVED: 'MEASUREMENT_REMOVED',
+    MEASUREMENTS_CLEARED: 'MEASUREMENTS_CLEARED',
+  },
+};
+
+const commandsManager = { runCommand: jest.fn() };
+
+const getHandler = (event: string) =>
+  measurementService.subscribe.mock.calls.find(([name]) => name === event)[1];
+
+const addReferenceLine = () =>
+  getHandler('MEASUREMENT_ADDED')({
+    measurement: { uid: 'reference', toolName: 'Length', SOPInstanceUID: 'sop-1', length: 125 },
+  });
+
+describe('Dental calibration workflow', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    restoreDentalCalibrations({});
+    initializeDentalMeasurements({
+      servicesManager: { services: { measurementService } } as any,
+      commandsManager: commandsManager as any,
+      toolGroupIds: ['dental'],
+    });
+  });
+
+  afterEach(() => {
+    teardownDentalMeasurements();
+  });
+
+  test('should calibrate the image from a reference line of known length', () => {
+    startDentalCalibration({ referenceLabel: 'Implant', referenceLength: 10 });
+    expect(commandsManager.runCommand).toHaveBeenCalledWith(
+      'setToolActive',
+      { toolName: 'Length', toolGroupIds: ['dental'] },
+      'CORNERSTONE'
+    );
+
+    addReferenceLine();
+
+    expect(getDentalCalibration('sop-1')).toMatchObject({
+      referenceUID: 'reference',
+      scale: 0.08,
+    });
+    expect(measurementService.update).toHaveBeenCalledWith(
+      'reference',
+      expect.objectContaining({ label: 'Calibration reference (Implant 10 mm)' }),
+      true
+    );
+  });
+
+  test('should scale dental lengths measured on a calibrated image', () => {
+    startDentalCalibration({ referenceLabel: 'Implant', referenceLength: 10 });
+    addReferenceLine();
+
+    selectDentalMeasurementPreset('root-length');
+    getHandler('MEASUREMENT_ADDED')({
+      measurement: { uid: 'root', toolName: 'Length', SOPInstanceUID: 'sop-1', length: 200 },
+    });
+
+    const [, updated] = measurementService.update.mock.calls.find(([uid]) => uid === 'root');
+    expect(updated.metadata.dentalValue).toBeCloseTo(16);
+    expect(updated.metadata.dentalCalibration).toMatchObject({ referenceLabel: 'Implant' });
+  });
+
+  test('should remove the calibration with its reference line', () => {
+    startDentalCalibration({ referenceLabel: 'Implant', referenceLength: 10 });
+    addReferenceLine();
+
+    getHandler('MEASUREMENT_REMOVED')({ measurement: 'reference' });
+
+    expect(getDentalCalibration('sop-1')).toBeNull();
+  });
+});
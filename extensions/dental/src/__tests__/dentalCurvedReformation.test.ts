@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for the curved planar reformation of dental CBCT
+ */
+
+import {
+  Point3,
+  createCrossSections,
+  createCurvedPanoramic,
+  createVolumeSampler,
+  getArchFrames,
+  interpolateArch,
+} from '../dentalCurvedReformation';
+import {
+  isCrossSectionReformation,
+  isCurvedPanoramicReconstruction,
+} from '../dentalHangingProtocolAttributes';
+
+const UP: Point3 = [0, 0, 1];
+
+// A 10 x 10 x 10 volume of 1 mm voxels whose value is the voxel's x + 10 * z
+const volume = {
+  dimensions: [10, 10, 10] as Point3,
+  spacing: [1, 1, 1] as Point3,
+  origin: [0, 0, 0] as Point3,
+  direction: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+  getValue: (index: number) => (index % 10) + 10 * Math.floor(index / 100),
+};
+
+describe('Dental curved reformation', () => {
+  test('should interpolate an open spline through the control points', () => {
+    const controlPoints: Point3[] = [
+      [0, 0, 0],
+      [10, 10, 0],
+      [20, 0, 0],
+    ];
+    const curve = interpolateArch(controlPoints, 4);
+
+    expect(curve[0]).toEqual(controlPoints[0]);
+    expect(curve[4]).toEqual(controlPoints[1]);
+    expect(curve[curve.length - 1]).toEqual(controlPoints[2]);
+    expect(curve).toHaveLength(9);
+  });
+
+  test('should sample the arch at a fixed spacing with in-plane normals', () => {
+    const frames = getArchFrames(
+      [
+        [0, 0, 0],
+        [10, 0, 0],
+        [20, 0, 0],
+      ],
+      { up: UP, spacing: 2 }
+    );
+
+    expect(frames).toHaveLength(11);
+    expect(frames[5].distance).toBe(10);
+    expect(frames[5].position[0]).toBeCloseTo(10);
+    expect(frames[5].tangent[0]).toBeCloseTo(1);
+    expect(frames[5].normal[1]).toBeCloseTo(1);
+    expect(frames[5].normal[2]).toBeCloseTo(0);
+  });
+
+  test('should interpolate voxel values and read outside points as background', () => {
+    const sample = createVolumeSampler(volume, -1000);
+
+    expect(sample([3, 4, 2])).toBe(23);
+    expect(sample([3.5, 4, 2])).toBeCloseTo(23.5);
+    expect(sample([3, 4, 2.5])).toBeCloseTo(28);
+    expect(sample([30, 4, 2])).toBe(-1000);
+  });
+
+  test('should build the panoramic with one column per frame and rows from the top', () => {
+    const sample = createVolumeSampler(volume);
+    const frames = getArchFrames(
+      [
+        [1, 5, 5],
+        [4, 5, 5],
+        [7, 5, 5],
+      ],
+      { up: UP, spacing: 1 }
+    );
+    const panoramic = createCurvedPanoramic(sample, frames, {
+      up: UP,
+      spacing: 1,
+      height: 4,
+      slabThickness: 0,
+    });
+
+    expect(panoramic.width).toBe(7);
+    expect(panoramic.height).toBe(5);
+    // Top row is z = 7, the middle row the arch plane at z = 5
+    expect(panoramic.pixelData[0]).toBeCloseTo(71);
+    expect(panoramic.pixelData[2 * panoramic.width + 3]).toBeCloseTo(54);
+  });
+
+  test('should place cross-sections perpendicular to the arch', () => {
+    const sample = createVolumeSampler(volume);
+    const frames = getArchFrames(
+      [
+        [1, 5, 5],
+        [4, 5, 5],
+        [7, 5, 5],
+      ],
+      { up: UP, spacing: 1 }
+    );
+    const sections = createCrossSections(sample, frames, {
+      up: UP,
+      spacing: 1,
+      height: 4,
+      width: 4,
+      interval: 3,
+    });
+
+    expect(sections.map(section => section.distance)).toEqual([0, 3, 6]);
+    expect(sections[1].origin).toEqual([4, 3, 7]);
+    expect(sections[1].rowDirection[1]).toBeCloseTo(1);
+    expect(sections[1].columnDirection[2]).toBeCloseTo(-1);
+    expect(sections[1].pixelData[0]).toBeCloseTo(74);
+  });
+
+  test('should recognise reformatted series for the CBCT layout', () => {
+    const panoramic = { Modality: 'CT', SeriesDescription: 'Curved panoramic reconstruction' };
+    const crossSections = { Modality: 'CT', SeriesDescription: 'Cross-sections' };
+
+    expect(isCurvedPanoramicReconstruction(panoramic)).toBe(true);
+    expect(isCrossSectionReformation(panoramic)).toBe(false);
+    expect(isCrossSectionReformation(crossSections)).toBe(true);
+    expect(isCurvedPanoramicReconstruction(crossSections)).toBe(false);
+  });
+});
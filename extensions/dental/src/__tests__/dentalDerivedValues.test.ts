@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for the dental values derived per tooth from paired presets
+ */
+
+import {
+  DENTAL_MEASUREMENT_PRESETS,
+  getDentalValuesByStudy,
+  getDentalValuesByTooth,
+  getDerivedDentalValues,
+  getDerivedDentalValuesByStudy,
+  initializeDentalMeasurements,
+  isDerivedDentalPreset,
+  subscribeToDerivedDentalValues,
+  teardownDentalMeasurements,
+} from '../dentalMeasurementsManager';
+
+// The core package pulls in the cornerstone rendering stack, which does not load under jsdom
+jest.mock('@ohif/core', () => {
+  let nextId = 0;
+  return { utils: { uuidv4: () => `uuid-${++nextId}` } };
+});
+
+const toothMeasurement = (
+  presetId: string,
+  value: number,
+  metadata = {},
+  referenceStudyUID = 'current'
+) => ({
+  uid: presetId,
+  referenceStudyUID,
+  metadata: {
+    dentalPresetId: presetId,
+    dentalValue: value,
+    dentalTooth: { system: 'FDI', value: '11' },
+    ...metadata,
+  },
+});
+
+const createMeasurementService = (stored: any[]) => ({
+  subscribe: jest.fn((event: string, handler: (data: any) => void) => ({
+    unsubscribe: jest.fn(),
+  })),
+  update: jest.fn(),
+  getMeasurements: jest.fn(() => stored),
+  EVENTS: {
+    MEASUREMENT_ADDED: 'MEASUREMENT_ADDED',
+    MEASUREMENT_UPDATED: 'MEASUREMENT_UPDATED',
+    MEASUREMENT_REMOVED: 'MEASUREMENT_REMOVED',
+    MEASUREMENTS_CLEARED: 'MEASUREMENTS_CLEARED',
+  },
+});
+
+// Initializes the manager on `stored` and returns the handler of a measurement service event
+const initialize = (stored: any[]) => {
+  const measurementService = createMeasurementService(stored);
+  initializeDentalMeasurements({
+    servicesManager: { services: { measurementService } } as any,
+    commandsManager: { runCommand: jest.fn() } as any,
+    toolGroupIds: ['dental'],
+  });
+
+  return (event: string) =>
+    measurementService.subscribe.mock.calls.find(([name]) => name === event)[1];
+};
+
+describe('Dental derived values', () => {
+  afterEach(() => {
+    teardownDentalMeasurements();
+  });
+
+  test('should derive the bone loss and crown-to-root ratio from their source presets', () => {
+    expect(
+      DENTAL_MEASUREMENT_PRESETS.filter(isDerivedDentalPreset).map(({ id, derivedFrom }) => ({
+        id,
+        derivedFrom,
+      }))
+    ).toEqual([
+      { id: 'bone-loss', derivedFrom: ['cej-crest', 'root-length'] },
+      { id: 'crown-root-ratio', derivedFrom: ['crown-length', 'root-length'] },
+    ]);
+  });
+
+  test('should compute the crown-to-root ratio once both sources are measured', () => {
+    expect(getDerivedDentalValues({ '11': { 'crown-length': 10 } })).toEqual({});
+    expect(
+      getDerivedDentalValues({ '11': { 'crown-length': 10, 'root-length': 15 } })['11'][
+        'crown-root-ratio'
+      ]
+    ).toBeCloseTo(0.667, 3);
+    expect(getDerivedDentalValues({ '11': { 'crown-length': 10, 'root-length': 0 } })).toEqual({});
+  });
+
+  test('should use the latest measurement of each preset on a tooth', () => {
+    expect(
+      getDentalValuesByTooth([
+        toothMeasurement('root-length', 20, { dentalCreatedAt: 2 }),
+        toothMeasurement('root-length', 18, { dentalCreatedAt: 1 }),
+        toothMeasurement('crown-length', 9, { dentalTooth: { system: 'UNIVERSAL', value: '8' } }),
+        toothMeasurement('crown-length', 7, { dentalTooth: undefined }),
+      ])
+    ).toEqual({ '11': { 'root-length': 20, 'crown-length': 9 } });
+  });
+
+  test('should not combine the measurements of a tooth on the current and a prior study', () => {
+    const measurements = [
+      toothMeasurement('crown-length', 10),
+      toothMeasurement('root-length', 20, {}, 'prior'),
+      toothMeasurement('crown-length', 8, {}, 'prior'),
+    ];
+
+    expect(getDentalValuesByStudy(measurements)).toEqual({
+      current: { '11': { 'crown-length': 10 } },
+      prior: { '11': { 'root-length': 20, 'crown-length': 8 } },
+    });
+    expect(getDerivedDentalValuesByStudy(getDentalValuesByStudy(measurements))).toEqual({
+      prior: { '11': { 'crown-root-ratio': 0.4 } },
+    });
+  });
+
+  test('should recompute derived values when a source measurement is updated', () => {
+    const stored = [toothMeasurement('crown-length', 10), toothMeasurement('root-length', 20)];
+    const getHandler = initialize(stored);
+    const listener = jest.fn();
+    const unsubscribe = subscribeToDerivedDentalValues(listener);
+
+    stored[1] = toothMeasurement('root-length', 25);
+    getHandler('MEASUREMENT_UPDATED')({ measurement: stored[1] });
+
+    expect(listener).toHaveBeenCalledWith({ current: { '11': { 'crown-root-ratio': 0.4 } } });
+    unsubscribe();
+  });
+
+  test('should drop derived values when a source measurement is removed', () => {
+    const stored = [toothMeasurement('crown-length', 10), toothMeasurement('root-length', 20)];
+    const getHandler = initialize(stored);
+    const listener = jest.fn();
+    const unsubscribe = subscribeToDerivedDentalValues(listener);
+
+    stored.pop();
+    getHandler('MEASUREMENT_REMOVED')({ measurement: 'root-length' });
+
+    expect(listener).toHaveBeenLastCalledWith({});
+    unsubscribe();
+  });
+});
@@ -21,6 +21,7 @@ const mockMeasurementService = {
   EVENTS: {
     MEASUREMENT_ADDED: 'MEASUREMENT_ADDED',
     MEASUREMENT_UPDATED: 'MEASUREMENT_UPDATED',
+    MEASUREMENT_REMOVED: 'MEASUREMENT_REMOVED',
     MEASUREMENTS_CLEARED: 'MEASUREMENTS_CLEARED',
   },
 };
@@ -98,7 +99,7 @@ describe('Dental Extension - Core Features Test', () => {
         const getHangingProtocolModule = require('../getHangingProtocolModule').default;
         const protocols = getHangingProtocolModule();
 
-        expect(protocols).toHaveLength(1);
+        expect(protocols).toHaveLength(4);
         const protocol = protocols[0].protocol;
 
         // Verify protocol configuration
@@ -122,14 +123,18 @@ describe('Dental Extension - Core Features Test', () => {
 
   describe('✅ B) Dental Measurements Palette Requirements', () => {
     describe('1. Measurements Button and Palette', () => {
-      test('should have all 4 required measurement presets', () => {
-        expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(4);
+      test('should have all required measurement presets', () => {
+        expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(10);
 
         const presetIds = DENTAL_MEASUREMENT_PRESETS.map(p => p.id);
         expect(presetIds).toContain('periapical-length');
         expect(presetIds).toContain('canal-angle');
         expect(presetIds).toContain('crown-width');
         expect(presetIds).toContain('root-length');
+        expect(presetIds).toContain('cej-crest');
+        expect(presetIds).toContain('bone-loss');
+        expect(presetIds).toContain('crown-length');
+        expect(presetIds).toContain('crown-root-ratio');
       });
 
       test('should have correct preset configurations for Periapical length (mm)', () => {
@@ -187,7 +192,7 @@ describe('Dental Extension - Core Features Test', () => {
       });
 
       test('should initialize measurement system and subscribe to events', () => {
-        expect(mockMeasurementService.subscribe).toHaveBeenCalledTimes(3);
+        expect(mockMeasurementService.subscribe).toHaveBeenCalledTimes(4);
         expect(mockMeasurementService.subscribe).toHaveBeenCalledWith(
           'MEASUREMENT_ADDED',
           expect.any(Function)
@@ -196,6 +201,10 @@ describe('Dental Extension - Core Features Test', () => {
           'MEASUREMENT_UPDATED',
           expect.any(Function)
         );
+        expect(mockMeasurementService.subscribe).toHaveBeenCalledWith(
+          'MEASUREMENT_REMOVED',
+          expect.any(Function)
+        );
         expect(mockMeasurementService.subscribe).toHaveBeenCalledWith(
           'MEASUREMENTS_CLEARED',
           expect.any(Function)
@@ -406,8 +415,8 @@ describe('Dental Extension - Core Features Test', () => {
         toolGroupIds: ['dental', 'default'],
       });
 
-      // Should have subscribed again (3 times for each initialization)
-      expect(mockMeasurementService.subscribe).toHaveBeenCalledTimes(6);
+      // Should have subscribed again (4 times for each initialization)
+      expect(mockMeasurementService.subscribe).toHaveBeenCalledTimes(8);
     });
   });
 
@@ -464,13 +473,19 @@ describe('🎯 Requirements Verification Summary', () => {
   });
 
   test('✅ All Dental Measurements Palette requirements are implemented', () => {
-    // B.1 - Measurements button and palette with 4 presets
-    expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(4);
+    // B.1 - Measurements button and palette with the 4 core presets plus periodontal, crown-to-root and implant ones
+    expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(10);
     expect(DENTAL_MEASUREMENT_PRESETS.map(p => p.id)).toEqual([
       'periapical-length',
       'canal-angle', 
       'crown-width',
-      'root-length'
+      'crown-length',
+      'root-length',
+      'cej-crest',
+      'bone-loss',
+      'crown-root-ratio',
+      'implant',
+      'mandibular-canal',
     ]);
 
     // B.2 - Auto-labeling and tool activation
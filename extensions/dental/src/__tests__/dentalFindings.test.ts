@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for the dental findings catalogue
+ */
+
+import {
+  formatFinding,
+  getSuggestedFindingCodes,
+  getToothSurfaces,
+  normalizeFinding,
+} from '../dentalFindings';
+
+describe('Dental findings', () => {
+  test('should offer the incisal edge on anterior teeth and the occlusal surface on posterior teeth', () => {
+    expect(getToothSurfaces({ system: 'FDI', value: '11' })).toEqual(['M', 'D', 'B', 'L', 'I']);
+    expect(getToothSurfaces({ system: 'UNIVERSAL', value: '30' })).toEqual([
+      'M',
+      'O',
+      'D',
+      'B',
+      'L',
+    ]);
+    expect(getToothSurfaces({ system: 'FDI', value: '53' })).toContain('I');
+    expect(getToothSurfaces(null)).toEqual(['M', 'O', 'D', 'B', 'L', 'I']);
+  });
+
+  test('should suggest codes for the tooth the finding is on', () => {
+    expect(getSuggestedFindingCodes('caries', null)).toEqual({ snomedCT: '80967001' });
+    expect(getSuggestedFindingCodes('root-canal-treated', { system: 'FDI', value: '21' })).toEqual({
+      cdt: 'D3310',
+    });
+    expect(getSuggestedFindingCodes('root-canal-treated', { system: 'FDI', value: '24' })).toEqual({
+      cdt: 'D3320',
+    });
+    expect(
+      getSuggestedFindingCodes('root-canal-treated', { system: 'PALMER', value: 'LL6' })
+    ).toEqual({ cdt: 'D3330' });
+    // Primary teeth are not covered by the endodontic therapy codes
+    expect(getSuggestedFindingCodes('root-canal-treated', { system: 'FDI', value: '75' })).toEqual(
+      {}
+    );
+    expect(getSuggestedFindingCodes('missing', { system: 'FDI', value: '36' })).toEqual({});
+  });
+
+  test('should order surfaces and drop them for whole-tooth conditions', () => {
+    expect(
+      normalizeFinding({
+        condition: 'caries',
+        surfaces: ['D', 'M', 'O', 'M'],
+        severity: 'moderate',
+        codes: { snomedCT: ' 80967001 ', cdt: '' },
+      })
+    ).toEqual({
+      condition: 'caries',
+      surfaces: ['M', 'O', 'D'],
+      severity: 'moderate',
+      codes: { snomedCT: '80967001' },
+    });
+
+    expect(
+      normalizeFinding({ condition: 'implant', surfaces: ['O'], codes: { cdt: 'd6010' } })
+    ).toEqual({ condition: 'implant', surfaces: [], codes: { cdt: 'D6010' } });
+  });
+
+  test('should format findings with their surfaces and severity', () => {
+    expect(
+      formatFinding({ condition: 'caries', surfaces: ['M', 'O', 'D'], severity: 'severe' })
+    ).toBe('Caries MOD (severe)');
+    expect(formatFinding({ condition: 'periapical-lesion', surfaces: [] })).toBe(
+      'Periapical lesion'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for the FMX anatomic mount
+ */
+
+import { FMX_MOUNT_SLOTS, assignFmxSlots, getFmxSlotForImage } from '../dentalFmxMount';
+import { getFmxPlacements } from '../dentalHangingProtocolAttributes';
+
+const codedImage = (meaning: string, laterality?: string, extra: Record<string, unknown> = {}) => ({
+  AnatomicRegionSequence: [{ CodeMeaning: meaning }],
+  ImageLaterality: laterality,
+  ...extra,
+});
+
+describe('FMX mount', () => {
+  test('should define the 18-image anatomic mount', () => {
+    expect(FMX_MOUNT_SLOTS).toHaveLength(18);
+    expect(FMX_MOUNT_SLOTS.filter(slot => slot.row === 'bitewing')).toHaveLength(4);
+    expect(FMX_MOUNT_SLOTS[0]).toMatchObject({ id: 'max-R-molar', label: 'Maxillary right molar' });
+    expect(FMX_MOUNT_SLOTS[3]).toMatchObject({ id: 'max-incisor', side: undefined });
+  });
+
+  test('should place coded images from region, view and laterality', () => {
+    expect(getFmxSlotForImage(codedImage('Maxillary molar region', 'R'))).toBe('max-R-molar');
+    expect(getFmxSlotForImage(codedImage('Mandibular premolar region', 'L'))).toBe(
+      'mand-L-premolar'
+    );
+    expect(getFmxSlotForImage(codedImage('Maxillary incisor region'))).toBe('max-incisor');
+    expect(
+      getFmxSlotForImage({
+        ViewCodeSequence: [{ CodeMeaning: 'Bitewing' }],
+        SeriesDescription: 'Left molar',
+      })
+    ).toBe('bw-L-molar');
+  });
+
+  test('should not place images without enough information', () => {
+    expect(getFmxSlotForImage({})).toBeNull();
+    expect(getFmxSlotForImage(codedImage('Maxillary molar region'))).toBeNull();
+  });
+
+  test('should fill free slots in mount order with uncoded images', () => {
+    const slots = assignFmxSlots([
+      {},
+      codedImage('Maxillary molar region', 'R'),
+      {},
+      codedImage('Maxillary molar region', 'R'),
+    ]);
+
+    expect(slots['max-R-molar']).toBe(1);
+    expect(slots['max-R-premolar']).toBe(0);
+    expect(slots['max-R-canine']).toBe(2);
+    expect(slots['max-incisor']).toBe(3);
+    expect(Object.keys(slots)).toHaveLength(4);
+  });
+
+  test('should place images of a single stack by image index', () => {
+    const images = [
+      codedImage('Mandibular molar region', 'R', { InstanceNumber: 2 }),
+      codedImage('Maxillary molar region', 'L', { InstanceNumber: 1 }),
+    ];
+    const placements = getFmxPlacements([
+      { displaySetInstanceUID: 'ds-1', StudyInstanceUID: 'study-1', Modality: 'IO', images },
+      { displaySetInstanceUID: 'ds-2', StudyInstanceUID: 'study-1', Modality: 'PX', images: [{}] },
+    ]);
+
+    expect(placements['max-L-molar']).toEqual({ displaySetInstanceUID: 'ds-1', index: 1 });
+    expect(placements['mand-R-molar']).toEqual({ displaySetInstanceUID: 'ds-1', index: 0 });
+    expect(Object.keys(placements)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for the panoramic and CBCT hanging protocol attributes
+ */
+
+import {
+  CBCT_MIN_SLICES,
+  getDisplaySetModalities,
+  isCurvedPanoramicReconstruction,
+  isDentalCbctVolume,
+} from '../dentalHangingProtocolAttributes';
+
+const cbctVolume = (extra: Record<string, unknown> = {}) => ({
+  Modality: 'CT',
+  isReconstructable: true,
+  numImageFrames: 400,
+  SeriesDescription: 'CBCT full arch',
+  ...extra,
+});
+
+describe('Dental hanging protocol attributes', () => {
+  test('should list the distinct displayable modalities', () => {
+    expect(
+      getDisplaySetModalities([
+        { Modality: 'PX' },
+        { Modality: 'IO' },
+        { Modality: 'PX' },
+        { Modality: 'SR', unsupported: true },
+        {},
+      ])
+    ).toEqual(['PX', 'IO']);
+    expect(getDisplaySetModalities()).toEqual([]);
+  });
+
+  test('should detect reconstructable CBCT volumes', () => {
+    expect(isDentalCbctVolume(cbctVolume())).toBe(true);
+    expect(isDentalCbctVolume(cbctVolume({ isReconstructable: false }))).toBe(false);
+    expect(isDentalCbctVolume(cbctVolume({ numImageFrames: CBCT_MIN_SLICES - 1 }))).toBe(false);
+    expect(isDentalCbctVolume(cbctVolume({ Modality: 'PX' }))).toBe(false);
+    expect(isDentalCbctVolume(undefined)).toBe(false);
+  });
+
+  test('should tell curved panoramic reconstructions from radiographs and volumes', () => {
+    expect(
+      isCurvedPanoramicReconstruction({ Modality: 'CT', SeriesDescription: 'Curved MPR' })
+    ).toBe(true);
+    expect(
+      isCurvedPanoramicReconstruction({
+        Modality: 'OT',
+        ImageType: ['DERIVED', 'SECONDARY', 'CPR'],
+      })
+    ).toBe(true);
+    expect(
+      isCurvedPanoramicReconstruction({ Modality: 'PX', SeriesDescription: 'Panoramic' })
+    ).toBe(false);
+    expect(isCurvedPanoramicReconstruction(cbctVolume({ SeriesDescription: 'Curved' }))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for dental implant planning
+ */
+
+import { Point3 } from '../dentalCurvedReformation';
+import {
+  DENTAL_IMPLANT_LIBRARY,
+  DentalImplantSpec,
+  formatImplantSpec,
+  getImplantAxis,
+  getImplantClearances,
+  getImplantOutline,
+  getImplantRadiusAt,
+  getSegmentDistance,
+} from '../dentalImplants';
+
+const cylinder: DentalImplantSpec = {
+  id: 'cylinder-4x10',
+  label: 'Cylinder Ø4 × 10 mm',
+  shape: 'cylinder',
+  diameter: 4,
+  length: 10,
+};
+
+const tapered: DentalImplantSpec = {
+  ...cylinder,
+  id: 'tapered-4x10',
+  shape: 'tapered',
+  apexDiameter: 2,
+};
+
+// An implant in tooth FDI 36 pointing down from its platform at the origin
+const implant = (spec: DentalImplantSpec = cylinder, extra: Record<string, unknown> = {}) => ({
+  uid: 'implant',
+  FrameOfReferenceUID: 'cbct',
+  points: [
+    [0, 0, 0],
+    [0, 0, -3],
+  ] as Point3[],
+  metadata: { dentalImplant: spec, dentalTooth: { system: 'FDI', value: '36' } },
+  ...extra,
+});
+
+const mark = (uid: string, dentalPresetId: string, points: Point3[], tooth?: string) => ({
+  uid,
+  FrameOfReferenceUID: 'cbct',
+  points,
+  metadata: {
+    dentalPresetId,
+    dentalTooth: tooth ? { system: 'FDI', value: tooth } : undefined,
+  },
+});
+
+describe('Dental implants', () => {
+  test('should offer a library of cylinder and tapered implants', () => {
+    expect(DENTAL_IMPLANT_LIBRARY.length).toBeGreaterThan(0);
+    expect(new Set(DENTAL_IMPLANT_LIBRARY.map(spec => spec.id)).size).toBe(
+      DENTAL_IMPLANT_LIBRARY.length
+    );
+    DENTAL_IMPLANT_LIBRARY.filter(spec => spec.shape === 'tapered').forEach(spec =>
+      expect(spec.apexDiameter).toBeLessThan(spec.diameter)
+    );
+    expect(formatImplantSpec(tapered)).toBe('Ø4 × 10 mm tapered');
+  });
+
+  test('should put the apex at the implant length along the handle direction', () => {
+    const { apex, direction } = getImplantAxis(implant().points, cylinder);
+
+    expect(apex).toEqual([0, 0, -10]);
+    expect(direction[2]).toBeCloseTo(-1);
+  });
+
+  test('should narrow tapered implants towards the apex', () => {
+    expect(getImplantRadiusAt(cylinder, 1)).toBe(2);
+    expect(getImplantRadiusAt(tapered, 0)).toBe(2);
+    expect(getImplantRadiusAt(tapered, 0.5)).toBe(1.5);
+    expect(getImplantRadiusAt(tapered, 1)).toBe(1);
+
+    const outline = getImplantOutline(implant(tapered).points, tapered, [0, 1, 0]);
+    expect(outline.map(point => Math.abs(point[0]))).toEqual([2, 1, 1, 2]);
+    expect(outline[1][2]).toBe(-10);
+  });
+
+  test('should measure the distance between segments', () => {
+    expect(getSegmentDistance([0, 0, 0], [0, 0, -10], [3, 0, -5], [3, 0, -5]).distance).toBe(3);
+    expect(getSegmentDistance([0, 0, 0], [0, 0, -10], [0, 4, 5], [0, 4, 1]).distance).toBeCloseTo(
+      Math.sqrt(17)
+    );
+    expect(getSegmentDistance([0, 0, 0], [0, 0, -10], [-5, 2, -4], [5, 2, -4])).toEqual({
+      distance: 2,
+      t: 0.4,
+    });
+  });
+
+  test('should report the clearance to the nearest mandibular canal mark', () => {
+    const clearances = getImplantClearances(implant(), [
+      // Canal of 3 mm diameter centred 6 mm below the apex
+      mark('canal', 'mandibular-canal', [
+        [0, 0, -16],
+        [1.5, 0, -16],
+      ]),
+      mark('far-canal', 'mandibular-canal', [
+        [0, 0, -30],
+        [1.5, 0, -30],
+      ]),
+      {
+        ...mark('other-frame', 'mandibular-canal', [
+          [0, 0, -11],
+          [1, 0, -11],
+        ]),
+        FrameOfReferenceUID: 'x',
+      },
+    ]);
+
+    expect(clearances.canal).toEqual({ measurementUID: 'canal', distance: 2.5 });
+  });
+
+  test('should report the clearance to the roots of other teeth', () => {
+    const clearances = getImplantClearances(implant(tapered), [
+      mark(
+        'root-35',
+        'root-length',
+        [
+          [5, 0, 0],
+          [5, 0, -12],
+        ],
+        '35'
+      ),
+      mark(
+        'root-37',
+        'root-length',
+        [
+          [-4, 0, 0],
+          [-3, 0, -10],
+        ],
+        '37'
+      ),
+      mark(
+        'root-36',
+        'root-length',
+        [
+          [1, 0, 0],
+          [1, 0, -12],
+        ],
+        '36'
+      ),
+    ]);
+
+    expect(clearances.roots.map(root => root.tooth?.value)).toEqual(['37', '35']);
+    // Closest at the apex of the tapered implant, where it is narrowest
+    expect(clearances.roots[0].distance).toBeCloseTo(2);
+    expect(clearances.roots[1].distance).toBeCloseTo(3);
+  });
+
+  test('should report no clearances for measurements that are not implants', () => {
+    expect(getImplantClearances({ uid: 'line', points: [], metadata: {} }, [])).toEqual({
+      canal: null,
+      roots: [],
+    });
+  });
+
+  test('should report no clearances for an implant without its two points', () => {
+    expect(getImplantClearances(implant(cylinder, { points: undefined }), [])).toEqual({
+      canal: null,
+      roots: [],
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for the AI inference adapter and the suggestions it adds
+ */
+
+import {
+  createHttpInferenceProvider,
+  getDentalAISuggestedFindings,
+  getDentalAISuggestions,
+  getDentalInferenceProvider,
+  normalizeDentalInferenceResult,
+  toDentalAIRawMeasurement,
+} from '../dentalInference';
+
+// Answers like backend/mockInferenceServer.js for the image size in the request
+const createMockEndpoint = () =>
+  jest.fn(async (_url: string, { body }: { body: FormData }) => {
+    const { width, height, tooth } = JSON.parse(body.get('request') as string);
+    if (!body.get('image')) {
+      return { ok: false, status: 400, json: async () => ({}) };
+    }
+
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        model: 'mock-dental-detector-1',
+        detections: [
+          {
+            label: 'caries',
+            score: 0.87,
+            box: { x: width * 0.42, y: height * 0.3, width: 80, height: 48 },
+            tooth,
+          },
+        ],
+      }),
+    };
+  });
+
+describe('Dental AI inference', () => {
+  test('should read the answers of different model endpoints', () => {
+    const result = normalizeDentalInferenceResult({
+      predictions: [
+        { class: 'Decay', confidence: 1.2, bbox: { xmin: 10, ymin: 20, xmax: 40, ymax: 60 } },
+        { label: 'Periapical_radiolucency', score: 0.4, points: [0, 0, 10, 0, 10, 10], tooth: 36 },
+        { label: 'calculus', score: 0.9, box: [5, 5, 0, 0] },
+      ],
+    });
+
+    expect(result.detections).toEqual([
+      {
+        label: 'Decay',
+        condition: 'caries',
+        score: 1,
+        box: { x: 10, y: 20, width: 30, height: 40 },
+      },
+      {
+        label: 'Periapical_radiolucency',
+        condition: 'periapical-lesion',
+        score: 0.4,
+        polygon: [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+        ],
+        tooth: { system: 'FDI', value: '36' },
+      },
+    ]);
+  });
+
+  test('should send the image and request to the configured endpoint', async () => {
+    const endpoint = createMockEndpoint();
+    const provider = getDentalInferenceProvider({ url: 'http://localhost:5055/infer' });
+    const mockProvider = createHttpInferenceProvider({
+      url: 'http://localhost:5055/infer',
+      fetch: endpoint as any,
+    });
+
+    const result = await mockProvider.infer(new Blob(['png'], { type: 'image/png' }), {
+      width: 1000,
+      height: 800,
+      tooth: '36',
+      conditions: ['caries'],
+    });
+
+    expect(provider.id).toBe('http');
+    expect(endpoint).toHaveBeenCalledWith(
+      'http://localhost:5055/infer',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(result.model).toBe('mock-dental-detector-1');
+    expect(result.detections[0]).toMatchObject({
+      condition: 'caries',
+      box: { x: 420, y: 240 },
+      tooth: { system: 'FDI', value: '36' },
+    });
+    expect(getDentalInferenceProvider(null)).toBeNull();
+  });
+
+  test('should draw detections as pending suggestions in world coordinates', () => {
+    const toWorld = ([x, y]: [number, number]): [number, number, number] => [x / 10, y / 10, 5];
+    const options = {
+      toWorld,
+      referencedImageId: 'wadors:image-1',
+      FrameOfReferenceUID: '1.2.3',
+      providerId: 'http',
+      model: 'detector-1',
+      tooth: { system: 'UNIVERSAL' as const, value: '19' },
+    };
+
+    const box = toDentalAIRawMeasurement(
+      {
+        label: 'caries',
+        condition: 'caries',
+        score: 0.87,
+        box: { x: 10, y: 20, width: 30, height: 40 },
+      },
+      { ...options, uid: 'box' }
+    );
+    const outline = toDentalAIRawMeasurement(
+      {
+        label: 'lesion',
+        score: 0.5,
+        polygon: [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+        ],
+      },
+      { ...options, uid: 'outline' }
+    );
+
+    expect(box.toolName).toBe('RectangleROI');
+    expect(box.rawMeasurement.annotation.data.handles.points).toEqual([
+      [1, 2, 5],
+      [4, 2, 5],
+      [1, 6, 5],
+      [4, 6, 5],
+    ]);
+    expect(box.rawMeasurement.annotation.data.label).toBe('AI: Caries 87% (Universal 19)');
+    expect(box.rawMeasurement.annotation.metadata).toMatchObject({
+      referencedImageId: 'wadors:image-1',
+      dentalTooth: { system: 'UNIVERSAL', value: '19' },
+      dentalAI: { providerId: 'http', model: 'detector-1', score: 0.87, status: 'pending' },
+    });
+    expect(outline.toolName).toBe('PlanarFreehandROI');
+    expect(outline.rawMeasurement.annotation.data.contour).toEqual({
+      polyline: [
+        [0, 0, 5],
+        [1, 0, 5],
+        [1, 1, 5],
+      ],
+      closed: true,
+    });
+  });
+
+  test('should list pending suggestions only, with the finding they propose', () => {
+    const createMeasurement = (uid: string, status: string, score: number) => ({
+      uid,
+      metadata: {
+        dentalTooth: { system: 'FDI', value: '36' },
+        dentalAI: { providerId: 'http', label: 'caries', condition: 'caries', score, status },
+      },
+    });
+
+    const suggestions = getDentalAISuggestions([
+      createMeasurement('low', 'pending', 0.4),
+      createMeasurement('accepted', 'accepted', 0.9),
+      createMeasurement('high', 'pending', 0.8),
+      { uid: 'clinician', metadata: { dentalPresetId: 'root-length' } },
+    ]);
+
+    expect(suggestions.map(suggestion => suggestion.measurementUID)).toEqual(['high', 'low']);
+    expect(getDentalAISuggestedFindings(suggestions[0], suggestions[0].tooth)).toEqual([
+      { condition: 'caries', surfaces: [], codes: { snomedCT: '80967001' } },
+    ]);
+    expect(getDentalAISuggestedFindings({ condition: undefined }, null)).toEqual([]);
+  });
+});
@@ -33,6 +33,7 @@ const mockServicesManager = {
       EVENTS: {
         MEASUREMENT_ADDED: 'MEASUREMENT_ADDED',
         MEASUREMENT_UPDATED: 'MEASUREMENT_UPDATED',
+        MEASUREMENT_REMOVED: 'MEASUREMENT_REMOVED',
         MEASUREMENTS_CLEARED: 'MEASUREMENTS_CLEARED',
       },
     },
@@ -181,7 +182,7 @@ describe('Dental Extension - Complete Feature Test Suite', () => {
         fireEvent.change(systemSelect, { target: { value: 'UNIVERSAL' } });
         expect(mockOnChange).toHaveBeenCalledWith({
           system: 'UNIVERSAL',
-          value: '1', // First Universal tooth
+          value: '8', // FDI 11 converted to Universal
         });
       });
     });
@@ -192,7 +193,7 @@ describe('Dental Extension - Complete Feature Test Suite', () => {
         const getHangingProtocolModule = require('../getHangingProtocolModule').default;
         const protocols = getHangingProtocolModule();
 
-        expect(protocols).toHaveLength(1);
+        expect(protocols).toHaveLength(4);
         const protocol = protocols[0].protocol;
 
         expect(protocol.id).toBe('@ohif/hpDental2x2');
@@ -216,13 +217,17 @@ describe('Dental Extension - Complete Feature Test Suite', () => {
   describe('B) Dental Measurements Palette Feature', () => {
     describe('1. Measurements Button and Palette', () => {
       test('should have all required measurement presets', () => {
-        expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(4);
+        expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(10);
 
         const presetIds = DENTAL_MEASUREMENT_PRESETS.map(p => p.id);
         expect(presetIds).toContain('periapical-length');
         expect(presetIds).toContain('canal-angle');
         expect(presetIds).toContain('crown-width');
         expect(presetIds).toContain('root-length');
+        expect(presetIds).toContain('cej-crest');
+        expect(presetIds).toContain('bone-loss');
+        expect(presetIds).toContain('crown-length');
+        expect(presetIds).toContain('crown-root-ratio');
 
         // Check specific preset configurations
         const paPreset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === 'periapical-length');
@@ -270,7 +275,7 @@ describe('Dental Extension - Complete Feature Test Suite', () => {
         });
 
         // Should subscribe to measurement events
-        expect(mockServicesManager.services.measurementService.subscribe).toHaveBeenCalledTimes(3);
+        expect(mockServicesManager.services.measurementService.subscribe).toHaveBeenCalledTimes(4);
 
         // Test preset selection
         selectDentalMeasurementPreset('periapical-length');
@@ -22,6 +22,7 @@ const mockMeasurementService = {
   EVENTS: {
     MEASUREMENT_ADDED: 'MEASUREMENT_ADDED',
     MEASUREMENT_UPDATED: 'MEASUREMENT_UPDATED',
+    MEASUREMENT_REMOVED: 'MEASUREMENT_REMOVED',
     MEASUREMENTS_CLEARED: 'MEASUREMENTS_CLEARED',
   },
 };
@@ -44,13 +45,19 @@ describe('Dental Measurements Manager', () => {
 
   describe('DENTAL_MEASUREMENT_PRESETS', () => {
     test('should contain all required measurement presets', () => {
-      expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(4);
+      expect(DENTAL_MEASUREMENT_PRESETS).toHaveLength(10);
       
       const presetIds = DENTAL_MEASUREMENT_PRESETS.map(p => p.id);
       expect(presetIds).toContain('periapical-length');
       expect(presetIds).toContain('canal-angle');
       expect(presetIds).toContain('crown-width');
       expect(presetIds).toContain('root-length');
+      expect(presetIds).toContain('cej-crest');
+      expect(presetIds).toContain('bone-loss');
+      expect(presetIds).toContain('crown-length');
+      expect(presetIds).toContain('crown-root-ratio');
+      expect(presetIds).toContain('implant');
+      expect(presetIds).toContain('mandibular-canal');
     });
 
     test('should have correct preset configurations', () => {
@@ -160,7 +167,7 @@ describe('Dental Measurements Manager', () => {
         toolGroupIds: ['dental'],
       });
 
-      expect(mockMeasurementService.subscribe).toHaveBeenCalledTimes(3);
+      expect(mockMeasurementService.subscribe).toHaveBeenCalledTimes(4);
       expect(mockMeasurementService.subscribe).toHaveBeenCalledWith(
         'MEASUREMENT_ADDED',
         expect.any(Function)
@@ -169,6 +176,10 @@ describe('Dental Measurements Manager', () => {
         'MEASUREMENT_UPDATED',
         expect.any(Function)
       );
+      expect(mockMeasurementService.subscribe).toHaveBeenCalledWith(
+        'MEASUREMENT_REMOVED',
+        expect.any(Function)
+      );
       expect(mockMeasurementService.subscribe).toHaveBeenCalledWith(
         'MEASUREMENTS_CLEARED',
         expect.any(Function)
@@ -0,0 +1,257 @@
+/**
+ * Unit Tests for the dental measurements server sync
+ */
+
+import apiClient from '../services/apiClient';
+import {
+  initializeDentalMeasurementsSync,
+  restoreDentalMeasurementRecords,
+  teardownDentalMeasurementsSync,
+  toMeasurementRecord,
+  toRawMeasurement,
+} from '../dentalMeasurementsSync';
+
+jest.mock('../services/apiClient', () => ({
+  __esModule: true,
+  default: {
+    isAuthenticated: jest.fn(() => true),
+    saveMeasurement: jest.fn(() => Promise.resolve({})),
+    getMeasurements: jest.fn(() => Promise.resolve({ measurements: [] })),
+    deleteMeasurement: jest.fn(() => Promise.resolve({})),
+  },
+}));
+
+const mockApiClient = apiClient as any;
+
+const source = { name: 'Cornerstone3DTools', version: '0.1' };
+
+const measurement = {
+  uid: 'measurement-1',
+  source,
+  toolName: 'Length',
+  label: 'PA length (Universal 8)',
+  referenceStudyUID: 'study-1',
+  referenceSeriesUID: 'series-1',
+  SOPInstanceUID: 'sop-1',
+  FrameOfReferenceUID: 'for-1',
+  referencedImageId: 'wadors:sop-1',
+  frameNumber: 1,
+  points: [
+    [0, 0, 0],
+    [10, 0, 0],
+  ],
+  metadata: {
+    dentalPresetId: 'periapical-length',
+    dentalPresetLabel: 'PA length',
+    dentalUnit: 'mm',
+    dentalValue: 10,
+    dentalTooth: { system: 'UNIVERSAL', value: '8' },
+  },
+};
+
+const record = {
+  ...toMeasurementRecord(measurement),
+  measurementUID: 'measurement-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const handlers: Record<string, (event: any) => void> = {};
+const subscribe = jest.fn((event, handler) => {
+  handlers[event] = handler;
+  return { unsubscribe: jest.fn() };
+});
+
+const measurements = new Map<string, any>();
+const toMeasurementSchema = jest.fn();
+
+const mockMeasurementService = {
+  EVENTS: {
+    MEASUREMENT_ADDED: 'MEASUREMENT_ADDED',
+    MEASUREMENT_UPDATED: 'MEASUREMENT_UPDATED',
+    MEASUREMENT_REMOVED: 'MEASUREMENT_REMOVED',
+  },
+  subscribe,
+  getMeasurement: jest.fn(uid => measurements.get(uid)),
+  getMeasurements: jest.fn(() => [...measurements.values()]),
+  remove: jest.fn(uid => {
+    measurements.delete(uid);
+    handlers.MEASUREMENT_REMOVED({ measurement: uid });
+  }),
+  getSource: jest.fn(() => source),
+  getSourceMappings: jest.fn(() => [{ annotationType: 'Length', toMeasurementSchema }]),
+  addRawMeasurement: jest.fn((rawSource, annotationType, data) => {
+    const restored = { ...measurement, uid: data.uid };
+    measurements.set(data.uid, restored);
+    handlers.MEASUREMENT_ADDED({ measurement: restored });
+    return data.uid;
+  }),
+};
+
+const loadedSeries = new Set<string>();
+const mockDisplaySetService = {
+  EVENTS: { DISPLAY_SETS_ADDED: 'DISPLAY_SETS_ADDED' },
+  subscribe,
+  getActiveDisplaySets: jest.fn(() => []),
+  getDisplaySetsForSeries: jest.fn(seriesInstanceUID =>
+    loadedSeries.has(seriesInstanceUID)
+      ? [{ instances: [{ SOPInstanceUID: 'sop-1', imageId: 'wadors:current/sop-1' }] }]
+      : []
+  ),
+};
+
+const dataSource = { name: 'dicomweb' };
+
+const initialize = () =>
+  initializeDentalMeasurementsSync({
+    servicesManager: {
+      services: {
+        measurementService: mockMeasurementService,
+        displaySetService: mockDisplaySetService,
+      },
+    } as any,
+    extensionManager: { getActiveDataSource: () => [dataSource] } as any,
+  });
+
+const flushPromises = () =>
+  new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+describe('Dental measurements sync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    measurements.clear();
+    loadedSeries.clear();
+    initialize();
+  });
+
+  afterEach(() => {
+    teardownDentalMeasurementsSync();
+    jest.useRealTimers();
+  });
+
+  test('should serialize measurements with the tooth in backend system names', () => {
+    expect(record).toMatchObject({
+      studyInstanceUID: 'study-1',
+      seriesInstanceUID: 'series-1',
+      sopInstanceUID: 'sop-1',
+      toolName: 'Length',
+      tooth: { system: 'Universal', value: '8' },
+      preset: { id: 'periapical-length', label: 'PA length' },
+      value: 10,
+      unit: 'mm',
+      annotation: { points: measurement.points, referencedImageId: 'wadors:sop-1' },
+    });
+  });
+
+  test('should restore the dental metadata from a stored record', () => {
+    const raw = toRawMeasurement(record, 'wadors:current/sop-1');
+
+    expect(raw.uid).toBe('measurement-1');
+    expect(raw.annotation.data.handles.points).toEqual(measurement.points);
+    expect(raw.annotation.metadata).toMatchObject({
+      toolName: 'Length',
+      referencedImageId: 'wadors:current/sop-1',
+      dentalPresetId: 'periapical-length',
+      dentalTooth: { system: 'UNIVERSAL', value: '8' },
+      dentalCreatedAt: Date.parse('2024-01-01T00:00:00.000Z'),
+    });
+  });
+
+  test('should debounce pushes while a measurement is edited', () => {
+    measurements.set(measurement.uid, measurement);
+
+    handlers.MEASUREMENT_ADDED({ measurement });
+    handlers.MEASUREMENT_UPDATED({ measurement });
+    handlers.MEASUREMENT_UPDATED({ measurement });
+    expect(mockApiClient.saveMeasurement).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+    expect(mockApiClient.saveMeasurement).toHaveBeenCalledTimes(1);
+    expect(mockApiClient.saveMeasurement).toHaveBeenCalledWith(
+      'measurement-1',
+      expect.objectContaining({ label: 'PA length (Universal 8)' })
+    );
+  });
+
+  test('should delete removed measurements and drop their pending push', () => {
+    measurements.set(measurement.uid, measurement);
+
+    handlers.MEASUREMENT_ADDED({ measurement });
+    handlers.MEASUREMENT_REMOVED({ measurement: measurement.uid });
+    jest.runAllTimers();
+
+    expect(mockApiClient.deleteMeasurement).toHaveBeenCalledWith('measurement-1');
+    expect(mockApiClient.saveMeasurement).not.toHaveBeenCalled();
+  });
+
+  test('should not push measurements while signed out', () => {
+    mockApiClient.isAuthenticated.mockReturnValueOnce(false);
+    measurements.set(measurement.uid, measurement);
+
+    handlers.MEASUREMENT_ADDED({ measurement });
+    jest.runAllTimers();
+
+    expect(mockApiClient.saveMeasurement).not.toHaveBeenCalled();
+  });
+
+  test('should restore stored measurements once their series is loaded', async () => {
+    mockApiClient.getMeasurements.mockResolvedValueOnce({
+      measurements: [record],
+      pagination: { hasMore: false },
+    });
+
+    handlers.DISPLAY_SETS_ADDED({ displaySetsAdded: [{ StudyInstanceUID: 'study-1' }] });
+    await flushPromises();
+
+    expect(mockApiClient.getMeasurements).toHaveBeenCalledWith(
+      expect.objectContaining({ studyInstanceUID: 'study-1' })
+    );
+    expect(mockMeasurementService.addRawMeasurement).not.toHaveBeenCalled();
+
+    loadedSeries.add('series-1');
+    handlers.DISPLAY_SETS_ADDED({ displaySetsAdded: [{ StudyInstanceUID: 'study-1' }] });
+    await flushPromises();
+
+    expect(mockApiClient.getMeasurements).toHaveBeenCalledTimes(1);
+    expect(mockMeasurementService.addRawMeasurement).toHaveBeenCalledWith(
+      source,
+      'Length',
+      expect.objectContaining({ uid: 'measurement-1' }),
+      toMeasurementSchema,
+      dataSource
+    );
+
+    // The restored measurement is not pushed straight back to the server
+    jest.runAllTimers();
+    expect(mockApiClient.saveMeasurement).not.toHaveBeenCalled();
+  });
+
+  test('should replace measurements edited or added since a rolled back state', async () => {
+    loadedSeries.add('series-1');
+    measurements.set('measurement-1', {
+      ...measurement,
+      points: [
+        [0, 0, 0],
+        [12, 0, 0],
+      ],
+    });
+    measurements.set('measurement-2', { ...measurement, uid: 'measurement-2' });
+
+    restoreDentalMeasurementRecords([record], { replace: true });
+    await flushPromises();
+
+    expect(mockMeasurementService.remove).toHaveBeenCalledWith('measurement-1');
+    expect(mockMeasurementService.remove).toHaveBeenCalledWith('measurement-2');
+    expect(mockApiClient.deleteMeasurement).toHaveBeenCalledWith('measurement-2');
+    expect(mockMeasurementService.addRawMeasurement).toHaveBeenCalledTimes(1);
+    expect(measurements.get('measurement-1').points).toEqual(record.annotation.points);
+
+    // The edited measurement was deleted on the server, so its restored version is saved again
+    jest.runAllTimers();
+    expect(mockApiClient.saveMeasurement).toHaveBeenCalledTimes(1);
+    expect(mockApiClient.saveMeasurement).toHaveBeenCalledWith(
+      'measurement-1',
+      expect.objectContaining({ label: measurement.label })
+    );
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for periodontal charting helpers
+ */
+
+import {
+  computeBoneLossPercent,
+  getPatientAgeFromDicom,
+  getPeriodontalGrade,
+  getPeriodontalStage,
+  getPeriodontalSummary,
+} from '../dentalPeriodontal';
+import {
+  loadProbingChart,
+  saveToothProbingDepths,
+  subscribeToProbingChanges,
+} from '../dentalProbingStore';
+
+describe('Periodontal charting', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('should compute bone loss beyond the normal crest level', () => {
+    expect(computeBoneLossPercent(6, 16)).toBe(25);
+    expect(computeBoneLossPercent(1.5, 16)).toBe(0);
+    expect(computeBoneLossPercent(30, 16)).toBe(100);
+    expect(computeBoneLossPercent(6, 0)).toBeUndefined();
+    expect(computeBoneLossPercent(undefined, 16)).toBeUndefined();
+  });
+
+  test('should stage from bone loss and raise the stage for deep pockets', () => {
+    expect(getPeriodontalStage({ boneLossPercent: 10 })).toBe('I');
+    expect(getPeriodontalStage({ boneLossPercent: 25 })).toBe('II');
+    expect(getPeriodontalStage({ boneLossPercent: 40 })).toBe('III');
+    expect(getPeriodontalStage({ boneLossPercent: 10, maxProbingDepth: 5 })).toBe('II');
+    expect(getPeriodontalStage({ boneLossPercent: 10, maxProbingDepth: 7 })).toBe('III');
+    expect(getPeriodontalStage({})).toBeUndefined();
+  });
+
+  test('should grade from bone loss relative to age', () => {
+    expect(getPeriodontalGrade(10, 50)).toBe('A');
+    expect(getPeriodontalGrade(25, 50)).toBe('B');
+    expect(getPeriodontalGrade(60, 40)).toBe('C');
+    expect(getPeriodontalGrade(25, undefined)).toBeUndefined();
+  });
+
+  test('should read the patient age from DICOM attributes', () => {
+    expect(getPatientAgeFromDicom({ PatientAge: '045Y' })).toBe(45);
+    expect(getPatientAgeFromDicom({ PatientAge: '018M' })).toBe(1);
+    expect(getPatientAgeFromDicom({ PatientBirthDate: '19800615', StudyDate: '20240614' })).toBe(
+      43
+    );
+    expect(getPatientAgeFromDicom({})).toBeUndefined();
+  });
+
+  test('should summarize charted teeth in FDI order with the worst stage overall', () => {
+    const summary = getPeriodontalSummary({
+      probingByTooth: { '36': { MB: 3, B: 6, DB: 4 }, '11': { B: 2 } },
+      boneLossByTooth: { '36': 20 },
+      patientAge: 40,
+    });
+
+    expect(summary.teeth.map(tooth => tooth.toothKey)).toEqual(['11', '36']);
+    expect(summary.teeth[1]).toMatchObject({
+      maxProbingDepth: 6,
+      deepSites: 2,
+      boneLossPercent: 20,
+      stage: 'III',
+      grade: 'B',
+    });
+    expect(summary.stage).toBe('III');
+    expect(summary.grade).toBe('B');
+  });
+
+  test('should store probing depths per tooth and notify listeners', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToProbingChanges(listener);
+
+    saveToothProbingDepths('study-1', '36', { MB: 5 });
+    expect(loadProbingChart('study-1')).toEqual({ '36': { MB: 5 } });
+
+    saveToothProbingDepths('study-1', '36', {});
+    expect(loadProbingChart('study-1')).toEqual({});
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    saveToothProbingDepths('study-1', '11', { B: 3 });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test('should keep a probing chart per study', () => {
+    saveToothProbingDepths('study-1', '16', { DB: 6 });
+
+    // The next patient opened does not inherit the depths of the previous one
+    expect(loadProbingChart('study-2')).toEqual({});
+    saveToothProbingDepths('study-2', '16', { DB: 3 });
+    expect(loadProbingChart('study-1')['16']).toEqual({ DB: 6 });
+    expect(loadProbingChart('study-2')['16']).toEqual({ DB: 3 });
+
+    saveToothProbingDepths(null, '16', { DB: 9 });
+    expect(loadProbingChart(null)).toEqual({});
+  });
+});
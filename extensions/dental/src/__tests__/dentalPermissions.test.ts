@@ -0,0 +1,39 @@
+/**
+ * Unit Tests for the dental role permissions
+ */
+
+import {
+  DENTAL_ROLE_PERMISSIONS,
+  getDentalPermissions,
+  isDentalActionAllowed,
+} from '../dentalPermissions';
+
+describe('Dental permissions', () => {
+  test('should keep referrers read-only', () => {
+    expect(DENTAL_ROLE_PERMISSIONS.referrer).toEqual([
+      'annotations:read',
+      'viewerState:read',
+      'measurements:read',
+    ]);
+    expect(isDentalActionAllowed({ role: 'referrer' }, 'annotations:create')).toBe(false);
+    expect(isDentalActionAllowed({ role: 'referrer' }, 'viewerState:read')).toBe(true);
+  });
+
+  test('should reserve user management to administrators', () => {
+    expect(isDentalActionAllowed({ role: 'admin' }, 'users:manage')).toBe(true);
+    expect(isDentalActionAllowed({ role: 'dentist' }, 'users:manage')).toBe(false);
+    expect(isDentalActionAllowed({ role: 'dentist' }, 'annotations:manage')).toBe(true);
+  });
+
+  test('should prefer the permissions sent by the backend over the role matrix', () => {
+    const user = { role: 'dentist', permissions: ['annotations:read' as const] };
+
+    expect(getDentalPermissions(user)).toEqual(['annotations:read']);
+    expect(isDentalActionAllowed(user, 'annotations:delete')).toBe(false);
+  });
+
+  test('should allow every action without a signed-in user and none for unknown roles', () => {
+    expect(isDentalActionAllowed(null, 'viewerState:delete')).toBe(true);
+    expect(isDentalActionAllowed({ role: 'visitor' }, 'annotations:read')).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit Tests for the printable dental report
+ */
+
+import {
+  DentalReport,
+  createDentalReportPdf,
+  createEncapsulatedPdfDataset,
+  formatPersonName,
+  getReportFindingRows,
+  getReportMeasurementRows,
+  layoutDentalReport,
+} from '../dentalReport';
+
+const presets = [
+  { id: 'root-length', label: 'Root length', unit: 'mm', description: '' },
+  { id: 'canal-angle', label: 'Canal angle', unit: '°', description: '' },
+  { id: 'bone-loss', label: 'Bone loss', unit: '%', description: '', precision: 0 },
+];
+
+const createReport = (overrides: Partial<DentalReport> = {}): DentalReport => ({
+  title: 'Dental radiology report',
+  practiceName: 'Smile Clinic',
+  createdAt: new Date(2024, 0, 31, 9, 5, 0),
+  patient: { name: 'Doe, Jane', id: 'P-1' },
+  study: { date: '20240131' },
+  keyImages: [],
+  measurements: [],
+  findings: [],
+  ...overrides,
+});
+
+const decode = (bytes: Uint8Array) => String.fromCharCode(...Array.from(bytes));
+
+describe('Dental report', () => {
+  test('should list measurements per tooth in FDI order with the derived values', () => {
+    const rows = getReportMeasurementRows(
+      [
+        {
+          label: 'Canal angle',
+          metadata: {
+            dentalPresetId: 'canal-angle',
+            dentalPresetLabel: 'Canal angle',
+            dentalTooth: { system: 'FDI', value: '36' },
+            dentalValue: 12.34,
+          },
+        },
+        {
+          metadata: {
+            dentalPresetId: 'root-length',
+            dentalPresetLabel: 'Root length',
+            dentalTooth: { system: 'UNIVERSAL', value: '8' },
+            dentalValue: 13,
+            dentalCreatedAt: 2,
+          },
+        },
+        { metadata: { dentalPresetId: 'root-length', dentalValue: 9.5 } },
+        { metadata: { dentalPresetId: 'root-length' } },
+      ],
+      { '11': { 'bone-loss': 23.6 } },
+      presets,
+      'FDI'
+    );
+
+    expect(rows).toEqual([
+      { tooth: 'FDI 11', label: 'Root length', value: '13.0 mm' },
+      { tooth: 'FDI 11', label: 'Bone loss', value: '24%' },
+      { tooth: 'FDI 36', label: 'Canal angle', value: '12.3°' },
+      { tooth: '-', label: 'Root length', value: '9.5 mm' },
+    ]);
+  });
+
+  test('should not report measurements under a suggested tooth until it is confirmed', () => {
+    const metadata = {
+      dentalPresetId: 'root-length',
+      dentalPresetLabel: 'Root length',
+      dentalTooth: { system: 'FDI', value: '26' },
+      dentalValue: 12,
+    };
+
+    expect(
+      getReportMeasurementRows(
+        [
+          {
+            metadata: {
+              ...metadata,
+              dentalToothSuggestion: { confidence: 0.6, source: 'panoramic-position' },
+            },
+          },
+          { metadata: { ...metadata, dentalValue: 14 } },
+        ],
+        {},
+        presets,
+        'FDI'
+      )
+    ).toEqual([
+      { tooth: 'FDI 26', label: 'Root length', value: '14.0 mm' },
+      { tooth: '-', label: 'Root length', value: '12.0 mm' },
+    ]);
+  });
+
+  test('should list coded findings with their codes', () => {
+    expect(
+      getReportFindingRows(
+        [
+          {
+            tooth: { system: 'FDI', value: '46' },
+            findings: [{ condition: 'root-canal-treated', surfaces: [], codes: { cdt: 'D3330' } }],
+          },
+          {
+            tooth: { system: 'FDI', value: '16' },
+            findings: [
+              {
+                condition: 'caries',
+                surfaces: ['M', 'O'],
+                severity: 'mild',
+                codes: { snomedCT: '80967001' },
+              },
+            ],
+          },
+        ],
+        'UNIVERSAL'
+      )
+    ).toEqual([
+      { tooth: 'Universal 3', label: 'Caries MO (mild)', value: 'SNOMED CT 80967001' },
+      { tooth: 'Universal 30', label: 'Root canal treated', value: 'CDT D3330' },
+    ]);
+  });
+
+  test('should format DICOM person names', () => {
+    expect(formatPersonName('Doe^Jane^M')).toBe('Doe, Jane M');
+    expect(formatPersonName({ Alphabetic: 'Doe^John' })).toBe('Doe, John');
+    expect(formatPersonName(undefined)).toBe('');
+  });
+
+  test('should continue long tables on new pages with a numbered footer', () => {
+    const measurements = Array.from({ length: 80 }, (_, index) => ({
+      tooth: 'FDI 11',
+      label: `Root length ${index}`,
+      value: '13.0 mm',
+    }));
+    const pages = layoutDentalReport(createReport({ measurements }));
+
+    expect(pages.length).toBeGreaterThan(1);
+    pages.forEach((page, index) => {
+      expect(page.items).toContainEqual(
+        expect.objectContaining({ text: `Page ${index + 1} of ${pages.length}` })
+      );
+    });
+  });
+
+  test('should write a PDF whose cross-reference table points at its objects', () => {
+    const pdf = decode(createDentalReportPdf(createReport({ impression: 'No (acute) findings' })));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Smile Clinic) Tj');
+    expect(pdf).toContain('(No \\(acute\\) findings) Tj');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)[1]);
+    expect(pdf.substring(xrefOffset).startsWith('xref')).toBe(true);
+    const offsets = pdf.substring(xrefOffset).match(/(\d{10}) 00000 n/g);
+    offsets.forEach((entry, index) => {
+      expect(pdf.substring(Number(entry.substring(0, 10))).startsWith(`${index + 1} 0 obj`)).toBe(
+        true
+      );
+    });
+  });
+
+  test('should wrap the PDF in an Encapsulated PDF instance of the study', () => {
+    const pdf = new Uint8Array([37, 80, 68, 70, 10]);
+    const dataset = createEncapsulatedPdfDataset(pdf, {
+      report: createReport(),
+      studyInstance: { StudyInstanceUID: '1.2.3', PatientID: 'P-1', PatientName: 'Doe^Jane' },
+      SeriesInstanceUID: '1.2.3.4',
+      SOPInstanceUID: '1.2.3.4.5',
+    });
+
+    expect(dataset).toMatchObject({
+      SOPClassUID: '1.2.840.10008.5.1.4.1.1.104.1',
+      StudyInstanceUID: '1.2.3',
+      PatientName: 'Doe^Jane',
+      Modality: 'DOC',
+      MIMETypeOfEncapsulatedDocument: 'application/pdf',
+      EncapsulatedDocumentLength: 5,
+      ContentDate: '20240131',
+      ContentTime: '090500',
+    });
+    // Padded to an even length
+    expect(dataset.EncapsulatedDocument.byteLength).toBe(6);
+  });
+});
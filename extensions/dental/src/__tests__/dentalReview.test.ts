@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for the annotation review workflow
+ */
+
+import {
+  getDentalNoteReview,
+  getDentalReviewLockChanges,
+  getDentalReviewLockedTeeth,
+  isDentalReviewLocked,
+} from '../dentalReview';
+
+const createAnnotation = (status: string, value: string, system = 'FDI') => ({
+  _id: `annotation-${value}`,
+  status,
+  tooth: { system, value },
+});
+
+describe('Dental annotation review', () => {
+  test('should read the review of an annotation returned by the backend', () => {
+    const review = getDentalNoteReview({
+      status: 'draft',
+      reviewedBy: {
+        userId: { profile: { firstName: 'Ada', lastName: 'Molar' } },
+        reviewedAt: '2026-03-02T10:00:00.000Z',
+        comments: 'Add the surface of the caries',
+        decision: 'rejected',
+      },
+    });
+
+    expect(review).toEqual({
+      status: 'draft',
+      decision: 'rejected',
+      reviewer: 'Ada Molar',
+      reviewedAt: '2026-03-02T10:00:00.000Z',
+      comments: 'Add the surface of the caries',
+    });
+    expect(isDentalReviewLocked(review)).toBe(false);
+    expect(isDentalReviewLocked({ status: 'final' })).toBe(true);
+  });
+
+  test('should lock the teeth of notes awaiting review or reviewed, in any numbering system', () => {
+    const lockedTeeth = getDentalReviewLockedTeeth([
+      createAnnotation('final', '11'),
+      createAnnotation('reviewed', '19', 'Universal'),
+      createAnnotation('draft', '21'),
+    ]);
+
+    expect(Array.from(lockedTeeth).sort()).toEqual(['11', '36']);
+  });
+
+  test('should only unlock the measurements locked by a review', () => {
+    const measurements = [
+      {
+        uid: 'on-locked-tooth',
+        isLocked: false,
+        metadata: { dentalTooth: { system: 'FDI', value: '11' } },
+      },
+      {
+        uid: 'released',
+        isLocked: true,
+        metadata: { dentalTooth: { system: 'FDI', value: '21' } },
+      },
+      {
+        uid: 'locked-by-user',
+        isLocked: true,
+        metadata: { dentalTooth: { system: 'FDI', value: '21' } },
+      },
+      { uid: 'untagged', isLocked: false },
+    ];
+
+    expect(
+      getDentalReviewLockChanges(measurements, new Set(['11']), new Set(['released']))
+    ).toEqual({
+      lock: ['on-locked-tooth'],
+      unlock: ['released'],
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for the annotation search filters and links
+ */
+
+import {
+  getDentalSearchChips,
+  getDentalSearchQuery,
+  getDentalStudyLocation,
+  toggleDentalSearchChip,
+} from '../dentalSearch';
+
+describe('Dental annotation search', () => {
+  test('should build labelled chips from the facet counts, keeping active filters', () => {
+    const chips = getDentalSearchChips(
+      {
+        status: [{ value: 'final', count: 3 }],
+        condition: [{ value: 'periapical-lesion', count: 2 }],
+        author: [{ value: 'user-1', count: 5, label: 'Ada Molar' }],
+        study: [{ value: '1.2.3', count: 5 }],
+      },
+      { category: 'diagnosis', status: 'final' }
+    );
+
+    expect(
+      chips.map(({ facet, label, count, isActive }) => [facet, label, count, isActive])
+    ).toEqual([
+      ['category', 'Diagnosis', 0, true],
+      ['status', 'Awaiting review', 3, true],
+      ['condition', 'Periapical lesion', 2, false],
+      ['author', 'Ada Molar', 5, false],
+    ]);
+  });
+
+  test('should toggle the filter of a chip', () => {
+    const filters = toggleDentalSearchChip(
+      { search: 'abscess' },
+      { facet: 'author', value: 'user-1' }
+    );
+
+    expect(filters).toEqual({ search: 'abscess', authorId: 'user-1' });
+    expect(
+      toggleDentalSearchChip(filters, { facet: 'author', value: 'user-1' }).authorId
+    ).toBeUndefined();
+  });
+
+  test('should search whole days and ask for the facet counts', () => {
+    const query = getDentalSearchQuery({ search: '  ', from: '2026-03-01', to: '2026-03-31' });
+
+    expect(query.search).toBeUndefined();
+    expect(new Date(query.from).getDate()).toBe(1);
+    expect(new Date(query.to).getHours()).toBe(23);
+    expect(query.facets).toBe(true);
+  });
+
+  test('should open the study of a hit on the annotated image', () => {
+    expect(
+      getDentalStudyLocation('/dental/dicomweb', {
+        studyInstanceUID: '1.2.3',
+        seriesInstanceUID: '1.2.3.4',
+        sopInstanceUID: '1.2.3.4.5',
+      })
+    ).toEqual({
+      pathname: '/dental/dicomweb',
+      search:
+        '?StudyInstanceUIDs=1.2.3&initialSeriesInstanceUID=1.2.3.4&initialSOPInstanceUID=1.2.3.4.5',
+    });
+    expect(getDentalStudyLocation('/dental', { studyInstanceUID: '1.2.3' }).search).toBe(
+      '?StudyInstanceUIDs=1.2.3'
+    );
+  });
+});
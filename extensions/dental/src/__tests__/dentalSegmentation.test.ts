@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for the dental segmentation segments and their DICOM SEG codes
+ */
+
+import {
+  applyDentalSegmentCodes,
+  getDentalSegmentDefinitions,
+  getDentalSegmentIndex,
+} from '../dentalSegmentation';
+
+describe('Dental segmentation', () => {
+  test('should give every tooth its FDI code as segment index, after the anatomy', () => {
+    const definitions = getDentalSegmentDefinitions();
+    const indices = definitions.map(({ segmentIndex }) => segmentIndex);
+
+    expect(definitions).toHaveLength(6 + 32);
+    expect(new Set(indices).size).toBe(indices.length);
+    expect(definitions.slice(0, 6).map(({ label }) => label)).toEqual([
+      'Maxilla',
+      'Mandible',
+      'Right mandibular canal',
+      'Left mandibular canal',
+      'Right maxillary sinus',
+      'Left maxillary sinus',
+    ]);
+    expect(getDentalSegmentIndex({ system: 'UNIVERSAL', value: '19' })).toBe(36);
+    expect(getDentalSegmentIndex({ system: 'FDI', value: '99' })).toBeNull();
+  });
+
+  test('should label the tooth segments in the numbering system, with distinct colors', () => {
+    const definitions = getDentalSegmentDefinitions('UNIVERSAL', ['permanent', 'primary']);
+    const toothSegment = definitions.find(({ segmentIndex }) => segmentIndex === 36);
+    const colors = definitions.map(({ color }) => color.join(','));
+
+    expect(definitions).toHaveLength(6 + 32 + 20);
+    expect(toothSegment.label).toBe('Tooth Universal 19');
+    expect(toothSegment.tooth).toEqual({ system: 'FDI', value: '36' });
+    expect(new Set(colors).size).toBe(colors.length);
+  });
+
+  test('should replace the tissue codes of a generated SEG with the dental anatomy', () => {
+    const tissue = { CodeValue: 'T-D0050', CodingSchemeDesignator: 'SRT', CodeMeaning: 'Tissue' };
+    const dataset = {
+      SegmentSequence: [
+        {
+          SegmentNumber: '36',
+          SegmentedPropertyCategoryCodeSequence: tissue,
+          SegmentedPropertyTypeCodeSequence: tissue,
+        },
+        {
+          SegmentNumber: '5',
+          SegmentedPropertyCategoryCodeSequence: tissue,
+          SegmentedPropertyTypeCodeSequence: tissue,
+        },
+        {
+          SegmentNumber: '99',
+          SegmentedPropertyCategoryCodeSequence: tissue,
+          SegmentedPropertyTypeCodeSequence: tissue,
+        },
+      ],
+    };
+
+    const [tooth, sinus, unknown] = applyDentalSegmentCodes(
+      dataset,
+      getDentalSegmentDefinitions()
+    ).SegmentSequence;
+
+    expect(tooth.SegmentedPropertyCategoryCodeSequence.CodeMeaning).toBe('Anatomical Structure');
+    expect(tooth.SegmentedPropertyTypeCodeSequence).toMatchObject({
+      CodeValue: '38199008',
+      CodingSchemeDesignator: 'SCT',
+      SegmentedPropertyTypeModifierCodeSequence: { CodeValue: '36' },
+    });
+    expect(tooth.AnatomicRegionSequence.CodeMeaning).toBe('Mandible');
+    expect(sinus.SegmentedPropertyTypeCodeSequence).toMatchObject({
+      CodeMeaning: 'Maxillary sinus',
+      SegmentedPropertyTypeModifierCodeSequence: { CodeMeaning: 'Right' },
+    });
+    expect(sinus.AnatomicRegionSequence).toBeUndefined();
+    expect(unknown.SegmentedPropertyTypeCodeSequence).toBe(tissue);
+  });
+});
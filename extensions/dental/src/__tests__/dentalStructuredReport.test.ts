@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for the dental structured report codes
+ */
+
+import {
+  createQualitativeEvaluations,
+  getDentalMetadataFromCodes,
+  getDentalSRObservations,
+  getToothFindingSite,
+  toDentalSRMeasurement,
+} from '../dentalStructuredReport';
+
+describe('Dental structured report', () => {
+  test('should code the tooth in the numbering system it was tagged with', () => {
+    expect(getToothFindingSite({ system: 'FDI', value: '11' })).toEqual({
+      CodeValue: '11',
+      CodingSchemeDesignator: 'ISO3950',
+      CodeMeaning: 'Tooth FDI 11',
+    });
+    expect(getToothFindingSite({ system: 'UNIVERSAL', value: '8' })).toMatchObject({
+      CodeValue: '8',
+      CodingSchemeDesignator: '99UNIVERSAL',
+    });
+    expect(getToothFindingSite({ system: 'FDI', value: '19' })).toBeNull();
+  });
+
+  test('should add the preset and tooth codes to a measurement next to its label', () => {
+    const measurement = toDentalSRMeasurement({
+      uid: 'm1',
+      label: 'PA length (FDI 36)',
+      metadata: {
+        dentalPresetId: 'periapical-length',
+        dentalPresetLabel: 'PA length',
+        dentalTooth: { system: 'FDI', value: '36' },
+      },
+    });
+
+    expect(measurement.finding).toEqual({
+      CodeValue: 'PA-LENGTH',
+      CodingSchemeDesignator: '99OHIFDENTAL',
+      CodeMeaning: 'PA length',
+    });
+    expect(measurement.findingSites).toEqual([
+      { CodeValue: '36', CodingSchemeDesignator: 'ISO3950', CodeMeaning: 'Tooth FDI 36' },
+    ]);
+  });
+
+  test('should only code the tooth of a measurement once its suggestion is confirmed', () => {
+    const measurement = toDentalSRMeasurement({
+      metadata: {
+        dentalPresetId: 'periapical-length',
+        dentalTooth: { system: 'FDI', value: '26' },
+        dentalToothSuggestion: { confidence: 0.6, source: 'panoramic-position' },
+      },
+    });
+
+    expect(measurement.finding).toMatchObject({ CodeValue: 'PA-LENGTH' });
+    expect(measurement.findingSites).toEqual([]);
+  });
+
+  test('should restore the tooth and preset from the codes of a re-loaded measurement', () => {
+    const { finding, findingSites } = toDentalSRMeasurement({
+      metadata: {
+        dentalPresetId: 'root-length',
+        dentalTooth: { system: 'PALMER', value: 'UR1' },
+      },
+    });
+
+    expect(getDentalMetadataFromCodes(finding, findingSites)).toEqual({
+      dentalTooth: { system: 'PALMER', value: 'UR1' },
+      dentalPresetId: 'root-length',
+    });
+    expect(
+      getDentalMetadataFromCodes({ CodeValue: '80967001', CodingSchemeDesignator: 'SCT' }, [])
+    ).toEqual({});
+  });
+
+  test('should list coded findings as qualitative evaluations on their tooth', () => {
+    const container = createQualitativeEvaluations([
+      {
+        tooth: { system: 'FDI', value: '36' },
+        findings: [
+          {
+            condition: 'caries',
+            surfaces: ['M', 'O'],
+            severity: 'moderate',
+            codes: { snomedCT: '80967001' },
+          },
+          { condition: 'root-canal-treated', surfaces: [], codes: { cdt: 'D3330' } },
+        ],
+      },
+    ]);
+
+    expect(container.ConceptNameCodeSequence[0].CodeMeaning).toBe('Qualitative Evaluations');
+    const [caries, rootCanal] = container.ContentSequence;
+    expect(caries.ConceptCodeSequence[0]).toMatchObject({
+      CodeValue: '80967001',
+      CodingSchemeDesignator: 'SCT',
+    });
+    const [site, severity] = caries.ContentSequence;
+    expect(site.ConceptCodeSequence[0].CodeValue).toBe('36');
+    expect(site.ContentSequence.map(item => item.ConceptCodeSequence[0].CodeValue)).toEqual([
+      'M',
+      'O',
+    ]);
+    expect(severity.ConceptCodeSequence[0].CodeValue).toBe('6736007');
+    expect(rootCanal.ConceptCodeSequence[0].CodeValue).toBe('RCT');
+    expect(rootCanal.ContentSequence[1].ConceptCodeSequence[0]).toMatchObject({
+      CodeValue: 'D3330',
+      CodingSchemeDesignator: 'CDT',
+    });
+
+    expect(createQualitativeEvaluations([])).toBeNull();
+  });
+
+  test('should read the dental measurements back from the content of a report', () => {
+    const code = (CodeValue, CodingSchemeDesignator) => [{ CodeValue, CodingSchemeDesignator }];
+    const measurementGroup = (finding, findingSite, value) => ({
+      ValueType: 'CONTAINER',
+      ConceptNameCodeSequence: code('125007', 'DCM'),
+      ContentSequence: [
+        { ValueType: 'UIDREF', ConceptNameCodeSequence: code('112040', 'DCM'), UID: '1.2.3' },
+        {
+          ValueType: 'CODE',
+          ConceptNameCodeSequence: code('121071', 'DCM'),
+          ConceptCodeSequence: finding,
+        },
+        {
+          ValueType: 'CODE',
+          ConceptNameCodeSequence: code('G-C0E3', 'SRT'),
+          ConceptCodeSequence: findingSite,
+        },
+        {
+          ValueType: 'NUM',
+          ConceptNameCodeSequence: code('410668003', 'SCT'),
+          // A single item, as naturalized datasets hold it
+          MeasuredValueSequence: {
+            NumericValue: value,
+            MeasurementUnitsCodeSequence: code('mm', 'UCUM'),
+          },
+        },
+      ],
+    });
+
+    const observations = getDentalSRObservations([
+      {
+        ValueType: 'CONTAINER',
+        ConceptNameCodeSequence: code('126010', 'DCM'),
+        ContentSequence: [
+          measurementGroup(code('CEJ-CREST', '99OHIFDENTAL'), code('8', '99UNIVERSAL'), '2.5'),
+          measurementGroup(code('CEJ-CREST', '99OHIFDENTAL'), code('RUL', 'SRT'), '3'),
+          measurementGroup(code('121206', 'DCM'), code('11', 'ISO3950'), '4'),
+        ],
+      },
+    ]);
+
+    expect(observations).toEqual([
+      {
+        tooth: { system: 'UNIVERSAL', value: '8' },
+        presetId: 'cej-crest',
+        value: 2.5,
+        unit: 'mm',
+        trackingUID: '1.2.3',
+      },
+    ]);
+  });
+});
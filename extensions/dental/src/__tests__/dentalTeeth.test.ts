@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for the dental tooth chart
+ */
+
+import {
+  PERMANENT_TEETH,
+  PRIMARY_TEETH,
+  convertToothSelection,
+  findTooth,
+  formatToothSelection,
+  getOdontogramRows,
+  getToothKey,
+  getToothValues,
+  normalizeNumberingSystem,
+  parseMeasurementLabelTooth,
+  parseToothLabel,
+} from '../dentalTeeth';
+
+describe('Dental tooth chart', () => {
+  test('should define 32 permanent and 20 primary teeth', () => {
+    expect(PERMANENT_TEETH).toHaveLength(32);
+    expect(PRIMARY_TEETH).toHaveLength(20);
+  });
+
+  test('should map FDI to Universal numbering', () => {
+    expect(findTooth({ system: 'FDI', value: '18' })?.universal).toBe('1');
+    expect(findTooth({ system: 'FDI', value: '11' })?.universal).toBe('8');
+    expect(findTooth({ system: 'FDI', value: '21' })?.universal).toBe('9');
+    expect(findTooth({ system: 'FDI', value: '38' })?.universal).toBe('17');
+    expect(findTooth({ system: 'FDI', value: '48' })?.universal).toBe('32');
+    expect(findTooth({ system: 'FDI', value: '55' })?.universal).toBe('A');
+    expect(findTooth({ system: 'FDI', value: '65' })?.universal).toBe('J');
+    expect(findTooth({ system: 'FDI', value: '75' })?.universal).toBe('K');
+    expect(findTooth({ system: 'FDI', value: '85' })?.universal).toBe('T');
+  });
+
+  test('should key teeth by FDI regardless of the tagging system', () => {
+    expect(getToothKey({ system: 'UNIVERSAL', value: '8' })).toBe('11');
+    expect(getToothKey({ system: 'FDI', value: '11' })).toBe('11');
+    expect(getToothKey({ system: 'UNIVERSAL', value: '99' })).toBeNull();
+    expect(getToothKey(null)).toBeNull();
+  });
+
+  test('should lay out the chart from the patient right to left', () => {
+    const { upper, lower } = getOdontogramRows('permanent');
+    expect(upper.map(tooth => tooth.fdi).join(' ')).toBe(
+      '18 17 16 15 14 13 12 11 21 22 23 24 25 26 27 28'
+    );
+    expect(lower[0].fdi).toBe('48');
+    expect(lower[15].fdi).toBe('38');
+
+    const primary = getOdontogramRows('primary');
+    expect(primary.upper.map(tooth => tooth.universal).join('')).toBe('ABCDEFGHIJ');
+    expect(primary.lower.map(tooth => tooth.universal).join('')).toBe('TSRQPONMLK');
+  });
+
+  test('should parse stored tooth labels', () => {
+    expect(parseToothLabel('FDI 11')).toEqual({ system: 'FDI', value: '11' });
+    expect(parseToothLabel('UNIVERSAL-8')).toEqual({ system: 'UNIVERSAL', value: '8' });
+    expect(parseToothLabel('not a tooth')).toBeNull();
+  });
+
+  test('should convert between FDI, Universal and Palmer in both directions', () => {
+    expect(convertToothSelection({ system: 'FDI', value: '11' }, 'UNIVERSAL')).toEqual({
+      system: 'UNIVERSAL',
+      value: '8',
+    });
+    expect(convertToothSelection({ system: 'FDI', value: '11' }, 'PALMER')).toEqual({
+      system: 'PALMER',
+      value: 'UR1',
+    });
+    expect(convertToothSelection({ system: 'PALMER', value: 'll6' }, 'FDI')).toEqual({
+      system: 'FDI',
+      value: '36',
+    });
+    expect(convertToothSelection({ system: 'UNIVERSAL', value: 'T' }, 'PALMER')).toEqual({
+      system: 'PALMER',
+      value: 'LRE',
+    });
+    expect(convertToothSelection({ system: 'PALMER', value: 'ULC' }, 'UNIVERSAL')).toEqual({
+      system: 'UNIVERSAL',
+      value: 'H',
+    });
+    expect(convertToothSelection({ system: 'FDI', value: '19' }, 'UNIVERSAL')).toBeNull();
+
+    PERMANENT_TEETH.concat(PRIMARY_TEETH).forEach(tooth => {
+      const palmer = convertToothSelection({ system: 'FDI', value: tooth.fdi }, 'PALMER');
+      const universal = convertToothSelection(palmer, 'UNIVERSAL');
+      expect(convertToothSelection(universal, 'FDI')?.value).toBe(tooth.fdi);
+    });
+  });
+
+  test('should format a tagged tooth in the display system', () => {
+    expect(formatToothSelection({ system: 'FDI', value: '11' }, 'UNIVERSAL')).toBe('Universal 8');
+    expect(formatToothSelection({ system: 'UNIVERSAL', value: 'A' }, 'FDI')).toBe('FDI 55');
+    expect(formatToothSelection({ system: 'FDI', value: '11' })).toBe('FDI 11');
+  });
+
+  test('should normalize numbering system names', () => {
+    expect(normalizeNumberingSystem('Universal')).toBe('UNIVERSAL');
+    expect(normalizeNumberingSystem('palmer')).toBe('PALMER');
+    expect(normalizeNumberingSystem('ISO')).toBeNull();
+  });
+
+  test('should list selector values per dentition', () => {
+    expect(getToothValues('UNIVERSAL', 'permanent')[31]).toBe('32');
+    expect(getToothValues('UNIVERSAL', 'primary').join('')).toBe('ABCDEFGHIJKLMNOPQRST');
+    expect(getToothValues('FDI', 'primary')[0]).toBe('51');
+    expect(getToothValues('PALMER', 'permanent')[0]).toBe('UR1');
+  });
+
+  test('should read the tooth from measurement label suffixes', () => {
+    expect(parseMeasurementLabelTooth('PA length (FDI 11)')).toEqual({
+      system: 'FDI',
+      value: '11',
+    });
+    expect(parseMeasurementLabelTooth('Root length (Universal K)')).toEqual({
+      system: 'UNIVERSAL',
+      value: 'K',
+    });
+    expect(parseMeasurementLabelTooth('Crown width (Palmer UL3)')).toEqual({
+      system: 'PALMER',
+      value: 'UL3',
+    });
+    expect(parseMeasurementLabelTooth('PA length (Palmer X1)')).toBeNull();
+  });
+});
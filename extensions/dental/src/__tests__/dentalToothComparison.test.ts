@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for the tooth comparison across studies
+ */
+
+import {
+  getToothFindingsHistory,
+  getToothTrends,
+  isSignificantToothChange,
+  sortTimepoints,
+} from '../dentalToothComparison';
+
+const presets = [
+  { id: 'cej-crest', label: 'CEJ to crest', unit: 'mm', description: '' },
+  { id: 'root-length', label: 'Root length', unit: 'mm', description: '' },
+  {
+    id: 'bone-loss',
+    label: 'Bone loss',
+    unit: '%',
+    description: '',
+    derivedFrom: ['cej-crest', 'root-length'],
+    compute: values => (values['cej-crest'] / values['root-length']) * 100,
+  },
+];
+
+const timepoints = [
+  { studyInstanceUID: 'prior-2020', studyDate: '20200310' },
+  { studyInstanceUID: 'prior-2022', studyDate: '20220415' },
+  { studyInstanceUID: 'current', studyDate: '20240120', isCurrent: true },
+];
+
+describe('Dental tooth comparison', () => {
+  test('should order the studies by date with undated studies last', () => {
+    expect(
+      sortTimepoints([
+        { studyInstanceUID: 'undated' },
+        { studyInstanceUID: 'b', studyDate: '20240101' },
+        { studyInstanceUID: 'a', studyDate: '20190101' },
+        { studyInstanceUID: 'b', studyDate: '20240101', description: 'Duplicate' },
+      ]).map(timepoint => timepoint.studyInstanceUID)
+    ).toEqual(['a', 'b', 'undated']);
+  });
+
+  test('should flag changes from the preset threshold or a relative change', () => {
+    expect(isSignificantToothChange('cej-crest', 2, 2.8)).toBe(false);
+    expect(isSignificantToothChange('cej-crest', 2, 3.1)).toBe(true);
+    expect(isSignificantToothChange('implant', 10, 11)).toBe(false);
+    expect(isSignificantToothChange('implant', 10, 12.5)).toBe(true);
+  });
+
+  test('should chart each preset over the studies and flag the latest significant change', () => {
+    const trends = getToothTrends(
+      timepoints,
+      [
+        { studyInstanceUID: 'prior-2020', presetId: 'cej-crest', value: 2, source: 'backend' },
+        { studyInstanceUID: 'prior-2020', presetId: 'root-length', value: 14, source: 'backend' },
+        { studyInstanceUID: 'prior-2022', presetId: 'cej-crest', value: 2.4, source: 'sr' },
+        {
+          studyInstanceUID: 'current',
+          presetId: 'cej-crest',
+          value: 3,
+          source: 'backend',
+          createdAt: 2,
+        },
+        // The measurement in the viewer wins over its synced copy
+        {
+          studyInstanceUID: 'current',
+          presetId: 'cej-crest',
+          value: 3.6,
+          source: 'viewer',
+          createdAt: 1,
+        },
+        { studyInstanceUID: 'current', presetId: 'root-length', value: 14, source: 'viewer' },
+        // Not a study of the patient
+        { studyInstanceUID: 'other', presetId: 'cej-crest', value: 9, source: 'backend' },
+      ],
+      presets
+    );
+
+    const [bone, root, boneLoss] = trends;
+    expect(bone.points.map(point => point.value)).toEqual([2, 2.4, 3.6]);
+    expect(bone.points[1]).toMatchObject({ source: 'sr', isSignificant: false });
+    expect(bone.points[2].change).toBeCloseTo(1.2);
+    expect(bone.isSignificant).toBe(true);
+
+    expect(root.points.map(point => point.studyInstanceUID)).toEqual(['prior-2020', 'current']);
+    expect(root.isSignificant).toBe(false);
+
+    expect(boneLoss.points).toMatchObject([
+      { studyInstanceUID: 'prior-2020', source: 'derived' },
+      { studyInstanceUID: 'current', source: 'derived', isSignificant: true },
+    ]);
+    expect(boneLoss.points[1].value).toBeCloseTo((3.6 / 14) * 100);
+  });
+
+  test('should leave out presets that were never measured on the tooth', () => {
+    expect(getToothTrends(timepoints, [], presets)).toEqual([]);
+  });
+
+  test('should compare the findings with the previous study the tooth was annotated in', () => {
+    const caries = {
+      condition: 'caries' as const,
+      surfaces: ['O' as const],
+      severity: 'mild' as const,
+    };
+    const worseCaries = { ...caries, severity: 'severe' as const };
+    const lesion = { condition: 'periapical-lesion' as const, surfaces: [] };
+    const restoration = { condition: 'restoration' as const, surfaces: ['O' as const] };
+
+    const history = getToothFindingsHistory(timepoints, {
+      current: [worseCaries, lesion],
+      'prior-2020': [caries, restoration],
+    });
+
+    expect(history.map(timepoint => timepoint.studyInstanceUID)).toEqual(['prior-2020', 'current']);
+    expect(history[0]).toMatchObject({ added: [], resolved: [], worsened: [] });
+    expect(history[1]).toMatchObject({
+      added: [lesion],
+      resolved: [restoration],
+      worsened: [worseCaries],
+    });
+  });
+});
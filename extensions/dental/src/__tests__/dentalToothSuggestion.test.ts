@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for the tooth suggested for new measurements
+ */
+
+import {
+  getConfirmedDentalTooth,
+  suggestDentalTooth,
+  suggestToothFromPanoramicPosition,
+  suggestToothFromViewCode,
+} from '../dentalToothSuggestion';
+import {
+  initializeDentalMeasurements,
+  selectDentalMeasurementPreset,
+  setActiveDentalTooth,
+  setDentalToothSuggester,
+  teardownDentalMeasurements,
+} from '../dentalMeasurementsManager';
+
+// The core package pulls in the cornerstone rendering stack, which does not load under jsdom
+jest.mock('@ohif/core', () => ({ utils: { uuidv4: () => 'uuid' } }));
+
+// Position on a panoramic of the middle of the tooth starting `start` mm from the midline
+const panoramicX = (start: number, width: number, side: 'right' | 'left') =>
+  0.5 + (side === 'left' ? 1 : -1) * ((0.34 * (start + width / 2)) / 63.5);
+
+describe('Dental tooth suggestion', () => {
+  test('should place positions on a panoramic by side, arch and crown widths', () => {
+    // First molars start 36 mm from the midline
+    expect(suggestToothFromPanoramicPosition({ x: panoramicX(36, 10, 'left'), y: 0.3 })).toEqual({
+      tooth: { system: 'FDI', value: '26' },
+      confidence: 0.6,
+      source: 'panoramic-position',
+    });
+    expect(suggestToothFromPanoramicPosition({ x: panoramicX(0, 8.5, 'right'), y: 0.8 })).toEqual(
+      expect.objectContaining({ tooth: { system: 'FDI', value: '41' } })
+    );
+
+    // Less sure on the occlusal plane and between teeth, and nothing outside the teeth
+    expect(
+      suggestToothFromPanoramicPosition({ x: panoramicX(0, 8.5, 'right'), y: 0.5 }).confidence
+    ).toBe(0.45);
+    expect(suggestToothFromPanoramicPosition({ x: panoramicX(46, 0, 'left'), y: 0.3 })).toEqual(
+      expect.objectContaining({ tooth: { system: 'FDI', value: '27' }, confidence: 0.45 })
+    );
+    expect(suggestToothFromPanoramicPosition({ x: 0.1, y: 0.3 })).toBeNull();
+  });
+
+  test('should place positions on intraoral images from their view and laterality', () => {
+    const rightMaxillaryMolar = {
+      Modality: 'IO',
+      ViewCodeSequence: [{ CodeMeaning: 'Maxillary molar' }],
+      ImageLaterality: 'R',
+    };
+    const leftPremolarBitewing = {
+      Modality: 'IO',
+      SeriesDescription: 'Bitewing premolar',
+      ImageLaterality: 'L',
+    };
+    const mandibularIncisors = { Modality: 'IO', SeriesDescription: 'Mandibular incisors' };
+
+    // The patient's right is on the left, so the distal molars of the right side are too
+    expect(suggestToothFromViewCode(rightMaxillaryMolar, { x: 0.1, y: 0.5 })).toEqual({
+      tooth: { system: 'FDI', value: '18' },
+      confidence: 0.5,
+      source: 'view-code',
+    });
+    expect(suggestToothFromViewCode(rightMaxillaryMolar, { x: 0.9, y: 0.5 }).tooth.value).toBe(
+      '16'
+    );
+    expect(suggestToothFromViewCode(leftPremolarBitewing, { x: 0.7, y: 0.8 })).toEqual(
+      expect.objectContaining({ tooth: { system: 'FDI', value: '35' }, confidence: 0.6 })
+    );
+    expect(suggestToothFromViewCode(leftPremolarBitewing, { x: 0.2, y: 0.2 }).tooth.value).toBe(
+      '24'
+    );
+    expect(suggestToothFromViewCode(mandibularIncisors, { x: 0.3, y: 0.5 }).tooth.value).toBe('41');
+    expect(suggestToothFromViewCode(mandibularIncisors, { x: 0.95, y: 0.5 }).tooth.value).toBe(
+      '32'
+    );
+
+    // A posterior view without a side cannot be placed
+    expect(
+      suggestToothFromViewCode({ SeriesDescription: 'Maxillary molar' }, { x: 0.5, y: 0.5 })
+    ).toBeNull();
+  });
+
+  test('should prefer the tooth segment under the measurement', () => {
+    const panoramic = { Modality: 'PX' };
+    const position = { x: panoramicX(36, 10, 'left'), y: 0.3 };
+
+    expect(suggestDentalTooth({ image: panoramic, position, segmentIndex: 37 })).toEqual({
+      tooth: { system: 'FDI', value: '37' },
+      confidence: 0.95,
+      source: 'segmentation',
+    });
+    // Jaw and canal segments do not name a tooth
+    expect(suggestDentalTooth({ image: panoramic, position, segmentIndex: 3 }).source).toBe(
+      'panoramic-position'
+    );
+    expect(suggestDentalTooth({ image: panoramic })).toBeNull();
+  });
+
+  test('should only count the tooth of a measurement once its suggestion is confirmed', () => {
+    const dentalTooth = { system: 'FDI', value: '26' };
+
+    expect(getConfirmedDentalTooth({ metadata: { dentalTooth } })).toEqual(dentalTooth);
+    expect(
+      getConfirmedDentalTooth({
+        metadata: { dentalTooth, dentalToothSuggestion: { confidence: 0.6, source: 'view-code' } },
+      })
+    ).toBeUndefined();
+    expect(getConfirmedDentalTooth({})).toBeUndefined();
+  });
+
+  test('should only pre-fill a suggested tooth when no tooth is selected', () => {
+    const measurementService = {
+      subscribe: jest.fn((event: string, handler: (data: any) => void) => ({
+        unsubscribe: jest.fn(),
+      })),
+      update: jest.fn((uid: string, measurement: any) => {}),
+      getMeasurements: jest.fn(() => []),
+      EVENTS: {
+        MEASUREMENT_ADDED: 'MEASUREMENT_ADDED',
+        MEASUREMENT_UPDATED: 'MEASUREMENT_UPDATED',
+        MEASUREMENT_REMOVED: 'MEASUREMENT_REMOVED',
+        MEASUREMENTS_CLEARED: 'MEASUREMENTS_CLEARED',
+      },
+    };
+    initializeDentalMeasurements({
+      servicesManager: { services: { measurementService } } as any,
+      commandsManager: { runCommand: jest.fn() } as any,
+      toolGroupIds: ['dental'],
+    });
+    const [, measurementAdded] = measurementService.subscribe.mock.calls.find(
+      ([event]) => event === 'MEASUREMENT_ADDED'
+    );
+    setDentalToothSuggester(() => ({
+      tooth: { system: 'FDI', value: '26' },
+      confidence: 0.6,
+      source: 'panoramic-position',
+    }));
+    selectDentalMeasurementPreset('root-length');
+
+    setActiveDentalTooth({ system: 'FDI', value: '36' });
+    measurementAdded({ measurement: { uid: 'selected', toolName: 'Length', data: {} } });
+    setActiveDentalTooth(null);
+    measurementAdded({ measurement: { uid: 'suggested', toolName: 'Length', data: {} } });
+
+    const [[, selected], [, suggested]] = measurementService.update.mock.calls;
+    expect(selected.label).toBe('Root length (FDI 36)');
+    expect(selected.metadata.dentalToothSuggestion).toBeUndefined();
+    expect(suggested.label).toBe('Root length (FDI 26?)');
+    expect(suggested.metadata.dentalToothSuggestion).toEqual({
+      confidence: 0.6,
+      source: 'panoramic-position',
+    });
+
+    setDentalToothSuggester(null);
+    teardownDentalMeasurements();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for dental voice note transcription
+ */
+
+import {
+  createStandInSpeechToTextProvider,
+  getDentalVocabularyHints,
+  normalizeDentalTranscript,
+  transcribeDentalVoiceNote,
+} from '../dentalTranscription';
+
+describe('Dental voice note transcription', () => {
+  test('should hint the tooth numbers of the numbering system in use', () => {
+    const fdi = getDentalVocabularyHints({ system: 'FDI', value: '36' });
+    expect(fdi.numberingSystem).toBe('FDI');
+    expect(fdi.teeth).toEqual(expect.arrayContaining(['11', '48', '55', '85']));
+    expect(fdi.phrases).toEqual(expect.arrayContaining(['FDI 36', 'tooth 36', 'mesial', 'caries']));
+
+    const universal = getDentalVocabularyHints({ system: 'UNIVERSAL', value: '8' });
+    expect(universal.teeth).toEqual(expect.arrayContaining(['1', '32', 'A', 'T']));
+    expect(universal.phrases).toContain('Universal 8');
+
+    expect(getDentalVocabularyHints(null).numberingSystem).toBe('FDI');
+  });
+
+  test('should write spoken tooth numbers as digits', () => {
+    const fdi = getDentalVocabularyHints({ system: 'FDI', value: '36' });
+    expect(normalizeDentalTranscript('tooth three six has distal caries', fdi)).toBe(
+      'Tooth 36 has distal caries'
+    );
+    expect(normalizeDentalTranscript('caries on tooth thirty-six', fdi)).toBe('Caries on tooth 36');
+    // Not a tooth in FDI, so left as spoken
+    expect(normalizeDentalTranscript('tooth eight is missing', fdi)).toBe('Tooth eight is missing');
+
+    const universal = getDentalVocabularyHints({ system: 'UNIVERSAL', value: '8' });
+    expect(normalizeDentalTranscript('tooth eight is missing', universal)).toBe(
+      'Tooth 8 is missing'
+    );
+    expect(normalizeDentalTranscript('tooth twenty one  fractured', universal)).toBe(
+      'Tooth 21 fractured'
+    );
+  });
+
+  test('should join surface codes spelled letter by letter', () => {
+    const vocabulary = getDentalVocabularyHints({ system: 'FDI', value: '36' });
+    expect(normalizeDentalTranscript('M O D restoration on 36', vocabulary)).toBe(
+      'MOD restoration on 36'
+    );
+    expect(normalizeDentalTranscript('recurrent caries under the M.O. filling', vocabulary)).toBe(
+      'Recurrent caries under the MO filling'
+    );
+  });
+
+  test('should pass the vocabulary to the provider and normalize its transcript', async () => {
+    const provider = {
+      id: 'test',
+      label: 'Test',
+      transcribe: jest
+        .fn()
+        .mockResolvedValue({ text: 'periapical lesion on tooth four six', confidence: 0.8 }),
+    };
+
+    const draft = await transcribeDentalVoiceNote(provider, new Blob(), {
+      tooth: { system: 'FDI', value: '46' },
+      durationSeconds: 4,
+    });
+
+    expect(draft).toEqual({
+      text: 'Periapical lesion on tooth 46',
+      confidence: 0.8,
+      providerId: 'test',
+    });
+    expect(provider.transcribe.mock.calls[0][1]).toMatchObject({
+      tooth: { system: 'FDI', value: '46' },
+      durationSeconds: 4,
+      vocabulary: { numberingSystem: 'FDI' },
+    });
+  });
+
+  test('should return scripted transcripts from the offline stand-in, then an empty draft', async () => {
+    const provider = createStandInSpeechToTextProvider(['tooth one one fractured incisal edge']);
+    const tooth = { system: 'FDI' as const, value: '11' };
+
+    expect((await transcribeDentalVoiceNote(provider, new Blob(), { tooth })).text).toBe(
+      'Tooth 11 fractured incisal edge'
+    );
+    expect(await transcribeDentalVoiceNote(provider, new Blob(), { tooth })).toEqual({
+      text: 'FDI 11:',
+      confidence: 0,
+      providerId: 'stand-in',
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Unit Tests for the dental viewer state capture and restore
+ */
+
+import {
+  applyViewportState,
+  captureViewerState,
+  captureViewportState,
+  countViewerStateChanges,
+  diffViewerStates,
+  findViewportDisplaySets,
+} from '../dentalViewerState';
+
+jest.mock('../services/apiClient', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const camera = {
+  position: [0, 0, 100],
+  focalPoint: [0, 0, 0],
+  viewUp: [0, -1, 0],
+  viewPlaneNormal: [0, 0, 1],
+  parallelScale: 120,
+  flipHorizontal: true,
+  flipVertical: false,
+};
+
+const createStackViewport = () => ({
+  setStack: jest.fn(),
+  getCamera: () => camera,
+  getProperties: () => ({ voiRange: { lower: 0, upper: 4000 }, invert: true }),
+  getPan: () => [5, -3],
+  getZoom: () => 2,
+  getViewPresentation: () => ({ rotation: 90 }),
+  getCurrentImageIdIndex: () => 12,
+  setImageIdIndex: jest.fn(() => Promise.resolve()),
+  setCamera: jest.fn(),
+  setProperties: jest.fn(),
+  render: jest.fn(),
+});
+
+const displaySets = {
+  'ds-pano': { displaySetInstanceUID: 'ds-pano', SeriesInstanceUID: 'series-pano' },
+  'ds-cbct': { displaySetInstanceUID: 'ds-cbct', SeriesInstanceUID: 'series-cbct' },
+  'ds-sr': { displaySetInstanceUID: 'ds-sr', SeriesInstanceUID: 'series-sr', madeInClient: true },
+};
+
+const displaySetService = {
+  getDisplaySetByUID: uid => displaySets[uid],
+  getDisplaySetsForSeries: seriesInstanceUID =>
+    Object.values(displaySets).filter(
+      displaySet => displaySet.SeriesInstanceUID === seriesInstanceUID
+    ),
+};
+
+const createServices = () => {
+  const viewport = createStackViewport();
+  const toolGroups = {
+    dental: { getActivePrimaryMouseButtonTool: () => 'Length' },
+    dentalMPR: { getActivePrimaryMouseButtonTool: () => 'Crosshairs' },
+    empty: { getActivePrimaryMouseButtonTool: () => undefined },
+  };
+
+  return {
+    viewport,
+    services: {
+      viewportGridService: {
+        getState: () => ({
+          layout: { numRows: 1, numCols: 2 },
+          activeViewportId: 'pano',
+          viewports: new Map([
+            ['pano', { displaySetInstanceUIDs: ['ds-pano', 'ds-sr'] }],
+            ['empty', { displaySetInstanceUIDs: [] }],
+          ]),
+        }),
+      },
+      cornerstoneViewportService: { getCornerstoneViewport: () => viewport },
+      displaySetService,
+      toolGroupService: {
+        getToolGroupIds: () => Object.keys(toolGroups),
+        getToolGroup: id => toolGroups[id],
+        getToolGroupForViewport: () => toolGroups.dental,
+      },
+      measurementService: {
+        getMeasurements: () => [
+          {
+            uid: 'measurement-1',
+            toolName: 'Length',
+            referenceStudyUID: 'study-1',
+            referenceSeriesUID: 'series-pano',
+            points: [
+              [0, 0, 0],
+              [10, 0, 0],
+            ],
+            metadata: {
+              dentalTooth: { system: 'UNIVERSAL', value: '8' },
+              dentalPresetId: 'pa-length',
+              dentalValue: 10,
+            },
+          },
+          { uid: 'unreferenced', toolName: 'Length', points: [] },
+        ],
+      },
+      hangingProtocolService: {
+        getActiveProtocol: () => ({ protocol: { id: '@ohif/hpDentalPano' }, stageIndex: 1 }),
+      },
+    },
+  };
+};
+
+describe('Dental viewer state', () => {
+  test('should capture the slice, camera and display properties of a viewport', () => {
+    const state = captureViewportState(
+      'pano',
+      { displaySetInstanceUIDs: ['ds-pano', 'ds-sr'], viewportOptions: { viewportType: 'stack' } },
+      createStackViewport(),
+      displaySetService
+    );
+
+    expect(state).toEqual({
+      viewportId: 'pano',
+      displaySetInstanceUID: 'ds-pano',
+      seriesInstanceUIDs: ['series-pano'],
+      viewportType: 'stack',
+      imageIndex: 12,
+      zoom: 2,
+      pan: { x: 5, y: -3 },
+      rotation: 90,
+      flip: { horizontal: true, vertical: false },
+      windowLevel: { width: 4000, center: 2000 },
+      colormap: undefined,
+      invert: true,
+      camera,
+    });
+  });
+
+  test('should capture the layout, tools, measurements and dental selection', () => {
+    const { services } = createServices();
+    const state = captureViewerState({
+      services,
+      selectedTooth: { system: 'UNIVERSAL', value: '8' },
+      calibrations: {},
+    });
+
+    expect(state.viewports.map(viewport => viewport.viewportId)).toEqual(['pano']);
+    expect(state.layout).toEqual({ numRows: 1, numCols: 2, activeViewportId: 'pano' });
+    expect(state.tools).toEqual({
+      activeTool: 'Length',
+      toolStates: { dental: 'Length', dentalMPR: 'Crosshairs' },
+    });
+    expect(state.measurements).toHaveLength(1);
+    expect(state.measurements[0]).toMatchObject({
+      id: 'measurement-1',
+      toolName: 'Length',
+      data: { measurementUID: 'measurement-1', seriesInstanceUID: 'series-pano' },
+      metadata: { tooth: 'Universal 8', category: 'pa-length' },
+    });
+    expect(state.dental).toEqual({
+      selectedTooth: { system: 'UNIVERSAL', value: '8' },
+      theme: 'dental',
+      hangingProtocol: '@ohif/hpDentalPano',
+      hangingProtocolStageIndex: 1,
+      calibrations: {},
+    });
+  });
+
+  test('should find the display sets of the saved series in the current session', () => {
+    expect(
+      findViewportDisplaySets(
+        {
+          seriesInstanceUIDs: ['series-cbct', 'series-missing', 'series-sr'],
+        } as any,
+        displaySetService
+      )
+    ).toEqual(['ds-cbct']);
+  });
+
+  test('should restore the slice, camera and VOI of a stack viewport', async () => {
+    const viewport = createStackViewport();
+    const state = captureViewportState(
+      'pano',
+      { displaySetInstanceUIDs: ['ds-pano'] },
+      viewport,
+      displaySetService
+    );
+
+    await applyViewportState(viewport, state);
+
+    expect(viewport.setImageIdIndex).toHaveBeenCalledWith(12);
+    expect(viewport.setCamera).toHaveBeenCalledWith(camera);
+    expect(viewport.setProperties).toHaveBeenCalledWith({
+      voiRange: { lower: 0, upper: 4000 },
+      invert: true,
+    });
+    expect(viewport.render).toHaveBeenCalled();
+  });
+
+  test('should list what changed between two saved states', () => {
+    const { services } = createServices();
+    const from = captureViewerState({
+      services,
+      selectedTooth: { system: 'FDI', value: '11' },
+    });
+    const length = from.measurements[0];
+    const to = {
+      ...from,
+      layout: { ...from.layout, numRows: 2 },
+      measurements: [
+        {
+          ...length,
+          data: {
+            ...length.data,
+            annotation: {
+              ...length.data.annotation,
+              points: [
+                [0, 0, 0],
+                [12, 0, 0],
+              ],
+            },
+          },
+        },
+        {
+          id: 'measurement-2',
+          toolName: 'Angle',
+          data: { label: 'Canal angle (FDI 36)' },
+          metadata: {},
+        },
+      ],
+      dental: { ...from.dental, selectedTooth: { system: 'FDI' as const, value: '36' } },
+    };
+
+    const diff = diffViewerStates(from, to);
+    expect(diff.measurements).toEqual({
+      added: [{ id: 'measurement-2', label: 'Canal angle (FDI 36)' }],
+      removed: [],
+      changed: [{ id: 'measurement-1', label: 'Length' }],
+    });
+    expect(diff.layout).toEqual({ from: '1×2', to: '2×2' });
+    expect(diff.selectedTooth).toEqual({ from: 'FDI 11', to: 'FDI 36' });
+    expect(
+      diffViewerStates(from, {
+        ...from,
+        dental: { ...from.dental, selectedTooth: { system: 'UNIVERSAL', value: '8' } },
+      }).selectedTooth
+    ).toEqual({ from: 'FDI 11', to: 'Universal 8' });
+    expect(diff.hangingProtocol).toBeNull();
+    expect(diff.activeTool).toBeNull();
+    expect(countViewerStateChanges(diff)).toBe(4);
+
+    expect(diffViewerStates(to, from).measurements.removed).toEqual([
+      { id: 'measurement-2', label: 'Canal angle (FDI 36)' },
+    ]);
+    expect(countViewerStateChanges(diffViewerStates(from, from))).toBe(0);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Unit Tests for the offline queue of dental backend writes
+ */
+
+import OfflineQueue, {
+  RETRY_MAX_DELAY_MS,
+  createMemoryStorage,
+  getRetryDelay,
+} from '../services/offlineQueue';
+import { ApiRequestError, NetworkError } from '../services/apiErrors';
+import { ApiClient } from '../services/apiClient';
+
+const createRequest = (overrides = {}) => ({
+  key: 'measurement:1',
+  kind: 'measurement' as const,
+  label: 'Length',
+  endpoint: '/measurements/1',
+  method: 'PUT',
+  body: JSON.stringify({ value: 10 }),
+  baseVersion: 3,
+  ...overrides,
+});
+
+const createToken = (userId: string) => `header.${btoa(JSON.stringify({ userId }))}.signature`;
+
+const jsonResponse = (status: number, data: any) => ({
+  ok: status < 400,
+  status,
+  statusText: '',
+  json: async () => data,
+});
+
+const createQueue = (send: jest.Mock, userId: { current: string | null } = { current: 'user-1' }) =>
+  new OfflineQueue(send, () => userId.current, createMemoryStorage());
+
+describe('Dental offline queue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should back off exponentially up to five minutes', () => {
+    expect(getRetryDelay(1)).toBe(2000);
+    expect(getRetryDelay(2)).toBe(4000);
+    expect(getRetryDelay(4)).toBe(16000);
+    expect(getRetryDelay(20)).toBe(RETRY_MAX_DELAY_MS);
+  });
+
+  test('should replace queued writes to the same resource and keep the first base version', async () => {
+    const send = jest.fn().mockResolvedValue(4);
+    const queue = createQueue(send);
+
+    queue.enqueue(createRequest());
+    queue.enqueue(createRequest({ body: JSON.stringify({ value: 12 }), baseVersion: 5 }));
+    queue.enqueue(createRequest({ key: 'measurement:2', endpoint: '/measurements/2' }));
+
+    expect(queue.getStatus()).toMatchObject({ state: 'pending', pending: 2 });
+    expect(queue.hasPending('measurement:1')).toBe(true);
+
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0][0]).toMatchObject({
+      key: 'measurement:1',
+      body: JSON.stringify({ value: 12 }),
+      baseVersion: 3,
+    });
+    expect(queue.getStatus()).toEqual({ state: 'synced', pending: 0, conflicts: [] });
+    queue.dispose();
+  });
+
+  test('should keep requests and retry later while the backend is unreachable', async () => {
+    const send = jest.fn().mockRejectedValueOnce(new NetworkError()).mockResolvedValue(4);
+    const queue = createQueue(send);
+
+    queue.enqueue(createRequest());
+    queue.enqueue(createRequest({ key: 'measurement:2', endpoint: '/measurements/2' }));
+    await queue.flush();
+
+    // The replay stops at the first network failure
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.getStatus()).toMatchObject({ state: 'offline', pending: 2 });
+
+    await queue.retryNow();
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(queue.getStatus().state).toBe('synced');
+    queue.dispose();
+  });
+
+  test('should hold conflicting writes until the user resolves them', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(
+        new ApiRequestError('Version conflict', 409, {
+          error: 'Version conflict',
+          currentVersion: 6,
+        })
+      )
+      .mockResolvedValue(7);
+    const queue = createQueue(send);
+
+    queue.enqueue(createRequest());
+    await queue.flush();
+
+    const { state, conflicts } = queue.getStatus();
+    expect(state).toBe('conflict');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].conflict).toEqual({ currentVersion: 6 });
+
+    await queue.resolveConflict(conflicts[0].id, 'local');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0].baseVersion).toBeUndefined();
+    expect(queue.getStatus().state).toBe('synced');
+
+    queue.enqueue(createRequest());
+    send.mockRejectedValueOnce(new ApiRequestError('Version conflict', 409, {}));
+    await queue.flush();
+    await queue.resolveConflict(queue.getStatus().conflicts[0].id, 'server');
+
+    expect(queue.getStatus()).toEqual({ state: 'synced', pending: 0, conflicts: [] });
+    queue.dispose();
+  });
+
+  test('should only replay the writes of the signed in user', async () => {
+    const send = jest.fn().mockResolvedValue(1);
+    const userId = { current: 'user-1' };
+    const queue = createQueue(send, userId);
+
+    queue.enqueue(createRequest());
+    userId.current = 'user-2';
+
+    expect(queue.getStatus().pending).toBe(0);
+    await queue.flush();
+    expect(send).not.toHaveBeenCalled();
+
+    userId.current = 'user-1';
+    await queue.flush();
+    expect(send).toHaveBeenCalledTimes(1);
+    queue.dispose();
+  });
+
+  test('should drop queued deletions of resources that no longer exist', async () => {
+    const send = jest.fn().mockRejectedValue(new ApiRequestError('Not found', 404, {}));
+    const queue = createQueue(send);
+
+    queue.enqueue(createRequest({ method: 'DELETE', body: undefined }));
+    await queue.flush();
+
+    expect(queue.getStatus().pending).toBe(0);
+    queue.dispose();
+  });
+
+  describe('through the backend client', () => {
+    const fetchMock = jest.fn();
+
+    // A client with a write queued while the backend is unreachable
+    const createClient = async (
+      write: (client: ApiClient) => Promise<any> = client =>
+        client.updateAnnotation('note-1', { text: 'Caries' })
+    ) => {
+      localStorage.setItem('dental_access_token', createToken('user-1'));
+      localStorage.setItem('dental_refresh_token', createToken('user-1'));
+      const client = new ApiClient('http://backend/api');
+
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      expect(await write(client)).toEqual({ queued: true });
+      return client;
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+      fetchMock.mockReset();
+      global.fetch = fetchMock;
+    });
+
+    test('should keep queued writes until the user signs in again when the access token refresh fails', async () => {
+      const client = await createClient();
+
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Token expired' }))
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Refresh token expired' }));
+      await client.retrySync();
+
+      expect(fetchMock.mock.calls[2][0]).toBe('http://backend/api/auth/refresh');
+      expect(localStorage.getItem('dental_access_token')).toBeNull();
+
+      const tokens = { accessToken: createToken('user-1'), refreshToken: createToken('user-1') };
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(200, { tokens }))
+        .mockResolvedValueOnce(jsonResponse(200, { annotation: { _id: 'note-1', version: 2 } }));
+      // Signing in replays the queue
+      const synced = new Promise<void>(resolve =>
+        client.subscribeToSyncStatus(status => status.state === 'synced' && resolve())
+      );
+      await client.login('dentist@example.com', 'password');
+      await synced;
+
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(fetchMock.mock.calls[4][0]).toBe('http://backend/api/annotations/note-1');
+      expect(client.getSyncStatus()).toEqual({ state: 'synced', pending: 0, conflicts: [] });
+    });
+
+    test('should keep the user signed in and the writes queued when the refresh request fails to connect', async () => {
+      const client = await createClient();
+
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Token expired' }))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      await client.retrySync();
+
+      expect(fetchMock.mock.calls[2][0]).toBe('http://backend/api/auth/refresh');
+      expect(localStorage.getItem('dental_refresh_token')).not.toBeNull();
+      expect(client.getSyncStatus()).toEqual(
+        expect.objectContaining({ state: 'offline', pending: 1 })
+      );
+
+      const tokens = { accessToken: createToken('user-1'), refreshToken: createToken('user-1') };
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Token expired' }))
+        .mockResolvedValueOnce(jsonResponse(200, { tokens }))
+        .mockResolvedValueOnce(jsonResponse(200, { annotation: { _id: 'note-1', version: 2 } }));
+      await client.retrySync();
+
+      expect(fetchMock.mock.calls[5][0]).toBe('http://backend/api/annotations/note-1');
+      expect(client.getSyncStatus()).toEqual({ state: 'synced', pending: 0, conflicts: [] });
+    });
+
+    test('should report conflicts of writes retried after an access token refresh', async () => {
+      const client = await createClient();
+      const tokens = { accessToken: createToken('user-1'), refreshToken: createToken('user-1') };
+
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Token expired' }))
+        .mockResolvedValueOnce(jsonResponse(200, { tokens }))
+        .mockResolvedValueOnce(jsonResponse(409, { error: 'Version conflict', currentVersion: 4 }));
+      await client.retrySync();
+
+      const { state, conflicts } = client.getSyncStatus();
+      expect(state).toBe('conflict');
+      expect(conflicts[0].conflict).toEqual({ currentVersion: 4 });
+      expect(localStorage.getItem('dental_access_token')).toBe(tokens.accessToken);
+    });
+
+    test('should queue voice notes with their recording and report their annotation once sent', async () => {
+      const audio = new Blob(['recording'], { type: 'audio/wav' });
+      const client = await createClient(client =>
+        client.createAnnotation(
+          {
+            studyInstanceUID: 'study-1',
+            tooth: { system: 'FDI', value: '36' },
+            category: 'observation',
+            content: { text: 'Caries' },
+          },
+          new File([audio], 'voice-note.webm'),
+          'annotation-1'
+        )
+      );
+      const sent = jest.fn();
+      client.subscribeToSentWrites(sent);
+
+      fetchMock.mockResolvedValueOnce(jsonResponse(201, { annotation: { _id: 'note-1' } }));
+      await client.retrySync();
+
+      const { body, headers } = fetchMock.mock.calls[1][1];
+      // The browser sets the multipart Content-Type with its boundary
+      expect(headers['Content-Type']).toBeUndefined();
+      expect(body.get('content')).toBe(JSON.stringify({ text: 'Caries' }));
+      expect(body.get('audio')).toBeInstanceOf(File);
+      expect(sent).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'annotation-create:annotation-1' }),
+        { annotation: { _id: 'note-1' } }
+      );
+    });
+  });
+});
@@ -1,6 +1,33 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button, Icons } from '@ohif/ui-next';
 import classNames from 'classnames';
+import { parseToothLabel } from '../dentalTeeth';
+import { DentalFinding, formatFinding } from '../dentalFindings';
+import {
+  DentalAISuggestion,
+  formatDentalAISuggestion,
+  getDentalAISuggestedFindings,
+} from '../dentalInference';
+import DentalFindingPicker from './DentalFindingPicker';
+import MicrophoneIcon from './MicrophoneIcon';
+import {
+  DentalSpeechToTextProvider,
+  DentalTranscriptionDraft,
+  transcribeDentalVoiceNote,
+} from '../dentalTranscription';
+import useDentalPermission from '../hooks/useDentalPermission';
+import {
+  DentalAuditEvent,
+  DentalAuditSummary,
+  describeDentalAuditChange,
+  describeDentalAuditEvent,
+  summarizeDentalAuditHistory,
+} from '../dentalAudit';
+import {
+  DENTAL_REVIEW_STATUS_LABELS,
+  DentalNoteReview,
+  isDentalReviewLocked,
+} from '../dentalReview';
 
 interface VoiceNote {
   id: string;
@@ -10,28 +37,129 @@ interface VoiceNote {
   audioBlob?: Blob;
   tooth?: string;
   category: 'diagnosis' | 'treatment' | 'observation' | 'note';
+  findings?: DentalFinding[];
+  // Set when the text started as a transcript of the recording
+  transcription?: {
+    providerId: string;
+    confidence?: number;
+    edited: boolean;
+  };
+  // Set when the note records an accepted AI suggestion
+  aiSuggestion?: {
+    providerId: string;
+    model?: string;
+    score: number;
+    edited: boolean;
+  };
+  // Id of the backend annotation the note was saved as
+  backendId?: string;
+  review?: DentalNoteReview;
+}
+
+interface PendingRecording {
+  audioBlob: Blob;
+  duration: number;
 }
 
 interface DentalAnnotationPanelProps {
   onSave?: (annotations: VoiceNote[]) => void;
   initialAnnotations?: VoiceNote[];
   currentTooth?: string;
+  speechToTextProvider?: DentalSpeechToTextProvider;
+  // Saves a new note to the backend, resolving to the id of its annotation
+  onNoteAdded?: (note: VoiceNote) => Promise<string | undefined>;
+  // Tells which notes saved later, e.g. from the offline queue, are now linked to an annotation
+  subscribeToNoteLinks?: (listener: (id: string, backendId: string) => void) => () => void;
+  // Saves the edited text and findings of a note
+  onNoteUpdated?: (note: VoiceNote) => Promise<void>;
+  onNoteDeleted?: (note: VoiceNote) => Promise<void>;
+  onLoadHistory?: (note: VoiceNote) => Promise<DentalAuditEvent[]>;
+  onSubmitForReview?: (note: VoiceNote) => Promise<DentalNoteReview>;
+  // Review state of the saved notes by backend id, refreshed whenever the panel opens
+  onLoadReviews?: () => Promise<Record<string, DentalNoteReview>>;
+  // Pending AI suggestions on this tooth or on no tooth
+  aiSuggestions?: DentalAISuggestion[];
+  onAcceptAISuggestion?: (
+    suggestion: DentalAISuggestion,
+    acceptance: { findings: DentalFinding[]; edited: boolean }
+  ) => void;
+  onRejectAISuggestion?: (suggestion: DentalAISuggestion) => void;
 }
 
 const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
   onSave,
   initialAnnotations = [],
-  currentTooth = 'FDI 11'
+  currentTooth = 'FDI 11',
+  speechToTextProvider,
+  onNoteAdded,
+  subscribeToNoteLinks,
+  onNoteUpdated,
+  onNoteDeleted,
+  onLoadHistory,
+  onSubmitForReview,
+  onLoadReviews,
+  aiSuggestions = [],
+  onAcceptAISuggestion,
+  onRejectAISuggestion
 }) => {
   const [annotations, setAnnotations] = useState<VoiceNote[]>(initialAnnotations);
   const [isRecording, setIsRecording] = useState(false);
   const [currentText, setCurrentText] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<VoiceNote['category']>('observation');
   const [recordingTime, setRecordingTime] = useState(0);
+  const [pendingRecording, setPendingRecording] = useState<PendingRecording | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptionDraft, setTranscriptionDraft] = useState<DentalTranscriptionDraft | null>(
+    null
+  );
+  const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
+  const [findings, setFindings] = useState<DentalFinding[]>([]);
+  const canCreate = useDentalPermission('annotations:create');
+  const canDelete = useDentalPermission('annotations:delete');
+  const canUpdate = useDentalPermission('annotations:update');
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  const [history, setHistory] = useState<DentalAuditSummary | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [editingSuggestionUID, setEditingSuggestionUID] = useState<string | null>(null);
+  const [suggestionFindings, setSuggestionFindings] = useState<DentalFinding[]>([]);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editFindings, setEditFindings] = useState<DentalFinding[]>([]);
+
+  // Notes are linked to their backend annotation once it answers, possibly after later edits
+  const annotationsRef = useRef<VoiceNote[]>(annotations);
+  annotationsRef.current = annotations;
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const recordingStartRef = useRef<number>(0);
+
+  // Colleagues review notes elsewhere, so their state is fetched again on every open
+  useEffect(() => {
+    if (!onLoadReviews) {
+      return;
+    }
+
+    let cancelled = false;
+    onLoadReviews()
+      .then(reviews => {
+        if (cancelled) {
+          return;
+        }
+        updateAnnotations(ann =>
+          ann.backendId && reviews[ann.backendId] ? { ...ann, review: reviews[ann.backendId] } : ann
+        );
+      })
+      .catch(error => console.warn('Failed to load the review state of the notes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => subscribeToNoteLinks?.(linkAnnotation), []);
 
   useEffect(() => {
     return () => {
@@ -56,11 +184,13 @@ const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
 
       mediaRecorder.onstop = () => {
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
-        addAnnotation(currentText, audioBlob, recordingTime);
+        const duration = Math.round((Date.now() - recordingStartRef.current) / 1000);
         stream.getTracks().forEach(track => track.stop());
+        transcribeRecording({ audioBlob, duration });
       };
 
       mediaRecorder.start();
+      recordingStartRef.current = Date.now();
       setIsRecording(true);
       setRecordingTime(0);
       
@@ -84,35 +214,211 @@ const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
     }
   };
 
-  const addAnnotation = (text: string, audioBlob?: Blob, duration?: number) => {
-    if (!text.trim()) return;
+  // The transcript is only a draft: it goes into the text field for the user to correct, and
+  // the note is added with the recording once they confirm it
+  const transcribeRecording = async (recording: PendingRecording) => {
+    setPendingRecording(recording);
+    setTranscriptionDraft(null);
+    setTranscriptionError(null);
+
+    if (!speechToTextProvider) {
+      return;
+    }
+
+    setIsTranscribing(true);
+    try {
+      const draft = await transcribeDentalVoiceNote(speechToTextProvider, recording.audioBlob, {
+        tooth: parseToothLabel(currentTooth),
+        durationSeconds: recording.duration
+      });
+      setTranscriptionDraft(draft);
+      setCurrentText(prev => (prev.trim() ? `${prev.trim()} ${draft.text}` : draft.text));
+    } catch (error) {
+      console.warn('Voice note transcription failed:', error);
+      setTranscriptionError('Transcription failed. Type the note for this recording.');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const discardRecording = () => {
+    setPendingRecording(null);
+    setTranscriptionDraft(null);
+    setTranscriptionError(null);
+  };
+
+  const addAnnotation = (text: string) => {
+    // A note made of findings only is described by them
+    const noteText = text.trim() || findings.map(formatFinding).join('; ');
+    if (!noteText) return;
 
     const newAnnotation: VoiceNote = {
       id: `annotation-${Date.now()}`,
-      text: text.trim(),
+      text: noteText,
       timestamp: new Date(),
-      duration,
-      audioBlob,
+      duration: pendingRecording?.duration,
+      audioBlob: pendingRecording?.audioBlob,
       tooth: currentTooth,
-      category: selectedCategory
+      category: selectedCategory,
+      findings: findings.length ? findings : undefined,
+      transcription: transcriptionDraft
+        ? {
+            providerId: transcriptionDraft.providerId,
+            confidence: transcriptionDraft.confidence,
+            edited: !text.includes(transcriptionDraft.text)
+          }
+        : undefined
     };
 
-    const updatedAnnotations = [...annotations, newAnnotation];
-    setAnnotations(updatedAnnotations);
     setCurrentText('');
-    
+    setFindings([]);
+    discardRecording();
+    saveNote(newAnnotation);
+  };
+
+  const saveNote = (newAnnotation: VoiceNote) => {
+    const updatedAnnotations = [...annotationsRef.current, newAnnotation];
+    annotationsRef.current = updatedAnnotations;
+    setAnnotations(updatedAnnotations);
+
     if (onSave) {
       onSave(updatedAnnotations);
     }
+
+    if (onNoteAdded) {
+      onNoteAdded(newAnnotation)
+        .then(backendId => backendId && linkAnnotation(newAnnotation.id, backendId))
+        .catch(error => console.warn('Failed to save the note to the dental backend:', error));
+    }
+  };
+
+  const editSuggestion = (suggestion: DentalAISuggestion) => {
+    setEditingSuggestionUID(suggestion.measurementUID);
+    setSuggestionFindings(getDentalAISuggestedFindings(suggestion, parseToothLabel(currentTooth)));
+  };
+
+  // An accepted suggestion becomes a note of its own, marked as AI-suggested, rather than being
+  // added to the clinician's notes
+  const acceptSuggestion = (suggestion: DentalAISuggestion) => {
+    const suggestedFindings = getDentalAISuggestedFindings(
+      suggestion,
+      parseToothLabel(currentTooth)
+    );
+    const isEditing = editingSuggestionUID === suggestion.measurementUID;
+    const acceptedFindings = isEditing ? suggestionFindings : suggestedFindings;
+    const edited =
+      isEditing && JSON.stringify(acceptedFindings) !== JSON.stringify(suggestedFindings);
+
+    saveNote({
+      id: `annotation-${Date.now()}`,
+      text: acceptedFindings.length
+        ? acceptedFindings.map(formatFinding).join('; ')
+        : suggestion.label,
+      timestamp: new Date(),
+      tooth: currentTooth,
+      category: 'diagnosis',
+      findings: acceptedFindings.length ? acceptedFindings : undefined,
+      aiSuggestion: {
+        providerId: suggestion.providerId,
+        model: suggestion.model,
+        score: suggestion.score,
+        edited
+      }
+    });
+    setEditingSuggestionUID(null);
+    onAcceptAISuggestion?.(suggestion, { findings: acceptedFindings, edited });
+  };
+
+  const rejectSuggestion = (suggestion: DentalAISuggestion) => {
+    if (editingSuggestionUID === suggestion.measurementUID) {
+      setEditingSuggestionUID(null);
+    }
+    onRejectAISuggestion?.(suggestion);
+  };
+
+  const updateAnnotations = (update: (annotation: VoiceNote) => VoiceNote) => {
+    const updatedAnnotations = annotationsRef.current.map(update);
+    annotationsRef.current = updatedAnnotations;
+    setAnnotations(updatedAnnotations);
+
+    if (onSave) {
+      onSave(updatedAnnotations);
+    }
+  };
+
+  const linkAnnotation = (id: string, backendId: string) =>
+    updateAnnotations(ann =>
+      ann.id === id ? { ...ann, backendId, review: { status: 'draft' } } : ann
+    );
+
+  const submitForReview = async (annotation: VoiceNote) => {
+    setReviewError(null);
+    try {
+      const review = await onSubmitForReview(annotation);
+      updateAnnotations(ann => (ann.id === annotation.id ? { ...ann, review } : ann));
+    } catch (error) {
+      console.warn('Failed to submit the note for review:', error);
+      setReviewError('Unable to submit this note for review');
+    }
+  };
+
+  // Notes can be edited until they are submitted, and again once returned as drafts
+  const editAnnotation = (annotation: VoiceNote) => {
+    setEditingNoteId(annotation.id);
+    setEditText(annotation.text);
+    setEditFindings(annotation.findings ?? []);
+  };
+
+  const saveEdit = (id: string) => {
+    const text = editText.trim() || editFindings.map(formatFinding).join('; ');
+    if (!text) return;
+
+    updateAnnotations(ann =>
+      ann.id === id
+        ? { ...ann, text, findings: editFindings.length ? editFindings : undefined }
+        : ann
+    );
+    setEditingNoteId(null);
+
+    const edited = annotationsRef.current.find(ann => ann.id === id);
+    if (edited && onNoteUpdated) {
+      onNoteUpdated(edited).catch(error =>
+        console.warn('Failed to save the edited note to the dental backend:', error)
+      );
+    }
   };
 
   const deleteAnnotation = (id: string) => {
+    const deleted = annotations.find(ann => ann.id === id);
     const updatedAnnotations = annotations.filter(ann => ann.id !== id);
     setAnnotations(updatedAnnotations);
     
     if (onSave) {
       onSave(updatedAnnotations);
     }
+
+    if (deleted && onNoteDeleted) {
+      onNoteDeleted(deleted).catch(error =>
+        console.warn('Failed to delete the note from the dental backend:', error)
+      );
+    }
+  };
+
+  const toggleHistory = async (annotation: VoiceNote) => {
+    if (historyNoteId === annotation.id) {
+      setHistoryNoteId(null);
+      return;
+    }
+
+    setHistoryNoteId(annotation.id);
+    setHistory(null);
+    setHistoryError(null);
+    try {
+      setHistory(summarizeDentalAuditHistory(await onLoadHistory(annotation)));
+    } catch (error) {
+      console.warn('Failed to load the history of the note:', error);
+      setHistoryError('Unable to load the history of this note');
+    }
   };
 
   const playAudio = (audioBlob: Blob) => {
@@ -137,6 +443,14 @@ const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
     }
   };
 
+  const getReviewStatusColor = (review: DentalNoteReview) => {
+    switch (review.status) {
+      case 'final': return 'dental-status-warning';
+      case 'reviewed': return 'dental-status-success';
+      default: return 'dental-chip';
+    }
+  };
+
   const getCategoryColor = (category: VoiceNote['category']) => {
     switch (category) {
       case 'diagnosis': return 'dental-status-error';
@@ -159,61 +473,172 @@ const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
       </div>
 
       {/* Recording Controls */}
-      <div className="mb-4 p-3 bg-dental-surface border border-dental-border-soft rounded-lg">
-        <div className="flex items-center gap-2 mb-3">
-          <select
-            value={selectedCategory}
-            onChange={(e) => setSelectedCategory(e.target.value as VoiceNote['category'])}
-            className="dental-select text-sm"
-          >
-            <option value="observation">Observation</option>
-            <option value="diagnosis">Diagnosis</option>
-            <option value="treatment">Treatment</option>
-            <option value="note">General Note</option>
-          </select>
+      {canCreate ? (
+        <div className="mb-4 p-3 bg-dental-surface border border-dental-border-soft rounded-lg">
+          <div className="flex items-center gap-2 mb-3">
+            <select
+              value={selectedCategory}
+              onChange={(e) => setSelectedCategory(e.target.value as VoiceNote['category'])}
+              className="dental-select text-sm"
+            >
+              <option value="observation">Observation</option>
+              <option value="diagnosis">Diagnosis</option>
+              <option value="treatment">Treatment</option>
+              <option value="note">General Note</option>
+            </select>
           
-          {isRecording && (
-            <div className="flex items-center gap-2 text-dental-secondary">
-              <div className="w-2 h-2 bg-dental-error rounded-full animate-pulse"></div>
-              <span className="text-sm font-mono">{formatTime(recordingTime)}</span>
+            {isRecording && (
+              <div className="flex items-center gap-2 text-dental-secondary">
+                <div className="w-2 h-2 bg-dental-error rounded-full animate-pulse"></div>
+                <span className="text-sm font-mono">{formatTime(recordingTime)}</span>
+              </div>
+            )}
+          </div>
+
+          <textarea
+            value={currentText}
+            onChange={(e) => setCurrentText(e.target.value)}
+            placeholder={
+              isTranscribing ? 'Transcribing voice note...' : 'Type your annotation or record a voice note...'
+            }
+            disabled={isTranscribing}
+            className="w-full p-2 bg-transparent border border-dental-border-soft rounded text-white placeholder-dental-muted resize-none"
+            rows={3}
+          />
+
+          {pendingRecording && !isTranscribing && (
+            <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+              <span
+                className={transcriptionError ? undefined : 'text-dental-muted'}
+                style={transcriptionError ? { color: 'var(--dental-error)' } : undefined}
+              >
+                {transcriptionError ||
+                  (transcriptionDraft
+                    ? `Draft transcript of a ${formatTime(pendingRecording.duration)} recording. Review and edit it before adding the note.`
+                    : `${formatTime(pendingRecording.duration)} recording attached. Type the note for it.`)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={discardRecording}
+                className="dental-button-ghost px-2 py-1 text-xs"
+              >
+                Discard recording
+              </Button>
             </div>
           )}
-        </div>
 
-        <textarea
-          value={currentText}
-          onChange={(e) => setCurrentText(e.target.value)}
-          placeholder="Type your annotation or record a voice note..."
-          className="w-full p-2 bg-transparent border border-dental-border-soft rounded text-white placeholder-dental-muted resize-none"
-          rows={3}
-        />
+          <div className="mt-3">
+            <DentalFindingPicker
+              tooth={parseToothLabel(currentTooth)}
+              findings={findings}
+              onChange={setFindings}
+            />
+          </div>
 
-        <div className="flex items-center gap-2 mt-3">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={isRecording ? stopRecording : startRecording}
-            className={classNames(
-              'dental-tooltip flex items-center gap-2',
-              isRecording ? 'text-dental-error' : 'text-dental-secondary'
-            )}
-            data-tooltip={isRecording ? 'Stop recording' : 'Start voice recording'}
-          >
-            <Icons.Microphone className="w-4 h-4" />
-            {isRecording ? 'Stop' : 'Record'}
-          </Button>
+          <div className="flex items-center gap-2 mt-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={isRecording ? stopRecording : startRecording}
+              disabled={isTranscribing}
+              className={classNames(
+                'dental-tooltip flex items-center gap-2',
+                isRecording ? 'text-dental-error' : 'text-dental-secondary'
+              )}
+              data-tooltip={isRecording ? 'Stop recording' : 'Start voice recording'}
+            >
+              <MicrophoneIcon className="w-4 h-4" />
+              {isRecording ? 'Stop' : 'Record'}
+            </Button>
 
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => addAnnotation(currentText)}
-            disabled={!currentText.trim()}
-            className="dental-primary-button text-sm px-3 py-1"
-          >
-            Add Note
-          </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => addAnnotation(currentText)}
+              disabled={(!currentText.trim() && findings.length === 0) || isTranscribing}
+              className="dental-primary-button text-sm px-3 py-1"
+            >
+              Add Note
+            </Button>
+          </div>
         </div>
-      </div>
+      ) : (
+        <div className="dental-panel-empty mb-4 text-xs">
+          Your role can read the notes of this tooth but not add them.
+        </div>
+      )}
+
+      {/* AI Suggestions */}
+      {aiSuggestions.length > 0 && (
+        <div className="mb-4 flex flex-col gap-2">
+          <h4 className="text-sm font-semibold text-dental-accent">AI suggestions</h4>
+          {aiSuggestions.map(suggestion => (
+            <div
+              key={suggestion.measurementUID}
+              className="dental-panel-item flex flex-col gap-2 text-xs"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <span className="dental-status-indicator dental-status-warning">AI</span>
+                  {formatDentalAISuggestion(suggestion)}
+                </span>
+                <span className="text-dental-muted">
+                  {suggestion.tooth ? '' : 'No tooth · '}
+                  {suggestion.model || suggestion.providerId}
+                </span>
+              </div>
+              {editingSuggestionUID === suggestion.measurementUID && (
+                <DentalFindingPicker
+                  tooth={parseToothLabel(currentTooth)}
+                  findings={suggestionFindings}
+                  onChange={setSuggestionFindings}
+                />
+              )}
+              {canCreate ? (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => acceptSuggestion(suggestion)}
+                    className="dental-outline-button px-2 py-1 text-xs"
+                  >
+                    {editingSuggestionUID === suggestion.measurementUID ? 'Accept edited' : 'Accept'}
+                  </Button>
+                  {editingSuggestionUID !== suggestion.measurementUID && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => editSuggestion(suggestion)}
+                      className="dental-button-ghost px-2 py-1 text-xs"
+                    >
+                      Edit
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => rejectSuggestion(suggestion)}
+                    className="dental-button-ghost px-2 py-1 text-xs"
+                  >
+                    Reject
+                  </Button>
+                </div>
+              ) : (
+                <span className="text-dental-muted">
+                  Your role cannot add notes, so it cannot accept suggestions.
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {reviewError && (
+        <div className="mb-2 text-xs" style={{ color: 'var(--dental-error)' }}>
+          {reviewError}
+        </div>
+      )}
 
       {/* Annotations List */}
       <div className="space-y-3 max-h-96 overflow-y-auto">
@@ -243,6 +668,14 @@ const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
                   <span className="text-xs text-dental-muted">
                     {annotation.tooth}
                   </span>
+                  {annotation.backendId && annotation.review && (
+                    <span className={classNames(
+                      'dental-status-indicator text-xs',
+                      getReviewStatusColor(annotation.review)
+                    )}>
+                      {DENTAL_REVIEW_STATUS_LABELS[annotation.review.status]}
+                    </span>
+                  )}
                 </div>
                 
                 <div className="flex items-center gap-1">
@@ -258,22 +691,127 @@ const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
                     </Button>
                   )}
                   
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deleteAnnotation(annotation.id)}
-                    className="dental-tooltip p-1 text-dental-error hover:bg-red-500/10"
-                    data-tooltip="Delete annotation"
-                  >
-                    <Icons.Trash className="w-3 h-3" />
-                  </Button>
+                  {annotation.backendId && onLoadHistory && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleHistory(annotation)}
+                      className="dental-tooltip p-1"
+                      data-tooltip={historyNoteId === annotation.id ? 'Hide history' : 'Show history'}
+                    >
+                      <Icons.Info className="w-3 h-3" />
+                    </Button>
+                  )}
+
+                  {canUpdate &&
+                    !isDentalReviewLocked(annotation.review) &&
+                    editingNoteId !== annotation.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => editAnnotation(annotation)}
+                        className="dental-tooltip p-1"
+                        data-tooltip="Edit annotation"
+                      >
+                        <Icons.Pencil className="w-3 h-3" />
+                      </Button>
+                    )}
+
+                  {annotation.backendId &&
+                    annotation.review?.status === 'draft' &&
+                    editingNoteId !== annotation.id &&
+                    canUpdate &&
+                    onSubmitForReview && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => submitForReview(annotation)}
+                        className="dental-outline-button px-2 py-1 text-xs"
+                      >
+                        Submit for review
+                      </Button>
+                    )}
+
+                  {canDelete && !isDentalReviewLocked(annotation.review) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteAnnotation(annotation.id)}
+                      className="dental-tooltip p-1 text-dental-error hover:bg-red-500/10"
+                      data-tooltip="Delete annotation"
+                    >
+                      <Icons.Trash className="w-3 h-3" />
+                    </Button>
+                  )}
                 </div>
               </div>
 
-              <p className="text-sm text-white mb-2">{annotation.text}</p>
+              {editingNoteId === annotation.id ? (
+                <div className="mb-2 flex flex-col gap-2">
+                  <textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    className="w-full p-2 bg-transparent border border-dental-border-soft rounded text-white placeholder-dental-muted resize-none"
+                    rows={3}
+                  />
+                  <DentalFindingPicker
+                    tooth={parseToothLabel(annotation.tooth ?? currentTooth)}
+                    findings={editFindings}
+                    onChange={setEditFindings}
+                  />
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => saveEdit(annotation.id)}
+                      disabled={!editText.trim() && editFindings.length === 0}
+                      className="dental-primary-button px-2 py-1 text-xs"
+                    >
+                      Save
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingNoteId(null)}
+                      className="dental-button-ghost px-2 py-1 text-xs"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-white mb-2">{annotation.text}</p>
+              )}
+
+              {annotation.review?.status === 'draft' &&
+                annotation.review.decision === 'rejected' && (
+                  <p className="text-xs mb-2" style={{ color: 'var(--dental-error)' }}>
+                    Returned by {annotation.review.reviewer || 'the reviewer'}
+                    {annotation.review.comments ? `: ${annotation.review.comments}` : ''}
+                  </p>
+                )}
+
+              {annotation.findings?.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {annotation.findings.map((finding, index) => (
+                    <span
+                      key={`${finding.condition}-${index}`}
+                      className="dental-chip text-xs"
+                    >
+                      {formatFinding(finding)}
+                    </span>
+                  ))}
+                </div>
+              )}
               
               <div className="flex items-center justify-between text-xs text-dental-muted">
-                <span>{annotation.timestamp.toLocaleTimeString()}</span>
+                <span>
+                  {annotation.timestamp.toLocaleTimeString()}
+                  {annotation.transcription &&
+                    (annotation.transcription.edited ? ' · transcribed, edited' : ' · transcribed')}
+                  {annotation.aiSuggestion &&
+                    (annotation.aiSuggestion.edited ? ' · AI-suggested, edited' : ' · AI-suggested')}
+                </span>
                 {annotation.duration && (
                   <span className="flex items-center gap-1">
                     <Icons.Clock className="w-3 h-3" />
@@ -281,6 +819,42 @@ const DentalAnnotationPanel: React.FC<DentalAnnotationPanelProps> = ({
                   </span>
                 )}
               </div>
+
+              {historyNoteId === annotation.id && (
+                <div className="mt-2 pt-2 border-t border-dental-border-soft text-xs">
+                  {historyError ? (
+                    <span style={{ color: 'var(--dental-error)' }}>{historyError}</span>
+                  ) : !history ? (
+                    <span className="text-dental-muted">Loading history…</span>
+                  ) : (
+                    <ul className="flex flex-col gap-1">
+                      {history.changes.map(event => (
+                        <li key={event._id}>
+                          <span>{describeDentalAuditEvent(event)}</span>
+                          <span className="text-dental-muted">
+                            {' · '}
+                            {new Date(event.createdAt).toLocaleString()}
+                          </span>
+                          {event.action !== 'create' &&
+                            event.changes.map(change => (
+                              <div key={change.path} className="text-dental-muted pl-2">
+                                {describeDentalAuditChange(change)}
+                              </div>
+                            ))}
+                        </li>
+                      ))}
+                      {history.viewers.length > 0 && (
+                        <li className="text-dental-muted">
+                          Viewed by{' '}
+                          {history.viewers
+                            .map(viewer => `${viewer.name} (${viewer.count}×)`)
+                            .join(', ')}
+                        </li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              )}
             </div>
           ))
         )}
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import classNames from 'classnames';
+import { Button } from '@ohif/ui-next';
+import type { DentalToothSelection } from '../dentalMeasurementsManager';
+import {
+  DENTAL_FINDING_CONDITIONS,
+  DENTAL_FINDING_SEVERITIES,
+  DENTAL_TOOTH_SURFACES,
+  DentalFinding,
+  DentalFindingCondition,
+  DentalFindingSeverity,
+  DentalToothSurface,
+  formatFinding,
+  getFindingCondition,
+  getSuggestedFindingCodes,
+  getToothSurfaces,
+  normalizeFinding,
+} from '../dentalFindings';
+
+interface DentalFindingPickerProps {
+  tooth: DentalToothSelection | null;
+  findings: DentalFinding[];
+  onChange: (findings: DentalFinding[]) => void;
+}
+
+/**
+ * Picks coded findings for a note: a condition from the catalogue, the surfaces it involves on
+ * this tooth, a severity and SNOMED CT / CDT codes, prefilled where the catalogue suggests one.
+ */
+const DentalFindingPicker: React.FC<DentalFindingPickerProps> = ({ tooth, findings, onChange }) => {
+  const [condition, setCondition] = useState<DentalFindingCondition | ''>('');
+  const [surfaces, setSurfaces] = useState<DentalToothSurface[]>([]);
+  const [severity, setSeverity] = useState<DentalFindingSeverity | ''>('');
+  const [snomedCT, setSnomedCT] = useState('');
+  const [cdt, setCdt] = useState('');
+
+  const definition = condition ? getFindingCondition(condition) : null;
+  const toothSurfaces = getToothSurfaces(tooth);
+
+  const selectCondition = (value: DentalFindingCondition | '') => {
+    const codes = value ? getSuggestedFindingCodes(value, tooth) : {};
+    setCondition(value);
+    setSurfaces([]);
+    setSnomedCT(codes.snomedCT ?? '');
+    setCdt(codes.cdt ?? '');
+  };
+
+  const toggleSurface = (surface: DentalToothSurface) => {
+    setSurfaces(current =>
+      current.includes(surface) ? current.filter(code => code !== surface) : [...current, surface]
+    );
+  };
+
+  const addFinding = () => {
+    if (!condition) {
+      return;
+    }
+
+    onChange([
+      ...findings,
+      normalizeFinding({
+        condition,
+        surfaces,
+        severity: severity || undefined,
+        codes: { snomedCT, cdt },
+      }),
+    ]);
+    selectCondition('');
+    setSeverity('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {findings.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {findings.map((finding, index) => (
+            <span
+              key={`${finding.condition}-${index}`}
+              className="dental-chip flex items-center gap-1 text-xs"
+              title={[
+                finding.codes?.snomedCT && `SNOMED CT ${finding.codes.snomedCT}`,
+                finding.codes?.cdt && `CDT ${finding.codes.cdt}`,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            >
+              {formatFinding(finding)}
+              <button
+                type="button"
+                onClick={() => onChange(findings.filter((_, i) => i !== index))}
+                className="text-dental-muted hover:text-white"
+                aria-label={`Remove ${formatFinding(finding)}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={condition}
+          onChange={event => selectCondition(event.target.value as DentalFindingCondition | '')}
+          className="dental-select flex-1 text-sm"
+        >
+          <option value="">Add a finding…</option>
+          {DENTAL_FINDING_CONDITIONS.map(({ id, label }) => (
+            <option
+              key={id}
+              value={id}
+            >
+              {label}
+            </option>
+          ))}
+        </select>
+        {condition && (
+          <select
+            value={severity}
+            onChange={event => setSeverity(event.target.value as DentalFindingSeverity | '')}
+            className="dental-select text-sm"
+          >
+            <option value="">Severity</option>
+            {DENTAL_FINDING_SEVERITIES.map(value => (
+              <option
+                key={value}
+                value={value}
+              >
+                {value}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {definition?.usesSurfaces && (
+        <div className="flex gap-1">
+          {DENTAL_TOOTH_SURFACES.filter(({ code }) => toothSurfaces.includes(code)).map(
+            ({ code, label }) => (
+              <button
+                key={code}
+                type="button"
+                title={label}
+                onClick={() => toggleSurface(code)}
+                className={classNames(
+                  'dental-outline-button w-8 px-0 py-1 text-xs',
+                  surfaces.includes(code) && 'text-dental-accent'
+                )}
+                aria-pressed={surfaces.includes(code)}
+              >
+                {code}
+              </button>
+            )
+          )}
+        </div>
+      )}
+
+      {condition && (
+        <div className="flex items-center gap-2">
+          <input
+            value={snomedCT}
+            onChange={event => setSnomedCT(event.target.value)}
+            placeholder="SNOMED CT"
+            className="w-full rounded border border-dental-border-soft bg-transparent p-1 text-xs text-white placeholder-dental-muted"
+          />
+          <input
+            value={cdt}
+            onChange={event => setCdt(event.target.value)}
+            placeholder="CDT"
+            className="w-20 rounded border border-dental-border-soft bg-transparent p-1 text-xs text-white placeholder-dental-muted"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addFinding}
+            className="dental-outline-button px-2 py-1 text-xs"
+          >
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DentalFindingPicker;
@@ -1,18 +1,42 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button, Icons, DialogTitle, DialogDescription } from '@ohif/ui-next';
 import {
   DENTAL_MEASUREMENT_PRESETS,
   getActiveDentalPresetId,
   getActiveDentalTooth,
+  isDerivedDentalPreset,
 } from '../dentalMeasurementsManager';
+import { formatToothSelection } from '../dentalTeeth';
+import { DENTAL_CALIBRATION_REFERENCES, getDentalCalibrations } from '../dentalCalibration';
+import { DENTAL_IMPLANT_TOOL_NAME, DentalImplantSpec } from '../dentalImplants';
 
 type DentalMeasurementsPaletteProps = {
   onSelectPreset: (presetId: string) => void;
+  onStartCalibration?: (referenceLabel: string, referenceLength: number) => void;
+  implantLibrary?: DentalImplantSpec[];
+  onStartImplantPlacement?: (implantId: string) => void;
 };
 
-const DentalMeasurementsPalette: React.FC<DentalMeasurementsPaletteProps> = ({ onSelectPreset }) => {
+// Implants are placed from the implant library below rather than as a plain preset
+const isPalettePreset = preset =>
+  !isDerivedDentalPreset(preset) && preset.toolName !== DENTAL_IMPLANT_TOOL_NAME;
+
+const DentalMeasurementsPalette: React.FC<DentalMeasurementsPaletteProps> = ({
+  onSelectPreset,
+  onStartCalibration,
+  implantLibrary = [],
+  onStartImplantPlacement,
+}) => {
   const activePresetId = getActiveDentalPresetId();
   const activeTooth = getActiveDentalTooth();
+  const calibratedImages = Object.keys(getDentalCalibrations()).length;
+  const [referenceId, setReferenceId] = useState(DENTAL_CALIBRATION_REFERENCES[0].id);
+  const [referenceLength, setReferenceLength] = useState(
+    `${DENTAL_CALIBRATION_REFERENCES[0].length ?? ''}`
+  );
+  const reference = DENTAL_CALIBRATION_REFERENCES.find(item => item.id === referenceId);
+  const knownLength = parseFloat(referenceLength);
+  const [implantId, setImplantId] = useState(implantLibrary[0]?.id ?? '');
 
   return (
     <>
@@ -36,13 +60,13 @@ const DentalMeasurementsPalette: React.FC<DentalMeasurementsPaletteProps> = ({ o
           className="rounded-lg px-3 py-2 text-sm font-medium"
           style={{ backgroundColor: 'rgba(127, 223, 245, 0.1)', color: '#7fdff5', border: '1px solid rgba(127, 223, 245, 0.2)' }}
         >
-          Active tooth: {activeTooth ? `${activeTooth.system} ${activeTooth.value}` : 'Not selected'}
+          Active tooth: {activeTooth ? formatToothSelection(activeTooth) : 'Not selected'}
         </div>
       </div>
 
       {/* Presets Section */}
       <div className="space-y-3">
-        {DENTAL_MEASUREMENT_PRESETS.map(preset => {
+        {DENTAL_MEASUREMENT_PRESETS.filter(isPalettePreset).map(preset => {
           const isActive = preset.id === activePresetId;
           return (
             <Button
@@ -99,6 +123,104 @@ const DentalMeasurementsPalette: React.FC<DentalMeasurementsPaletteProps> = ({ o
           );
         })}
       </div>
+
+      {/* Calibration Section */}
+      {onStartCalibration && (
+        <div
+          className="mt-6 rounded-lg p-4"
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.3)', border: '1px solid rgba(127, 223, 245, 0.25)' }}
+        >
+          <h3 className="text-lg font-semibold text-white mb-1">Calibrate image</h3>
+          <p className="text-sm leading-relaxed mb-3" style={{ color: 'rgba(255, 255, 255, 0.7)' }}>
+            For sensors or scanned film without reliable pixel spacing, draw a line across a
+            reference of known length. Dental lengths on that image are then scaled to match.
+            {calibratedImages > 0 && ` ${calibratedImages} image(s) calibrated.`}
+          </p>
+          <div className="flex items-end gap-3">
+            <label className="flex flex-1 flex-col gap-1 text-xs">
+              <span style={{ color: 'rgba(255, 255, 255, 0.7)' }}>Reference</span>
+              <select
+                value={referenceId}
+                onChange={event => {
+                  const next = DENTAL_CALIBRATION_REFERENCES.find(
+                    item => item.id === event.target.value
+                  );
+                  setReferenceId(event.target.value);
+                  setReferenceLength(`${next?.length ?? ''}`);
+                }}
+                className="dental-select"
+              >
+                {DENTAL_CALIBRATION_REFERENCES.map(item => (
+                  <option
+                    key={item.id}
+                    value={item.id}
+                  >
+                    {item.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex w-28 flex-col gap-1 text-xs">
+              <span style={{ color: 'rgba(255, 255, 255, 0.7)' }}>Known length (mm)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={referenceLength}
+                onChange={event => setReferenceLength(event.target.value)}
+                className="dental-select"
+              />
+            </label>
+            <Button
+              onClick={() => onStartCalibration(reference?.label ?? 'Reference', knownLength)}
+              disabled={!(knownLength > 0)}
+              className="dental-outline-button px-4 py-2 text-sm"
+            >
+              Calibrate
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Implant Planning Section */}
+      {onStartImplantPlacement && implantLibrary.length > 0 && (
+        <div
+          className="mt-6 rounded-lg p-4"
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.3)', border: '1px solid rgba(127, 223, 245, 0.25)' }}
+        >
+          <h3 className="text-lg font-semibold text-white mb-1">Plan implant</h3>
+          <p className="text-sm leading-relaxed mb-3" style={{ color: 'rgba(255, 255, 255, 0.7)' }}>
+            On a CBCT view, click the implant platform then drag towards the apex. Mark the
+            mandibular canal with its preset to see the clearances in the measurements panel.
+          </p>
+          <div className="flex items-end gap-3">
+            <label className="flex flex-1 flex-col gap-1 text-xs">
+              <span style={{ color: 'rgba(255, 255, 255, 0.7)' }}>Implant</span>
+              <select
+                value={implantId}
+                onChange={event => setImplantId(event.target.value)}
+                className="dental-select"
+              >
+                {implantLibrary.map(implant => (
+                  <option
+                    key={implant.id}
+                    value={implant.id}
+                  >
+                    {implant.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button
+              onClick={() => onStartImplantPlacement(implantId)}
+              disabled={!implantId}
+              className="dental-outline-button px-4 py-2 text-sm"
+            >
+              Place
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
     </>
   );
@@ -4,8 +4,22 @@ import { useMeasurements } from '@ohif/extension-cornerstone';
 import {
   DENTAL_MEASUREMENT_PRESETS,
   DentalMeasurementPreset,
+  confirmDentalToothSuggestion,
   enhanceExistingMeasurements,
+  getDentalNumberingSystem,
+  isDerivedDentalPreset,
 } from '../dentalMeasurementsManager';
+import { formatToothSelection, getToothKey } from '../dentalTeeth';
+import { TOOTH_SUGGESTION_SOURCE_LABELS } from '../dentalToothSuggestion';
+import useActiveDentalTooth from '../hooks/useActiveDentalTooth';
+import useActiveStudyInstanceUID from '../hooks/useActiveStudyInstanceUID';
+import useDerivedDentalValues from '../hooks/useDerivedDentalValues';
+import {
+  CANAL_SAFETY_MARGIN_MM,
+  ROOT_SAFETY_MARGIN_MM,
+  formatImplantSpec,
+  getImplantClearances,
+} from '../dentalImplants';
 
 const presetLookup: Record<string, DentalMeasurementPreset> = DENTAL_MEASUREMENT_PRESETS.reduce(
   (acc, preset) => ({
@@ -15,9 +29,22 @@ const presetLookup: Record<string, DentalMeasurementPreset> = DENTAL_MEASUREMENT
   {}
 );
 
-const DentalMeasurementsPanel: React.FC = () => {
+// Clearances under the safety margin are shown in the error colour
+const clearanceStyle = (distance: number, margin: number) =>
+  distance < margin ? { color: 'var(--dental-error)' } : undefined;
+
+interface DentalMeasurementsPanelProps {
+  servicesManager?: any;
+  onExportStructuredReport?: () => void;
+}
+
+const DentalMeasurementsPanel: React.FC<DentalMeasurementsPanelProps> = ({
+  servicesManager,
+  onExportStructuredReport,
+}) => {
   const [presetFilter, setPresetFilter] = useState<string>('all');
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest' | 'label' | 'value'>('newest');
+  const activeTooth = useActiveDentalTooth();
 
   const measurements = useMeasurements({
     measurementFilter: measurement => {
@@ -32,15 +59,42 @@ const DentalMeasurementsPanel: React.FC = () => {
         /PA length/i,
         /Canal angle/i, 
         /Crown width/i,
+        /Crown length/i,
         /Root length/i,
+        /CEJ to crest/i,
+        /Implant/i,
+        /Mandibular canal/i,
         /\(FDI \d+\)/i,  // FDI notation
-        /\(Universal \d+\)/i  // Universal notation
+        /\(Universal (\d+|[A-T])\)/i,  // Universal notation
+        /\(Palmer (UR|UL|LL|LR)[1-8A-E]\)/i  // Palmer notation
       ];
       
       return dentalPatterns.some(pattern => pattern.test(label));
     },
   });
 
+  // Derived values combine measurements of one study, the one in the active viewport
+  const derivedValues = useDerivedDentalValues(useActiveStudyInstanceUID(servicesManager));
+
+  const derivedRows = useMemo(
+    () =>
+      Object.entries(derivedValues)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .flatMap(([toothKey, values]) =>
+          Object.entries(values).map(([presetId, value]) => ({
+            toothKey,
+            preset: presetLookup[presetId],
+            value,
+          }))
+        )
+        .filter(
+          row =>
+            row.preset &&
+            (presetFilter === 'all' || row.preset.derivedFrom.includes(presetFilter))
+        ),
+    [derivedValues, presetFilter]
+  );
+
   // Automatically enhance existing measurements when component mounts
   useEffect(() => {
     enhanceExistingMeasurements();
@@ -105,6 +159,13 @@ const DentalMeasurementsPanel: React.FC = () => {
       unit: measurement.metadata?.dentalUnit ?? null,
       tooth: measurement.metadata?.dentalTooth ?? null,
       source: measurement.metadata?.dentalPresetId ?? null,
+      ...(measurement.metadata?.dentalToothSuggestion && {
+        toothSuggestion: measurement.metadata.dentalToothSuggestion,
+      }),
+      ...(measurement.metadata?.dentalImplant && {
+        implant: measurement.metadata.dentalImplant,
+        clearances: getImplantClearances(measurement, measurements),
+      }),
     }));
 
     const blob = new Blob([JSON.stringify(exportPayload, null, 2)], {
@@ -143,6 +204,17 @@ const DentalMeasurementsPanel: React.FC = () => {
               <Icons.Download className="mr-1 h-3 w-3" />
               Export
             </Button>
+            {onExportStructuredReport && (
+              <Button
+                variant="ghost"
+                onClick={onExportStructuredReport}
+                className="dental-outline-button px-3 py-2 text-xs"
+                title="Download the measurements and coded findings as a DICOM structured report"
+              >
+                <Icons.Download className="mr-1 h-3 w-3" />
+                DICOM SR
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -156,7 +228,7 @@ const DentalMeasurementsPanel: React.FC = () => {
               className="dental-select"
             >
               <option value="all">All presets</option>
-              {DENTAL_MEASUREMENT_PRESETS.map(preset => (
+              {DENTAL_MEASUREMENT_PRESETS.filter(preset => !isDerivedDentalPreset(preset)).map(preset => (
                 <option
                   key={preset.id}
                   value={preset.id}
@@ -182,6 +254,38 @@ const DentalMeasurementsPanel: React.FC = () => {
         </div>
       </div>
       <div className="flex-1 overflow-y-auto px-4 py-3">
+        {derivedRows.length > 0 && (
+          <div className="mb-3">
+            <div className="text-[10px] uppercase tracking-widest text-dental-muted mb-2">
+              Derived values
+            </div>
+            <ul className="space-y-1">
+              {derivedRows.map(({ toothKey, preset, value }) => (
+                <li
+                  key={`${toothKey}-${preset.id}`}
+                  className="dental-panel-item flex items-center justify-between rounded-lg px-3 py-2 bg-black/20 border border-white/10"
+                  title={preset.description}
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-semibold text-white truncate">{preset.label}</div>
+                    <div className="text-xs text-dental-muted">
+                      {formatToothSelection(
+                        { system: 'FDI', value: toothKey },
+                        getDentalNumberingSystem()
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right ml-3 flex-shrink-0">
+                    <span className="text-lg font-bold text-dental-accent">
+                      {value.toFixed(preset.precision ?? 1)}
+                    </span>
+                    <span className="ml-1 text-xs text-dental-muted">{preset.unit}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {sortedMeasurements.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-12 text-center">
             <div className="w-16 h-16 rounded-full bg-dental-accent/10 flex items-center justify-center mb-4">
@@ -198,6 +302,9 @@ const DentalMeasurementsPanel: React.FC = () => {
               const metadata = measurement.metadata || {};
               const preset = metadata.dentalPresetId ? presetLookup[metadata.dentalPresetId] : null;
               const value = metadata.dentalValue;
+              const clearances = metadata.dentalImplant
+                ? getImplantClearances(measurement, measurements)
+                : null;
               return (
                 <li
                   key={measurement.uid}
@@ -210,13 +317,72 @@ const DentalMeasurementsPanel: React.FC = () => {
                       </div>
                       <div className="text-xs text-dental-muted">
                         {metadata.dentalTooth
-                          ? `${metadata.dentalTooth.system} ${metadata.dentalTooth.value}`
+                          ? formatToothSelection(metadata.dentalTooth, getDentalNumberingSystem())
                           : 'No tooth selected'}
                       </div>
+                      {metadata.dentalToothSuggestion && (
+                        <div className="mt-1 flex flex-wrap items-center gap-1 text-[10px] text-dental-muted">
+                          <span>
+                            Suggested from the{' '}
+                            {TOOTH_SUGGESTION_SOURCE_LABELS[metadata.dentalToothSuggestion.source]} (
+                            {Math.round(metadata.dentalToothSuggestion.confidence * 100)}%)
+                          </span>
+                          <Button
+                            variant="ghost"
+                            onClick={() => confirmDentalToothSuggestion(measurement.uid)}
+                            className="dental-outline-button px-2 py-0.5 text-[10px]"
+                          >
+                            Confirm
+                          </Button>
+                          {activeTooth &&
+                            getToothKey(activeTooth) !== getToothKey(metadata.dentalTooth) && (
+                              <Button
+                                variant="ghost"
+                                onClick={() =>
+                                  confirmDentalToothSuggestion(measurement.uid, activeTooth)
+                                }
+                                className="dental-outline-button px-2 py-0.5 text-[10px]"
+                              >
+                                Use {formatToothSelection(activeTooth, getDentalNumberingSystem())}
+                              </Button>
+                            )}
+                        </div>
+                      )}
+                      {metadata.dentalCalibration && (
+                        <div className="text-[10px] text-dental-muted">
+                          Calibrated to {metadata.dentalCalibration.referenceLabel} (
+                          {metadata.dentalCalibration.referenceLength} mm)
+                        </div>
+                      )}
+                      {metadata.dentalImplant && (
+                        <div className="text-[10px] text-dental-muted">
+                          {formatImplantSpec(metadata.dentalImplant)}
+                        </div>
+                      )}
+                      {clearances?.canal && (
+                        <div
+                          className="text-[10px] text-dental-muted"
+                          style={clearanceStyle(clearances.canal.distance, CANAL_SAFETY_MARGIN_MM)}
+                        >
+                          Canal clearance {clearances.canal.distance.toFixed(1)} mm
+                        </div>
+                      )}
+                      {clearances?.roots.map(root => (
+                        <div
+                          key={root.measurementUID}
+                          className="text-[10px] text-dental-muted"
+                          style={clearanceStyle(root.distance, ROOT_SAFETY_MARGIN_MM)}
+                        >
+                          {root.tooth
+                            ? formatToothSelection(root.tooth as any, getDentalNumberingSystem())
+                            : 'Root'}{' '}
+                          clearance {root.distance.toFixed(1)} mm
+                        </div>
+                      ))}
                     </div>
                     <div className="text-right ml-3 flex-shrink-0">
                       <div className="text-lg font-bold text-dental-accent">
-                        {value != null ? value.toFixed(1) : '--'}
+                        {value != null ? value.toFixed(preset?.precision ?? 1) : '--'}
                       </div>
                       <div className="text-xs text-dental-muted">
                         {preset?.unit || metadata.dentalUnit || 'mm'}
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import classNames from 'classnames';
+import { useMeasurements } from '@ohif/extension-cornerstone';
+import { setActiveDentalTooth, DentalNumberingSystem } from '../dentalMeasurementsManager';
+import {
+  DentalDentition,
+  DentalToothDefinition,
+  findTooth,
+  formatToothSelection,
+  getOdontogramRows,
+  getNumberingSystemLabel,
+  getToothKey,
+  getToothLabel,
+} from '../dentalTeeth';
+import {
+  getAnnotationCountsByTooth,
+  subscribeToAnnotationChanges,
+} from '../dentalAnnotationsStore';
+import useActiveDentalTooth from '../hooks/useActiveDentalTooth';
+
+type ToothActivity = {
+  measurements: number;
+  notes: number;
+};
+
+const ACTIVITY_LEGEND = [
+  { level: 0, label: 'Not assessed' },
+  { level: 1, label: '1' },
+  { level: 2, label: '2-3' },
+  { level: 3, label: '4+' },
+];
+
+const getActivityLevel = (total: number) => {
+  if (total <= 0) {
+    return 0;
+  }
+  if (total === 1) {
+    return 1;
+  }
+  return total <= 3 ? 2 : 3;
+};
+
+const DentalOdontogramPanel: React.FC = () => {
+  const activeTooth = useActiveDentalTooth();
+  const activeToothDefinition = findTooth(activeTooth);
+  const system: DentalNumberingSystem = activeTooth?.system ?? 'FDI';
+  const [dentition, setDentition] = useState<DentalDentition>(
+    () => activeToothDefinition?.dentition ?? 'permanent'
+  );
+  const [noteCounts, setNoteCounts] = useState<Record<string, number>>(() =>
+    getAnnotationCountsByTooth()
+  );
+
+  const measurements = useMeasurements();
+
+  useEffect(
+    () => subscribeToAnnotationChanges(() => setNoteCounts(getAnnotationCountsByTooth())),
+    []
+  );
+
+  useEffect(() => {
+    if (activeToothDefinition) {
+      setDentition(activeToothDefinition.dentition);
+    }
+  }, [activeToothDefinition?.dentition]);
+
+  const activityByTooth = useMemo(() => {
+    const activity: Record<string, ToothActivity> = {};
+    const getEntry = (key: string) => {
+      if (!activity[key]) {
+        activity[key] = { measurements: 0, notes: 0 };
+      }
+      return activity[key];
+    };
+
+    measurements.forEach(measurement => {
+      const key = getToothKey(measurement.metadata?.dentalTooth);
+      if (key) {
+        getEntry(key).measurements += 1;
+      }
+    });
+
+    Object.entries(noteCounts).forEach(([key, count]) => {
+      getEntry(key).notes += count;
+    });
+
+    return activity;
+  }, [measurements, noteCounts]);
+
+  const rows = useMemo(() => getOdontogramRows(dentition), [dentition]);
+  const assessedCount = [...rows.upper, ...rows.lower].filter(tooth => {
+    const activity = activityByTooth[tooth.fdi];
+    return activity && activity.measurements + activity.notes > 0;
+  }).length;
+
+  const renderTooth = (tooth: DentalToothDefinition) => {
+    const activity = activityByTooth[tooth.fdi] ?? { measurements: 0, notes: 0 };
+    const level = getActivityLevel(activity.measurements + activity.notes);
+    const label = getToothLabel(tooth, system);
+    // Palmer charts show only the position; the quadrant is given by where the tooth is drawn
+    const displayLabel = system === 'PALMER' ? label.substring(2) : label;
+    const isActive = activeToothDefinition?.fdi === tooth.fdi;
+
+    return (
+      <button
+        key={tooth.fdi}
+        type="button"
+        data-cy={`odontogram-tooth-${tooth.fdi}`}
+        title={`${getNumberingSystemLabel(system)} ${label}: ${activity.measurements} measurement(s), ${activity.notes} note(s)`}
+        aria-pressed={isActive}
+        onClick={() => setActiveDentalTooth({ system, value: label })}
+        className={classNames(
+          'dental-odontogram-tooth',
+          `dental-odontogram-tooth--${tooth.type}`,
+          `dental-odontogram-tooth--level-${level}`,
+          tooth.arch === 'upper'
+            ? 'dental-odontogram-tooth--upper'
+            : 'dental-odontogram-tooth--lower',
+          isActive && 'dental-odontogram-tooth--active'
+        )}
+      >
+        <span className="text-[10px] font-semibold">{displayLabel}</span>
+        {activity.measurements + activity.notes > 0 && (
+          <span className="text-[9px] leading-none opacity-80">
+            {activity.measurements}/{activity.notes}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const renderRow = (teeth: DentalToothDefinition[]) => {
+    const half = teeth.length / 2;
+    return (
+      <div className="flex items-end justify-center gap-2">
+        <div className="flex gap-0.5">{teeth.slice(0, half).map(renderTooth)}</div>
+        <div className="h-10 w-px bg-white/20" />
+        <div className="flex gap-0.5">{teeth.slice(half).map(renderTooth)}</div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-black/60 text-white">
+      <div className="border-b border-white/10 px-4 py-3">
+        <div className="flex items-start justify-between">
+          <div className="min-w-0 flex-1">
+            <h3 className="text-dental-accent text-lg font-semibold">Odontogram</h3>
+            <p className="text-dental-muted text-xs">
+              {assessedCount} of {rows.upper.length + rows.lower.length} teeth assessed. Click a
+              tooth to select it.
+            </p>
+          </div>
+          <select
+            value={dentition}
+            onChange={event => setDentition(event.target.value as DentalDentition)}
+            className="dental-select ml-4 text-xs"
+          >
+            <option value="permanent">Permanent</option>
+            <option value="primary">Primary</option>
+          </select>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 px-4 py-4">
+        <div className="text-dental-muted flex justify-between text-[10px] uppercase tracking-widest">
+          <span>Right</span>
+          <span>Upper</span>
+          <span>Left</span>
+        </div>
+        {renderRow(rows.upper)}
+        <div className="h-px bg-white/10" />
+        {renderRow(rows.lower)}
+        <div className="text-dental-muted flex justify-between text-[10px] uppercase tracking-widest">
+          <span>Right</span>
+          <span>Lower</span>
+          <span>Left</span>
+        </div>
+      </div>
+      <div className="border-t border-white/10 px-4 py-3">
+        <div className="text-dental-muted mb-2 text-[10px] uppercase tracking-widest">
+          Measurements / notes per tooth
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs">
+          {ACTIVITY_LEGEND.map(({ level, label }) => (
+            <span
+              key={level}
+              className="flex items-center gap-1"
+            >
+              <span
+                className={classNames(
+                  'dental-odontogram-swatch',
+                  `dental-odontogram-tooth--level-${level}`
+                )}
+              />
+              {label}
+            </span>
+          ))}
+        </div>
+        <div className="text-dental-muted mt-3 text-xs">
+          Active tooth:{' '}
+          <span className="text-dental-accent font-semibold">
+            {activeTooth ? formatToothSelection(activeTooth) : 'Not selected'}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DentalOdontogramPanel;
@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import classNames from 'classnames';
+import { useMeasurements } from '@ohif/extension-cornerstone';
+import {
+  getDentalNumberingSystem,
+  getDentalValuesByTooth,
+  getDerivedDentalValues,
+  setActiveDentalTooth,
+} from '../dentalMeasurementsManager';
+import { convertToothSelection, formatToothSelection, getToothKey } from '../dentalTeeth';
+import {
+  PROBING_SITES,
+  POCKET_DEPTH_MM,
+  ProbingDepths,
+  ProbingSite,
+  getPatientAgeFromDicom,
+  getPeriodontalSummary,
+} from '../dentalPeriodontal';
+import {
+  loadProbingChart,
+  saveToothProbingDepths,
+  subscribeToProbingChanges,
+} from '../dentalProbingStore';
+import useActiveDentalTooth from '../hooks/useActiveDentalTooth';
+import useActiveStudyInstanceUID from '../hooks/useActiveStudyInstanceUID';
+
+type DentalPeriodontalPanelProps = {
+  servicesManager: any;
+};
+
+const formatValue = (value: number | undefined, digits = 0) =>
+  Number.isFinite(value) ? value.toFixed(digits) : '--';
+
+const DentalPeriodontalPanel: React.FC<DentalPeriodontalPanelProps> = ({ servicesManager }) => {
+  const activeTooth = useActiveDentalTooth();
+  const activeToothKey = getToothKey(activeTooth);
+  const studyInstanceUID = useActiveStudyInstanceUID(servicesManager);
+  const [probingChart, setProbingChart] = useState<Record<string, ProbingDepths>>(() =>
+    loadProbingChart(studyInstanceUID)
+  );
+  const [patientAge, setPatientAge] = useState<number | undefined>(() => {
+    const displaySet = servicesManager?.services?.displaySetService?.getActiveDisplaySets?.()[0];
+    return getPatientAgeFromDicom(displaySet?.instances?.[0] ?? displaySet?.instance);
+  });
+
+  const measurements = useMeasurements();
+
+  useEffect(() => {
+    setProbingChart(loadProbingChart(studyInstanceUID));
+    return subscribeToProbingChanges(() => setProbingChart(loadProbingChart(studyInstanceUID)));
+  }, [studyInstanceUID]);
+
+  const summary = useMemo(() => {
+    // Bone loss is staged from the measurements of this study only, not those of prior studies
+    const valuesByTooth = getDentalValuesByTooth(
+      measurements.filter(measurement => measurement.referenceStudyUID === studyInstanceUID)
+    );
+    const derivedByTooth = getDerivedDentalValues(valuesByTooth);
+    const boneLossByTooth: Record<string, number> = {};
+    Object.entries(derivedByTooth).forEach(([toothKey, values]) => {
+      if (Number.isFinite(values['bone-loss'])) {
+        boneLossByTooth[toothKey] = values['bone-loss'];
+      }
+    });
+
+    return getPeriodontalSummary({ probingByTooth: probingChart, boneLossByTooth, patientAge });
+  }, [measurements, studyInstanceUID, probingChart, patientAge]);
+
+  const activeDepths = (activeToothKey && probingChart[activeToothKey]) || {};
+
+  const onDepthChange = (site: ProbingSite, input: string) => {
+    if (!activeToothKey) {
+      return;
+    }
+
+    const depth = parseFloat(input);
+    const nextDepths = { ...activeDepths };
+    if (Number.isFinite(depth) && depth >= 0) {
+      nextDepths[site] = depth;
+    } else {
+      delete nextDepths[site];
+    }
+    saveToothProbingDepths(studyInstanceUID, activeToothKey, nextDepths);
+  };
+
+  const renderSiteRow = (surface: 'buccal' | 'lingual') => (
+    <div className="grid grid-cols-3 gap-2">
+      {PROBING_SITES.filter(site => site.surface === surface).map(site => (
+        <label
+          key={site.id}
+          className="flex flex-col gap-1"
+          title={site.label}
+        >
+          <span className="text-dental-muted text-[10px] uppercase tracking-widest">{site.id}</span>
+          <input
+            type="number"
+            min={0}
+            max={15}
+            step={1}
+            value={activeDepths[site.id] ?? ''}
+            disabled={!activeToothKey}
+            onChange={event => onDepthChange(site.id, event.target.value)}
+            className={classNames(
+              'dental-select w-full text-center',
+              activeDepths[site.id] >= POCKET_DEPTH_MM && 'text-dental-accent font-semibold'
+            )}
+          />
+        </label>
+      ))}
+    </div>
+  );
+
+  const displaySystem = getDentalNumberingSystem();
+
+  return (
+    <div className="flex h-full flex-col bg-black/60 text-white">
+      <div className="border-b border-white/10 px-4 py-3">
+        <h3 className="text-dental-accent text-lg font-semibold">Periodontal chart</h3>
+        <p className="text-dental-muted text-xs">
+          Six-site probing depths with radiographic bone loss from the CEJ to crest and root length
+          presets.
+        </p>
+      </div>
+      <div className="flex flex-col gap-3 border-b border-white/10 px-4 py-3">
+        <div className="text-dental-muted text-xs">
+          Probing depths (mm) for{' '}
+          <span className="text-dental-accent font-semibold">
+            {activeTooth ? formatToothSelection(activeTooth) : 'no tooth selected'}
+          </span>
+        </div>
+        {renderSiteRow('buccal')}
+        {renderSiteRow('lingual')}
+        <label className="flex items-center justify-between gap-3 text-xs">
+          <span className="text-dental-muted">Patient age (for grading)</span>
+          <input
+            type="number"
+            min={0}
+            max={120}
+            value={patientAge ?? ''}
+            onChange={event => {
+              const age = parseInt(event.target.value, 10);
+              setPatientAge(Number.isFinite(age) ? age : undefined);
+            }}
+            className="dental-select w-20 text-center"
+          />
+        </label>
+      </div>
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        <div className="mb-2 flex items-center justify-between text-xs">
+          <span className="text-dental-muted text-[10px] uppercase tracking-widest">
+            Per-tooth summary
+          </span>
+          <span>
+            Stage <span className="text-dental-accent font-semibold">{summary.stage ?? '--'}</span>
+            {' / '}
+            Grade <span className="text-dental-accent font-semibold">{summary.grade ?? '--'}</span>
+          </span>
+        </div>
+        {summary.teeth.length === 0 ? (
+          <div className="dental-panel-empty text-xs">
+            Enter probing depths or measure CEJ to crest and root length on a tooth to chart it.
+          </div>
+        ) : (
+          <table className="w-full text-left text-xs">
+            <thead className="text-dental-muted text-[10px] uppercase tracking-widest">
+              <tr>
+                <th className="py-1">Tooth</th>
+                <th className="py-1 text-right">Max PD</th>
+                <th className="py-1 text-right">Pockets</th>
+                <th className="py-1 text-right">Bone loss</th>
+                <th className="py-1 text-right">Stage</th>
+                <th className="py-1 text-right">Grade</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.teeth.map(tooth => {
+                const selection = convertToothSelection(
+                  { system: 'FDI', value: tooth.toothKey },
+                  displaySystem
+                );
+                return (
+                  <tr
+                    key={tooth.toothKey}
+                    onClick={() => setActiveDentalTooth(selection)}
+                    className={classNames(
+                      'cursor-pointer border-t border-white/10 hover:bg-white/5',
+                      tooth.toothKey === activeToothKey && 'text-dental-accent'
+                    )}
+                  >
+                    <td className="py-1">{selection?.value ?? tooth.toothKey}</td>
+                    <td className="py-1 text-right">{formatValue(tooth.maxProbingDepth)}</td>
+                    <td className="py-1 text-right">{tooth.deepSites}</td>
+                    <td className="py-1 text-right">
+                      {Number.isFinite(tooth.boneLossPercent)
+                        ? `${formatValue(tooth.boneLossPercent)}%`
+                        : '--'}
+                    </td>
+                    <td className="py-1 text-right">{tooth.stage ?? '--'}</td>
+                    <td className="py-1 text-right">{tooth.grade ?? '--'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DentalPeriodontalPanel;
@@ -17,13 +17,15 @@ import {
 import { Types, useSystem } from '@ohif/core';
 import { Toolbar, usePatientInfo } from '@ohif/extension-default';
 import ToothSelector from './ToothSelector';
+import DentalSyncStatus from './DentalSyncStatus';
 import {
   setActiveDentalTooth,
   getActiveDentalTooth,
+  subscribeToActiveDentalTooth,
   DentalToothSelection,
 } from '../dentalMeasurementsManager';
 
-const getPracticeName = (appConfig: any) => {
+export const getPracticeName = (appConfig: any) => {
   const overrides = appConfig?.whiteLabeling?.overrides as Record<string, any> | undefined;
   return (
     overrides?.practiceName || overrides?.siteName || appConfig?.whiteLabeling?.siteName || 'Dental Practice'
@@ -52,6 +54,17 @@ const DentalPracticeHeader: React.FC<{ appConfig: any }> = ({
     setActiveDentalTooth(toothSelection);
   }, [toothSelection]);
 
+  // Keep the selector in sync with selections made elsewhere (e.g. the odontogram panel)
+  useEffect(
+    () =>
+      subscribeToActiveDentalTooth(selection => {
+        if (selection) {
+          setToothSelection(selection);
+        }
+      }),
+    []
+  );
+
   useEffect(() => {
     if (isDentalTheme) {
       document.body.classList.add('dental-theme');
@@ -200,6 +213,9 @@ const DentalPracticeHeader: React.FC<{ appConfig: any }> = ({
               </Button>
             </div>
 
+            {/* Offline sync status */}
+            <DentalSyncStatus />
+
             {/* Patient Info */}
             <div className="flex items-center gap-3">
               <div className="flex flex-col text-right min-w-0">
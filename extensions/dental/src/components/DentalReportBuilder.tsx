@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Button, DialogDescription, DialogTitle, Icons } from '@ohif/ui-next';
+import type { DentalReport, DentalReportImage } from '../dentalReport';
+
+type DentalReportBuilderProps = {
+  report: DentalReport;
+  onCaptureKeyImage: () => Promise<DentalReportImage | null>;
+  onDownloadPdf: (report: DentalReport) => void;
+  onSaveToStudy: (report: DentalReport) => Promise<void>;
+};
+
+/**
+ * Assembles the printable report: the patient, study and measurement details are filled in from
+ * the viewer, key images are captured from the active viewport and an impression can be written
+ * before the report is downloaded as a PDF or saved to the study as an Encapsulated PDF.
+ */
+const DentalReportBuilder: React.FC<DentalReportBuilderProps> = ({
+  report,
+  onCaptureKeyImage,
+  onDownloadPdf,
+  onSaveToStudy,
+}) => {
+  const [title, setTitle] = useState(report.title);
+  const [keyImages, setKeyImages] = useState<DentalReportImage[]>([]);
+  const [impression, setImpression] = useState('');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const currentReport = { ...report, title: title.trim() || report.title, keyImages, impression };
+
+  const captureKeyImage = async () => {
+    setIsCapturing(true);
+    try {
+      const image = await onCaptureKeyImage();
+      if (image) {
+        setKeyImages(current => [...current, image]);
+      }
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const updateCaption = (index: number, caption: string) =>
+    setKeyImages(current =>
+      current.map((image, i) => (i === index ? { ...image, caption } : image))
+    );
+
+  const saveToStudy = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveToStudy(currentReport);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogTitle className="sr-only">Dental report</DialogTitle>
+      <DialogDescription className="sr-only">
+        Build a printable dental radiology report with key images, measurements and findings.
+      </DialogDescription>
+
+      <div className="flex min-w-[480px] max-w-[640px] flex-col gap-4 p-2 text-white">
+        <div>
+          <div className="text-dental-accent text-lg font-semibold">{report.practiceName}</div>
+          <input
+            value={title}
+            onChange={event => setTitle(event.target.value)}
+            className="border-dental-border-soft mt-1 w-full rounded border bg-transparent p-1 text-sm text-white"
+            aria-label="Report title"
+          />
+          <div className="text-dental-muted mt-2 text-xs">
+            {[
+              report.patient.name || 'Patient unknown',
+              report.patient.id && `ID: ${report.patient.id}`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+            {' · '}
+            {report.measurements.length} measurements · {report.findings.length} findings
+          </div>
+        </div>
+
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-dental-muted text-[10px] uppercase tracking-widest">
+              Key images
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={captureKeyImage}
+              disabled={isCapturing}
+              className="dental-outline-button px-2 py-1 text-xs"
+            >
+              <Icons.Add className="mr-1 h-3 w-3" />
+              {isCapturing ? 'Capturing…' : 'Capture active viewport'}
+            </Button>
+          </div>
+          {keyImages.length === 0 ? (
+            <div className="dental-panel-empty text-xs">
+              Show an image with its measurements in a viewport and capture it.
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {keyImages.map((image, index) => (
+                <div
+                  key={index}
+                  className="flex flex-col gap-1"
+                >
+                  <div className="relative">
+                    <img
+                      src={image.dataUrl}
+                      alt={image.caption}
+                      className="max-h-40 w-full rounded object-contain"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setKeyImages(current => current.filter((_, i) => i !== index))}
+                      className="text-dental-muted absolute right-1 top-1 rounded bg-black/60 px-1 hover:text-white"
+                      aria-label="Remove key image"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <input
+                    value={image.caption}
+                    onChange={event => updateCaption(index, event.target.value)}
+                    placeholder="Caption"
+                    className="border-dental-border-soft placeholder-dental-muted w-full rounded border bg-transparent p-1 text-xs text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-dental-muted text-[10px] uppercase tracking-widest">
+            Impression
+          </span>
+          <textarea
+            value={impression}
+            onChange={event => setImpression(event.target.value)}
+            placeholder="Radiographic impression and recommendations..."
+            className="border-dental-border-soft placeholder-dental-muted w-full resize-none rounded border bg-transparent p-2 text-sm text-white"
+            rows={4}
+          />
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => onDownloadPdf(currentReport)}
+            className="dental-outline-button px-3 py-2 text-xs"
+          >
+            <Icons.Download className="mr-1 h-3 w-3" />
+            Download PDF
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={saveToStudy}
+            disabled={isSaving}
+            className="dental-outline-button px-3 py-2 text-xs"
+          >
+            {isSaving ? 'Saving…' : 'Save to study'}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default DentalReportBuilder;
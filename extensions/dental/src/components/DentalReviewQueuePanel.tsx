@@ -0,0 +1,165 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@ohif/ui-next';
+import authService from '../services/authService';
+import { formatFinding } from '../dentalFindings';
+import useDentalPermission from '../hooks/useDentalPermission';
+
+interface DentalReviewQueuePanelProps {
+  onLoadQueue: () => Promise<any[]>;
+  onReview: (
+    annotationId: string,
+    review: { decision: 'approve' | 'reject'; comments?: string }
+  ) => Promise<unknown>;
+}
+
+const getAuthorName = (annotation: any) =>
+  [annotation.userId?.profile?.firstName, annotation.userId?.profile?.lastName]
+    .filter(Boolean)
+    .join(' ') || 'Unknown author';
+
+/**
+ * Notes colleagues submitted for review, oldest first. Approving a note keeps it locked;
+ * rejecting it returns it to its author as a draft with the reviewer's comments.
+ */
+const DentalReviewQueuePanel: React.FC<DentalReviewQueuePanelProps> = ({
+  onLoadQueue,
+  onReview,
+}) => {
+  const [queue, setQueue] = useState<any[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canReview = useDentalPermission('annotations:review');
+  const isAuthenticated = authService.isAuthenticated();
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await onLoadQueue());
+    } catch (loadError) {
+      console.warn('Failed to load the review queue:', loadError);
+      setError('Unable to load the review queue');
+    }
+  }, [onLoadQueue]);
+
+  useEffect(() => {
+    if (isAuthenticated && canReview) {
+      loadQueue();
+    }
+  }, [isAuthenticated, canReview, loadQueue]);
+
+  const review = async (annotationId: string, decision: 'approve' | 'reject') => {
+    const comment = comments[annotationId]?.trim();
+    if (decision === 'reject' && !comment) {
+      setError('Add a comment explaining why the note is returned');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onReview(annotationId, { decision, comments: comment || undefined });
+      setQueue(current => current.filter(annotation => annotation._id !== annotationId));
+    } catch (reviewError) {
+      console.warn('Failed to review the note:', reviewError);
+      setError('Unable to review this note');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isAuthenticated || !canReview) {
+    return (
+      <div className="flex h-full flex-col bg-black/60 px-4 py-3 text-white">
+        <div className="dental-panel-empty text-xs">
+          {isAuthenticated
+            ? 'Your role does not review the notes of the practice.'
+            : 'Sign in to the dental backend to review the notes of the practice.'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col bg-black/60 text-white">
+      <div className="border-b border-white/10 px-4 py-3">
+        <h3 className="text-dental-accent text-lg font-semibold">Review queue</h3>
+        <p className="text-dental-muted text-xs">
+          Notes your colleagues submitted for review. Approve them to sign them off, or return them
+          with a comment.
+        </p>
+      </div>
+      {error && (
+        <div
+          className="px-4 pt-3 text-xs"
+          style={{ color: 'var(--dental-error)' }}
+        >
+          {error}
+        </div>
+      )}
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {queue.length === 0 ? (
+          <div className="dental-panel-empty text-xs">No notes are awaiting your review.</div>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {queue.map(annotation => (
+              <li
+                key={annotation._id}
+                className="dental-panel-item flex flex-col gap-2 text-xs"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold">
+                    {annotation.tooth?.system} {annotation.tooth?.value} · {annotation.category}
+                  </span>
+                  <span className="text-dental-muted">
+                    {getAuthorName(annotation)} · {new Date(annotation.updatedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p>{annotation.content?.text}</p>
+                {annotation.findings?.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {annotation.findings.map((finding, index) => (
+                      <span
+                        key={`${finding.condition}-${index}`}
+                        className="dental-chip text-xs"
+                      >
+                        {formatFinding(finding)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <textarea
+                  value={comments[annotation._id] ?? ''}
+                  onChange={event =>
+                    setComments(current => ({ ...current, [annotation._id]: event.target.value }))
+                  }
+                  placeholder="Comments (required to return the note)"
+                  className="placeholder-dental-muted border-dental-border-soft w-full resize-none rounded border bg-transparent p-2 text-white"
+                  rows={2}
+                />
+                <div className="flex gap-1">
+                  <Button
+                    onClick={() => review(annotation._id, 'approve')}
+                    disabled={isBusy}
+                    className="dental-outline-button px-2 py-1 text-xs"
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => review(annotation._id, 'reject')}
+                    disabled={isBusy}
+                    className="dental-button-ghost px-2 py-1 text-xs"
+                  >
+                    Return to author
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DentalReviewQueuePanel;
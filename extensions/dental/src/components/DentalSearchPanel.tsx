@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import classNames from 'classnames';
+import { Button } from '@ohif/ui-next';
+import apiClient from '../services/apiClient';
+import authService from '../services/authService';
+import stateService from '../services/stateService';
+import { formatFinding } from '../dentalFindings';
+import { DENTAL_REVIEW_STATUS_LABELS } from '../dentalReview';
+import {
+  DentalSearchFacets,
+  DentalSearchFilters,
+  getDentalSearchChips,
+  getDentalSearchQuery,
+  getDentalStudyLocation,
+  toggleDentalSearchChip,
+} from '../dentalSearch';
+
+const RESULT_LIMIT = 50;
+
+const getAuthorName = (annotation: any) =>
+  [annotation.userId?.profile?.firstName, annotation.userId?.profile?.lastName]
+    .filter(Boolean)
+    .join(' ') || 'Unknown author';
+
+/**
+ * Searches the annotations of every study the user can read: their own, those shared with them
+ * and the non-private annotations of their practice. Hits open their study on the annotated
+ * image.
+ */
+const DentalSearchPanel: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [text, setText] = useState('');
+  const [filters, setFilters] = useState<DentalSearchFilters>({});
+  const [hits, setHits] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<DentalSearchFacets>({});
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isAuthenticated = authService.isAuthenticated();
+
+  const search = useCallback(async (searchFilters: DentalSearchFilters) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await apiClient.getAnnotations({
+        ...getDentalSearchQuery(searchFilters),
+        limit: RESULT_LIMIT,
+      });
+      setHits(response?.annotations ?? []);
+      setTotal(response?.pagination?.total ?? 0);
+      setFacets(response?.facets ?? {});
+    } catch (searchError) {
+      console.warn('Dental annotation search failed:', searchError);
+      setError('Unable to search the annotations');
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      search(filters);
+    }
+  }, [isAuthenticated, filters, search]);
+
+  const setFilter = (filter: keyof DentalSearchFilters, value: string) =>
+    setFilters(current => ({ ...current, [filter]: value || undefined }));
+
+  const openHit = (annotation: any) =>
+    navigate(getDentalStudyLocation(location.pathname, annotation));
+
+  if (!isAuthenticated) {
+    return (
+      <div className="flex h-full flex-col bg-black/60 px-4 py-3 text-white">
+        <div className="dental-panel-empty text-xs">
+          Sign in to the dental backend to search the annotations of your studies.
+        </div>
+      </div>
+    );
+  }
+
+  const chips = getDentalSearchChips(facets, filters);
+  const currentStudyUID = stateService.getCurrentStudyUID();
+
+  return (
+    <div className="flex h-full flex-col bg-black/60 text-white">
+      <div className="flex flex-col gap-2 border-b border-white/10 px-4 py-3">
+        <h3 className="text-dental-accent text-lg font-semibold">Search</h3>
+        <form
+          className="flex gap-2"
+          onSubmit={event => {
+            event.preventDefault();
+            setFilter('search', text);
+          }}
+        >
+          <input
+            value={text}
+            onChange={event => setText(event.target.value)}
+            placeholder="Search notes and tags"
+            className="border-dental-border-soft placeholder-dental-muted w-full rounded border bg-transparent p-1 text-xs text-white"
+          />
+          <Button
+            type="submit"
+            disabled={isSearching}
+            className="dental-outline-button px-2 py-1 text-xs"
+          >
+            Search
+          </Button>
+        </form>
+        <div className="flex gap-2 text-xs">
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-dental-muted">From</span>
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={event => setFilter('from', event.target.value)}
+              className="border-dental-border-soft rounded border bg-transparent p-1 text-white"
+            />
+          </label>
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-dental-muted">To</span>
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={event => setFilter('to', event.target.value)}
+              className="border-dental-border-soft rounded border bg-transparent p-1 text-white"
+            />
+          </label>
+        </div>
+        {chips.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {chips.map(chip => (
+              <button
+                key={`${chip.facet}-${chip.value}`}
+                type="button"
+                onClick={() => setFilters(current => toggleDentalSearchChip(current, chip))}
+                className={classNames('dental-chip text-xs', chip.isActive && 'text-dental-accent')}
+                aria-pressed={chip.isActive}
+              >
+                {chip.label} ({chip.count})
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {error && (
+        <div
+          className="px-4 pt-3 text-xs"
+          style={{ color: 'var(--dental-error)' }}
+        >
+          {error}
+        </div>
+      )}
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {hits.length === 0 ? (
+          <div className="dental-panel-empty text-xs">
+            {isSearching ? 'Searching…' : 'No annotations match this search.'}
+          </div>
+        ) : (
+          <>
+            <div className="text-dental-muted mb-2 text-xs">
+              {total} annotation{total === 1 ? '' : 's'}
+              {total > hits.length && `, showing the latest ${hits.length}`}
+            </div>
+            <ul className="flex flex-col gap-2">
+              {hits.map(annotation => (
+                <li
+                  key={annotation._id}
+                  className="dental-panel-item flex cursor-pointer flex-col gap-1 text-xs"
+                  onClick={() => openHit(annotation)}
+                  title={
+                    annotation.sopInstanceUID
+                      ? 'Open the study on the annotated image'
+                      : 'Open the study'
+                  }
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold">
+                      {annotation.tooth?.system} {annotation.tooth?.value} · {annotation.category}
+                    </span>
+                    <span className="text-dental-muted">
+                      {DENTAL_REVIEW_STATUS_LABELS[annotation.status] ?? annotation.status}
+                    </span>
+                  </div>
+                  <p>{annotation.content?.text}</p>
+                  {annotation.findings?.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {annotation.findings.map((finding, index) => (
+                        <span
+                          key={`${finding.condition}-${index}`}
+                          className="dental-chip text-xs"
+                        >
+                          {formatFinding(finding)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <span className="text-dental-muted">
+                    {getAuthorName(annotation)} ·{' '}
+                    {new Date(annotation.createdAt).toLocaleDateString()} ·{' '}
+                    {annotation.studyInstanceUID === currentStudyUID
+                      ? 'this study'
+                      : `study …${annotation.studyInstanceUID.slice(-12)}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DentalSearchPanel;
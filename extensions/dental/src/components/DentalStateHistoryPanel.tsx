@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import classNames from 'classnames';
+import { Button } from '@ohif/ui-next';
+import stateService from '../services/stateService';
+import type { SavedState } from '../services/stateService';
+import authService from '../services/authService';
+import {
+  ViewerStateChange,
+  ViewerStateDiff,
+  countViewerStateChanges,
+  diffViewerStates,
+} from '../dentalViewerState';
+import useDentalPermission from '../hooks/useDentalPermission';
+
+type StateVersion = Omit<SavedState, 'state'>;
+
+const HISTORY_LIMIT = 10;
+
+const formatVersion = (version: StateVersion) =>
+  `v${version.version} · ${version.updatedAt.toLocaleString()}`;
+
+// Versions saved by colleagues in the practice are listed with their author
+const isOwnVersion = (version: StateVersion, currentUserId?: string) =>
+  !version.author || version.author.id === currentUserId;
+
+const getAuthorLabel = (version: StateVersion, currentUserId?: string) =>
+  isOwnVersion(version, currentUserId) ? 'you' : version.author.name;
+
+const renderChange = (label: string, change: ViewerStateChange | null) =>
+  change && (
+    <li key={label}>
+      {label}: <span className="text-dental-muted">{change.from}</span> →{' '}
+      <span className="text-dental-accent">{change.to}</span>
+    </li>
+  );
+
+const DentalStateHistoryPanel: React.FC = () => {
+  const [versions, setVersions] = useState<StateVersion[]>([]);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [diff, setDiff] = useState<ViewerStateDiff | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canWrite = useDentalPermission('viewerState:write');
+  const canDelete = useDentalPermission('viewerState:delete');
+
+  const [studyInstanceUID, setStudyInstanceUID] = useState(() => stateService.getCurrentStudyUID());
+  const [currentSessionId, setCurrentSessionId] = useState(() =>
+    stateService.getCurrentSessionId()
+  );
+  const currentUserId = authService.getCurrentUser()?._id;
+
+  // Runs when a study is opened, when the viewer is cleared and whenever a version is saved
+  const loadVersions = useCallback(async () => {
+    const studyUID = stateService.getCurrentStudyUID();
+    setStudyInstanceUID(studyUID);
+    setCurrentSessionId(stateService.getCurrentSessionId());
+    const history = studyUID ? await stateService.getStateHistory(studyUID, HISTORY_LIMIT) : [];
+    setVersions(history);
+    setToId(current =>
+      history.some(version => version.stateId === current) ? current : (history[0]?.stateId ?? '')
+    );
+    setFromId(current =>
+      history.some(version => version.stateId === current) ? current : (history[1]?.stateId ?? '')
+    );
+  }, []);
+
+  useEffect(() => {
+    loadVersions();
+    return stateService.subscribeToStateHistory(loadVersions);
+  }, [loadVersions]);
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setDiff(null);
+      return;
+    }
+
+    // Versions are saved in place, so both are fetched again whenever the history changes
+    let cancelled = false;
+    Promise.all([stateService.getStateVersion(fromId), stateService.getStateVersion(toId)])
+      .then(([from, to]) => {
+        if (!cancelled) {
+          setDiff(from && to ? diffViewerStates(from.state, to.state) : null);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError('Unable to compare these versions');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fromId, toId, versions]);
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      console.warn(failure, actionError);
+      setError(failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onSave = () =>
+    runAction(() => stateService.saveViewerState(studyInstanceUID), 'Unable to save this version');
+
+  const onRollback = (version: StateVersion) => {
+    if (window.confirm(`Roll the viewer back to ${formatVersion(version)}?`)) {
+      runAction(
+        () => stateService.rollbackToVersion(version.stateId),
+        'Unable to roll back to this version'
+      );
+    }
+  };
+
+  const onDelete = (version: StateVersion) => {
+    if (window.confirm(`Delete ${formatVersion(version)}?`)) {
+      runAction(
+        () => stateService.deleteStateVersion(version.stateId),
+        'Unable to delete this version'
+      );
+    }
+  };
+
+  const renderVersionSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="flex flex-1 flex-col gap-1 text-xs">
+      <span className="text-dental-muted">{label}</span>
+      <select
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        className="dental-select"
+      >
+        {versions.map(version => (
+          <option
+            key={version.stateId}
+            value={version.stateId}
+          >
+            {formatVersion(version)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const renderDiff = () => {
+    if (!diff) {
+      return (
+        <div className="dental-panel-empty text-xs">Choose two versions to see what changed.</div>
+      );
+    }
+
+    if (countViewerStateChanges(diff) === 0) {
+      return <div className="dental-panel-empty text-xs">No changes between these versions.</div>;
+    }
+
+    const { added, removed, changed } = diff.measurements;
+    return (
+      <ul className="flex flex-col gap-1 text-xs">
+        {added.map(measurement => (
+          <li key={`added-${measurement.id}`}>
+            <span className="text-dental-accent">+</span> {measurement.label}
+          </li>
+        ))}
+        {removed.map(measurement => (
+          <li
+            key={`removed-${measurement.id}`}
+            style={{ color: 'var(--dental-error)' }}
+          >
+            − {measurement.label}
+          </li>
+        ))}
+        {changed.map(measurement => (
+          <li key={`changed-${measurement.id}`}>
+            <span className="text-dental-muted">~</span> {measurement.label}
+          </li>
+        ))}
+        {renderChange('Layout', diff.layout)}
+        {renderChange('Hanging protocol', diff.hangingProtocol)}
+        {renderChange('Tooth', diff.selectedTooth)}
+        {renderChange('Active tool', diff.activeTool)}
+      </ul>
+    );
+  };
+
+  if (!authService.isAuthenticated()) {
+    return (
+      <div className="flex h-full flex-col bg-black/60 px-4 py-3 text-white">
+        <div className="dental-panel-empty text-xs">
+          Sign in to the dental backend to keep versions of the viewer state.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col bg-black/60 text-white">
+      <div className="border-b border-white/10 px-4 py-3">
+        <h3 className="text-dental-accent text-lg font-semibold">State history</h3>
+        <p className="text-dental-muted text-xs">
+          Saved and auto-saved versions of the viewer state for this study, yours and those of your
+          practice. Compare two versions or roll the viewer back to one.
+        </p>
+        {canWrite && studyInstanceUID && (
+          <Button
+            onClick={onSave}
+            disabled={isBusy}
+            className="dental-outline-button mt-2 px-2 py-1 text-xs"
+          >
+            Save version
+          </Button>
+        )}
+      </div>
+      {error && (
+        <div
+          className="px-4 pt-3 text-xs"
+          style={{ color: 'var(--dental-error)' }}
+        >
+          {error}
+        </div>
+      )}
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {!studyInstanceUID || versions.length === 0 ? (
+          <div className="dental-panel-empty text-xs">
+            No saved versions yet. The viewer state is saved as you work.
+          </div>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {versions.map(version => (
+              <li
+                key={version.stateId}
+                className={classNames(
+                  'dental-panel-item flex items-center justify-between gap-2 text-xs',
+                  version.sessionId === currentSessionId && 'text-dental-accent'
+                )}
+              >
+                <div className="flex flex-col">
+                  <span className="font-semibold">{formatVersion(version)}</span>
+                  <span className="text-dental-muted">
+                    {version.autoSaved ? 'Auto-saved' : 'Saved'} by{' '}
+                    {getAuthorLabel(version, currentUserId)}
+                    {version.sessionId === currentSessionId && ' · this session'}
+                  </span>
+                </div>
+                <div className="flex gap-1">
+                  {canWrite && (
+                    <Button
+                      onClick={() => onRollback(version)}
+                      disabled={isBusy}
+                      className="dental-outline-button px-2 py-1 text-xs"
+                    >
+                      Roll back
+                    </Button>
+                  )}
+                  {canDelete && isOwnVersion(version, currentUserId) && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => onDelete(version)}
+                      disabled={isBusy}
+                      className="dental-button-ghost px-2 py-1 text-xs"
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {versions.length > 1 && (
+        <div className="flex flex-col gap-3 border-t border-white/10 px-4 py-3">
+          <div className="flex gap-2">
+            {renderVersionSelect('From', fromId, setFromId)}
+            {renderVersionSelect('To', toId, setToId)}
+          </div>
+          {renderDiff()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DentalStateHistoryPanel;
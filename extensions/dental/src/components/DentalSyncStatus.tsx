@@ -0,0 +1,95 @@
+import React from 'react';
+import classNames from 'classnames';
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@ohif/ui-next';
+import apiClient from '../services/apiClient';
+import type { SyncStatus } from '../services/offlineQueue';
+import useDentalSyncStatus from '../hooks/useDentalSyncStatus';
+
+const getStatusLabel = ({ state, pending, conflicts }: SyncStatus) => {
+  switch (state) {
+    case 'conflict':
+      return `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}`;
+    case 'offline':
+      return `Offline · ${pending} queued`;
+    case 'syncing':
+      return 'Syncing…';
+    case 'pending':
+      return `${pending} pending`;
+    default:
+      return 'Synced';
+  }
+};
+
+/**
+ * Header indicator for writes to the dental backend that are queued while it is unreachable,
+ * with a menu to retry them and to resolve version conflicts.
+ */
+const DentalSyncStatus: React.FC = () => {
+  const status = useDentalSyncStatus();
+  const hasQueuedWork = status.pending > 0 || status.conflicts.length > 0;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={classNames(
+            'dental-button-ghost px-2 py-1 text-xs',
+            status.state === 'synced' ? 'text-dental-muted' : 'text-dental-accent'
+          )}
+          style={
+            status.state === 'conflict' || status.state === 'offline'
+              ? { color: 'var(--dental-error)' }
+              : undefined
+          }
+        >
+          {getStatusLabel(status)}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {!hasQueuedWork && (
+          <div className="text-dental-muted px-2 py-2 text-xs">
+            All changes are saved to the dental backend.
+          </div>
+        )}
+        {status.conflicts.map(request => (
+          <React.Fragment key={request.id}>
+            <div className="px-2 pt-2 text-xs">
+              {request.label} was changed elsewhere
+              {request.conflict?.currentVersion && ` (now v${request.conflict.currentVersion})`}
+            </div>
+            <DropdownMenuItem
+              onSelect={() => apiClient.resolveSyncConflict(request.id, 'local')}
+              className="py-2 text-xs"
+            >
+              Keep mine
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={() => apiClient.resolveSyncConflict(request.id, 'server')}
+              className="py-2 text-xs"
+            >
+              Use server version
+            </DropdownMenuItem>
+          </React.Fragment>
+        ))}
+        {status.pending > 0 && (
+          <DropdownMenuItem
+            onSelect={() => apiClient.retrySync()}
+            className="py-2 text-xs"
+          >
+            Retry now ({status.pending} queued)
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default DentalSyncStatus;
@@ -0,0 +1,288 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import classNames from 'classnames';
+import { Button } from '@ohif/ui-next';
+import { formatFinding } from '../dentalFindings';
+import { getDentalNumberingSystem } from '../dentalMeasurementsManager';
+import { formatDicomDate } from '../dentalReport';
+import { formatToothSelection, getToothKey } from '../dentalTeeth';
+import type { DentalTimepoint, DentalToothTrend } from '../dentalToothComparison';
+import { DentalToothComparison, loadDentalToothComparison } from '../loadDentalToothComparison';
+import useActiveDentalTooth from '../hooks/useActiveDentalTooth';
+
+type DentalToothComparisonPanelProps = {
+  servicesManager: any;
+  extensionManager: any;
+};
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 64;
+const CHART_PADDING = 6;
+
+const formatStudy = (timepoint: { studyDate?: string }) =>
+  formatDicomDate(timepoint.studyDate) || 'Undated study';
+
+const formatTrendValue = (trend: DentalToothTrend, value: number, signed = false) => {
+  const formatted = value.toFixed(trend.preset.precision ?? 1);
+  const separator = trend.preset.unit === 'mm' ? ' ' : '';
+  return `${signed && value > 0 ? '+' : ''}${formatted}${separator}${trend.preset.unit}`;
+};
+
+/**
+ * Line chart of a preset over the studies, placed by study order. Significant changes are
+ * marked in the error colour and the current study in the accent colour.
+ */
+const TrendChart: React.FC<{ trend: DentalToothTrend; timepoints: DentalTimepoint[] }> = ({
+  trend,
+  timepoints,
+}) => {
+  const values = trend.points.map(point => point.value);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const step = (CHART_WIDTH - 2 * CHART_PADDING) / Math.max(timepoints.length - 1, 1);
+  const positions = trend.points.map(point => {
+    const index = timepoints.findIndex(
+      timepoint => timepoint.studyInstanceUID === point.studyInstanceUID
+    );
+    return {
+      point,
+      isCurrent: timepoints[index]?.isCurrent,
+      x: CHART_PADDING + index * step,
+      y:
+        CHART_HEIGHT -
+        CHART_PADDING -
+        ((point.value - min) / range) * (CHART_HEIGHT - 2 * CHART_PADDING),
+    };
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full"
+      role="img"
+      aria-label={`${trend.preset.label} over time`}
+    >
+      <polyline
+        points={positions.map(({ x, y }) => `${x},${y}`).join(' ')}
+        fill="none"
+        stroke="var(--dental-muted)"
+        strokeWidth={1.5}
+      />
+      {positions.map(({ point, isCurrent, x, y }) => (
+        <circle
+          key={point.studyInstanceUID}
+          cx={x}
+          cy={y}
+          r={isCurrent ? 4 : 3}
+          fill={
+            point.isSignificant
+              ? 'var(--dental-error)'
+              : isCurrent
+                ? 'var(--dental-accent)'
+                : 'white'
+          }
+        >
+          <title>{`${formatStudy(point)}: ${formatTrendValue(trend, point.value)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const DentalToothComparisonPanel: React.FC<DentalToothComparisonPanelProps> = ({
+  servicesManager,
+  extensionManager,
+}) => {
+  const activeTooth = useActiveDentalTooth();
+  const activeToothKey = getToothKey(activeTooth);
+  const [comparison, setComparison] = useState<DentalToothComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!activeToothKey) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadDentalToothComparison({ servicesManager, extensionManager }, activeTooth)
+      .then(result => {
+        if (!cancelled) {
+          setComparison(result);
+        }
+      })
+      .catch(loadError => {
+        console.warn('Failed to compare the tooth across studies:', loadError);
+        if (!cancelled) {
+          setError('Unable to compare this tooth across studies');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTooth, activeToothKey, reloadCount, servicesManager, extensionManager]);
+
+  const onRefresh = useCallback(() => setReloadCount(count => count + 1), []);
+
+  const renderTrends = () =>
+    comparison.trends.length === 0 ? (
+      <div className="dental-panel-empty text-xs">
+        No measurements of this tooth yet. Measure it with the dental presets to chart it.
+      </div>
+    ) : (
+      <ul className="flex flex-col gap-3">
+        {comparison.trends.map(trend => {
+          const latest = trend.points[trend.points.length - 1];
+          return (
+            <li
+              key={trend.preset.id}
+              className="dental-panel-item flex flex-col gap-1 text-xs"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold">{trend.preset.label}</span>
+                <span>
+                  {formatTrendValue(trend, latest.value)}
+                  {latest.change !== undefined && (
+                    <span
+                      className={classNames('ml-1', !trend.isSignificant && 'text-dental-muted')}
+                      style={trend.isSignificant ? { color: 'var(--dental-error)' } : undefined}
+                    >
+                      ({formatTrendValue(trend, latest.change, true)})
+                    </span>
+                  )}
+                </span>
+              </div>
+              {trend.points.length > 1 && (
+                <TrendChart
+                  trend={trend}
+                  timepoints={comparison.timepoints}
+                />
+              )}
+              <div className="text-dental-muted">
+                {trend.points
+                  .map(point => `${formatStudy(point)}: ${formatTrendValue(trend, point.value)}`)
+                  .join(' · ')}
+              </div>
+              {trend.isSignificant && (
+                <div style={{ color: 'var(--dental-error)' }}>
+                  Significant change since the prior
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    );
+
+  const renderFindings = () =>
+    comparison.findings.length === 0 ? (
+      <div className="dental-panel-empty text-xs">No coded findings on this tooth.</div>
+    ) : (
+      <ul className="flex flex-col gap-2">
+        {comparison.findings.map(timepoint => (
+          <li
+            key={timepoint.studyInstanceUID}
+            className="dental-panel-item flex flex-col gap-1 text-xs"
+          >
+            <span className="font-semibold">{formatStudy(timepoint)}</span>
+            {timepoint.findings.map((finding, index) => (
+              <span key={index}>
+                {formatFinding(finding)}
+                {timepoint.added.includes(finding) && (
+                  <span className="text-dental-accent ml-1">new</span>
+                )}
+                {timepoint.worsened.includes(finding) && (
+                  <span
+                    className="ml-1"
+                    style={{ color: 'var(--dental-error)' }}
+                  >
+                    worse
+                  </span>
+                )}
+              </span>
+            ))}
+            {timepoint.resolved.map((finding, index) => (
+              <span
+                key={`resolved-${index}`}
+                className="text-dental-muted line-through"
+              >
+                {formatFinding(finding)}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div className="flex h-full flex-col bg-black/60 text-white">
+      <div className="border-b border-white/10 px-4 py-3">
+        <h3 className="text-dental-accent text-lg font-semibold">Tooth history</h3>
+        <p className="text-dental-muted text-xs">
+          Measurements and findings of the selected tooth in this and the prior studies of the
+          patient.
+        </p>
+      </div>
+      <div className="flex items-center justify-between gap-2 border-b border-white/10 px-4 py-3 text-xs">
+        <span className="text-dental-muted">
+          Comparing{' '}
+          <span className="text-dental-accent font-semibold">
+            {activeTooth
+              ? formatToothSelection(activeTooth, getDentalNumberingSystem())
+              : 'no tooth selected'}
+          </span>
+          {comparison && ` across ${comparison.timepoints.length} studies`}
+        </span>
+        <Button
+          variant="ghost"
+          onClick={onRefresh}
+          disabled={!activeToothKey || isLoading}
+          className="dental-button-ghost px-2 py-1 text-xs"
+        >
+          {isLoading ? 'Loading…' : 'Refresh'}
+        </Button>
+      </div>
+      {(error || comparison?.backendError) && (
+        <div
+          className="px-4 pt-3 text-xs"
+          style={{ color: 'var(--dental-error)' }}
+        >
+          {error ?? `Only the studies in the viewer are compared: ${comparison.backendError}`}
+        </div>
+      )}
+      <div className="flex flex-1 flex-col gap-4 overflow-y-auto px-4 py-3">
+        {!activeToothKey || !comparison ? (
+          <div className="dental-panel-empty text-xs">
+            Select a tooth to compare it across studies.
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="text-dental-muted mb-2 text-[10px] uppercase tracking-widest">
+                Measurements
+              </div>
+              {renderTrends()}
+            </div>
+            <div>
+              <div className="text-dental-muted mb-2 text-[10px] uppercase tracking-widest">
+                Findings
+              </div>
+              {renderFindings()}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DentalToothComparisonPanel;
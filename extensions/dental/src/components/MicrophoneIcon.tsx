@@ -0,0 +1,19 @@
+import React from 'react';
+
+// The ui-next icon set has no microphone, so the voice note controls draw their own
+const MicrophoneIcon = (props: React.SVGAttributes<SVGElement>) => (
+  <svg
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    xmlns="http://www.w3.org/2000/svg"
+    {...props}
+  >
+    <path
+      d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.49 6-3.31 6-6.72h-1.7z"
+      fill="currentColor"
+    />
+  </svg>
+);
+
+export default MicrophoneIcon;
@@ -1,47 +1,6 @@
 import React, { useMemo } from 'react';
 import type { DentalToothSelection, DentalNumberingSystem } from '../dentalMeasurementsManager';
-
-const FDI_VALUES = [
-  '11',
-  '12',
-  '13',
-  '14',
-  '15',
-  '16',
-  '17',
-  '18',
-  '21',
-  '22',
-  '23',
-  '24',
-  '25',
-  '26',
-  '27',
-  '28',
-  '31',
-  '32',
-  '33',
-  '34',
-  '35',
-  '36',
-  '37',
-  '38',
-  '41',
-  '42',
-  '43',
-  '44',
-  '45',
-  '46',
-  '47',
-  '48',
-];
-
-const UNIVERSAL_VALUES = Array.from({ length: 32 }).map((_, index) => `${index + 1}`);
-
-const numberingSystems: Record<DentalNumberingSystem, string[]> = {
-  FDI: FDI_VALUES,
-  UNIVERSAL: UNIVERSAL_VALUES,
-};
+import { DENTAL_NUMBERING_SYSTEMS, convertToothSelection, getToothValues } from '../dentalTeeth';
 
 type ToothSelectorProps = {
   selection: DentalToothSelection;
@@ -49,7 +8,23 @@ type ToothSelectorProps = {
 };
 
 const ToothSelector: React.FC<ToothSelectorProps> = ({ selection, onChange }) => {
-  const options = useMemo(() => numberingSystems[selection.system], [selection.system]);
+  const options = useMemo(
+    () => ({
+      permanent: getToothValues(selection.system, 'permanent'),
+      primary: getToothValues(selection.system, 'primary'),
+    }),
+    [selection.system]
+  );
+
+  const onSystemChange = (system: DentalNumberingSystem) => {
+    // Keep the same tooth when switching systems, e.g. FDI 11 becomes Universal 8
+    onChange(
+      convertToothSelection(selection, system) || {
+        system,
+        value: getToothValues(system, 'permanent')[0],
+      }
+    );
+  };
 
   return (
     <div className="dental-tooth-selector">
@@ -57,16 +32,17 @@ const ToothSelector: React.FC<ToothSelectorProps> = ({ selection, onChange }) =>
       <div className="dental-tooth-selector-controls">
         <select
           value={selection.system}
-          onChange={event =>
-            onChange({
-              system: event.target.value as DentalNumberingSystem,
-              value: numberingSystems[event.target.value as DentalNumberingSystem][0],
-            })
-          }
+          onChange={event => onSystemChange(event.target.value as DentalNumberingSystem)}
           className="dental-select"
         >
-          <option value="FDI">FDI</option>
-          <option value="UNIVERSAL">Universal</option>
+          {DENTAL_NUMBERING_SYSTEMS.map(({ id, label }) => (
+            <option
+              key={id}
+              value={id}
+            >
+              {label}
+            </option>
+          ))}
         </select>
         <select
           value={selection.value}
@@ -78,14 +54,26 @@ const ToothSelector: React.FC<ToothSelectorProps> = ({ selection, onChange }) =>
           }
           className="dental-select"
         >
-          {options.map(value => (
-            <option
-              key={value}
-              value={value}
-            >
-              {value}
-            </option>
-          ))}
+          <optgroup label="Permanent">
+            {options.permanent.map(value => (
+              <option
+                key={value}
+                value={value}
+              >
+                {value}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Primary">
+            {options.primary.map(value => (
+              <option
+                key={value}
+                value={value}
+              >
+                {value}
+              </option>
+            ))}
+          </optgroup>
         </select>
       </div>
     </div>
@@ -0,0 +1,228 @@
+import { classes, utils } from '@ohif/core';
+import {
+  ArchFrame,
+  CrossSectionImage,
+  Point3,
+  ReformattedImage,
+  createCrossSections,
+  createCurvedPanoramic,
+  createVolumeSampler,
+  getArchFrames,
+} from './dentalCurvedReformation';
+
+const ImageSet = classes.ImageSet;
+
+export const DENTAL_ARCH_TOOL_NAME = 'SplineROI';
+export const CURVED_PANORAMIC_VIEWPORT_ID = 'dental-cbct-curved-panoramic';
+export const CROSS_SECTIONS_VIEWPORT_ID = 'dental-cbct-cross-sections';
+
+// Reformations are sampled no finer than this, so that large volumes stay quick to reformat
+const MIN_REFORMATION_SPACING_MM = 0.2;
+
+// Display sets of the last reformation, replaced when the arch is reformatted again
+let previousReformation: { displaySetInstanceUIDs: string[]; imageIds: string[] } | null = null;
+
+const getCornerstoneLibraries = extensionManager =>
+  extensionManager
+    .getModuleEntry('@ohif/extension-cornerstone.utilityModule.common')
+    .exports.getCornerstoneLibraries();
+
+const getArchAnnotation = (cornerstoneTools, viewport) => {
+  const arches = (
+    cornerstoneTools.annotation.state.getAnnotations(DENTAL_ARCH_TOOL_NAME, viewport.element) || []
+  ).filter(annotation => annotation.data?.handles?.points?.length >= 3);
+  const selected = cornerstoneTools.annotation.selection.getAnnotationsSelected() || [];
+
+  return (
+    arches.find(annotation => selected.includes(annotation.annotationUID)) ??
+    arches[arches.length - 1]
+  );
+};
+
+/**
+ * Finds the volume viewport to reformat, preferring the active one, together with the arch
+ * spline drawn on it.
+ */
+const findArchViewport = (servicesManager, cornerstoneTools) => {
+  const { viewportGridService, cornerstoneViewportService } = servicesManager.services;
+  const { activeViewportId, viewports } = viewportGridService.getState();
+
+  for (const viewportId of [activeViewportId, ...viewports.keys()]) {
+    const viewport = cornerstoneViewportService.getCornerstoneViewport(viewportId);
+    if (!viewport?.getVolumeId?.()) {
+      continue;
+    }
+    const arch = getArchAnnotation(cornerstoneTools, viewport);
+    if (arch) {
+      return { viewportId, viewport, arch };
+    }
+  }
+
+  return null;
+};
+
+const createReformationDisplaySet = (
+  cornerstone,
+  sourceDisplaySet,
+  SeriesDescription: string,
+  images: (ReformattedImage & Partial<CrossSectionImage>)[],
+  FrameOfReferenceUID?: string
+) => {
+  const instances = images.map((image, index) => {
+    const imageId = `dentalreformation:${utils.uuidv4()}`;
+    const direction = image.rowDirection && [...image.rowDirection, ...image.columnDirection];
+
+    cornerstone.imageLoader.createAndCacheLocalImage(imageId, {
+      scalarData: image.pixelData,
+      dimensions: [image.width, image.height],
+      spacing: [image.spacing, image.spacing],
+      origin: image.origin,
+      direction,
+      frameOfReferenceUID: FrameOfReferenceUID,
+    });
+
+    return {
+      imageId,
+      StudyInstanceUID: sourceDisplaySet.StudyInstanceUID,
+      SOPInstanceUID: utils.uuidv4(),
+      SeriesDescription,
+      Modality: sourceDisplaySet.Modality,
+      InstanceNumber: index + 1,
+      Rows: image.height,
+      Columns: image.width,
+      PixelSpacing: [image.spacing, image.spacing],
+      ImagePositionPatient: image.origin,
+      ImageOrientationPatient: direction,
+      FrameOfReferenceUID,
+      // Distance along the arch of a cross-section, in mm
+      ImageComments: image.distance !== undefined ? `${image.distance.toFixed(1)} mm` : undefined,
+    };
+  });
+
+  const imageSet = new ImageSet(instances);
+  instances.forEach(instance => Object.assign(instance, { SeriesInstanceUID: imageSet.uid }));
+  imageSet.setAttributes({
+    displaySetInstanceUID: imageSet.uid,
+    SeriesInstanceUID: imageSet.uid,
+    StudyInstanceUID: sourceDisplaySet.StudyInstanceUID,
+    SeriesDate: sourceDisplaySet.SeriesDate,
+    SeriesTime: sourceDisplaySet.SeriesTime,
+    SeriesNumber: sourceDisplaySet.SeriesNumber || 0,
+    SeriesDescription,
+    Modality: sourceDisplaySet.Modality,
+    FrameOfReferenceUID,
+    isMultiFrame: false,
+    numImageFrames: instances.length,
+    SOPClassHandlerId: '@ohif/extension-default.sopClassHandlerModule.stack',
+    isReconstructable: false,
+    madeInClient: true,
+  });
+
+  return imageSet;
+};
+
+const removeReformation = (servicesManager, cornerstone, reformation) => {
+  if (!reformation) {
+    return;
+  }
+  const { displaySetService } = servicesManager.services;
+  reformation.displaySetInstanceUIDs.forEach(uid => displaySetService.deleteDisplaySet(uid));
+  reformation.imageIds.forEach(imageId =>
+    cornerstone.cache.removeImageLoadObject(imageId, { force: true })
+  );
+};
+
+/**
+ * Reformats the CBCT volume along the arch spline drawn on an axial slice: a curved panoramic
+ * reconstruction and cross-sections perpendicular to the arch, added as display sets of the
+ * study and shown in the CBCT layout's reformation viewports when it is open.
+ */
+export default function createDentalCurvedReformation({
+  servicesManager,
+  extensionManager,
+}: {
+  servicesManager: any;
+  extensionManager: any;
+}) {
+  const { displaySetService, viewportGridService, uiNotificationService } =
+    servicesManager.services;
+  const { cornerstone, cornerstoneTools } = getCornerstoneLibraries(extensionManager);
+
+  const match = findArchViewport(servicesManager, cornerstoneTools);
+  if (!match) {
+    uiNotificationService?.show({
+      title: 'Curved panoramic',
+      message: 'Draw the dental arch with at least three points on an axial CBCT slice first',
+      type: 'warning',
+    });
+    return;
+  }
+
+  const { viewportId, viewport, arch } = match;
+  const volume = cornerstone.cache.getVolume(viewport.getVolumeId());
+  const [sourceDisplaySetInstanceUID] =
+    viewportGridService.getState().viewports.get(viewportId)?.displaySetInstanceUIDs || [];
+  const sourceDisplaySet = displaySetService.getDisplaySetByUID(sourceDisplaySetInstanceUID);
+  if (!volume?.voxelManager || !sourceDisplaySet) {
+    return;
+  }
+
+  // Sections run from the arch plane towards the top of the head
+  const { viewPlaneNormal } = viewport.getCamera();
+  const up: Point3 =
+    viewPlaneNormal[2] < 0
+      ? [-viewPlaneNormal[0], -viewPlaneNormal[1], -viewPlaneNormal[2]]
+      : [viewPlaneNormal[0], viewPlaneNormal[1], viewPlaneNormal[2]];
+  const spacing = Math.max(Math.min(...volume.spacing), MIN_REFORMATION_SPACING_MM);
+
+  const frames: ArchFrame[] = getArchFrames(arch.data.handles.points, { up, spacing });
+  if (frames.length < 2) {
+    return;
+  }
+
+  const [minimum] = volume.voxelManager.getRange?.() ?? [0];
+  const sample = createVolumeSampler(
+    {
+      dimensions: volume.dimensions,
+      spacing: volume.spacing,
+      origin: volume.origin,
+      direction: Array.from(volume.direction),
+      getValue: index => volume.voxelManager.getAtIndex(index),
+    },
+    minimum
+  );
+
+  // The panoramic is curved, so it gets no position in the volume's frame of reference
+  const panoramic = createReformationDisplaySet(
+    cornerstone,
+    sourceDisplaySet,
+    'Curved panoramic reconstruction',
+    [createCurvedPanoramic(sample, frames, { up, spacing })]
+  );
+  const crossSections = createReformationDisplaySet(
+    cornerstone,
+    sourceDisplaySet,
+    'Cross-sections',
+    createCrossSections(sample, frames, { up, spacing }),
+    sourceDisplaySet.FrameOfReferenceUID ?? volume.metadata?.FrameOfReferenceUID
+  );
+
+  displaySetService.addDisplaySets(panoramic, crossSections);
+  const replacedReformation = previousReformation;
+  previousReformation = {
+    displaySetInstanceUIDs: [panoramic.uid, crossSections.uid],
+    imageIds: [...panoramic.images, ...crossSections.images].map(image => image.imageId),
+  };
+
+  const { viewports } = viewportGridService.getState();
+  const viewportsToUpdate = [
+    { viewportId: CURVED_PANORAMIC_VIEWPORT_ID, displaySetInstanceUIDs: [panoramic.uid] },
+    { viewportId: CROSS_SECTIONS_VIEWPORT_ID, displaySetInstanceUIDs: [crossSections.uid] },
+  ].filter(({ viewportId }) => viewports.has(viewportId));
+
+  if (viewportsToUpdate.length) {
+    viewportGridService.setDisplaySetsForViewports(viewportsToUpdate);
+  }
+
+  removeReformation(servicesManager, cornerstone, replacedReformation);
+}
@@ -0,0 +1,180 @@
+import dcmjs from 'dcmjs';
+import { utilities as csToolsUtilities } from '@cornerstonejs/tools';
+import {
+  getActiveDentalTooth,
+  getDentalNumberingSystem,
+  subscribeToActiveDentalTooth,
+} from './dentalMeasurementsManager';
+import {
+  DENTAL_SEGMENTATION_LABEL,
+  applyDentalSegmentCodes,
+  getDentalSegmentDefinitions,
+  getDentalSegmentIndex,
+} from './dentalSegmentation';
+
+let unsubscribeFromTooth: (() => void) | null = null;
+
+const getDentalSegmentations = servicesManager =>
+  servicesManager.services.segmentationService
+    .getSegmentations()
+    .filter(segmentation => segmentation.label === DENTAL_SEGMENTATION_LABEL);
+
+const activateToothSegment = (servicesManager, tooth = getActiveDentalTooth()) => {
+  const segmentIndex = getDentalSegmentIndex(tooth);
+  if (segmentIndex === null) {
+    return;
+  }
+
+  const { segmentationService } = servicesManager.services;
+  getDentalSegmentations(servicesManager).forEach(({ segmentationId, segments }) => {
+    if (segments?.[segmentIndex]) {
+      segmentationService.setActiveSegment(segmentationId, segmentIndex);
+    }
+  });
+};
+
+/**
+ * The segment painted at a world point of a display set in the dental segmentations shown over
+ * it, e.g. 36 inside tooth 36, or undefined when the point is unpainted or not displayed.
+ */
+export const getDentalSegmentIndexAtPoint = (
+  servicesManager,
+  displaySetInstanceUID: string,
+  worldPoint: [number, number, number]
+): number | undefined => {
+  const { viewportGridService, cornerstoneViewportService, segmentationService } =
+    servicesManager.services;
+  const dentalSegmentationIds = getDentalSegmentations(servicesManager).map(
+    ({ segmentationId }) => segmentationId
+  );
+  if (!dentalSegmentationIds.length) {
+    return undefined;
+  }
+
+  for (const [viewportId, gridViewport] of viewportGridService.getState().viewports) {
+    const viewport = cornerstoneViewportService.getCornerstoneViewport(viewportId);
+    if (!viewport || !gridViewport.displaySetInstanceUIDs?.includes(displaySetInstanceUID)) {
+      continue;
+    }
+
+    for (const { segmentationId } of segmentationService.getSegmentationRepresentations(
+      viewportId
+    )) {
+      const segmentIndex = dentalSegmentationIds.includes(segmentationId)
+        ? csToolsUtilities.segmentation.getSegmentIndexAtWorldPoint(segmentationId, worldPoint, {
+            viewport,
+          })
+        : undefined;
+      if (segmentIndex > 0) {
+        return segmentIndex;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Creates a labelmap on the image of the active viewport with a segment for the jaw bones, the
+ * mandibular canals, the maxillary sinuses and every permanent tooth. Tooth segments are
+ * labelled in the current numbering system, and the segment of the active tooth is selected for
+ * painting.
+ */
+export default async function createDentalSegmentation({ servicesManager }) {
+  const { displaySetService, viewportGridService, segmentationService, uiNotificationService } =
+    servicesManager.services;
+  const { activeViewportId, viewports } = viewportGridService.getState();
+  const [displaySetInstanceUID] = viewports.get(activeViewportId)?.displaySetInstanceUIDs ?? [];
+  const displaySet = displaySetInstanceUID
+    ? displaySetService.getDisplaySetByUID(displaySetInstanceUID)
+    : undefined;
+
+  if (!displaySet?.imageIds?.length || displaySet.madeInClient) {
+    uiNotificationService?.show({
+      title: 'Dental segmentation',
+      message: 'Open an image series of the study in the active viewport first',
+      type: 'warning',
+    });
+    return;
+  }
+
+  const definitions = getDentalSegmentDefinitions(getDentalNumberingSystem());
+  const segmentationId = await segmentationService.createLabelmapForDisplaySet(displaySet, {
+    label: DENTAL_SEGMENTATION_LABEL,
+    segments: Object.fromEntries(
+      definitions.map(({ segmentIndex, label }) => [
+        segmentIndex,
+        { segmentIndex, label, active: false, locked: false, cachedStats: {} },
+      ])
+    ),
+  });
+
+  await segmentationService.addSegmentationRepresentation(activeViewportId, { segmentationId });
+  definitions.forEach(({ segmentIndex, color }) =>
+    segmentationService.setSegmentColor(activeViewportId, segmentationId, segmentIndex, color)
+  );
+
+  activateToothSegment(servicesManager);
+
+  return segmentationId;
+}
+
+/**
+ * Downloads the dental segmentation as a DICOM SEG, with the segments coded as anatomical
+ * structures: teeth by their ISO 3950 number and jaw, and the bones, canals and sinuses with
+ * their side. Segments left empty are not written.
+ */
+export function exportDentalSegmentation({ servicesManager, commandsManager }) {
+  const { uiNotificationService } = servicesManager.services;
+  const [segmentation] = getDentalSegmentations(servicesManager);
+
+  if (!segmentation) {
+    uiNotificationService?.show({
+      title: 'Dental segmentation',
+      message: 'Create a dental segmentation before exporting it',
+      type: 'warning',
+    });
+    return;
+  }
+
+  const generated = commandsManager.runCommand(
+    'generateSegmentation',
+    {
+      segmentationId: segmentation.segmentationId,
+      options: { SeriesDescription: DENTAL_SEGMENTATION_LABEL },
+    },
+    'SEGMENTATION'
+  );
+  if (!generated?.dataset) {
+    return;
+  }
+
+  const dataset = applyDentalSegmentCodes(generated.dataset, getDentalSegmentDefinitions());
+
+  const url = URL.createObjectURL(dcmjs.data.datasetToBlob(dataset));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = 'dental-segmentation.dcm';
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Keeps the dental segmentations linked to the tooth selection: selecting a tooth activates its
+ * segment, so the brush paints that tooth.
+ */
+export const initializeDentalSegmentation = servicesManager => {
+  teardownDentalSegmentation();
+  if (!servicesManager?.services?.segmentationService) {
+    return;
+  }
+
+  unsubscribeFromTooth = subscribeToActiveDentalTooth(tooth =>
+    activateToothSegment(servicesManager, tooth)
+  );
+};
+
+export const teardownDentalSegmentation = () => {
+  unsubscribeFromTooth?.();
+  unsubscribeFromTooth = null;
+};
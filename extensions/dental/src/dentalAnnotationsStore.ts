@@ -0,0 +1,157 @@
+import type { DentalToothSelection } from './dentalMeasurementsManager';
+import type { DentalFinding } from './dentalFindings';
+import { getToothKey, parseToothLabel } from './dentalTeeth';
+
+const STORAGE_PREFIX = 'dental-annotations-';
+
+let listeners: Array<() => void> = [];
+
+const getStorageKey = (toothLabel: string) => `${STORAGE_PREFIX}${toothLabel.replace(' ', '-')}`;
+
+const notifyListeners = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Dental annotation listener error:', error);
+    }
+  });
+};
+
+export const loadToothAnnotations = (toothLabel: string) => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(toothLabel));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Stores the notes of a tooth. Notes written without a study are recorded against
+ * `studyInstanceUID`, the study open when they were written, so their findings are only ever
+ * reported for that study.
+ */
+export const saveToothAnnotations = (
+  toothLabel: string,
+  annotations: any[],
+  studyInstanceUID?: string | null
+) => {
+  // Notes already stored keep their study, even when the panel hands them back without it
+  const storedStudies = Object.fromEntries(
+    loadToothAnnotations(toothLabel).map(annotation => [annotation.id, annotation.studyInstanceUID])
+  );
+  const stamped = annotations.map(annotation => {
+    const noteStudyInstanceUID =
+      annotation.studyInstanceUID ?? storedStudies[annotation.id] ?? studyInstanceUID;
+    return noteStudyInstanceUID
+      ? { ...annotation, studyInstanceUID: noteStudyInstanceUID }
+      : annotation;
+  });
+
+  try {
+    localStorage.setItem(getStorageKey(toothLabel), JSON.stringify(stamped));
+  } catch (error) {
+    console.warn('Failed to save dental annotations:', error);
+  }
+  notifyListeners();
+};
+
+/**
+ * Links the stored note `id` to the backend annotation it was saved as, for notes saved after
+ * their panel closed, e.g. when the offline queue sends them. Returns false when no stored note
+ * has this id.
+ */
+export const linkStoredAnnotation = (id: string, backendId: string): boolean => {
+  try {
+    for (let index = 0; index < localStorage.length; index++) {
+      const storageKey = localStorage.key(index);
+      if (!storageKey?.startsWith(STORAGE_PREFIX)) {
+        continue;
+      }
+
+      const annotations = JSON.parse(localStorage.getItem(storageKey) || '[]');
+      if (Array.isArray(annotations) && annotations.some(annotation => annotation.id === id)) {
+        const linked = annotations.map(annotation =>
+          annotation.id === id
+            ? { ...annotation, backendId, review: { status: 'draft' } }
+            : annotation
+        );
+        localStorage.setItem(storageKey, JSON.stringify(linked));
+        notifyListeners();
+        return true;
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to link dental annotation:', error);
+  }
+
+  return false;
+};
+
+// Stored notes with the tooth they were written on, skipping keys that are not a known tooth
+const readStoredAnnotations = (): Array<{ tooth: DentalToothSelection; annotations: any[] }> => {
+  const stored = [];
+
+  try {
+    for (let index = 0; index < localStorage.length; index++) {
+      const storageKey = localStorage.key(index);
+      if (!storageKey?.startsWith(STORAGE_PREFIX)) {
+        continue;
+      }
+
+      const tooth = parseToothLabel(storageKey.substring(STORAGE_PREFIX.length));
+      const annotations = JSON.parse(localStorage.getItem(storageKey) || '[]');
+      if (getToothKey(tooth) && Array.isArray(annotations) && annotations.length > 0) {
+        stored.push({ tooth, annotations });
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read dental annotations:', error);
+  }
+
+  return stored;
+};
+
+/**
+ * Counts the stored notes per tooth, keyed by FDI number (see `getToothKey`).
+ */
+export const getAnnotationCountsByTooth = (): Record<string, number> => {
+  const counts: Record<string, number> = {};
+
+  readStoredAnnotations().forEach(({ tooth, annotations }) => {
+    const toothKey = getToothKey(tooth);
+    counts[toothKey] = (counts[toothKey] || 0) + annotations.length;
+  });
+
+  return counts;
+};
+
+/**
+ * Collects the coded findings of the stored notes on each tooth written in a study. The store is
+ * shared by every patient opened in the browser, so notes of other studies, and notes stored
+ * without their study, are left out.
+ */
+export const getStoredToothFindings = (
+  studyInstanceUID: string | null | undefined
+): Array<{
+  tooth: DentalToothSelection;
+  findings: DentalFinding[];
+}> =>
+  studyInstanceUID
+    ? readStoredAnnotations()
+        .map(({ tooth, annotations }) => ({
+          tooth,
+          findings: annotations
+            .filter(annotation => annotation.studyInstanceUID === studyInstanceUID)
+            .flatMap(annotation => annotation.findings ?? []),
+        }))
+        .filter(({ findings }) => findings.length > 0)
+    : [];
+
+export const subscribeToAnnotationChanges = (listener: () => void): (() => void) => {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(existing => existing !== listener);
+  };
+};
@@ -0,0 +1,114 @@
+export type DentalAuditAction = 'view' | 'create' | 'update' | 'share' | 'review' | 'delete';
+
+export type DentalAuditChange = {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+/**
+ * An event of the backend's audit trail: who viewed or changed an annotation, measurement or
+ * viewer state, and the fields that changed.
+ */
+export type DentalAuditEvent = {
+  _id: string;
+  actor: {
+    userId: string;
+    username?: string;
+    role?: string;
+  };
+  action: DentalAuditAction;
+  resourceType: 'annotation' | 'measurement' | 'viewerState';
+  resourceId: string;
+  studyInstanceUID?: string;
+  changes: DentalAuditChange[];
+  createdAt: string;
+};
+
+export type DentalAuditSummary = {
+  // Everything but views, newest first as returned by the backend
+  changes: DentalAuditEvent[];
+  // Who viewed the annotation and how many times
+  viewers: Array<{ name: string; count: number }>;
+};
+
+const ACTION_LABELS: Record<DentalAuditAction, string> = {
+  view: 'viewed',
+  create: 'created',
+  update: 'edited',
+  share: 'shared',
+  review: 'reviewed',
+  delete: 'deleted',
+};
+
+const RESOURCE_LABELS: Record<DentalAuditEvent['resourceType'], string> = {
+  annotation: 'the note',
+  measurement: 'the measurement',
+  viewerState: 'the viewer state',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  'content.text': 'text',
+  'content.audioData': 'recording',
+  category: 'category',
+  findings: 'findings',
+  status: 'status',
+  priority: 'priority',
+  tags: 'tags',
+  isPrivate: 'privacy',
+  sharedWith: 'sharing',
+  reviewedBy: 'review',
+};
+
+const isScalar = (value: unknown) =>
+  value === null || value === undefined || ['string', 'number', 'boolean'].includes(typeof value);
+
+const formatScalar = (value: unknown) =>
+  value === null || value === undefined || value === '' ? 'none' : String(value);
+
+export const getAuditActorName = (event: DentalAuditEvent) =>
+  event.actor.username || 'Unknown user';
+
+/**
+ * Describes a changed field, with its values when they are short enough to show, e.g.
+ * "status: draft → final" or "findings changed".
+ */
+export const describeDentalAuditChange = (change: DentalAuditChange) => {
+  const label = FIELD_LABELS[change.path] ?? change.path;
+  if (isScalar(change.before) && isScalar(change.after)) {
+    const before = formatScalar(change.before);
+    const after = formatScalar(change.after);
+    if (before.length + after.length <= 40) {
+      return `${label}: ${before} → ${after}`;
+    }
+  }
+  return `${label} changed`;
+};
+
+/**
+ * One line per event, e.g. "jdoe (dentist) edited the note".
+ */
+export const describeDentalAuditEvent = (event: DentalAuditEvent) => {
+  const role = event.actor.role ? ` (${event.actor.role})` : '';
+  const action = ACTION_LABELS[event.action] ?? event.action;
+  return `${getAuditActorName(event)}${role} ${action} ${RESOURCE_LABELS[event.resourceType]}`;
+};
+
+/**
+ * Separates the changes of an annotation from the views, which are counted per user as every
+ * load of a study or tooth records one.
+ */
+export const summarizeDentalAuditHistory = (events: DentalAuditEvent[]): DentalAuditSummary => {
+  const viewCounts = new Map<string, number>();
+  events
+    .filter(event => event.action === 'view')
+    .forEach(event => {
+      const name = getAuditActorName(event);
+      viewCounts.set(name, (viewCounts.get(name) ?? 0) + 1);
+    });
+
+  return {
+    changes: events.filter(event => event.action !== 'view'),
+    viewers: Array.from(viewCounts, ([name, count]) => ({ name, count })),
+  };
+};
@@ -0,0 +1,108 @@
+export type DentalCalibrationReference = {
+  id: string;
+  label: string;
+  // Known length of the reference in mm, entered by the user when not set
+  length?: number;
+};
+
+export type DentalCalibration = {
+  referenceUID?: string;
+  referenceLabel: string;
+  referenceLength: number;
+  measuredLength: number;
+  // mm per unit of the uncalibrated image measurement
+  scale: number;
+  calibratedAt: number;
+};
+
+export const DENTAL_CALIBRATION_REFERENCES: DentalCalibrationReference[] = [
+  { id: 'implant', label: 'Implant', length: 10 },
+  { id: 'calibration-ball', label: 'Calibration ball', length: 5 },
+  { id: 'custom', label: 'Custom reference' },
+];
+
+let calibrations: Record<string, DentalCalibration> = {};
+let listeners: Array<(calibrations: Record<string, DentalCalibration>) => void> = [];
+
+const notifyListeners = () => {
+  listeners.forEach(listener => {
+    try {
+      listener(calibrations);
+    } catch (error) {
+      console.warn('Failed to notify dental calibration listener', error);
+    }
+  });
+};
+
+/**
+ * Builds a calibration from a reference of known length and its length as measured on the
+ * image, in mm for images with PixelSpacing or in pixels for those without.
+ */
+export const createDentalCalibration = ({
+  referenceUID,
+  referenceLabel,
+  referenceLength,
+  measuredLength,
+}: {
+  referenceUID?: string;
+  referenceLabel: string;
+  referenceLength: number;
+  measuredLength: number;
+}): DentalCalibration | null => {
+  if (!(referenceLength > 0) || !(measuredLength > 0)) {
+    return null;
+  }
+
+  return {
+    referenceUID,
+    referenceLabel,
+    referenceLength,
+    measuredLength,
+    scale: referenceLength / measuredLength,
+    calibratedAt: Date.now(),
+  };
+};
+
+export const applyDentalCalibration = (
+  value: number | undefined,
+  calibration: DentalCalibration | null | undefined
+) => (Number.isFinite(value) && calibration ? value * calibration.scale : value);
+
+/**
+ * Calibrations apply to a whole image, so they are keyed by SOP instance rather than by the
+ * image id, which changes between data sources.
+ */
+export const getCalibrationKey = (measurement: any): string | null =>
+  measurement?.SOPInstanceUID ?? measurement?.referencedImageId ?? null;
+
+export const getDentalCalibration = (key: string | null): DentalCalibration | null =>
+  (key && calibrations[key]) || null;
+
+export const getDentalCalibrations = () => calibrations;
+
+export const setDentalCalibration = (key: string, calibration: DentalCalibration | null) => {
+  if (!key) {
+    return;
+  }
+
+  const { [key]: _previous, ...rest } = calibrations;
+  calibrations = calibration ? { ...rest, [key]: calibration } : rest;
+  notifyListeners();
+};
+
+/**
+ * Replaces every calibration, e.g. with those stored in a saved viewer state.
+ */
+export const restoreDentalCalibrations = (stored: Record<string, DentalCalibration> = {}) => {
+  calibrations = { ...stored };
+  notifyListeners();
+};
+
+export const subscribeToDentalCalibrations = (
+  listener: (calibrations: Record<string, DentalCalibration>) => void
+) => {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(existing => existing !== listener);
+  };
+};
@@ -0,0 +1,300 @@
+export type Point3 = [number, number, number];
+
+export type ArchFrame = {
+  position: Point3;
+  tangent: Point3;
+  normal: Point3;
+  // Arc length from the first control point, in mm
+  distance: number;
+};
+
+export type DentalVolumeGeometry = {
+  dimensions: Point3;
+  spacing: Point3;
+  origin: Point3;
+  // Row-major i, j and k axis directions
+  direction: number[];
+  getValue: (index: number) => number;
+};
+
+export type VolumeSampler = (point: Point3) => number;
+
+export type ReformattedImage = {
+  pixelData: Float32Array;
+  width: number;
+  height: number;
+  spacing: number;
+};
+
+export type CrossSectionImage = ReformattedImage & {
+  distance: number;
+  // Top-left pixel, and the row and column directions in patient space
+  origin: Point3;
+  rowDirection: Point3;
+  columnDirection: Point3;
+};
+
+export type CurvedReformationOptions = {
+  up: Point3;
+  spacing: number;
+  height?: number;
+};
+
+export const DEFAULT_PANORAMIC_HEIGHT_MM = 50;
+export const DEFAULT_PANORAMIC_SLAB_MM = 10;
+export const DEFAULT_CROSS_SECTION_WIDTH_MM = 30;
+export const DEFAULT_CROSS_SECTION_INTERVAL_MM = 2;
+const SAMPLES_PER_SEGMENT = 16;
+
+const add = (a: Point3, b: Point3): Point3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const subtract = (a: Point3, b: Point3): Point3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const scale = (a: Point3, s: number): Point3 => [a[0] * s, a[1] * s, a[2] * s];
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Point3, b: Point3): Point3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const length = (a: Point3) => Math.sqrt(dot(a, a));
+const normalize = (a: Point3): Point3 => {
+  const norm = length(a);
+  return norm > 0 ? scale(a, 1 / norm) : [0, 0, 0];
+};
+
+const catmullRom = (p0: Point3, p1: Point3, p2: Point3, p3: Point3, t: number): Point3 => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return [0, 1, 2].map(
+    axis =>
+      0.5 *
+      (2 * p1[axis] +
+        (p2[axis] - p0[axis]) * t +
+        (2 * p0[axis] - 5 * p1[axis] + 4 * p2[axis] - p3[axis]) * t2 +
+        (3 * p1[axis] - p0[axis] - 3 * p2[axis] + p3[axis]) * t3)
+  ) as Point3;
+};
+
+/**
+ * Interpolates an open Catmull-Rom spline through the arch control points, in the order they
+ * were placed. The curve passes through every control point.
+ */
+export const interpolateArch = (
+  controlPoints: Point3[],
+  samplesPerSegment = SAMPLES_PER_SEGMENT
+): Point3[] => {
+  if (controlPoints.length < 3) {
+    return controlPoints.slice();
+  }
+
+  const last = controlPoints.length - 1;
+  const points = [
+    subtract(scale(controlPoints[0], 2), controlPoints[1]),
+    ...controlPoints,
+    subtract(scale(controlPoints[last], 2), controlPoints[last - 1]),
+  ];
+
+  const curve: Point3[] = [];
+  for (let segment = 0; segment < last; segment++) {
+    for (let sample = 0; sample < samplesPerSegment; sample++) {
+      curve.push(
+        catmullRom(
+          points[segment],
+          points[segment + 1],
+          points[segment + 2],
+          points[segment + 3],
+          sample / samplesPerSegment
+        )
+      );
+    }
+  }
+  curve.push(controlPoints[last]);
+
+  return curve;
+};
+
+const resampleByArcLength = (polyline: Point3[], spacing: number) => {
+  const samples: { position: Point3; distance: number }[] = [];
+  let travelled = 0;
+  let next = 0;
+
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const segment = subtract(polyline[i + 1], polyline[i]);
+    const segmentLength = length(segment);
+    while (next <= travelled + segmentLength) {
+      const t = segmentLength > 0 ? (next - travelled) / segmentLength : 0;
+      samples.push({ position: add(polyline[i], scale(segment, t)), distance: next });
+      next += spacing;
+    }
+    travelled += segmentLength;
+  }
+
+  return samples;
+};
+
+/**
+ * Samples the arch every `spacing` mm along its length. Each frame holds the tangent and the
+ * in-plane normal, both perpendicular to `up`; the normal points lingually for an arch drawn
+ * from the patient's right to left on an axial slice.
+ */
+export const getArchFrames = (
+  controlPoints: Point3[],
+  { up, spacing }: { up: Point3; spacing: number }
+): ArchFrame[] => {
+  const axis = normalize(up);
+  const samples = resampleByArcLength(interpolateArch(controlPoints), spacing);
+
+  return samples.map(({ position, distance }, index) => {
+    const previous = samples[Math.max(index - 1, 0)].position;
+    const following = samples[Math.min(index + 1, samples.length - 1)].position;
+    const direction = subtract(following, previous);
+    const tangent = normalize(subtract(direction, scale(axis, dot(direction, axis))));
+
+    return { position, tangent, normal: normalize(cross(axis, tangent)), distance };
+  });
+};
+
+/**
+ * Trilinear sampler of a volume in patient coordinates. Points outside the volume read as
+ * `background`.
+ */
+export const createVolumeSampler = (
+  { dimensions, spacing, origin, direction, getValue }: DentalVolumeGeometry,
+  background = 0
+): VolumeSampler => {
+  const [columns, rows, slices] = dimensions;
+  const axes = [0, 1, 2].map(axis => direction.slice(axis * 3, axis * 3 + 3));
+  const frameSize = columns * rows;
+
+  const voxel = (i: number, j: number, k: number) =>
+    i < 0 || j < 0 || k < 0 || i >= columns || j >= rows || k >= slices
+      ? background
+      : getValue(k * frameSize + j * columns + i);
+
+  return point => {
+    const offset = subtract(point, origin);
+    const [i, j, k] = axes.map((axis, index) => dot(offset, axis) / spacing[index]);
+    if (
+      i < -0.5 ||
+      j < -0.5 ||
+      k < -0.5 ||
+      i > columns - 0.5 ||
+      j > rows - 0.5 ||
+      k > slices - 0.5
+    ) {
+      return background;
+    }
+
+    const i0 = Math.floor(i);
+    const j0 = Math.floor(j);
+    const k0 = Math.floor(k);
+    const [fi, fj, fk] = [i - i0, j - j0, k - k0];
+    const clampedVoxel = (di: number, dj: number, dk: number) =>
+      voxel(
+        Math.min(Math.max(i0 + di, 0), columns - 1),
+        Math.min(Math.max(j0 + dj, 0), rows - 1),
+        Math.min(Math.max(k0 + dk, 0), slices - 1)
+      );
+
+    const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+    const front = lerp(
+      lerp(clampedVoxel(0, 0, 0), clampedVoxel(1, 0, 0), fi),
+      lerp(clampedVoxel(0, 1, 0), clampedVoxel(1, 1, 0), fi),
+      fj
+    );
+    const back = lerp(
+      lerp(clampedVoxel(0, 0, 1), clampedVoxel(1, 0, 1), fi),
+      lerp(clampedVoxel(0, 1, 1), clampedVoxel(1, 1, 1), fi),
+      fj
+    );
+    return lerp(front, back, fk);
+  };
+};
+
+/**
+ * Builds the curved planar reformation: one column per arch frame, from the first control
+ * point to the last, and rows running from `up` downwards, centred on the plane of the arch.
+ * Each pixel averages a slab of `slabThickness` mm across the arch.
+ */
+export const createCurvedPanoramic = (
+  sample: VolumeSampler,
+  frames: ArchFrame[],
+  {
+    up,
+    spacing,
+    height = DEFAULT_PANORAMIC_HEIGHT_MM,
+    slabThickness = DEFAULT_PANORAMIC_SLAB_MM,
+  }: CurvedReformationOptions & { slabThickness?: number }
+): ReformattedImage => {
+  const axis = normalize(up);
+  const width = frames.length;
+  const rows = Math.floor(height / spacing) + 1;
+  const slabSamples = Math.max(Math.floor(slabThickness / spacing) + 1, 1);
+  const pixelData = new Float32Array(width * rows);
+
+  frames.forEach((frame, column) => {
+    for (let row = 0; row < rows; row++) {
+      const centre = add(frame.position, scale(axis, height / 2 - row * spacing));
+      let sum = 0;
+      for (let s = 0; s < slabSamples; s++) {
+        const offset = slabSamples > 1 ? -slabThickness / 2 + s * spacing : 0;
+        sum += sample(add(centre, scale(frame.normal, offset)));
+      }
+      pixelData[row * width + column] = sum / slabSamples;
+    }
+  });
+
+  return { pixelData, width, height: rows, spacing };
+};
+
+/**
+ * Builds planar cross-sections perpendicular to the arch every `interval` mm. The columns run
+ * along the arch normal and the rows from `up` downwards, so each section has a real position
+ * and orientation in the volume.
+ */
+export const createCrossSections = (
+  sample: VolumeSampler,
+  frames: ArchFrame[],
+  {
+    up,
+    spacing,
+    height = DEFAULT_PANORAMIC_HEIGHT_MM,
+    width = DEFAULT_CROSS_SECTION_WIDTH_MM,
+    interval = DEFAULT_CROSS_SECTION_INTERVAL_MM,
+  }: CurvedReformationOptions & { width?: number; interval?: number }
+): CrossSectionImage[] => {
+  const axis = normalize(up);
+  const columns = Math.floor(width / spacing) + 1;
+  const rows = Math.floor(height / spacing) + 1;
+  const step = Math.max(Math.round(interval / spacing), 1);
+
+  return frames
+    .filter((_, index) => index % step === 0)
+    .map(frame => {
+      const origin = add(
+        frame.position,
+        add(scale(frame.normal, -width / 2), scale(axis, height / 2))
+      );
+      const columnDirection = scale(axis, -1);
+      const pixelData = new Float32Array(columns * rows);
+
+      for (let row = 0; row < rows; row++) {
+        const rowStart = add(origin, scale(columnDirection, row * spacing));
+        for (let column = 0; column < columns; column++) {
+          pixelData[row * columns + column] = sample(
+            add(rowStart, scale(frame.normal, column * spacing))
+          );
+        }
+      }
+
+      return {
+        pixelData,
+        width: columns,
+        height: rows,
+        spacing,
+        distance: frame.distance,
+        origin,
+        rowDirection: frame.normal,
+        columnDirection,
+      };
+    });
+};
@@ -0,0 +1,137 @@
+import type { DentalToothSelection } from './dentalMeasurementsManager';
+import { findTooth } from './dentalTeeth';
+
+export type DentalFindingCondition =
+  'caries' | 'periapical-lesion' | 'restoration' | 'missing' | 'implant' | 'root-canal-treated';
+
+export type DentalToothSurface = 'M' | 'O' | 'D' | 'B' | 'L' | 'I';
+
+export type DentalFindingSeverity = 'mild' | 'moderate' | 'severe';
+
+export type DentalFindingCodes = {
+  snomedCT?: string;
+  cdt?: string;
+};
+
+/**
+ * A coded finding on a tooth, stored with the annotation that describes it.
+ */
+export type DentalFinding = {
+  condition: DentalFindingCondition;
+  surfaces: DentalToothSurface[];
+  severity?: DentalFindingSeverity;
+  codes?: DentalFindingCodes;
+};
+
+export type DentalFindingConditionDefinition = {
+  id: DentalFindingCondition;
+  label: string;
+  // Whether the finding is located on surfaces of the crown rather than the whole tooth
+  usesSurfaces: boolean;
+};
+
+// Kept in step with backend/utils/dentalFindings.js
+export const DENTAL_FINDING_CONDITIONS: DentalFindingConditionDefinition[] = [
+  { id: 'caries', label: 'Caries', usesSurfaces: true },
+  { id: 'periapical-lesion', label: 'Periapical lesion', usesSurfaces: false },
+  { id: 'restoration', label: 'Restoration', usesSurfaces: true },
+  { id: 'missing', label: 'Missing', usesSurfaces: false },
+  { id: 'implant', label: 'Implant', usesSurfaces: false },
+  { id: 'root-canal-treated', label: 'Root canal treated', usesSurfaces: false },
+];
+
+export const DENTAL_TOOTH_SURFACES: Array<{ code: DentalToothSurface; label: string }> = [
+  { code: 'M', label: 'Mesial' },
+  { code: 'O', label: 'Occlusal' },
+  { code: 'D', label: 'Distal' },
+  { code: 'B', label: 'Buccal' },
+  { code: 'L', label: 'Lingual' },
+  { code: 'I', label: 'Incisal' },
+];
+
+export const DENTAL_FINDING_SEVERITIES: DentalFindingSeverity[] = ['mild', 'moderate', 'severe'];
+
+const SURFACE_ORDER = DENTAL_TOOTH_SURFACES.map(surface => surface.code);
+
+// ADA CDT endodontic therapy codes by permanent tooth type
+const ROOT_CANAL_CDT = {
+  incisor: 'D3310',
+  canine: 'D3310',
+  premolar: 'D3320',
+  molar: 'D3330',
+};
+
+export const getFindingCondition = (condition: string) =>
+  DENTAL_FINDING_CONDITIONS.find(definition => definition.id === condition);
+
+/**
+ * Surfaces that can be coded on a tooth: incisors and canines have an incisal edge, premolars
+ * and molars an occlusal surface. All surfaces are offered when the tooth is unknown.
+ */
+export const getToothSurfaces = (
+  tooth: DentalToothSelection | null | undefined
+): DentalToothSurface[] => {
+  const definition = findTooth(tooth);
+  if (!definition) {
+    return SURFACE_ORDER;
+  }
+
+  const isAnterior = definition.type === 'incisor' || definition.type === 'canine';
+  return SURFACE_ORDER.filter(surface => surface !== (isAnterior ? 'O' : 'I'));
+};
+
+/**
+ * Codes suggested for a new finding: the SNOMED CT concept for dental caries, and the ADA CDT
+ * procedure code for root canal treatment and implant placement on this tooth. Other conditions
+ * depend on details the catalogue does not capture and are left for the user to code.
+ */
+export const getSuggestedFindingCodes = (
+  condition: DentalFindingCondition,
+  tooth: DentalToothSelection | null | undefined
+): DentalFindingCodes => {
+  switch (condition) {
+    case 'caries':
+      return { snomedCT: '80967001' };
+    case 'root-canal-treated': {
+      // The endodontic therapy codes are for permanent teeth
+      const definition = findTooth(tooth);
+      return definition?.dentition === 'permanent' ? { cdt: ROOT_CANAL_CDT[definition.type] } : {};
+    }
+    case 'implant':
+      return { cdt: 'D6010' };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Puts surfaces in the M-O-D-B-L-I order they are written in, e.g. "MOD", dropping duplicates
+ * and surfaces for conditions that concern the whole tooth.
+ */
+export const normalizeFinding = (finding: DentalFinding): DentalFinding => {
+  const usesSurfaces = getFindingCondition(finding.condition)?.usesSurfaces ?? false;
+  const codes = Object.fromEntries(
+    Object.entries(finding.codes ?? {})
+      .map(([system, code]) => [system, `${code ?? ''}`.trim().toUpperCase()])
+      .filter(([, code]) => code)
+  );
+
+  return {
+    condition: finding.condition,
+    surfaces: usesSurfaces
+      ? SURFACE_ORDER.filter(surface => finding.surfaces?.includes(surface))
+      : [],
+    ...(finding.severity ? { severity: finding.severity } : {}),
+    ...(Object.keys(codes).length ? { codes } : {}),
+  };
+};
+
+/**
+ * Formats a finding for display, e.g. "Caries MOD (moderate)".
+ */
+export const formatFinding = (finding: DentalFinding) => {
+  const label = getFindingCondition(finding.condition)?.label ?? finding.condition;
+  const surfaces = finding.surfaces?.length ? ` ${finding.surfaces.join('')}` : '';
+  const severity = finding.severity ? ` (${finding.severity})` : '';
+  return `${label}${surfaces}${severity}`;
+};
@@ -0,0 +1,163 @@
+export type FmxRow = 'maxillary' | 'bitewing' | 'mandibular';
+export type FmxRegion = 'molar' | 'premolar' | 'canine' | 'incisor';
+export type FmxSide = 'R' | 'L';
+
+export type FmxMountSlot = {
+  id: string;
+  label: string;
+  row: FmxRow;
+  region: FmxRegion;
+  side?: FmxSide;
+};
+
+const ROW_PREFIX: Record<FmxRow, string> = { maxillary: 'max', bitewing: 'bw', mandibular: 'mand' };
+const SIDE_LABEL: Record<FmxSide, string> = { R: 'right', L: 'left' };
+
+const slot = (row: FmxRow, region: FmxRegion, side?: FmxSide): FmxMountSlot => ({
+  id: [ROW_PREFIX[row], side, region].filter(Boolean).join('-'),
+  label: [
+    row === 'bitewing' ? 'Bitewing' : row === 'maxillary' ? 'Maxillary' : 'Mandibular',
+    side && SIDE_LABEL[side],
+    region === 'incisor' ? 'incisors' : region,
+  ]
+    .filter(Boolean)
+    .join(' '),
+  row,
+  region,
+  side,
+});
+
+const periapicalRow = (row: FmxRow): FmxMountSlot[] => [
+  slot(row, 'molar', 'R'),
+  slot(row, 'premolar', 'R'),
+  slot(row, 'canine', 'R'),
+  slot(row, 'incisor'),
+  slot(row, 'canine', 'L'),
+  slot(row, 'premolar', 'L'),
+  slot(row, 'molar', 'L'),
+];
+
+/**
+ * The 18-image anatomic mount in reading order, viewed from the front: the patient's right on
+ * the left, maxillary periapicals on top, bitewings in the middle and mandibular periapicals
+ * at the bottom.
+ */
+export const FMX_MOUNT_SLOTS: FmxMountSlot[] = [
+  ...periapicalRow('maxillary'),
+  slot('bitewing', 'molar', 'R'),
+  slot('bitewing', 'premolar', 'R'),
+  slot('bitewing', 'premolar', 'L'),
+  slot('bitewing', 'molar', 'L'),
+  ...periapicalRow('mandibular'),
+];
+
+const getCodeMeanings = (sequence: any): string[] =>
+  (Array.isArray(sequence) ? sequence : sequence ? [sequence] : []).flatMap(item => [
+    item?.CodeMeaning,
+    ...getCodeMeanings(item?.AnatomicRegionModifierSequence),
+    ...getCodeMeanings(item?.ViewModifierCodeSequence),
+  ]);
+
+const getSide = (image: any, text: string): FmxSide | undefined => {
+  const laterality = `${image?.ImageLaterality ?? image?.Laterality ?? ''}`.toUpperCase();
+  if (laterality === 'R' || laterality === 'L') {
+    return laterality;
+  }
+  if (/\bright\b|\bur\b|\blr\b/.test(text)) {
+    return 'R';
+  }
+  if (/\bleft\b|\bul\b|\bll\b/.test(text)) {
+    return 'L';
+  }
+  return undefined;
+};
+
+/**
+ * Finds the mount slot of an intraoral image from its anatomic region, view and tooth codes,
+ * its laterality and its descriptions. Returns null when the image cannot be placed, e.g. a
+ * posterior view without a side.
+ */
+export const getFmxSlotForImage = (image: any): string | null => {
+  const text = [
+    ...getCodeMeanings(image?.AnatomicRegionSequence),
+    ...getCodeMeanings(image?.PrimaryAnatomicStructureSequence),
+    ...getCodeMeanings(image?.ViewCodeSequence),
+    image?.SeriesDescription,
+    image?.ImageComments,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  if (!text && !image?.ImageLaterality) {
+    return null;
+  }
+
+  const region: FmxRegion | undefined = /premolar|bicuspid/.test(text)
+    ? 'premolar'
+    : /molar/.test(text)
+      ? 'molar'
+      : /canine|cuspid/.test(text)
+        ? 'canine'
+        : /incisor|anterior|central/.test(text)
+          ? 'incisor'
+          : undefined;
+  const side = getSide(image, text);
+
+  let row: FmxRow | undefined;
+  if (/bite ?wing|\bbw\b/.test(text)) {
+    row = 'bitewing';
+  } else if (/maxill|upper|\bur\b|\bul\b/.test(text)) {
+    row = 'maxillary';
+  } else if (/mandib|lower|\blr\b|\bll\b/.test(text)) {
+    row = 'mandibular';
+  }
+
+  const match = FMX_MOUNT_SLOTS.find(
+    mountSlot =>
+      mountSlot.row === row &&
+      mountSlot.region === region &&
+      (mountSlot.region === 'incisor' || mountSlot.side === side)
+  );
+  return match?.id ?? null;
+};
+
+/**
+ * Assigns the images of a full-mouth series to mount slots. Coded images take their own slot
+ * (the first one wins when several claim it) and the remaining images fill the free slots in
+ * mount order, following the order they are given in. Returns the image index per slot id.
+ */
+export const assignFmxSlots = (images: any[]): Record<string, number> => {
+  const assigned: Record<string, number> = {};
+  const unplaced: number[] = [];
+
+  images.forEach((image, index) => {
+    const slotId = getFmxSlotForImage(image);
+    if (slotId && assigned[slotId] === undefined) {
+      assigned[slotId] = index;
+    } else {
+      unplaced.push(index);
+    }
+  });
+
+  FMX_MOUNT_SLOTS.filter(mountSlot => assigned[mountSlot.id] === undefined).forEach(
+    (mountSlot, index) => {
+      if (index < unplaced.length) {
+        assigned[mountSlot.id] = unplaced[index];
+      }
+    }
+  );
+
+  return assigned;
+};
+
+/**
+ * Sorts images into acquisition order for the fallback placement, by series and instance
+ * number and then by acquisition time.
+ */
+export const compareFmxImages = (a: any, b: any) =>
+  (Number(a?.SeriesNumber) || 0) - (Number(b?.SeriesNumber) || 0) ||
+  (Number(a?.InstanceNumber) || 0) - (Number(b?.InstanceNumber) || 0) ||
+  `${a?.AcquisitionDateTime ?? a?.AcquisitionTime ?? ''}`.localeCompare(
+    `${b?.AcquisitionDateTime ?? b?.AcquisitionTime ?? ''}`
+  );
@@ -0,0 +1,169 @@
+import { assignFmxSlots, compareFmxImages } from './dentalFmxMount';
+
+type FmxPlacement = {
+  displaySetInstanceUID: string;
+  index: number;
+};
+
+// Studies with at least this many intraoral images are hung as a full-mouth series
+export const FMX_MIN_IMAGES = 14;
+
+// Reconstructable CT series with fewer slices are scouts or localizers rather than CBCT volumes
+export const CBCT_MIN_SLICES = 32;
+
+const placementsByStudy = new Map<string, Record<string, FmxPlacement>>();
+
+const getIntraoralImages = (displaySets: any[] = []) =>
+  displaySets
+    .filter(displaySet => displaySet?.Modality === 'IO' && !displaySet?.unsupported)
+    .flatMap(displaySet =>
+      (displaySet.images || displaySet.instances || []).map((image, index) => ({
+        image,
+        displaySetInstanceUID: displaySet.displaySetInstanceUID,
+        index,
+      }))
+    );
+
+/**
+ * Places the intraoral images of a study in the FMX mount, returning the display set and the
+ * image index within it per slot id. Works both for one series per image and for a whole
+ * series stored as a single stack.
+ */
+export const getFmxPlacements = (displaySets: any[] = []): Record<string, FmxPlacement> => {
+  const images = getIntraoralImages(displaySets).sort((a, b) => compareFmxImages(a.image, b.image));
+  const slots = assignFmxSlots(images.map(({ image }) => image));
+
+  const placements = Object.fromEntries(
+    Object.entries(slots).map(([slotId, imageIndex]) => {
+      const { displaySetInstanceUID, index } = images[imageIndex];
+      return [slotId, { displaySetInstanceUID, index }];
+    })
+  );
+
+  const studyInstanceUID = displaySets[0]?.StudyInstanceUID;
+  if (studyInstanceUID) {
+    placementsByStudy.set(studyInstanceUID, placements);
+  }
+
+  return placements;
+};
+
+/**
+ * Whether a display set is a dental CBCT volume that can be opened in MPR.
+ */
+export const isDentalCbctVolume = (displaySet: any): boolean =>
+  displaySet?.Modality === 'CT' &&
+  displaySet.isReconstructable === true &&
+  (displaySet.numImageFrames ?? displaySet.images?.length ?? 0) >= CBCT_MIN_SLICES;
+
+/**
+ * Whether a display set is a curved panoramic reconstruction of a CBCT volume, as opposed to
+ * a panoramic radiograph (PX) or the volume itself.
+ */
+const getReformationText = (displaySet: any): string | null => {
+  if (!displaySet || displaySet.Modality === 'PX' || isDentalCbctVolume(displaySet)) {
+    return null;
+  }
+  const imageType = [].concat(displaySet.ImageType ?? displaySet.instance?.ImageType ?? []);
+  return `${displaySet.SeriesDescription ?? ''} ${imageType.join(' ')}`.toLowerCase();
+};
+
+export const isCurvedPanoramicReconstruction = (displaySet: any): boolean =>
+  /curved|\bcpr\b|panoramic reconstruction|reformatted pano/.test(
+    getReformationText(displaySet) ?? ''
+  );
+
+/**
+ * Whether a display set holds cross-sections of a CBCT volume taken perpendicular to the arch.
+ */
+export const isCrossSectionReformation = (displaySet: any): boolean =>
+  /cross[- ]?section/.test(getReformationText(displaySet) ?? '');
+
+/**
+ * The distinct modalities of the given display sets, in the order they first appear.
+ */
+export const getDisplaySetModalities = (displaySets: any[] = []): string[] => [
+  ...new Set(
+    displaySets
+      .filter(displaySet => displaySet?.Modality && !displaySet.unsupported)
+      .map(displaySet => displaySet.Modality as string)
+  ),
+];
+
+const getStudyDisplaySets = (study, options) =>
+  (options?.displaySets || []).filter(
+    displaySet => !study?.StudyInstanceUID || displaySet.StudyInstanceUID === study.StudyInstanceUID
+  );
+
+export default function registerDentalHangingProtocolAttributes({ servicesManager }) {
+  const { hangingProtocolService } = servicesManager.services;
+  if (!hangingProtocolService) {
+    return;
+  }
+
+  hangingProtocolService.addCustomAttribute(
+    'dentalIntraoralImageCount',
+    'Number of intraoral images in the study',
+    (study, options) => getIntraoralImages(getStudyDisplaySets(study, options)).length
+  );
+
+  hangingProtocolService.addCustomAttribute(
+    'dentalModalities',
+    'Modalities of the displayable series in the study',
+    (study, options) => getDisplaySetModalities(getStudyDisplaySets(study, options))
+  );
+
+  hangingProtocolService.addCustomAttribute(
+    'dentalCbctVolumeCount',
+    'Number of CBCT volumes in the study',
+    (study, options) => getStudyDisplaySets(study, options).filter(isDentalCbctVolume).length
+  );
+
+  hangingProtocolService.addCustomAttribute(
+    'dentalIsCbctVolume',
+    'Whether the display set is a CBCT volume',
+    displaySet => isDentalCbctVolume(displaySet)
+  );
+
+  hangingProtocolService.addCustomAttribute(
+    'dentalIsCurvedPanoramic',
+    'Whether the display set is a curved panoramic reconstruction',
+    displaySet => isCurvedPanoramicReconstruction(displaySet)
+  );
+
+  hangingProtocolService.addCustomAttribute(
+    'dentalIsCrossSection',
+    'Whether the display set holds cross-sections perpendicular to the arch',
+    displaySet => isCrossSectionReformation(displaySet)
+  );
+
+  hangingProtocolService.addCustomAttribute(
+    'dentalFmxSlots',
+    'FMX mount slots shown from the display set',
+    (displaySet, options) => {
+      const placements = getFmxPlacements(options?.displaySets || [displaySet]);
+      return Object.keys(placements).filter(
+        slotId => placements[slotId].displaySetInstanceUID === displaySet.displaySetInstanceUID
+      );
+    }
+  );
+
+  // Viewport option: `this` is the option object, holding the slot id of the viewport
+  hangingProtocolService.addCustomAttribute(
+    'dentalFmxImageOptions',
+    'Initial image of an FMX mount slot',
+    function (displaySets) {
+      const [displaySet] = displaySets || [];
+      if (!displaySet) {
+        return undefined;
+      }
+
+      const placements =
+        placementsByStudy.get(displaySet.StudyInstanceUID) ?? getFmxPlacements([displaySet]);
+      const placement = placements[this.slotId];
+      return placement?.displaySetInstanceUID === displaySet.displaySetInstanceUID
+        ? { index: placement.index }
+        : undefined;
+    }
+  );
+}
@@ -0,0 +1,244 @@
+import { Point3 } from './dentalCurvedReformation';
+
+export type DentalImplantShape = 'cylinder' | 'tapered';
+
+export type DentalImplantSpec = {
+  id: string;
+  label: string;
+  shape: DentalImplantShape;
+  // Platform diameter and length in mm
+  diameter: number;
+  length: number;
+  // Apex diameter of tapered implants, in mm
+  apexDiameter?: number;
+};
+
+export type DentalImplantClearance = {
+  measurementUID: string;
+  distance: number;
+  tooth?: { system: string; value: string };
+};
+
+export type DentalImplantClearances = {
+  canal: DentalImplantClearance | null;
+  roots: DentalImplantClearance[];
+};
+
+export const DENTAL_IMPLANT_TOOL_NAME = 'DentalImplant';
+export const IMPLANT_LIBRARY_CUSTOMIZATION_ID = 'dental.implantLibrary';
+
+// Minimum clearances usually kept from the mandibular canal and from neighbouring roots
+export const CANAL_SAFETY_MARGIN_MM = 2;
+export const ROOT_SAFETY_MARGIN_MM = 1.5;
+
+const cylinder = (diameter: number, length: number): DentalImplantSpec => ({
+  id: `cylinder-${diameter}x${length}`,
+  label: `Cylinder Ø${diameter} × ${length} mm`,
+  shape: 'cylinder',
+  diameter,
+  length,
+});
+
+const tapered = (diameter: number, length: number, apexDiameter: number): DentalImplantSpec => ({
+  id: `tapered-${diameter}x${length}`,
+  label: `Tapered Ø${diameter} × ${length} mm`,
+  shape: 'tapered',
+  diameter,
+  length,
+  apexDiameter,
+});
+
+/**
+ * Generic implant sizes offered when the deployment does not configure its own library
+ * through the `dental.implantLibrary` customization.
+ */
+export const DENTAL_IMPLANT_LIBRARY: DentalImplantSpec[] = [
+  cylinder(3.3, 10),
+  cylinder(3.3, 12),
+  cylinder(4.1, 8),
+  cylinder(4.1, 10),
+  cylinder(4.1, 12),
+  cylinder(4.8, 8),
+  cylinder(4.8, 10),
+  tapered(3.5, 11.5, 2.5),
+  tapered(4.3, 10, 3.1),
+  tapered(4.3, 11.5, 3.1),
+  tapered(5.0, 10, 3.8),
+];
+
+export const formatImplantSpec = (spec: DentalImplantSpec) =>
+  `Ø${spec.diameter} × ${spec.length} mm${spec.shape === 'tapered' ? ' tapered' : ''}`;
+
+const subtract = (a: Point3, b: Point3): Point3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const add = (a: Point3, b: Point3): Point3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Point3, s: number): Point3 => [a[0] * s, a[1] * s, a[2] * s];
+const dot = (a: Point3, b: Point3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Point3, b: Point3): Point3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const normalize = (a: Point3): Point3 => {
+  const norm = Math.sqrt(dot(a, a));
+  return norm > 0 ? scale(a, 1 / norm) : [0, 0, 0];
+};
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * The implant axis from the two handles of a placement: the first handle is the platform
+ * and the second only sets the direction, so the apex is always the implant length away.
+ */
+export const getImplantAxis = (points: Point3[], spec: DentalImplantSpec) => {
+  const [platform, handle] = points;
+  const direction = normalize(subtract(handle, platform));
+  return { platform, apex: add(platform, scale(direction, spec.length)), direction };
+};
+
+/**
+ * Radius of the implant body at `t` along the axis, from the platform (0) to the apex (1).
+ */
+export const getImplantRadiusAt = (spec: DentalImplantSpec, t: number) => {
+  const platformRadius = spec.diameter / 2;
+  const apexRadius =
+    (spec.shape === 'tapered' ? (spec.apexDiameter ?? spec.diameter) : spec.diameter) / 2;
+  return platformRadius + (apexRadius - platformRadius) * clamp01(t);
+};
+
+/**
+ * Outline of the implant body projected on a view plane, as the four corners of its side
+ * profile in patient coordinates: platform edges and apex edges.
+ */
+export const getImplantOutline = (
+  points: Point3[],
+  spec: DentalImplantSpec,
+  viewPlaneNormal: Point3
+): Point3[] => {
+  const { platform, apex, direction } = getImplantAxis(points, spec);
+  const side = normalize(cross(direction, viewPlaneNormal));
+  const platformRadius = getImplantRadiusAt(spec, 0);
+  const apexRadius = getImplantRadiusAt(spec, 1);
+
+  return [
+    add(platform, scale(side, platformRadius)),
+    add(apex, scale(side, apexRadius)),
+    add(apex, scale(side, -apexRadius)),
+    add(platform, scale(side, -platformRadius)),
+  ];
+};
+
+/**
+ * Closest points between segments p0-p1 and q0-q1, returned as the distance and the
+ * parameter along the first segment.
+ */
+export const getSegmentDistance = (p0: Point3, p1: Point3, q0: Point3, q1: Point3) => {
+  const u = subtract(p1, p0);
+  const v = subtract(q1, q0);
+  const w = subtract(p0, q0);
+  const a = dot(u, u);
+  const b = dot(u, v);
+  const c = dot(v, v);
+  const d = dot(u, w);
+  const e = dot(v, w);
+  const denominator = a * c - b * b;
+
+  let s = 0;
+  let t = 0;
+  if (c <= 1e-9) {
+    // The second segment is a point
+    s = a > 1e-9 ? clamp01(-d / a) : 0;
+  } else {
+    s = denominator > 1e-9 ? clamp01((b * e - c * d) / denominator) : 0;
+    t = (b * s + e) / c;
+    if (t < 0 || t > 1) {
+      t = clamp01(t);
+      s = a > 1e-9 ? clamp01((b * t - d) / a) : 0;
+    }
+  }
+
+  const closest = subtract(add(p0, scale(u, s)), add(q0, scale(v, t)));
+  return { distance: Math.sqrt(dot(closest, closest)), t: s };
+};
+
+/**
+ * Gap between the implant surface and a segment (a point when both ends match), less the
+ * radius of the structure around it. Zero or less means the implant touches it.
+ */
+export const getImplantGap = (
+  points: Point3[],
+  spec: DentalImplantSpec,
+  segment: [Point3, Point3],
+  structureRadius = 0
+) => {
+  const { platform, apex } = getImplantAxis(points, spec);
+  const { distance, t } = getSegmentDistance(platform, apex, segment[0], segment[1]);
+  return distance - getImplantRadiusAt(spec, t) - structureRadius;
+};
+
+const isCanalMark = measurement => measurement?.metadata?.dentalPresetId === 'mandibular-canal';
+const isRootMark = measurement => measurement?.metadata?.dentalPresetId === 'root-length';
+
+/**
+ * Clearances of a planned implant to the mandibular canal marks (circles around the canal on
+ * cross-sections) and to the root-length lines of other teeth, both in the implant's frame of
+ * reference. Returns the nearest canal mark and the nearest root of each tooth.
+ */
+export const getImplantClearances = (
+  implant: any,
+  measurements: any[] = []
+): DentalImplantClearances => {
+  const spec: DentalImplantSpec = implant?.metadata?.dentalImplant;
+  if (!spec || !(implant.points?.length >= 2)) {
+    return { canal: null, roots: [] };
+  }
+
+  const sameFrame = measurements.filter(
+    measurement =>
+      measurement.uid !== implant.uid &&
+      measurement.points?.length >= 2 &&
+      measurement.FrameOfReferenceUID &&
+      measurement.FrameOfReferenceUID === implant.FrameOfReferenceUID
+  );
+
+  const canal = sameFrame
+    .filter(isCanalMark)
+    .map(measurement => {
+      const [centre, edge] = measurement.points;
+      const radius = Math.sqrt(dot(subtract(edge, centre), subtract(edge, centre)));
+      return {
+        measurementUID: measurement.uid,
+        distance: getImplantGap(implant.points, spec, [centre, centre], radius),
+      };
+    })
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  const implantTooth = implant.metadata?.dentalTooth;
+  const rootsByTooth = new Map<string, DentalImplantClearance>();
+  sameFrame
+    .filter(isRootMark)
+    .filter(
+      measurement =>
+        !implantTooth ||
+        measurement.metadata?.dentalTooth?.value !== implantTooth.value ||
+        measurement.metadata?.dentalTooth?.system !== implantTooth.system
+    )
+    .forEach(measurement => {
+      const tooth = measurement.metadata?.dentalTooth;
+      const clearance = {
+        measurementUID: measurement.uid,
+        distance: getImplantGap(implant.points, spec, [
+          measurement.points[0],
+          measurement.points[1],
+        ]),
+        tooth,
+      };
+      const key = tooth ? `${tooth.system}-${tooth.value}` : measurement.uid;
+      if (!rootsByTooth.has(key) || rootsByTooth.get(key).distance > clearance.distance) {
+        rootsByTooth.set(key, clearance);
+      }
+    });
+
+  return {
+    canal: canal ?? null,
+    roots: [...rootsByTooth.values()].sort((a, b) => a.distance - b.distance),
+  };
+};
@@ -0,0 +1,368 @@
+import type { DentalToothSelection } from './dentalMeasurementsManager';
+import {
+  DENTAL_FINDING_CONDITIONS,
+  DentalFinding,
+  DentalFindingCondition,
+  getFindingCondition,
+  getSuggestedFindingCodes,
+} from './dentalFindings';
+import { findTooth, formatToothSelection } from './dentalTeeth';
+
+export const INFERENCE_PROVIDER_CUSTOMIZATION_ID = 'dental.inferenceProvider';
+
+type Point2 = [number, number];
+type Point3 = [number, number, number];
+
+/**
+ * What the model is told about the image sent with the request. Detections are expected in the
+ * pixel coordinates of that image, `width` by `height`.
+ */
+export type DentalInferenceRequest = {
+  width: number;
+  height: number;
+  modality?: string;
+  studyInstanceUID?: string;
+  seriesInstanceUID?: string;
+  sopInstanceUID?: string;
+  // The selected tooth in FDI, for models that look at one tooth
+  tooth?: string;
+  conditions: DentalFindingCondition[];
+};
+
+export type DentalInferenceDetection = {
+  label: string;
+  condition?: DentalFindingCondition;
+  score: number;
+  box?: { x: number; y: number; width: number; height: number };
+  polygon?: Point2[];
+  tooth?: DentalToothSelection;
+};
+
+export type DentalInferenceResult = {
+  model?: string;
+  detections: DentalInferenceDetection[];
+};
+
+/**
+ * Finds conditions on an image. Deployments plug in their model through the
+ * `dental.inferenceProvider` customization, either as a provider or as the `{ url, headers }`
+ * of an endpoint for `createHttpInferenceProvider`.
+ */
+export type DentalInferenceProvider = {
+  id: string;
+  label: string;
+  infer: (image: Blob, request: DentalInferenceRequest) => Promise<DentalInferenceResult>;
+};
+
+export type DentalAISuggestionStatus = 'pending' | 'accepted';
+
+/**
+ * Provenance of a measurement drawn from a detection, kept in its `dentalAI` metadata.
+ */
+export type DentalAIMetadata = {
+  providerId: string;
+  model?: string;
+  label: string;
+  condition?: DentalFindingCondition;
+  score: number;
+  status: DentalAISuggestionStatus;
+  // Set on acceptance when the user changed the finding
+  edited?: boolean;
+};
+
+export type DentalAISuggestion = DentalAIMetadata & {
+  measurementUID: string;
+  tooth?: DentalToothSelection;
+};
+
+// Conditions models are asked for unless the deployment narrows them
+export const DENTAL_INFERENCE_CONDITIONS: DentalFindingCondition[] = [
+  'caries',
+  'periapical-lesion',
+];
+
+// Labels models commonly use for the conditions of the findings catalogue
+const CONDITION_ALIASES: Record<string, DentalFindingCondition> = {
+  decay: 'caries',
+  'carious-lesion': 'caries',
+  periapical: 'periapical-lesion',
+  'periapical-radiolucency': 'periapical-lesion',
+  'apical-lesion': 'periapical-lesion',
+  'root-canal': 'root-canal-treated',
+  filling: 'restoration',
+};
+
+/**
+ * The condition of the findings catalogue a model label names, e.g. "Periapical radiolucency"
+ * for a periapical lesion, or undefined when the catalogue has none.
+ */
+export const getInferenceCondition = (label: string): DentalFindingCondition | undefined => {
+  const key = `${label ?? ''}`
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+
+  return (
+    DENTAL_FINDING_CONDITIONS.find(
+      definition =>
+        definition.id === key || definition.label.toLowerCase().replace(/ /g, '-') === key
+    )?.id ?? CONDITION_ALIASES[key]
+  );
+};
+
+const toPoint = (value: any): Point2 =>
+  Array.isArray(value)
+    ? [Number(value[0]), Number(value[1])]
+    : [Number(value?.x), Number(value?.y)];
+
+const isFinitePoint = (point: number[]) => point.every(Number.isFinite);
+
+const toBox = (value: any): DentalInferenceDetection['box'] => {
+  if (!value) {
+    return undefined;
+  }
+
+  // [x, y, width, height], { x, y, width, height } or { xmin, ymin, xmax, ymax }
+  const [x, y, width, height] = Array.isArray(value)
+    ? value.map(Number)
+    : 'xmin' in value
+      ? [value.xmin, value.ymin, value.xmax - value.xmin, value.ymax - value.ymin].map(Number)
+      : [value.x, value.y, value.width, value.height].map(Number);
+
+  return isFinitePoint([x, y, width, height]) && width > 0 && height > 0
+    ? { x, y, width, height }
+    : undefined;
+};
+
+const toPolygon = (value: any): Point2[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  // Points, or their coordinates flattened as x1, y1, x2, y2...
+  const points: Point2[] =
+    typeof value[0] === 'number'
+      ? Array.from({ length: Math.floor(value.length / 2) }, (_, index) =>
+          toPoint(value.slice(index * 2, index * 2 + 2))
+        )
+      : value.map(toPoint);
+
+  return points.length >= 3 && points.every(isFinitePoint) ? points : undefined;
+};
+
+const toToothSelection = (value: any): DentalToothSelection | undefined => {
+  // Bare tooth numbers are FDI, the notation of ISO 3950
+  const selection =
+    typeof value === 'object' && value
+      ? value
+      : value != null
+        ? { system: 'FDI', value: `${value}` }
+        : null;
+  const definition = findTooth(selection);
+  return definition ? { system: 'FDI', value: definition.fdi } : undefined;
+};
+
+/**
+ * Reads the answer of a model endpoint into detections. Endpoints may answer with
+ * `detections` or `predictions`, name the class `label` or `class`, the score `score` or
+ * `confidence`, and give a `box` or `bbox` and/or a `polygon`. Detections without a usable
+ * shape are dropped.
+ */
+export const normalizeDentalInferenceResult = (raw: any): DentalInferenceResult => {
+  const detections = raw?.detections ?? raw?.predictions ?? [];
+
+  return {
+    model: raw?.model ?? undefined,
+    detections: (Array.isArray(detections) ? detections : []).flatMap(detection => {
+      const label = `${detection?.label ?? detection?.class ?? detection?.name ?? ''}`.trim();
+      const score = Number(detection?.score ?? detection?.confidence ?? 1);
+      const box = toBox(detection?.box ?? detection?.bbox);
+      const polygon = toPolygon(detection?.polygon ?? detection?.points);
+      if (!label || (!box && !polygon)) {
+        return [];
+      }
+
+      return [
+        {
+          label,
+          condition: getInferenceCondition(label),
+          score: Number.isFinite(score) ? Math.min(Math.max(score, 0), 1) : 1,
+          ...(box ? { box } : {}),
+          ...(polygon ? { polygon } : {}),
+          ...(detection.tooth != null ? { tooth: toToothSelection(detection.tooth) } : {}),
+        },
+      ];
+    }),
+  };
+};
+
+/**
+ * Sends the image and request to a model endpoint as multipart form data, with the image in
+ * `image` and the request as JSON in `request`, and reads its JSON answer.
+ */
+export const createHttpInferenceProvider = ({
+  url,
+  id = 'http',
+  label = 'Inference endpoint',
+  headers = {},
+  fetch: fetchImpl,
+}: {
+  url: string;
+  id?: string;
+  label?: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}): DentalInferenceProvider => ({
+  id,
+  label,
+  infer: async (image, request) => {
+    const body = new FormData();
+    body.append('image', image, 'image.png');
+    body.append('request', JSON.stringify(request));
+
+    const response = await (fetchImpl ?? fetch)(url, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(`The inference endpoint answered ${response.status}`);
+    }
+
+    return normalizeDentalInferenceResult(await response.json());
+  },
+});
+
+/**
+ * The provider configured through the customization: a provider as is, or an endpoint.
+ */
+export const getDentalInferenceProvider = (customization: any): DentalInferenceProvider | null => {
+  if (typeof customization?.infer === 'function') {
+    return customization;
+  }
+
+  return customization?.url ? createHttpInferenceProvider(customization) : null;
+};
+
+export const formatDentalAISuggestion = ({
+  label,
+  condition,
+  score,
+}: Pick<DentalAIMetadata, 'label' | 'condition' | 'score'>) =>
+  `${getFindingCondition(condition)?.label ?? label} ${Math.round(score * 100)}%`;
+
+/**
+ * The raw annotation passed to `measurementService.addRawMeasurement` for a detection: a
+ * RectangleROI around a box, or a PlanarFreehandROI along a polygon, in world coordinates
+ * given by `toWorld` for the image pixel coordinates. The measurement is labelled and tagged
+ * as a pending AI suggestion.
+ */
+export const toDentalAIRawMeasurement = (
+  detection: DentalInferenceDetection,
+  {
+    uid,
+    toWorld,
+    referencedImageId,
+    FrameOfReferenceUID,
+    providerId,
+    model,
+    tooth,
+  }: {
+    uid: string;
+    toWorld: (point: Point2) => Point3;
+    referencedImageId: string;
+    FrameOfReferenceUID?: string;
+    providerId: string;
+    model?: string;
+    tooth?: DentalToothSelection | null;
+  }
+) => {
+  const dentalAI: DentalAIMetadata = {
+    providerId,
+    model,
+    label: detection.label,
+    condition: detection.condition,
+    score: detection.score,
+    status: 'pending',
+  };
+  const dentalTooth = detection.tooth ?? tooth ?? undefined;
+  const label = `AI: ${formatDentalAISuggestion(dentalAI)}${
+    dentalTooth ? ` (${formatToothSelection(dentalTooth)})` : ''
+  }`;
+
+  const textBox = { hasMoved: false };
+  const toolName = detection.polygon ? 'PlanarFreehandROI' : 'RectangleROI';
+  let data;
+  if (detection.polygon) {
+    data = {
+      contour: { polyline: detection.polygon.map(toWorld), closed: true },
+      handles: { points: [], textBox },
+    };
+  } else {
+    const { x, y, width, height } = detection.box;
+    // Cornerstone orders rectangle corners top left, top right, bottom left, bottom right
+    data = {
+      handles: {
+        points: [
+          [x, y],
+          [x + width, y],
+          [x, y + height],
+          [x + width, y + height],
+        ].map(toWorld),
+        textBox,
+      },
+    };
+  }
+
+  return {
+    toolName,
+    rawMeasurement: {
+      uid,
+      annotation: {
+        annotationUID: uid,
+        data: { ...data, cachedStats: {}, label, frameNumber: 1 },
+        metadata: {
+          toolName,
+          FrameOfReferenceUID,
+          referencedImageId,
+          dentalAI,
+          ...(dentalTooth ? { dentalTooth } : {}),
+        },
+      },
+    },
+  };
+};
+
+/**
+ * Whether a measurement was drawn from a detection that the user has not accepted yet. Pending
+ * suggestions are not saved, exported or given a dental preset.
+ */
+export const isPendingDentalAISuggestion = (measurement: any) =>
+  measurement?.metadata?.dentalAI?.status === 'pending';
+
+/**
+ * The pending AI suggestions among the measurements, highest score first.
+ */
+export const getDentalAISuggestions = (measurements: any[] = []): DentalAISuggestion[] =>
+  measurements
+    .filter(isPendingDentalAISuggestion)
+    .map(measurement => ({
+      ...measurement.metadata.dentalAI,
+      measurementUID: measurement.uid,
+      tooth: measurement.metadata.dentalTooth,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+/**
+ * The finding a suggestion proposes for a tooth, with its suggested codes, or none when the
+ * model label is not a condition of the catalogue.
+ */
+export const getDentalAISuggestedFindings = (
+  suggestion: Pick<DentalAISuggestion, 'condition'>,
+  tooth: DentalToothSelection | null | undefined
+): DentalFinding[] =>
+  suggestion.condition
+    ? [
+        {
+          condition: suggestion.condition,
+          surfaces: [],
+          codes: getSuggestedFindingCodes(suggestion.condition, tooth),
+        },
+      ]
+    : [];
@@ -1,23 +1,60 @@
 import type { CommandsManager, ServicesManager } from '@ohif/core';
 import { utils } from '@ohif/core';
-
-export type DentalNumberingSystem = 'FDI' | 'UNIVERSAL';
+import type { Types as CornerstoneTypes } from '@ohif/extension-cornerstone';
+import { formatToothSelection, getToothKey, parseMeasurementLabelTooth } from './dentalTeeth';
+import { computeBoneLossPercent } from './dentalPeriodontal';
+import { isPendingDentalAISuggestion } from './dentalInference';
+import { DentalToothSuggestion, getConfirmedDentalTooth } from './dentalToothSuggestion';
+import {
+  applyDentalCalibration,
+  createDentalCalibration,
+  getCalibrationKey,
+  getDentalCalibration,
+  getDentalCalibrations,
+  restoreDentalCalibrations,
+  setDentalCalibration,
+  subscribeToDentalCalibrations,
+} from './dentalCalibration';
+import {
+  DENTAL_IMPLANT_LIBRARY,
+  DENTAL_IMPLANT_TOOL_NAME,
+  DentalImplantSpec,
+  IMPLANT_LIBRARY_CUSTOMIZATION_ID,
+  formatImplantSpec,
+} from './dentalImplants';
+
+export type DentalNumberingSystem = 'FDI' | 'UNIVERSAL' | 'PALMER';
 
 export type DentalToothSelection = {
   system: DentalNumberingSystem;
   value: string;
 };
 
+export type DentalPresetCategory = 'general' | 'periodontal' | 'implant';
+
 export type DentalMeasurementPreset = {
   id: string;
   label: string;
-  toolName: string;
+  toolName?: string;
   unit: string;
   description: string;
+  category?: DentalPresetCategory;
   icon?: string;
+  // Decimal places shown for the value, 1 when not set
+  precision?: number;
   valueAccessor?: (measurement: any) => number | undefined;
+  /**
+   * Derived presets are not drawn. Their value is computed from the latest values of the
+   * `derivedFrom` presets measured on the same tooth of the same study, passed to `compute` by
+   * preset id, and recomputed whenever one of those measurements is added, edited or removed.
+   */
+  derivedFrom?: string[];
+  compute?: (values: Record<string, number>) => number | undefined;
 };
 
+// Preset values keyed by StudyInstanceUID, FDI number and preset id
+export type DentalValuesByStudy = Record<string, Record<string, Record<string, number>>>;
+
 const { uuidv4 } = utils;
 
 export const DENTAL_MEASUREMENT_PRESETS: DentalMeasurementPreset[] = [
@@ -42,6 +79,13 @@ export const DENTAL_MEASUREMENT_PRESETS: DentalMeasurementPreset[] = [
     unit: 'mm',
     description: 'Buccolingual crown width measurement.',
   },
+  {
+    id: 'crown-length',
+    label: 'Crown length',
+    toolName: 'Length',
+    unit: 'mm',
+    description: 'Incisal edge or cusp tip to CEJ linear measurement.',
+  },
   {
     id: 'root-length',
     label: 'Root length',
@@ -49,8 +93,61 @@ export const DENTAL_MEASUREMENT_PRESETS: DentalMeasurementPreset[] = [
     unit: 'mm',
     description: 'Root apex to CEJ linear measurement.',
   },
+  {
+    id: 'cej-crest',
+    label: 'CEJ to crest',
+    toolName: 'Length',
+    unit: 'mm',
+    description: 'CEJ to alveolar crest distance for the radiographic bone level.',
+    category: 'periodontal',
+  },
+  {
+    id: 'bone-loss',
+    label: 'Bone loss',
+    unit: '%',
+    description: 'Radiographic bone loss from CEJ to crest relative to root length.',
+    category: 'periodontal',
+    derivedFrom: ['cej-crest', 'root-length'],
+    compute: values => computeBoneLossPercent(values['cej-crest'], values['root-length']),
+  },
+  {
+    id: 'crown-root-ratio',
+    label: 'Crown-to-root ratio',
+    unit: ':1',
+    description: 'Crown length relative to root length, for prosthetic and endodontic prognosis.',
+    precision: 2,
+    derivedFrom: ['crown-length', 'root-length'],
+    compute: values =>
+      values['root-length'] > 0 ? values['crown-length'] / values['root-length'] : undefined,
+  },
+  {
+    id: 'implant',
+    label: 'Implant',
+    toolName: DENTAL_IMPLANT_TOOL_NAME,
+    unit: 'mm',
+    description: 'Virtual implant from the implant library, placed from platform to apex.',
+    category: 'implant',
+    valueAccessor: measurement => measurement?.metadata?.dentalImplant?.length,
+  },
+  {
+    id: 'mandibular-canal',
+    label: 'Mandibular canal',
+    toolName: 'CircleROI',
+    unit: 'mm',
+    description: 'Circle around the mandibular canal on a cross-section, for implant clearance.',
+    category: 'implant',
+    valueAccessor: measurement => {
+      const [centre, edge] = measurement?.points ?? [];
+      return centre && edge
+        ? 2 * Math.sqrt(centre.reduce((sum, value, axis) => sum + (value - edge[axis]) ** 2, 0))
+        : undefined;
+    },
+  },
 ];
 
+export const isDerivedDentalPreset = (preset: DentalMeasurementPreset) =>
+  Boolean(preset?.derivedFrom?.length);
+
 type IntegrationContext = {
   servicesManager: ServicesManager;
   commandsManager: CommandsManager;
@@ -59,7 +156,13 @@ type IntegrationContext = {
 
 let integration: IntegrationContext | null = null;
 let activePresetId: string | null = null;
+let pendingCalibration: { referenceLabel: string; referenceLength: number } | null = null;
 let activeTooth: DentalToothSelection | null = null;
+let numberingSystem: DentalNumberingSystem = 'FDI';
+let activeToothListeners: Array<(selection: DentalToothSelection | null) => void> = [];
+let derivedValues: DentalValuesByStudy = {};
+let derivedValuesListeners: Array<(values: DentalValuesByStudy) => void> = [];
+let toothSuggester: ((measurement: any) => DentalToothSuggestion | null) | null = null;
 let subscriptions: Array<() => void> = [];
 let lastInitializationId: string | null = null;
 
@@ -109,6 +212,15 @@ const computeMeasurementValue = (preset: DentalMeasurementPreset, measurement: a
   );
 };
 
+// Calibration references are drawn with the Length tool but are not dental presets
+const CALIBRATION_REFERENCE_PRESET: DentalMeasurementPreset = {
+  id: 'calibration-reference',
+  label: 'Calibration reference',
+  toolName: 'Length',
+  unit: 'mm',
+  description: 'Reference of known length used to calibrate the image.',
+};
+
 const metadataChanged = (currentMetadata = {}, nextMetadata = {}) => {
   const keysToCompare = [
     'dentalPresetId',
@@ -130,9 +242,32 @@ const metadataChanged = (currentMetadata = {}, nextMetadata = {}) => {
     return true;
   }
 
+  if (
+    Boolean((currentMetadata as any)?.dentalToothSuggestion) !==
+    Boolean((nextMetadata as any)?.dentalToothSuggestion)
+  ) {
+    return true;
+  }
+
+  if (
+    (currentMetadata as any)?.dentalCalibration?.calibratedAt !==
+    (nextMetadata as any)?.dentalCalibration?.calibratedAt
+  ) {
+    return true;
+  }
+
   return false;
 };
 
+const suggestTooth = (measurement: any): DentalToothSuggestion | null => {
+  try {
+    return toothSuggester?.(measurement) ?? null;
+  } catch (error) {
+    console.warn('Failed to suggest a tooth for the dental measurement', error);
+    return null;
+  }
+};
+
 const applyDentalMetadata = (measurement: any, preset?: DentalMeasurementPreset) => {
   if (!measurement) {
     return;
@@ -153,23 +288,53 @@ const applyDentalMetadata = (measurement: any, preset?: DentalMeasurementPreset)
     return;
   }
 
+  // Only lengths are scaled, angles do not depend on the pixel spacing
+  const calibration =
+    presetToApply.unit === 'mm' ? getDentalCalibration(getCalibrationKey(measurement)) : null;
+
   const nextMetadata = {
     ...(measurement.metadata || {}),
     dentalPresetId: presetToApply.id,
     dentalPresetLabel: presetToApply.label,
     dentalUnit: presetToApply.unit,
-    dentalValue: computeMeasurementValue(presetToApply, measurement),
+    dentalValue: applyDentalCalibration(
+      computeMeasurementValue(presetToApply, measurement),
+      calibration
+    ),
     dentalCreatedAt: measurement?.metadata?.dentalCreatedAt ?? Date.now(),
+    dentalCalibration: calibration ?? undefined,
   };
 
-  if (!nextMetadata.dentalTooth && activeTooth) {
-    nextMetadata.dentalTooth = activeTooth;
+  if (!calibration) {
+    delete nextMetadata.dentalCalibration;
   }
 
-  const labelSuffix = nextMetadata.dentalTooth
-    ? `${presetToApply.label} (${nextMetadata.dentalTooth.system} ${nextMetadata.dentalTooth.value})`
+  if (!nextMetadata.dentalTooth) {
+    // The selected tooth is the user's choice; without one, a suggested tooth is pre-filled
+    // until the user confirms it
+    const suggestion = activeTooth ? null : suggestTooth(measurement);
+    if (suggestion) {
+      nextMetadata.dentalTooth = suggestion.tooth;
+      nextMetadata.dentalToothSuggestion = {
+        confidence: suggestion.confidence,
+        source: suggestion.source,
+      };
+    } else if (activeTooth) {
+      nextMetadata.dentalTooth = activeTooth;
+    }
+  }
+
+  const presetLabel = nextMetadata.dentalImplant
+    ? `${presetToApply.label} ${formatImplantSpec(nextMetadata.dentalImplant)}`
     : presetToApply.label;
 
+  // The tooth keeps the system it was tagged with; the label shows it in the current system
+  const labelSuffix = nextMetadata.dentalTooth
+    ? `${presetLabel} (${formatToothSelection(nextMetadata.dentalTooth, numberingSystem)}${
+        nextMetadata.dentalToothSuggestion ? '?' : ''
+      })`
+    : presetLabel;
+
   if (!metadataChanged(measurement.metadata, nextMetadata) && measurement.label === labelSuffix) {
     return;
   }
@@ -185,27 +350,140 @@ const applyDentalMetadata = (measurement: any, preset?: DentalMeasurementPreset)
   );
 };
 
+const setDerivedValues = (values: DentalValuesByStudy) => {
+  if (JSON.stringify(values) === JSON.stringify(derivedValues)) {
+    return;
+  }
+
+  derivedValues = values;
+  derivedValuesListeners.forEach(listener => {
+    try {
+      listener(derivedValues);
+    } catch (error) {
+      console.warn('Failed to notify dental derived values listener', error);
+    }
+  });
+};
+
+// Implants are drawn with their own tool, so they get the implant preset whichever is active
+const getImplantPreset = measurement =>
+  measurement?.toolName === DENTAL_IMPLANT_TOOL_NAME
+    ? DENTAL_MEASUREMENT_PRESETS.find(preset => preset.toolName === DENTAL_IMPLANT_TOOL_NAME)
+    : undefined;
+
+const isCalibrationReference = measurement =>
+  Boolean(measurement?.uid) &&
+  measurement?.metadata?.dentalCalibration?.referenceUID === measurement.uid;
+
+/**
+ * Calibrates the image of a reference measurement from its drawn length and the known length
+ * of the reference, and labels the measurement as the calibration reference.
+ */
+const calibrateFromReference = (
+  measurement: any,
+  reference: { referenceLabel: string; referenceLength: number }
+) => {
+  const key = getCalibrationKey(measurement);
+  const calibration = createDentalCalibration({
+    ...reference,
+    referenceUID: measurement.uid,
+    measuredLength: computeMeasurementValue(CALIBRATION_REFERENCE_PRESET, measurement),
+  });
+  if (!key || !calibration) {
+    return;
+  }
+
+  const { referenceLabel, referenceLength } = reference;
+  setDentalCalibration(key, calibration);
+  getMeasurementService()?.update(
+    measurement.uid,
+    {
+      ...measurement,
+      label: `${CALIBRATION_REFERENCE_PRESET.label} (${referenceLabel} ${referenceLength} mm)`,
+      metadata: { ...(measurement.metadata || {}), dentalCalibration: calibration },
+    },
+    true
+  );
+};
+
+// Re-scales every dental length when an image calibration is added, changed or removed
+const applyCalibrationsToMeasurements = () => {
+  getMeasurementService()
+    ?.getMeasurements?.()
+    .filter(measurementHasDentalMetadata)
+    .forEach(measurement => applyDentalMetadata(measurement));
+};
+
+// Runs after the source metadata is updated, so edits to either source preset are picked up
+const refreshDerivedValues = () => setDerivedValues(getDerivedDentalValuesByStudy());
+
 const handleMeasurementAdded = ({ measurement }) => {
-  if (!measurement) {
+  // AI suggestions keep the label of their detection until the user accepts them
+  if (!measurement || isPendingDentalAISuggestion(measurement)) {
     return;
   }
 
-  if (activePresetId) {
+  if (
+    pendingCalibration &&
+    measurement.toolName === CALIBRATION_REFERENCE_PRESET.toolName &&
+    !measurementHasDentalMetadata(measurement)
+  ) {
+    const reference = pendingCalibration;
+    pendingCalibration = null;
+    calibrateFromReference(measurement, reference);
+    return;
+  }
+
+  // Measurements restored from the server bring back the calibration of their image
+  const storedCalibration = measurement.metadata?.dentalCalibration;
+  const calibrationKey = getCalibrationKey(measurement);
+  if (storedCalibration && calibrationKey && !getDentalCalibration(calibrationKey)) {
+    setDentalCalibration(calibrationKey, storedCalibration);
+  }
+
+  // Measurements restored from the server already carry their own preset
+  if (measurementHasDentalMetadata(measurement)) {
+    applyDentalMetadata(measurement);
+  } else if (getImplantPreset(measurement)) {
+    applyDentalMetadata(measurement, getImplantPreset(measurement));
+  } else if (activePresetId) {
     const preset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === activePresetId);
     applyDentalMetadata(measurement, preset);
-  } else if (measurementHasDentalMetadata(measurement)) {
-    applyDentalMetadata(measurement);
   }
+  refreshDerivedValues();
 };
 
 const handleMeasurementUpdated = ({ measurement }) => {
-  if (!measurementHasDentalMetadata(measurement)) {
+  if (isCalibrationReference(measurement)) {
+    const { dentalCalibration } = measurement.metadata;
+    const measuredLength = computeMeasurementValue(CALIBRATION_REFERENCE_PRESET, measurement);
+    if (measuredLength !== dentalCalibration.measuredLength) {
+      calibrateFromReference(measurement, dentalCalibration);
+    }
+    return;
+  }
+
+  if (!measurementHasDentalMetadata(measurement) && !getImplantPreset(measurement)) {
     return;
   }
 
   const presetId = measurement.metadata?.dentalPresetId;
-  const preset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === presetId);
+  const preset =
+    DENTAL_MEASUREMENT_PRESETS.find(p => p.id === presetId) ?? getImplantPreset(measurement);
   applyDentalMetadata(measurement, preset);
+  refreshDerivedValues();
+};
+
+const handleMeasurementRemoved = ({ measurement: measurementUID }) => {
+  const [calibrationKey] =
+    Object.entries(getDentalCalibrations()).find(
+      ([, calibration]) => calibration.referenceUID === measurementUID
+    ) ?? [];
+  if (calibrationKey) {
+    setDentalCalibration(calibrationKey, null);
+  }
+
+  refreshDerivedValues();
 };
 
 const clearSubscriptions = () => {
@@ -248,6 +526,10 @@ export const initializeDentalMeasurements = ({
     measurementService.EVENTS.MEASUREMENT_UPDATED,
     handleMeasurementUpdated
   );
+  const removedSubscription = measurementService.subscribe(
+    measurementService.EVENTS.MEASUREMENT_REMOVED,
+    handleMeasurementRemoved
+  );
   const clearedSubscription = measurementService.subscribe(
     measurementService.EVENTS.MEASUREMENTS_CLEARED,
     () => {
@@ -255,26 +537,36 @@ export const initializeDentalMeasurements = ({
         return;
       }
       activePresetId = null;
+      pendingCalibration = null;
+      restoreDentalCalibrations({});
+      setDerivedValues({});
     }
   );
 
   subscriptions = [
     addedSubscription.unsubscribe,
     updatedSubscription.unsubscribe,
+    removedSubscription.unsubscribe,
     clearedSubscription.unsubscribe,
+    subscribeToDentalCalibrations(applyCalibrationsToMeasurements),
   ];
+
+  refreshDerivedValues();
 };
 
 export const teardownDentalMeasurements = () => {
   clearSubscriptions();
   integration = null;
   activePresetId = null;
+  pendingCalibration = null;
+  setDerivedValues({});
 };
 
 export const selectDentalMeasurementPreset = (presetId: string) => {
   activePresetId = presetId;
+  pendingCalibration = null;
   const preset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === presetId);
-  if (!preset || !integration) {
+  if (!preset?.toolName || !integration) {
     return;
   }
 
@@ -291,12 +583,272 @@ export const selectDentalMeasurementPreset = (presetId: string) => {
 
 export const getActiveDentalPresetId = () => activePresetId;
 
+/**
+ * Activates the Length tool so the next line drawn across a reference of known length, such
+ * as an implant or calibration ball, calibrates the lengths measured on its image.
+ */
+export const startDentalCalibration = (reference: {
+  referenceLabel: string;
+  referenceLength: number;
+}) => {
+  if (!(reference?.referenceLength > 0) || !integration) {
+    return;
+  }
+
+  pendingCalibration = reference;
+  activePresetId = null;
+
+  const { commandsManager, toolGroupIds } = integration;
+  commandsManager.runCommand(
+    'setToolActive',
+    {
+      toolName: CALIBRATION_REFERENCE_PRESET.toolName,
+      toolGroupIds,
+    },
+    'CORNERSTONE'
+  );
+};
+
+export const getPendingDentalCalibration = () => pendingCalibration;
+
+/**
+ * The implants offered for planning: the `dental.implantLibrary` customization when the
+ * deployment provides one, otherwise the generic library.
+ */
+export const getDentalImplantLibrary = (): DentalImplantSpec[] => {
+  const library = integration?.servicesManager?.services?.customizationService?.getCustomization(
+    IMPLANT_LIBRARY_CUSTOMIZATION_ID
+  );
+  return Array.isArray(library) && library.length ? library : DENTAL_IMPLANT_LIBRARY;
+};
+
+/**
+ * Activates the implant tool in every tool group that has it, with the given implant, so the
+ * next placement on a CBCT view is that implant, tagged with the active tooth.
+ */
+export const startDentalImplantPlacement = (implant: DentalImplantSpec) => {
+  if (!(implant?.diameter > 0 && implant?.length > 0) || !integration) {
+    return;
+  }
+
+  activePresetId = 'implant';
+  pendingCalibration = null;
+
+  const { servicesManager, commandsManager } = integration;
+  const { toolGroupService } = servicesManager.services as CornerstoneTypes.CornerstoneServices;
+  const toolGroupIds = (toolGroupService?.getToolGroupIds?.() ?? []).filter(toolGroupId =>
+    toolGroupService.getToolGroup(toolGroupId)?.hasTool(DENTAL_IMPLANT_TOOL_NAME)
+  );
+  if (!toolGroupIds.length) {
+    return;
+  }
+
+  toolGroupIds.forEach(toolGroupId =>
+    toolGroupService.getToolGroup(toolGroupId).setToolConfiguration(DENTAL_IMPLANT_TOOL_NAME, {
+      implant,
+    })
+  );
+  commandsManager.runCommand(
+    'setToolActiveToolbar',
+    {
+      toolName: DENTAL_IMPLANT_TOOL_NAME,
+      toolGroupIds,
+    },
+    'CORNERSTONE'
+  );
+};
+
 export const setActiveDentalTooth = (selection: DentalToothSelection | null) => {
+  if (
+    activeTooth === selection ||
+    (activeTooth?.system === selection?.system && activeTooth?.value === selection?.value)
+  ) {
+    return;
+  }
+
   activeTooth = selection;
+  if (selection?.system) {
+    setDentalNumberingSystem(selection.system);
+  }
+  activeToothListeners.forEach(listener => {
+    try {
+      listener(activeTooth);
+    } catch (error) {
+      console.warn('Failed to notify dental tooth listener', error);
+    }
+  });
 };
 
 export const getActiveDentalTooth = () => activeTooth;
 
+/**
+ * Sets how the tooth of a new measurement is suggested. Suggestions are computed when a preset
+ * is applied to a measurement without a tooth, and pre-fill its tooth unless they name the
+ * selected one.
+ */
+export const setDentalToothSuggester = (
+  suggester: ((measurement: any) => DentalToothSuggestion | null) | null
+) => {
+  toothSuggester = suggester;
+};
+
+/**
+ * Confirms the tooth suggested for a measurement, or replaces it with `tooth` when the user
+ * picks another one.
+ */
+export const confirmDentalToothSuggestion = (
+  measurementUID: string,
+  tooth?: DentalToothSelection
+) => {
+  const measurement = getMeasurementService()?.getMeasurement?.(measurementUID);
+  if (!measurement?.metadata?.dentalToothSuggestion) {
+    return;
+  }
+
+  const { dentalToothSuggestion, ...metadata } = measurement.metadata;
+  applyDentalMetadata({
+    ...measurement,
+    metadata: { ...metadata, dentalTooth: tooth ?? metadata.dentalTooth },
+  });
+};
+
+export const getDentalNumberingSystem = () => numberingSystem;
+
+/**
+ * Sets the numbering system teeth are displayed in and relabels existing dental measurements,
+ * so a tooth tagged in one system reads correctly for a user working in another.
+ */
+export const setDentalNumberingSystem = (system: DentalNumberingSystem) => {
+  if (!system || system === numberingSystem) {
+    return;
+  }
+
+  numberingSystem = system;
+
+  const measurementService = getMeasurementService();
+  measurementService
+    ?.getMeasurements?.()
+    .filter(measurement => measurement?.metadata?.dentalTooth)
+    .forEach(measurement => applyDentalMetadata(measurement));
+};
+
+export const subscribeToActiveDentalTooth = (
+  listener: (selection: DentalToothSelection | null) => void
+) => {
+  activeToothListeners.push(listener);
+  return () => {
+    activeToothListeners = activeToothListeners.filter(existing => existing !== listener);
+  };
+};
+
+/**
+ * Collects the latest value of each drawn preset per confirmed tooth, keyed by FDI number and
+ * preset id. The measurements are expected to be of a single study.
+ */
+export const getDentalValuesByTooth = (
+  measurements: any[]
+): Record<string, Record<string, number>> => {
+  const latest: Record<string, Record<string, { value: number; createdAt: number }>> = {};
+
+  measurements.forEach(measurement => {
+    const metadata = measurement?.metadata || {};
+    const toothKey = getToothKey(getConfirmedDentalTooth(measurement));
+    const value = metadata.dentalValue;
+    if (!toothKey || !metadata.dentalPresetId || !Number.isFinite(value)) {
+      return;
+    }
+
+    const createdAt = metadata.dentalCreatedAt || 0;
+    const toothValues = latest[toothKey] || (latest[toothKey] = {});
+    const existing = toothValues[metadata.dentalPresetId];
+    if (!existing || existing.createdAt <= createdAt) {
+      toothValues[metadata.dentalPresetId] = { value, createdAt };
+    }
+  });
+
+  return Object.fromEntries(
+    Object.entries(latest).map(([toothKey, presets]) => [
+      toothKey,
+      Object.fromEntries(Object.entries(presets).map(([presetId, { value }]) => [presetId, value])),
+    ])
+  );
+};
+
+/**
+ * Collects the latest value of each drawn preset per study and confirmed tooth. A tooth measured
+ * on the current and on a prior study keeps the values of each study apart.
+ */
+export const getDentalValuesByStudy = (
+  measurements: any[] = getMeasurementService()?.getMeasurements?.() ?? []
+): DentalValuesByStudy => {
+  const measurementsByStudy: Record<string, any[]> = {};
+  measurements.forEach(measurement => {
+    const studyInstanceUID = measurement?.referenceStudyUID;
+    if (studyInstanceUID) {
+      (measurementsByStudy[studyInstanceUID] || (measurementsByStudy[studyInstanceUID] = [])).push(
+        measurement
+      );
+    }
+  });
+
+  return Object.fromEntries(
+    Object.entries(measurementsByStudy).map(([studyInstanceUID, studyMeasurements]) => [
+      studyInstanceUID,
+      getDentalValuesByTooth(studyMeasurements),
+    ])
+  );
+};
+
+/**
+ * Computes the derived presets for every tooth that has all of their source measurements,
+ * keyed by FDI number and derived preset id. The values are expected to be of a single study.
+ */
+export const getDerivedDentalValues = (
+  valuesByTooth: Record<string, Record<string, number>>
+): Record<string, Record<string, number>> => {
+  const derivedPresets = DENTAL_MEASUREMENT_PRESETS.filter(isDerivedDentalPreset);
+  const derivedByTooth: Record<string, Record<string, number>> = {};
+
+  Object.entries(valuesByTooth).forEach(([toothKey, values]) => {
+    derivedPresets.forEach(preset => {
+      if (!preset.derivedFrom.every(presetId => Number.isFinite(values[presetId]))) {
+        return;
+      }
+
+      const value = preset.compute?.(values);
+      if (Number.isFinite(value)) {
+        derivedByTooth[toothKey] = { ...derivedByTooth[toothKey], [preset.id]: value };
+      }
+    });
+  });
+
+  return derivedByTooth;
+};
+
+/**
+ * Computes the derived presets of each study from its own measurements, keyed by
+ * StudyInstanceUID, FDI number and derived preset id. Studies without derived values are left
+ * out.
+ */
+export const getDerivedDentalValuesByStudy = (
+  valuesByStudy: DentalValuesByStudy = getDentalValuesByStudy()
+): DentalValuesByStudy =>
+  Object.fromEntries(
+    Object.entries(valuesByStudy)
+      .map(([studyInstanceUID, valuesByTooth]) => [
+        studyInstanceUID,
+        getDerivedDentalValues(valuesByTooth),
+      ])
+      .filter(([, derivedByTooth]) => Object.keys(derivedByTooth).length)
+  );
+
+export const subscribeToDerivedDentalValues = (listener: (values: DentalValuesByStudy) => void) => {
+  derivedValuesListeners.push(listener);
+  return () => {
+    derivedValuesListeners = derivedValuesListeners.filter(existing => existing !== listener);
+  };
+};
+
 // Function to retroactively apply dental metadata to measurements that look like dental measurements
 export const enhanceExistingMeasurements = () => {
   const measurementService = getMeasurementService();
@@ -323,22 +875,17 @@ export const enhanceExistingMeasurements = () => {
       matchedPreset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === 'canal-angle') || null;
     } else if (/Crown width/i.test(label)) {
       matchedPreset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === 'crown-width') || null;
+    } else if (/Crown length/i.test(label)) {
+      matchedPreset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === 'crown-length') || null;
     } else if (/Root length/i.test(label)) {
       matchedPreset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === 'root-length') || null;
+    } else if (/CEJ to crest/i.test(label)) {
+      matchedPreset = DENTAL_MEASUREMENT_PRESETS.find(p => p.id === 'cej-crest') || null;
     }
 
     if (matchedPreset) {
       // Extract tooth information from label if present
-      let toothInfo: DentalToothSelection | null = null;
-      const fdiMatch = label.match(/\(FDI (\d+)\)/i);
-      const universalMatch = label.match(/\(Universal (\d+)\)/i);
-      const palmerMatch = label.match(/\(Palmer ([A-Z]\d+)\)/i);
-
-      if (fdiMatch) {
-        toothInfo = { system: 'FDI', value: fdiMatch[1] };
-      } else if (universalMatch) {
-        toothInfo = { system: 'UNIVERSAL', value: universalMatch[1] };
-      }
+      const toothInfo = parseMeasurementLabelTooth(label);
 
       // Apply dental metadata
       const nextMetadata = {
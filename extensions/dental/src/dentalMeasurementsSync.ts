@@ -0,0 +1,394 @@
+import type { ExtensionManager, ServicesManager } from '@ohif/core';
+import apiClient from './services/apiClient';
+import { getNumberingSystemLabel, normalizeNumberingSystem } from './dentalTeeth';
+import { isPendingDentalAISuggestion } from './dentalInference';
+
+type SyncContext = {
+  servicesManager: ServicesManager;
+  extensionManager: ExtensionManager;
+};
+
+// Source registered by the cornerstone extension for its annotation tools
+const CORNERSTONE_SOURCE_NAME = 'Cornerstone3DTools';
+const CORNERSTONE_SOURCE_VERSION = '0.1';
+
+// Measurement updates fire continuously while a handle is dragged, so pushes are debounced
+const PUSH_DELAY_MS = 1000;
+const PAGE_SIZE = 100;
+
+let context: SyncContext | null = null;
+let subscriptions: Array<() => void> = [];
+let pendingPushes = new Map<string, ReturnType<typeof setTimeout>>();
+let fetchedStudies = new Set<string>();
+let pendingRecords = new Map<string, any>();
+let restoringUIDs = new Set<string>();
+
+const getServices = () => context?.servicesManager?.services;
+
+// AI suggestions are only saved once the user accepts them
+const isSyncedMeasurement = measurement =>
+  measurement?.source?.name === CORNERSTONE_SOURCE_NAME &&
+  !isPendingDentalAISuggestion(measurement) &&
+  Boolean(measurement?.referenceStudyUID && measurement?.points?.length);
+
+/**
+ * Converts a MeasurementService measurement into the payload stored by the backend.
+ */
+export const toMeasurementRecord = (measurement: any) => {
+  const metadata = measurement.metadata || {};
+  const tooth = metadata.dentalTooth;
+
+  return {
+    studyInstanceUID: measurement.referenceStudyUID,
+    seriesInstanceUID: measurement.referenceSeriesUID,
+    sopInstanceUID: measurement.SOPInstanceUID,
+    frameOfReferenceUID: measurement.FrameOfReferenceUID,
+    toolName: measurement.toolName,
+    label: measurement.label,
+    tooth: tooth ? { system: getNumberingSystemLabel(tooth.system), value: tooth.value } : null,
+    preset: metadata.dentalPresetId
+      ? { id: metadata.dentalPresetId, label: metadata.dentalPresetLabel }
+      : undefined,
+    value: Number.isFinite(metadata.dentalValue) ? metadata.dentalValue : null,
+    unit: metadata.dentalUnit,
+    annotation: {
+      points: measurement.points,
+      textBox: measurement.textBox,
+      frameNumber: measurement.frameNumber,
+      referencedImageId: measurement.referencedImageId ?? metadata.referencedImageId,
+      calibration: metadata.dentalCalibration,
+      implant: metadata.dentalImplant,
+      ai: metadata.dentalAI,
+      toothSuggestion: metadata.dentalToothSuggestion,
+    },
+  };
+};
+
+/**
+ * Builds the raw annotation passed to `measurementService.addRawMeasurement` from a stored
+ * record, restoring the dental metadata so the measurement keeps its preset and tooth.
+ */
+export const toRawMeasurement = (record: any, referencedImageId?: string) => {
+  const { annotation = {} } = record;
+  const dentalMetadata: Record<string, any> = {};
+
+  if (record.preset?.id) {
+    dentalMetadata.dentalPresetId = record.preset.id;
+    dentalMetadata.dentalPresetLabel = record.preset.label;
+    dentalMetadata.dentalUnit = record.unit;
+    dentalMetadata.dentalValue = record.value ?? undefined;
+    dentalMetadata.dentalCreatedAt = record.createdAt ? Date.parse(record.createdAt) : Date.now();
+  }
+
+  if (annotation.calibration) {
+    dentalMetadata.dentalCalibration = annotation.calibration;
+  }
+
+  if (annotation.implant) {
+    dentalMetadata.dentalImplant = annotation.implant;
+  }
+
+  if (annotation.ai) {
+    dentalMetadata.dentalAI = annotation.ai;
+  }
+
+  // A suggested tooth stays to be confirmed after a reload
+  if (annotation.toothSuggestion) {
+    dentalMetadata.dentalToothSuggestion = annotation.toothSuggestion;
+  }
+
+  const system = normalizeNumberingSystem(record.tooth?.system);
+  if (system && record.tooth.value) {
+    dentalMetadata.dentalTooth = { system, value: record.tooth.value };
+  }
+
+  return {
+    uid: record.measurementUID,
+    annotation: {
+      annotationUID: record.measurementUID,
+      data: {
+        handles: {
+          points: annotation.points,
+          textBox: annotation.textBox,
+        },
+        cachedStats: {},
+        label: record.label,
+        frameNumber: annotation.frameNumber || 1,
+      },
+      metadata: {
+        ...dentalMetadata,
+        toolName: record.toolName,
+        FrameOfReferenceUID: record.frameOfReferenceUID,
+        referencedImageId: referencedImageId ?? annotation.referencedImageId,
+      },
+    },
+  };
+};
+
+const pushMeasurement = async (measurementUID: string) => {
+  pendingPushes.delete(measurementUID);
+
+  const measurement = getServices()?.measurementService?.getMeasurement(measurementUID);
+  if (!measurement || !apiClient.isAuthenticated()) {
+    return;
+  }
+
+  try {
+    await apiClient.saveMeasurement(measurementUID, toMeasurementRecord(measurement));
+  } catch (error) {
+    console.warn('Failed to save dental measurement', error);
+  }
+};
+
+const schedulePush = ({ measurement }) => {
+  if (!isSyncedMeasurement(measurement)) {
+    return;
+  }
+
+  // Measurements being restored are already stored on the server
+  if (restoringUIDs.has(measurement.uid)) {
+    return;
+  }
+
+  clearTimeout(pendingPushes.get(measurement.uid));
+  pendingPushes.set(
+    measurement.uid,
+    setTimeout(() => pushMeasurement(measurement.uid), PUSH_DELAY_MS)
+  );
+};
+
+const handleMeasurementRemoved = async ({ measurement: measurementUID }) => {
+  if (!measurementUID) {
+    return;
+  }
+
+  clearTimeout(pendingPushes.get(measurementUID));
+  pendingPushes.delete(measurementUID);
+  pendingRecords.delete(measurementUID);
+
+  if (!apiClient.isAuthenticated()) {
+    return;
+  }
+
+  try {
+    await apiClient.deleteMeasurement(measurementUID);
+  } catch (error) {
+    console.warn('Failed to delete dental measurement', error);
+  }
+};
+
+const getReferencedImageId = (record: any) => {
+  const { displaySetService } = getServices();
+  const displaySets = displaySetService.getDisplaySetsForSeries(record.seriesInstanceUID) || [];
+
+  // Single frame images are resolved against the current data source rather than the stored id
+  if ((record.annotation?.frameNumber || 1) === 1) {
+    for (const displaySet of displaySets) {
+      const instance = displaySet.instances?.find(
+        instance => instance.SOPInstanceUID === record.sopInstanceUID
+      );
+      if (instance?.imageId) {
+        return instance.imageId;
+      }
+    }
+  }
+
+  return displaySets.length ? record.annotation?.referencedImageId : undefined;
+};
+
+/**
+ * Adds stored measurements whose series has been loaded to the viewer. Records for series
+ * that are not loaded yet stay pending until their display sets are added.
+ */
+const restorePendingMeasurements = () => {
+  const { measurementService } = getServices();
+  const source = measurementService.getSource(CORNERSTONE_SOURCE_NAME, CORNERSTONE_SOURCE_VERSION);
+  const mappings =
+    measurementService.getSourceMappings(CORNERSTONE_SOURCE_NAME, CORNERSTONE_SOURCE_VERSION) || [];
+  const dataSource = context.extensionManager.getActiveDataSource()[0];
+
+  pendingRecords.forEach((record, measurementUID) => {
+    if (measurementService.getMeasurement(measurementUID)) {
+      pendingRecords.delete(measurementUID);
+      return;
+    }
+
+    const referencedImageId = getReferencedImageId(record);
+    if (!referencedImageId) {
+      return;
+    }
+
+    pendingRecords.delete(measurementUID);
+
+    const mapping = mappings.find(mapping => mapping.annotationType === record.toolName);
+    if (!source || !mapping) {
+      console.warn(`Unable to restore dental measurement drawn with ${record.toolName}`);
+      return;
+    }
+
+    restoringUIDs.add(measurementUID);
+    measurementService.addRawMeasurement(
+      source,
+      record.toolName,
+      toRawMeasurement(record, referencedImageId),
+      mapping.toMeasurementSchema,
+      dataSource
+    );
+    restoringUIDs.delete(measurementUID);
+  });
+};
+
+const isSameRecord = (a: any, b: any) =>
+  JSON.stringify([a.label, a.tooth, a.value, a.annotation?.points]) ===
+  JSON.stringify([b.label, b.tooth, b.value, b.annotation?.points]);
+
+/**
+ * Restores the measurement records of a saved viewer state, once their series are loaded.
+ * With `replace`, measurements missing from the records or changed since are removed first so
+ * the viewer matches the records, and the restored measurements are saved to the server again.
+ */
+export const restoreDentalMeasurementRecords = (
+  records: any[] = [],
+  { replace = false }: { replace?: boolean } = {}
+) => {
+  if (!context) {
+    return;
+  }
+
+  const { measurementService } = getServices();
+  const recordsByUID = new Map<string, any>(
+    records.filter(record => record?.measurementUID).map(record => [record.measurementUID, record])
+  );
+  const replacedUIDs = [];
+
+  if (replace) {
+    measurementService
+      .getMeasurements()
+      .filter(isSyncedMeasurement)
+      .forEach(measurement => {
+        const record = recordsByUID.get(measurement.uid);
+        if (!record || !isSameRecord(toMeasurementRecord(measurement), record)) {
+          measurementService.remove(measurement.uid);
+          if (record) {
+            replacedUIDs.push(measurement.uid);
+          }
+        }
+      });
+  }
+
+  recordsByUID.forEach((record, measurementUID) => pendingRecords.set(measurementUID, record));
+  restorePendingMeasurements();
+
+  // Restored measurements are not pushed, but replaced ones were just deleted on the server
+  replacedUIDs.forEach(measurementUID => {
+    const measurement = measurementService.getMeasurement(measurementUID);
+    if (measurement) {
+      schedulePush({ measurement });
+    }
+  });
+};
+
+const fetchStudyMeasurements = async (studyInstanceUID: string) => {
+  const records = [];
+  let skip = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await apiClient.getMeasurements({
+      studyInstanceUID,
+      limit: PAGE_SIZE,
+      skip,
+    });
+    records.push(...(response?.measurements || []));
+    hasMore = Boolean(response?.pagination?.hasMore);
+    skip += PAGE_SIZE;
+  }
+
+  return records;
+};
+
+const loadStudyMeasurements = async (studyInstanceUIDs: string[]) => {
+  const studiesToFetch = studyInstanceUIDs.filter(
+    studyInstanceUID => studyInstanceUID && !fetchedStudies.has(studyInstanceUID)
+  );
+
+  if (!apiClient.isAuthenticated()) {
+    return;
+  }
+
+  const activeContext = context;
+  for (const studyInstanceUID of studiesToFetch) {
+    fetchedStudies.add(studyInstanceUID);
+    try {
+      const records = await fetchStudyMeasurements(studyInstanceUID);
+      if (context !== activeContext) {
+        return;
+      }
+      records.forEach(record => pendingRecords.set(record.measurementUID, record));
+    } catch (error) {
+      fetchedStudies.delete(studyInstanceUID);
+      console.warn('Failed to load dental measurements', error);
+    }
+  }
+
+  if (context === activeContext) {
+    restorePendingMeasurements();
+  }
+};
+
+const handleDisplaySetsAdded = ({ displaySetsAdded = [] }) => {
+  const studyInstanceUIDs = displaySetsAdded.map(displaySet => displaySet.StudyInstanceUID);
+  loadStudyMeasurements(Array.from(new Set(studyInstanceUIDs)));
+};
+
+/**
+ * Keeps measurements in sync with the dental backend: added, updated and removed measurements
+ * are pushed through `apiClient`, and measurements saved for a study are restored into the
+ * viewer when its series are loaded again.
+ */
+export const initializeDentalMeasurementsSync = ({
+  servicesManager,
+  extensionManager,
+}: SyncContext) => {
+  const { measurementService, displaySetService } = servicesManager?.services || {};
+  if (!measurementService || !displaySetService) {
+    return;
+  }
+
+  teardownDentalMeasurementsSync();
+  context = { servicesManager, extensionManager };
+
+  const { MEASUREMENT_ADDED, MEASUREMENT_UPDATED, MEASUREMENT_REMOVED } = measurementService.EVENTS;
+  subscriptions = [
+    measurementService.subscribe(MEASUREMENT_ADDED, schedulePush).unsubscribe,
+    measurementService.subscribe(MEASUREMENT_UPDATED, schedulePush).unsubscribe,
+    measurementService.subscribe(MEASUREMENT_REMOVED, handleMeasurementRemoved).unsubscribe,
+    displaySetService.subscribe(displaySetService.EVENTS.DISPLAY_SETS_ADDED, handleDisplaySetsAdded)
+      .unsubscribe,
+  ];
+
+  handleDisplaySetsAdded({ displaySetsAdded: displaySetService.getActiveDisplaySets() });
+};
+
+export const teardownDentalMeasurementsSync = () => {
+  subscriptions.forEach(unsubscribe => {
+    try {
+      unsubscribe?.();
+    } catch (error) {
+      console.warn('Failed to clear dental measurement sync subscription', error);
+    }
+  });
+  subscriptions = [];
+
+  // Flush pending pushes rather than dropping the latest edits
+  Array.from(pendingPushes.keys()).forEach(measurementUID => {
+    clearTimeout(pendingPushes.get(measurementUID));
+    pushMeasurement(measurementUID);
+  });
+
+  pendingPushes = new Map();
+  fetchedStudies = new Set();
+  pendingRecords = new Map();
+  restoringUIDs = new Set();
+  context = null;
+};
@@ -0,0 +1,229 @@
+import apiClient from './services/apiClient';
+import stateService from './services/stateService';
+import { linkStoredAnnotation } from './dentalAnnotationsStore';
+import type { DentalAuditEvent } from './dentalAudit';
+import type { DentalFinding } from './dentalFindings';
+import {
+  DentalNoteReview,
+  getDentalNoteReview,
+  getDentalReviewLockChanges,
+  getDentalReviewLockedTeeth,
+} from './dentalReview';
+import { getNumberingSystemLabel, getToothKey, parseToothLabel } from './dentalTeeth';
+
+/**
+ * The parts of a note of the annotations panel stored by the backend. `backendId` is the id of
+ * the annotation it was saved as.
+ */
+export type DentalNoteRecord = {
+  id: string;
+  text: string;
+  category: 'diagnosis' | 'treatment' | 'observation' | 'note';
+  tooth?: string;
+  findings?: DentalFinding[];
+  audioBlob?: Blob;
+  // Provenance of a note recording an accepted AI suggestion
+  aiSuggestion?: { providerId: string; model?: string; score: number; edited: boolean };
+  backendId?: string;
+  review?: DentalNoteReview;
+};
+
+// Measurements locked because a note of their tooth is locked, so that unlocking leaves alone
+// those the user locked
+const reviewLockedMeasurements = new Set<string>();
+
+const REVIEW_SYNC_LIMIT = 500;
+
+// Queued annotations are keyed by the id of the note they save
+const NOTE_CREATE_KEY_PREFIX = 'annotation-create:';
+
+let noteLinkListeners: Array<(id: string, backendId: string) => void> = [];
+
+// Tags notes from accepted AI suggestions, so that the search can tell them apart
+const AI_SUGGESTED_TAG = 'ai-suggested';
+
+// The image shown in the active viewport, so that search hits can open the study on it
+const getActiveImage = servicesManager => {
+  const { viewportGridService, displaySetService, cornerstoneViewportService } =
+    servicesManager.services;
+  const { activeViewportId, viewports } = viewportGridService.getState();
+  const [displaySetInstanceUID] = viewports.get(activeViewportId)?.displaySetInstanceUIDs ?? [];
+  const displaySet = displaySetInstanceUID
+    ? displaySetService.getDisplaySetByUID(displaySetInstanceUID)
+    : undefined;
+  if (!displaySet || displaySet.madeInClient) {
+    return {};
+  }
+
+  const viewport = cornerstoneViewportService.getCornerstoneViewport(activeViewportId);
+  const imageIndex = viewport?.getCurrentImageIdIndex?.() ?? 0;
+  return {
+    seriesInstanceUID: displaySet.SeriesInstanceUID,
+    sopInstanceUID: displaySet.instances?.[imageIndex]?.SOPInstanceUID,
+  };
+};
+
+/**
+ * Saves a note as an annotation of the open study, on the image of the active viewport, and
+ * returns its id. Notes stay in the browser while signed out; notes written offline, with their
+ * recording, are queued and linked to their annotation once sent (see
+ * `initializeDentalNoteLinks`).
+ */
+export const pushDentalNote = async (
+  servicesManager,
+  note: DentalNoteRecord
+): Promise<string | undefined> => {
+  const studyInstanceUID = stateService.getCurrentStudyUID();
+  const tooth = parseToothLabel(note.tooth);
+  if (!apiClient.isAuthenticated() || !studyInstanceUID || !getToothKey(tooth)) {
+    return undefined;
+  }
+
+  const audioFile = note.audioBlob
+    ? new File([note.audioBlob], 'voice-note.webm', { type: note.audioBlob.type })
+    : undefined;
+  const response = await apiClient.createAnnotation(
+    {
+      studyInstanceUID,
+      ...getActiveImage(servicesManager),
+      tooth: { system: getNumberingSystemLabel(tooth.system), value: tooth.value },
+      category: note.category,
+      content: { text: note.text },
+      findings: note.findings,
+      ...(note.aiSuggestion
+        ? { metadata: { aiSuggestion: note.aiSuggestion }, tags: [AI_SUGGESTED_TAG] }
+        : {}),
+    },
+    audioFile,
+    note.id
+  );
+
+  return response?.annotation?._id;
+};
+
+/**
+ * Links the notes queued while the backend was unreachable to the annotation they were saved
+ * as, once the queue sends them: in the browser store, and in the panels listening through
+ * `subscribeToDentalNoteLinks`.
+ */
+export const initializeDentalNoteLinks = (): (() => void) =>
+  apiClient.subscribeToSentWrites((request, data) => {
+    const backendId = data?.annotation?._id;
+    if (!request.key.startsWith(NOTE_CREATE_KEY_PREFIX) || !backendId) {
+      return;
+    }
+
+    const id = request.key.substring(NOTE_CREATE_KEY_PREFIX.length);
+    linkStoredAnnotation(id, backendId);
+    noteLinkListeners.forEach(listener => listener(id, backendId));
+  });
+
+export const subscribeToDentalNoteLinks = (
+  listener: (id: string, backendId: string) => void
+): (() => void) => {
+  noteLinkListeners.push(listener);
+  return () => {
+    noteLinkListeners = noteLinkListeners.filter(existing => existing !== listener);
+  };
+};
+
+/**
+ * Saves the edited text and findings of a saved note, e.g. of a draft its reviewer returned.
+ */
+export const updateDentalNote = async (note: DentalNoteRecord): Promise<void> => {
+  if (note.backendId && apiClient.isAuthenticated()) {
+    await apiClient.updateAnnotation(note.backendId, {
+      content: { text: note.text },
+      findings: note.findings ?? [],
+    });
+  }
+};
+
+export const removeDentalNote = async (note: DentalNoteRecord): Promise<void> => {
+  if (note.backendId && apiClient.isAuthenticated()) {
+    await apiClient.deleteAnnotation(note.backendId);
+  }
+};
+
+/**
+ * The audit trail of a saved note, newest first.
+ */
+export const loadDentalNoteHistory = async (
+  note: DentalNoteRecord
+): Promise<DentalAuditEvent[]> => {
+  if (!note.backendId) {
+    return [];
+  }
+  const response = await apiClient.getAnnotationHistory(note.backendId);
+  return response?.events ?? [];
+};
+
+/**
+ * Locks the measurements of the teeth with a note awaiting review or reviewed in the open
+ * study, and unlocks them once the note is returned as a draft.
+ */
+export const applyDentalReviewLocks = (servicesManager, annotations: any[]) => {
+  const { measurementService } = servicesManager.services;
+  const { lock, unlock } = getDentalReviewLockChanges(
+    measurementService.getMeasurements(),
+    getDentalReviewLockedTeeth(annotations),
+    reviewLockedMeasurements
+  );
+
+  lock.forEach(uid => {
+    measurementService.toggleLockMeasurement(uid);
+    reviewLockedMeasurements.add(uid);
+  });
+  unlock.forEach(uid => {
+    measurementService.toggleLockMeasurement(uid);
+    reviewLockedMeasurements.delete(uid);
+  });
+};
+
+/**
+ * The review state of the saved notes of the open study by annotation id, applying the
+ * measurement locks that follow from it.
+ */
+export const loadDentalNoteReviews = async (
+  servicesManager
+): Promise<Record<string, DentalNoteReview>> => {
+  const studyInstanceUID = stateService.getCurrentStudyUID();
+  if (!apiClient.isAuthenticated() || !studyInstanceUID) {
+    return {};
+  }
+
+  const response = await apiClient.getAnnotations({ studyInstanceUID, limit: REVIEW_SYNC_LIMIT });
+  const annotations = response?.annotations ?? [];
+  applyDentalReviewLocks(servicesManager, annotations);
+
+  return Object.fromEntries(
+    annotations.map(annotation => [annotation._id, getDentalNoteReview(annotation)])
+  );
+};
+
+export const submitDentalNote = async (
+  servicesManager,
+  note: DentalNoteRecord
+): Promise<DentalNoteReview> => {
+  const response = await apiClient.submitAnnotationForReview(note.backendId);
+  await loadDentalNoteReviews(servicesManager);
+  return getDentalNoteReview(response?.annotation);
+};
+
+/**
+ * Annotations of colleagues awaiting the review of the signed-in user, oldest first.
+ */
+export const loadDentalReviewQueue = async (): Promise<any[]> => {
+  const response = await apiClient.getReviewQueue();
+  return response?.annotations ?? [];
+};
+
+export const reviewDentalNote = async (
+  servicesManager,
+  annotationId: string,
+  review: { decision: 'approve' | 'reject'; comments?: string }
+): Promise<DentalNoteReview> => {
+  const response = await apiClient.reviewAnnotation(annotationId, review);
+  await loadDentalNoteReviews(servicesManager);
+  return getDentalNoteReview(response?.annotation);
+};
@@ -0,0 +1,218 @@
+/**
+ * A small PDF writer for the printable dental report: pages of text in the standard Helvetica
+ * fonts, lines, and JPEG images. Coordinates are in points from the bottom-left of the page.
+ */
+
+export type PdfTextItem = {
+  type: 'text';
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  // RGB components between 0 and 1, black when not set
+  color?: [number, number, number];
+};
+
+export type PdfImageItem = {
+  type: 'image';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+};
+
+export type PdfLineItem = {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+};
+
+export type PdfItem = PdfTextItem | PdfImageItem | PdfLineItem;
+
+export type PdfPage = {
+  width: number;
+  height: number;
+  items: PdfItem[];
+};
+
+export const A4_PAGE = { width: 595.28, height: 841.89 };
+
+// Average Helvetica glyph widths as a fraction of the font size, enough to wrap and align text
+const AVERAGE_GLYPH_WIDTH = 0.52;
+const AVERAGE_BOLD_GLYPH_WIDTH = 0.56;
+
+export const measureText = (text: string, size: number, bold = false) =>
+  text.length * size * (bold ? AVERAGE_BOLD_GLYPH_WIDTH : AVERAGE_GLYPH_WIDTH);
+
+/**
+ * Splits text into lines no wider than `width`, breaking between words.
+ */
+export const wrapText = (text: string, width: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+
+  `${text ?? ''}`.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measureText(candidate, size, bold) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * Shortens text with an ellipsis so that it is no wider than `width`.
+ */
+export const truncateText = (text: string, width: number, size: number, bold = false) => {
+  if (measureText(text, size, bold) <= width) {
+    return text;
+  }
+  let truncated = text;
+  while (truncated && measureText(`${truncated}...`, size, bold) > width) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}...`;
+};
+
+const formatNumber = (value: number) => `${Math.round(value * 100) / 100}`;
+
+// The standard fonts use WinAnsiEncoding; characters outside Latin-1 are replaced with "?"
+const toLatin1 = (text: string) => text.replace(/[^\u0000-\u00ff]/g, '?');
+
+const escapeText = (text: string) =>
+  toLatin1(text)
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/[\\()]/g, '\\$&');
+
+const encode = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let index = 0; index < text.length; index++) {
+    bytes[index] = text.charCodeAt(index) & 0xff;
+  }
+  return bytes;
+};
+
+const getContentStream = (page: PdfPage, imageNames: Map<PdfImageItem, string>) =>
+  page.items
+    .map(item => {
+      switch (item.type) {
+        case 'text': {
+          const [r, g, b] = item.color ?? [0, 0, 0];
+          return [
+            'BT',
+            `/${item.bold ? 'F2' : 'F1'} ${formatNumber(item.size)} Tf`,
+            `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`,
+            `${formatNumber(item.x)} ${formatNumber(item.y)} Td`,
+            `(${escapeText(item.text)}) Tj`,
+            'ET',
+          ].join(' ');
+        }
+        case 'image':
+          return `q ${formatNumber(item.width)} 0 0 ${formatNumber(item.height)} ${formatNumber(item.x)} ${formatNumber(item.y)} cm /${imageNames.get(item)} Do Q`;
+        case 'line':
+          return `${formatNumber(item.width ?? 0.5)} w ${formatNumber(item.x1)} ${formatNumber(item.y1)} m ${formatNumber(item.x2)} ${formatNumber(item.y2)} l S`;
+        default:
+          return '';
+      }
+    })
+    .join('\n');
+
+/**
+ * Writes the pages as a PDF document.
+ */
+export const createPdf = (pages: PdfPage[], { title }: { title?: string } = {}): Uint8Array => {
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images and pages
+  const objects: Array<Array<string | Uint8Array>> = [];
+  const addObject = (...parts: Array<string | Uint8Array>) => {
+    objects.push(parts);
+    return objects.length;
+  };
+  const stream = (dictionary: string, data: Uint8Array) => [
+    `<< ${dictionary} /Length ${data.length} >>\nstream\n`,
+    data,
+    '\nendstream',
+  ];
+
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject('');
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  addObject(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  );
+  addObject(`<< /Producer (OHIF Dental) /Title (${escapeText(title ?? '')}) >>`);
+
+  const pageNumbers = pages.map(page => {
+    const imageNames = new Map<PdfImageItem, string>();
+    const imageObjects = page.items
+      .filter((item): item is PdfImageItem => item.type === 'image')
+      .map(image => {
+        const number = addObject(
+          ...stream(
+            `/Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+            image.jpeg
+          )
+        );
+        imageNames.set(image, `Im${number}`);
+        return number;
+      });
+
+    const content = addObject(...stream('', encode(getContentStream(page, imageNames))));
+    const xObjects = imageObjects.map(number => `/Im${number} ${number} 0 R`).join(' ');
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${content} 0 R >>`
+    );
+  });
+
+  objects[1] = [
+    `<< /Type /Pages /Kids [${pageNumbers.map(number => `${number} 0 R`).join(' ')}] /Count ${pageNumbers.length} >>`,
+  ];
+
+  const chunks: Uint8Array[] = [encode('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  objects.forEach((parts, index) => {
+    offsets.push(length);
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${`${offset}`.padStart(10, '0')} 00000 n \n`));
+  write(
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
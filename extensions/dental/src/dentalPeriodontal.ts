@@ -0,0 +1,190 @@
+export type ProbingSite = 'MB' | 'B' | 'DB' | 'ML' | 'L' | 'DL';
+
+export type ProbingDepths = Partial<Record<ProbingSite, number>>;
+
+export type PeriodontalStage = 'I' | 'II' | 'III';
+export type PeriodontalGrade = 'A' | 'B' | 'C';
+
+export type PeriodontalToothSummary = {
+  toothKey: string;
+  maxProbingDepth?: number;
+  deepSites: number;
+  boneLossPercent?: number;
+  stage?: PeriodontalStage;
+  grade?: PeriodontalGrade;
+};
+
+export const PROBING_SITES: Array<{
+  id: ProbingSite;
+  label: string;
+  surface: 'buccal' | 'lingual';
+}> = [
+  { id: 'MB', label: 'Mesiobuccal', surface: 'buccal' },
+  { id: 'B', label: 'Buccal', surface: 'buccal' },
+  { id: 'DB', label: 'Distobuccal', surface: 'buccal' },
+  { id: 'ML', label: 'Mesiolingual', surface: 'lingual' },
+  { id: 'L', label: 'Lingual', surface: 'lingual' },
+  { id: 'DL', label: 'Distolingual', surface: 'lingual' },
+];
+
+// The alveolar crest normally sits about 2 mm apical to the CEJ, so that distance is not loss
+export const NORMAL_CREST_DISTANCE_MM = 2;
+
+// Probing depths from 4 mm are counted as periodontal pockets
+export const POCKET_DEPTH_MM = 4;
+
+const STAGE_ORDER: PeriodontalStage[] = ['I', 'II', 'III'];
+
+const isValue = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Radiographic bone loss as a percentage of the root length, from the CEJ-to-crest distance
+ * and the CEJ-to-apex root length measured on the same tooth.
+ */
+export const computeBoneLossPercent = (
+  cejToCrest: number | undefined,
+  rootLength: number | undefined
+): number | undefined => {
+  if (!isValue(cejToCrest) || !isValue(rootLength) || rootLength <= 0) {
+    return undefined;
+  }
+
+  const loss = Math.max(0, cejToCrest - NORMAL_CREST_DISTANCE_MM);
+  return Math.min(100, (loss / rootLength) * 100);
+};
+
+export const getMaxProbingDepth = (depths: ProbingDepths | undefined): number | undefined => {
+  const values = Object.values(depths || {}).filter(isValue);
+  return values.length ? Math.max(...values) : undefined;
+};
+
+/**
+ * Stage per the 2017 AAP/EFP classification. Radiographic bone loss sets the stage (<15% is
+ * stage I, 15-33% stage II, beyond the coronal third stage III) and probing depth raises it
+ * as a complexity factor (5 mm to at least stage II, 6 mm or more to stage III). Stage IV
+ * depends on tooth loss and rehabilitation needs, so it is never assigned from images alone.
+ */
+export const getPeriodontalStage = ({
+  boneLossPercent,
+  maxProbingDepth,
+}: {
+  boneLossPercent?: number;
+  maxProbingDepth?: number;
+}): PeriodontalStage | undefined => {
+  const candidates: PeriodontalStage[] = [];
+
+  if (isValue(boneLossPercent)) {
+    candidates.push(boneLossPercent < 15 ? 'I' : boneLossPercent <= 33 ? 'II' : 'III');
+  }
+
+  if (isValue(maxProbingDepth)) {
+    candidates.push(maxProbingDepth >= 6 ? 'III' : maxProbingDepth >= 5 ? 'II' : 'I');
+  }
+
+  if (!candidates.length) {
+    return undefined;
+  }
+
+  return STAGE_ORDER[Math.max(...candidates.map(stage => STAGE_ORDER.indexOf(stage)))];
+};
+
+/**
+ * Grade per the 2017 AAP/EFP classification, from the indirect progression rate: percentage
+ * bone loss divided by age (<0.25 grade A, 0.25-1.0 grade B, >1.0 grade C).
+ */
+export const getPeriodontalGrade = (
+  boneLossPercent: number | undefined,
+  patientAge: number | undefined
+): PeriodontalGrade | undefined => {
+  if (!isValue(boneLossPercent) || !isValue(patientAge) || patientAge <= 0) {
+    return undefined;
+  }
+
+  const ratio = boneLossPercent / patientAge;
+  if (ratio < 0.25) {
+    return 'A';
+  }
+  return ratio <= 1 ? 'B' : 'C';
+};
+
+/**
+ * Reads the patient age in years from DICOM attributes, using PatientAge (e.g. "045Y") and
+ * falling back to PatientBirthDate and StudyDate.
+ */
+export const getPatientAgeFromDicom = (instance: any): number | undefined => {
+  const ageMatch = `${instance?.PatientAge ?? ''}`.match(/^(\d{1,3})([DWMY])$/i);
+  if (ageMatch) {
+    const value = parseInt(ageMatch[1], 10);
+    const divisor = { D: 365, W: 52, M: 12, Y: 1 }[ageMatch[2].toUpperCase()];
+    return Math.floor(value / divisor);
+  }
+
+  const parseDate = (date: unknown) => {
+    const match = `${date ?? ''}`.match(/^(\d{4})(\d{2})(\d{2})$/);
+    return match ? { year: +match[1], month: +match[2], day: +match[3] } : null;
+  };
+
+  const birthDate = parseDate(instance?.PatientBirthDate);
+  const studyDate = parseDate(instance?.StudyDate);
+  if (!birthDate || !studyDate) {
+    return undefined;
+  }
+
+  const beforeBirthday =
+    studyDate.month < birthDate.month ||
+    (studyDate.month === birthDate.month && studyDate.day < birthDate.day);
+  const age = studyDate.year - birthDate.year - (beforeBirthday ? 1 : 0);
+  return age >= 0 ? age : undefined;
+};
+
+/**
+ * Builds the per-tooth periodontal summary from probing depths and radiographic bone loss,
+ * both keyed by FDI number, plus the overall stage and grade taken from the worst tooth.
+ */
+export const getPeriodontalSummary = ({
+  probingByTooth,
+  boneLossByTooth,
+  patientAge,
+}: {
+  probingByTooth: Record<string, ProbingDepths>;
+  boneLossByTooth: Record<string, number>;
+  patientAge?: number;
+}) => {
+  const toothKeys = Array.from(
+    new Set([...Object.keys(probingByTooth), ...Object.keys(boneLossByTooth)])
+  );
+
+  const teeth: PeriodontalToothSummary[] = toothKeys
+    .map(toothKey => {
+      const depths = probingByTooth[toothKey];
+      const maxProbingDepth = getMaxProbingDepth(depths);
+      const boneLossPercent = boneLossByTooth[toothKey];
+
+      return {
+        toothKey,
+        maxProbingDepth,
+        deepSites: Object.values(depths || {}).filter(
+          depth => isValue(depth) && depth >= POCKET_DEPTH_MM
+        ).length,
+        boneLossPercent,
+        stage: getPeriodontalStage({ boneLossPercent, maxProbingDepth }),
+        grade: getPeriodontalGrade(boneLossPercent, patientAge),
+      };
+    })
+    .filter(tooth => isValue(tooth.maxProbingDepth) || isValue(tooth.boneLossPercent))
+    .sort((a, b) => Number(a.toothKey) - Number(b.toothKey));
+
+  const boneLossValues = teeth.map(tooth => tooth.boneLossPercent).filter(isValue);
+  const maxBoneLoss = boneLossValues.length ? Math.max(...boneLossValues) : undefined;
+  const probingValues = teeth.map(tooth => tooth.maxProbingDepth).filter(isValue);
+
+  return {
+    teeth,
+    stage: getPeriodontalStage({
+      boneLossPercent: maxBoneLoss,
+      maxProbingDepth: probingValues.length ? Math.max(...probingValues) : undefined,
+    }),
+    grade: getPeriodontalGrade(maxBoneLoss, patientAge),
+  };
+};
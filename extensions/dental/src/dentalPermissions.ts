@@ -0,0 +1,91 @@
+/**
+ * Roles of the users of a dental practice. Referrers are outside clinicians with read-only
+ * access to the practice's annotations, viewer states and measurements.
+ */
+export type DentalRole = 'admin' | 'dentist' | 'hygienist' | 'assistant' | 'referrer';
+
+export type DentalPermission =
+  | 'annotations:read'
+  | 'annotations:create'
+  | 'annotations:update'
+  | 'annotations:delete'
+  | 'annotations:share'
+  | 'annotations:manage'
+  | 'annotations:review'
+  | 'viewerState:read'
+  | 'viewerState:write'
+  | 'viewerState:delete'
+  | 'measurements:read'
+  | 'measurements:write'
+  | 'measurements:delete'
+  | 'users:manage'
+  | 'audit:read';
+
+const ALL_PERMISSIONS: DentalPermission[] = [
+  'annotations:read',
+  'annotations:create',
+  'annotations:update',
+  'annotations:delete',
+  'annotations:share',
+  'annotations:manage',
+  'annotations:review',
+  'viewerState:read',
+  'viewerState:write',
+  'viewerState:delete',
+  'measurements:read',
+  'measurements:write',
+  'measurements:delete',
+  'users:manage',
+  'audit:read',
+];
+
+/**
+ * What each role may do, kept in step with backend/utils/permissions.js. The backend sends the
+ * permissions of the signed-in user, so this matrix only fills in for older profiles.
+ */
+export const DENTAL_ROLE_PERMISSIONS: Record<DentalRole, DentalPermission[]> = {
+  admin: ALL_PERMISSIONS,
+  dentist: ALL_PERMISSIONS.filter(
+    permission => permission !== 'users:manage' && permission !== 'audit:read'
+  ),
+  hygienist: [
+    'annotations:read',
+    'annotations:create',
+    'annotations:update',
+    'annotations:delete',
+    'annotations:share',
+    'viewerState:read',
+    'viewerState:write',
+    'viewerState:delete',
+    'measurements:read',
+    'measurements:write',
+    'measurements:delete',
+  ],
+  assistant: [
+    'annotations:read',
+    'annotations:create',
+    'annotations:update',
+    'viewerState:read',
+    'viewerState:write',
+    'measurements:read',
+    'measurements:write',
+  ],
+  referrer: ['annotations:read', 'viewerState:read', 'measurements:read'],
+};
+
+export type DentalPermissionHolder = {
+  role?: string;
+  permissions?: DentalPermission[];
+};
+
+export const getDentalPermissions = (user: DentalPermissionHolder | null): DentalPermission[] =>
+  user?.permissions ?? DENTAL_ROLE_PERMISSIONS[user?.role as DentalRole] ?? [];
+
+/**
+ * Whether the user may perform an action. Without a signed-in user the work stays local to the
+ * viewer, so every action is available.
+ */
+export const isDentalActionAllowed = (
+  user: DentalPermissionHolder | null,
+  permission: DentalPermission
+): boolean => !user || getDentalPermissions(user).includes(permission);
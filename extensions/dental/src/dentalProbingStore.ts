@@ -0,0 +1,69 @@
+import type { ProbingDepths } from './dentalPeriodontal';
+
+const STORAGE_PREFIX = 'dental-probing-chart-';
+
+let listeners: Array<() => void> = [];
+
+const notifyListeners = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Dental probing listener error:', error);
+    }
+  });
+};
+
+// Each study has its own chart, so the next patient opened in the browser starts from an empty one
+const getStorageKey = (studyInstanceUID: string) => `${STORAGE_PREFIX}${studyInstanceUID}`;
+
+/**
+ * Loads the six-site probing depths of every tooth charted on a study, keyed by FDI number.
+ * Without a study the chart is empty.
+ */
+export const loadProbingChart = (
+  studyInstanceUID: string | null | undefined
+): Record<string, ProbingDepths> => {
+  if (!studyInstanceUID) {
+    return {};
+  }
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(studyInstanceUID));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveToothProbingDepths = (
+  studyInstanceUID: string | null | undefined,
+  toothKey: string,
+  depths: ProbingDepths
+) => {
+  if (!studyInstanceUID) {
+    return;
+  }
+
+  const chart = loadProbingChart(studyInstanceUID);
+
+  if (Object.keys(depths).length) {
+    chart[toothKey] = depths;
+  } else {
+    delete chart[toothKey];
+  }
+
+  try {
+    localStorage.setItem(getStorageKey(studyInstanceUID), JSON.stringify(chart));
+  } catch (error) {
+    console.warn('Failed to save dental probing depths:', error);
+  }
+  notifyListeners();
+};
+
+export const subscribeToProbingChanges = (listener: () => void): (() => void) => {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(existing => existing !== listener);
+  };
+};
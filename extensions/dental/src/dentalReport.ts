@@ -0,0 +1,451 @@
+import type {
+  DentalMeasurementPreset,
+  DentalNumberingSystem,
+  DentalToothSelection,
+} from './dentalMeasurementsManager';
+import { DentalFinding, formatFinding } from './dentalFindings';
+import { getConfirmedDentalTooth } from './dentalToothSuggestion';
+import {
+  A4_PAGE,
+  PdfItem,
+  PdfPage,
+  createPdf,
+  measureText,
+  truncateText,
+  wrapText,
+} from './dentalPdf';
+import { findTooth, formatToothSelection, getToothKey } from './dentalTeeth';
+
+export const ENCAPSULATED_PDF_SOP_CLASS_UID = '1.2.840.10008.5.1.4.1.1.104.1';
+
+export type DentalReportImage = {
+  // JPEG data URL, as captured from the viewport
+  dataUrl: string;
+  width: number;
+  height: number;
+  caption: string;
+};
+
+export type DentalReportRow = {
+  tooth: string;
+  label: string;
+  value: string;
+};
+
+/**
+ * Everything printed on the report. The patient and study details are taken from the DICOM
+ * instance the report is made for, the practice name from the white-labeling configuration.
+ */
+export type DentalReport = {
+  title: string;
+  practiceName: string;
+  createdAt: Date;
+  patient: {
+    name?: string;
+    id?: string;
+    birthDate?: string;
+    sex?: string;
+  };
+  study: {
+    date?: string;
+    description?: string;
+    accessionNumber?: string;
+    referringPhysician?: string;
+  };
+  keyImages: DentalReportImage[];
+  measurements: DentalReportRow[];
+  findings: DentalReportRow[];
+  impression?: string;
+};
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 24;
+const CONTENT_WIDTH = A4_PAGE.width - 2 * MARGIN;
+const KEY_IMAGE_GAP = 12;
+const KEY_IMAGE_MAX_HEIGHT = 220;
+const MUTED: [number, number, number] = [0.4, 0.4, 0.4];
+
+// Column offsets of the per-tooth tables: tooth, measurement or finding, value or codes
+const TABLE_COLUMNS = [0, 90, 330];
+const TABLE_COLUMN_WIDTHS = [84, 234, CONTENT_WIDTH - 330];
+const DETAILS_VALUE_WIDTH = CONTENT_WIDTH / 2 - 90;
+
+/**
+ * Formats a DICOM date (YYYYMMDD) as YYYY-MM-DD, leaving other values as they are.
+ */
+export const formatDicomDate = (value: string | undefined) =>
+  /^\d{8}$/.test(value ?? '')
+    ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6)}`
+    : value;
+
+/**
+ * Formats a DICOM person name (Family^Given^Middle) as "Family, Given Middle".
+ */
+export const formatPersonName = (value: any) => {
+  const name = typeof value === 'object' ? value?.Alphabetic : value;
+  const [family, ...given] = `${name ?? ''}`.split('^');
+  const givenNames = given.filter(Boolean).join(' ');
+  return [family, givenNames].filter(Boolean).join(', ');
+};
+
+const compareTeeth = (a: DentalToothSelection | null, b: DentalToothSelection | null) =>
+  Number(getToothKey(a) ?? Infinity) - Number(getToothKey(b) ?? Infinity);
+
+const formatValue = (
+  value: number,
+  preset?: Pick<DentalMeasurementPreset, 'unit' | 'precision'>
+) => {
+  const unit = preset?.unit ?? '';
+  const separator = unit === 'mm' ? ' ' : '';
+  return `${value.toFixed(preset?.precision ?? 1)}${separator}${unit}`;
+};
+
+/**
+ * Lists the dental measurements per tooth, in FDI order with untagged measurements last, followed
+ * on each tooth by the values derived from them (see `getDerivedDentalValues`). Measurements
+ * whose suggested tooth is not confirmed yet are listed as untagged.
+ */
+export const getReportMeasurementRows = (
+  measurements: any[],
+  derivedValues: Record<string, Record<string, number>>,
+  presets: DentalMeasurementPreset[],
+  numberingSystem: DentalNumberingSystem
+): DentalReportRow[] => {
+  const entries: Array<{
+    tooth: DentalToothSelection | null;
+    order: number;
+    label: string;
+    value: string;
+  }> = measurements
+    .filter(measurement => Number.isFinite(measurement?.metadata?.dentalValue))
+    .map(measurement => {
+      const { dentalPresetId, dentalPresetLabel, dentalValue, dentalCreatedAt } =
+        measurement.metadata;
+      const dentalTooth = getConfirmedDentalTooth(measurement);
+      const preset = presets.find(({ id }) => id === dentalPresetId);
+      return {
+        tooth: findTooth(dentalTooth) ? dentalTooth : null,
+        order: dentalCreatedAt ?? 0,
+        label: dentalPresetLabel ?? preset?.label ?? measurement.label,
+        value: formatValue(dentalValue, preset),
+      };
+    });
+
+  Object.entries(derivedValues).forEach(([toothKey, values]) => {
+    Object.entries(values).forEach(([presetId, value]) => {
+      const preset = presets.find(({ id }) => id === presetId);
+      if (preset && Number.isFinite(value)) {
+        entries.push({
+          tooth: { system: 'FDI', value: toothKey },
+          order: Infinity,
+          label: preset.label,
+          value: formatValue(value, preset),
+        });
+      }
+    });
+  });
+
+  return entries
+    .sort((a, b) => compareTeeth(a.tooth, b.tooth) || a.order - b.order)
+    .map(({ tooth, label, value }) => ({
+      tooth: tooth ? formatToothSelection(tooth, numberingSystem) : '-',
+      label,
+      value,
+    }));
+};
+
+/**
+ * Lists the coded findings per tooth in FDI order, with their SNOMED CT and CDT codes.
+ */
+export const getReportFindingRows = (
+  toothFindings: Array<{ tooth: DentalToothSelection; findings: DentalFinding[] }>,
+  numberingSystem: DentalNumberingSystem
+): DentalReportRow[] =>
+  [...toothFindings]
+    .sort((a, b) => compareTeeth(a.tooth, b.tooth))
+    .flatMap(({ tooth, findings }) =>
+      findings.map(finding => ({
+        tooth: formatToothSelection(tooth, numberingSystem),
+        label: formatFinding(finding),
+        value: [
+          finding.codes?.snomedCT && `SNOMED CT ${finding.codes.snomedCT}`,
+          finding.codes?.cdt && `CDT ${finding.codes.cdt}`,
+        ]
+          .filter(Boolean)
+          .join(', '),
+      }))
+    );
+
+/**
+ * Decodes the base64 payload of a data URL.
+ */
+export const dataUrlToBytes = (dataUrl: string) => {
+  const binary = atob(dataUrl.substring(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+/**
+ * Lays the report out on A4 pages: the practice header and patient details, the key images two
+ * per row, the measurement and findings tables and the impression, with a footer on each page.
+ */
+export const layoutDentalReport = (report: DentalReport): PdfPage[] => {
+  const pages: PdfPage[] = [];
+  let items: PdfItem[] = [];
+  // Distance from the top of the page to the next line
+  let top = 0;
+
+  const newPage = () => {
+    items = [];
+    pages.push({ ...A4_PAGE, items });
+    top = MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (top + height > A4_PAGE.height - MARGIN - FOOTER_HEIGHT) {
+      newPage();
+    }
+  };
+  const text = (
+    value: string,
+    x: number,
+    size: number,
+    options: { bold?: boolean; color?: [number, number, number] } = {}
+  ) =>
+    items.push({ type: 'text', x, y: A4_PAGE.height - top - size, text: value, size, ...options });
+  const rule = () => {
+    const y = A4_PAGE.height - top;
+    items.push({ type: 'line', x1: MARGIN, y1: y, x2: A4_PAGE.width - MARGIN, y2: y });
+  };
+  const heading = (value: string) => {
+    ensureSpace(40);
+    top += 14;
+    text(value, MARGIN, 12, { bold: true });
+    top += 18;
+  };
+  const details = (rows: Array<[string, string | undefined]>, x: number) => {
+    rows
+      .filter(([, value]) => value)
+      .forEach(([label, value], index) => {
+        const y = top + index * 14;
+        items.push(
+          { type: 'text', x, y: A4_PAGE.height - y - 9, text: label, size: 9, color: MUTED },
+          {
+            type: 'text',
+            x: x + 80,
+            y: A4_PAGE.height - y - 10,
+            text: truncateText(value, DETAILS_VALUE_WIDTH, 10),
+            size: 10,
+          }
+        );
+      });
+  };
+  const table = (columns: string[], rows: DentalReportRow[], emptyText: string) => {
+    if (!rows.length) {
+      text(emptyText, MARGIN, 10, { color: MUTED });
+      top += 14;
+      return;
+    }
+
+    const header = () => {
+      columns.forEach((column, index) =>
+        text(column, MARGIN + TABLE_COLUMNS[index], 9, { bold: true, color: MUTED })
+      );
+      top += 13;
+      rule();
+      top += 4;
+    };
+
+    header();
+    rows.forEach(row => {
+      if (top + 14 > A4_PAGE.height - MARGIN - FOOTER_HEIGHT) {
+        newPage();
+        header();
+      }
+      [row.tooth, row.label, row.value].forEach((value, index) =>
+        text(truncateText(value, TABLE_COLUMN_WIDTHS[index], 10), MARGIN + TABLE_COLUMNS[index], 10)
+      );
+      top += 14;
+    });
+  };
+
+  newPage();
+
+  // Practice branding and report title
+  text(report.practiceName, MARGIN, 18, { bold: true });
+  const createdAt = report.createdAt.toLocaleString();
+  text(createdAt, A4_PAGE.width - MARGIN - measureText(createdAt, 9), 9, { color: MUTED });
+  top += 24;
+  text(report.title, MARGIN, 13);
+  top += 22;
+  rule();
+  top += 10;
+
+  details(
+    [
+      ['Patient', report.patient.name],
+      ['Patient ID', report.patient.id],
+      ['Birth date', formatDicomDate(report.patient.birthDate)],
+      ['Sex', report.patient.sex],
+    ],
+    MARGIN
+  );
+  details(
+    [
+      ['Study date', formatDicomDate(report.study.date)],
+      ['Study', report.study.description],
+      ['Accession', report.study.accessionNumber],
+      ['Referred by', report.study.referringPhysician],
+    ],
+    MARGIN + CONTENT_WIDTH / 2
+  );
+  top += 4 * 14 + 6;
+
+  if (report.keyImages.length) {
+    heading('Key images');
+    const boxWidth = (CONTENT_WIDTH - KEY_IMAGE_GAP) / 2;
+    for (let index = 0; index < report.keyImages.length; index += 2) {
+      const row = report.keyImages.slice(index, index + 2).map(image => {
+        const scale = Math.min(boxWidth / image.width, KEY_IMAGE_MAX_HEIGHT / image.height);
+        return { image, width: image.width * scale, height: image.height * scale };
+      });
+      const rowHeight = Math.max(...row.map(({ height }) => height));
+      ensureSpace(rowHeight + 20);
+
+      row.forEach(({ image, width, height }, column) => {
+        const x = MARGIN + column * (boxWidth + KEY_IMAGE_GAP);
+        items.push({
+          type: 'image',
+          x,
+          y: A4_PAGE.height - top - height,
+          width,
+          height,
+          jpeg: dataUrlToBytes(image.dataUrl),
+          pixelWidth: image.width,
+          pixelHeight: image.height,
+        });
+        items.push({
+          type: 'text',
+          x,
+          y: A4_PAGE.height - top - rowHeight - 12,
+          text: truncateText(image.caption, boxWidth, 9),
+          size: 9,
+          color: MUTED,
+        });
+      });
+      top += rowHeight + 20;
+    }
+  }
+
+  heading('Measurements');
+  table(['Tooth', 'Measurement', 'Value'], report.measurements, 'No dental measurements.');
+
+  heading('Findings');
+  table(['Tooth', 'Finding', 'Codes'], report.findings, 'No coded findings.');
+
+  if (report.impression?.trim()) {
+    heading('Impression');
+    wrapText(report.impression, CONTENT_WIDTH, 10).forEach(line => {
+      ensureSpace(14);
+      text(line, MARGIN, 10);
+      top += 14;
+    });
+  }
+
+  // Footer with the practice and page numbers, once the page count is known
+  pages.forEach((page, index) => {
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    page.items.push(
+      {
+        type: 'text',
+        x: MARGIN,
+        y: MARGIN / 2,
+        text: `${report.practiceName} - ${report.title}`,
+        size: 8,
+        color: MUTED,
+      },
+      {
+        type: 'text',
+        x: A4_PAGE.width - MARGIN - measureText(pageLabel, 8),
+        y: MARGIN / 2,
+        text: pageLabel,
+        size: 8,
+        color: MUTED,
+      }
+    );
+  });
+
+  return pages;
+};
+
+export const createDentalReportPdf = (report: DentalReport) =>
+  createPdf(layoutDentalReport(report), { title: report.title });
+
+const formatDicomDateTime = (date: Date) => {
+  const pad = (value: number, length = 2) => `${value}`.padStart(length, '0');
+  return {
+    date: `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+  };
+};
+
+/**
+ * Wraps the report PDF in an Encapsulated PDF instance of the study it was made for, as a new
+ * series, so that it can be stored with the study and shown by the PDF viewport.
+ */
+export const createEncapsulatedPdfDataset = (
+  pdf: Uint8Array,
+  {
+    report,
+    studyInstance,
+    SeriesInstanceUID,
+    SOPInstanceUID,
+  }: { report: DentalReport; studyInstance: any; SeriesInstanceUID: string; SOPInstanceUID: string }
+) => {
+  const { date, time } = formatDicomDateTime(report.createdAt);
+  // Values of OB elements are padded to an even length
+  const document = new Uint8Array(pdf.length + (pdf.length % 2));
+  document.set(pdf);
+
+  return {
+    _meta: { TransferSyntaxUID: { Value: ['1.2.840.10008.1.2.1'] } },
+    SpecificCharacterSet: 'ISO_IR 192',
+    SOPClassUID: ENCAPSULATED_PDF_SOP_CLASS_UID,
+    SOPInstanceUID,
+    PatientName: studyInstance.PatientName,
+    PatientID: studyInstance.PatientID,
+    PatientBirthDate: studyInstance.PatientBirthDate,
+    PatientSex: studyInstance.PatientSex,
+    StudyInstanceUID: studyInstance.StudyInstanceUID,
+    StudyDate: studyInstance.StudyDate,
+    StudyTime: studyInstance.StudyTime,
+    StudyID: studyInstance.StudyID,
+    StudyDescription: studyInstance.StudyDescription,
+    AccessionNumber: studyInstance.AccessionNumber,
+    ReferringPhysicianName: studyInstance.ReferringPhysicianName,
+    SeriesInstanceUID,
+    SeriesNumber: 9000,
+    SeriesDescription: report.title,
+    Modality: 'DOC',
+    ConversionType: 'WSD',
+    InstitutionName: report.practiceName,
+    InstanceNumber: 1,
+    ContentDate: date,
+    ContentTime: time,
+    AcquisitionDateTime: `${date}${time}`,
+    BurnedInAnnotation: 'YES',
+    DocumentTitle: report.title,
+    ConceptNameCodeSequence: [
+      {
+        CodeValue: '18748-4',
+        CodingSchemeDesignator: 'LN',
+        CodeMeaning: 'Diagnostic imaging report',
+      },
+    ],
+    MIMETypeOfEncapsulatedDocument: 'application/pdf',
+    EncapsulatedDocumentLength: pdf.length,
+    EncapsulatedDocument: document.buffer,
+  };
+};
@@ -0,0 +1,87 @@
+import { getToothKey, parseToothLabel } from './dentalTeeth';
+
+export type DentalReviewStatus = 'draft' | 'final' | 'reviewed' | 'archived';
+
+/**
+ * Where a note saved to the backend stands in the review workflow. Authors submit drafts, which
+ * locks them until a colleague approves them or returns them as drafts with comments.
+ */
+export type DentalNoteReview = {
+  status: DentalReviewStatus;
+  decision?: 'approved' | 'rejected';
+  reviewer?: string;
+  reviewedAt?: string;
+  comments?: string;
+};
+
+export const DENTAL_REVIEW_STATUS_LABELS: Record<DentalReviewStatus, string> = {
+  draft: 'Draft',
+  final: 'Awaiting review',
+  reviewed: 'Reviewed',
+  archived: 'Archived',
+};
+
+// Kept in step with LOCKED_STATUSES of backend/models/Annotation.js
+const LOCKED_STATUSES: DentalReviewStatus[] = ['final', 'reviewed', 'archived'];
+
+export const isDentalReviewLocked = (review: DentalNoteReview | null | undefined) =>
+  !!review && LOCKED_STATUSES.includes(review.status);
+
+const getReviewerName = (reviewer: any): string | undefined => {
+  const name = [reviewer?.profile?.firstName, reviewer?.profile?.lastName]
+    .filter(Boolean)
+    .join(' ');
+  return name || undefined;
+};
+
+/**
+ * Reads the review state of an annotation returned by the backend.
+ */
+export const getDentalNoteReview = (annotation: any): DentalNoteReview => ({
+  status: annotation?.status ?? 'draft',
+  decision: annotation?.reviewedBy?.decision,
+  reviewer: getReviewerName(annotation?.reviewedBy?.userId),
+  reviewedAt: annotation?.reviewedBy?.reviewedAt,
+  comments: annotation?.reviewedBy?.comments,
+});
+
+/**
+ * Canonical keys of the teeth with a locked note among the annotations of a study.
+ */
+export const getDentalReviewLockedTeeth = (annotations: any[]): Set<string> =>
+  new Set(
+    annotations
+      .filter(annotation => isDentalReviewLocked(getDentalNoteReview(annotation)))
+      .map(annotation =>
+        getToothKey(parseToothLabel(`${annotation.tooth?.system} ${annotation.tooth?.value}`))
+      )
+      .filter(Boolean)
+  );
+
+export type DentalReviewLockChanges = {
+  lock: string[];
+  unlock: string[];
+};
+
+/**
+ * The measurements to lock or unlock so that those of teeth with a locked note cannot be edited.
+ * Only measurements locked by a review are unlocked, leaving those the user locked themselves.
+ */
+export const getDentalReviewLockChanges = (
+  measurements: Array<{ uid: string; isLocked?: boolean; metadata?: any }>,
+  lockedTeeth: Set<string>,
+  lockedByReview: Set<string>
+): DentalReviewLockChanges => {
+  const changes: DentalReviewLockChanges = { lock: [], unlock: [] };
+
+  measurements.forEach(measurement => {
+    const isToothLocked = lockedTeeth.has(getToothKey(measurement.metadata?.dentalTooth));
+    if (isToothLocked && !measurement.isLocked) {
+      changes.lock.push(measurement.uid);
+    } else if (!isToothLocked && measurement.isLocked && lockedByReview.has(measurement.uid)) {
+      changes.unlock.push(measurement.uid);
+    }
+  });
+
+  return changes;
+};
@@ -0,0 +1,136 @@
+import { DentalFindingCondition, getFindingCondition } from './dentalFindings';
+import { DENTAL_REVIEW_STATUS_LABELS, DentalReviewStatus } from './dentalReview';
+
+export type DentalSearchFacet =
+  'category' | 'status' | 'priority' | 'tags' | 'condition' | 'author' | 'study';
+
+export type DentalSearchFacetCount = {
+  value: string;
+  count: number;
+  // Set by the backend for authors
+  label?: string;
+};
+
+export type DentalSearchFacets = Partial<Record<DentalSearchFacet, DentalSearchFacetCount[]>>;
+
+/**
+ * Filters of the annotation search. `from` and `to` are dates (YYYY-MM-DD) the annotations were
+ * written between, both included.
+ */
+export type DentalSearchFilters = {
+  search?: string;
+  from?: string;
+  to?: string;
+  category?: string;
+  status?: string;
+  priority?: string;
+  tags?: string;
+  condition?: DentalFindingCondition;
+  authorId?: string;
+};
+
+export type DentalSearchChip = {
+  facet: DentalSearchFacet;
+  value: string;
+  label: string;
+  count: number;
+  isActive: boolean;
+};
+
+// The filter each chip facet sets; studies are listed with the hits rather than as chips
+const FACET_FILTERS: Partial<Record<DentalSearchFacet, keyof DentalSearchFilters>> = {
+  category: 'category',
+  status: 'status',
+  priority: 'priority',
+  condition: 'condition',
+  tags: 'tags',
+  author: 'authorId',
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const getChipLabel = (facet: DentalSearchFacet, { value, label }: DentalSearchFacetCount) => {
+  switch (facet) {
+    case 'status':
+      return DENTAL_REVIEW_STATUS_LABELS[value as DentalReviewStatus] ?? value;
+    case 'condition':
+      return getFindingCondition(value)?.label ?? value;
+    case 'tags':
+      return `#${value}`;
+    case 'author':
+      return label || 'Unknown author';
+    default:
+      return capitalize(value);
+  }
+};
+
+/**
+ * Filter chips for the facet counts of a search, with the chips of active filters kept even when
+ * the backend no longer counts them.
+ */
+export const getDentalSearchChips = (
+  facets: DentalSearchFacets,
+  filters: DentalSearchFilters
+): DentalSearchChip[] =>
+  (Object.keys(FACET_FILTERS) as DentalSearchFacet[]).flatMap(facet => {
+    const counts = facets[facet] ?? [];
+    const active = filters[FACET_FILTERS[facet]];
+    const withActive =
+      active && !counts.some(({ value }) => value === active)
+        ? [...counts, { value: active, count: 0 }]
+        : counts;
+
+    return withActive.map(count => ({
+      facet,
+      value: count.value,
+      label: getChipLabel(facet, count),
+      count: count.count,
+      isActive: count.value === active,
+    }));
+  });
+
+/**
+ * Sets the filter of a chip, or clears it when the chip is already active.
+ */
+export const toggleDentalSearchChip = (
+  filters: DentalSearchFilters,
+  chip: Pick<DentalSearchChip, 'facet' | 'value'>
+): DentalSearchFilters => {
+  const filter = FACET_FILTERS[chip.facet];
+  if (!filter) {
+    return filters;
+  }
+
+  return { ...filters, [filter]: filters[filter] === chip.value ? undefined : chip.value };
+};
+
+/**
+ * The query of the backend search for the filters, with the dates widened to whole days.
+ */
+export const getDentalSearchQuery = (filters: DentalSearchFilters) => ({
+  ...filters,
+  search: filters.search?.trim() || undefined,
+  tags: filters.tags ? [filters.tags] : undefined,
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  facets: true,
+});
+
+/**
+ * Location of the viewer opened on the study of a hit, showing the annotated image when the
+ * annotation recorded it. The mode and data source of `pathname` are kept.
+ */
+export const getDentalStudyLocation = (
+  pathname: string,
+  hit: { studyInstanceUID: string; seriesInstanceUID?: string; sopInstanceUID?: string }
+) => {
+  const search = new URLSearchParams({ StudyInstanceUIDs: hit.studyInstanceUID });
+  if (hit.seriesInstanceUID) {
+    search.append('initialSeriesInstanceUID', hit.seriesInstanceUID);
+  }
+  if (hit.sopInstanceUID) {
+    search.append('initialSOPInstanceUID', hit.sopInstanceUID);
+  }
+
+  return { pathname, search: `?${search.toString()}` };
+};
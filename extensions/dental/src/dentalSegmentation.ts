@@ -0,0 +1,225 @@
+import type { DentalNumberingSystem, DentalToothSelection } from './dentalMeasurementsManager';
+import {
+  DentalToothDefinition,
+  PERMANENT_TEETH,
+  PRIMARY_TEETH,
+  findTooth,
+  formatToothSelection,
+} from './dentalTeeth';
+import { DENTAL_CODING_SCHEME, DentalSRCode, getToothFindingSite } from './dentalStructuredReport';
+
+export const DENTAL_SEGMENTATION_LABEL = 'Dental segmentation';
+
+export type DentalSegmentColor = [number, number, number, number];
+
+/**
+ * A segment of the dental labelmap with its display label and color, and the codes written to
+ * its item of the DICOM SEG Segment Sequence.
+ */
+export type DentalSegmentDefinition = {
+  segmentIndex: number;
+  label: string;
+  color: DentalSegmentColor;
+  // FDI selection of the tooth, for tooth segments
+  tooth?: DentalToothSelection;
+  category: DentalSRCode;
+  type: DentalSRCode;
+  typeModifier?: DentalSRCode;
+  anatomicRegion?: DentalSRCode;
+};
+
+const ANATOMICAL_STRUCTURE: DentalSRCode = {
+  CodeValue: '123037004',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Anatomical Structure',
+};
+const TOOTH: DentalSRCode = {
+  CodeValue: '38199008',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Tooth',
+};
+const MAXILLA: DentalSRCode = {
+  CodeValue: '70925003',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Maxilla',
+};
+const MANDIBLE: DentalSRCode = {
+  CodeValue: '91609006',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Mandible',
+};
+const MAXILLARY_SINUS: DentalSRCode = {
+  CodeValue: '15924003',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Maxillary sinus',
+};
+// Same private code as the mandibular canal measurement preset
+const MANDIBULAR_CANAL: DentalSRCode = {
+  CodeValue: 'MAND-CANAL',
+  CodingSchemeDesignator: DENTAL_CODING_SCHEME,
+  CodeMeaning: 'Mandibular canal',
+};
+const RIGHT: DentalSRCode = {
+  CodeValue: '24028007',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Right',
+};
+const LEFT: DentalSRCode = {
+  CodeValue: '7771000',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Left',
+};
+
+// Segment indices below 11 are free of FDI codes, so the anatomy takes them and every tooth
+// keeps its FDI number as segment index
+const ANATOMY_SEGMENTS: DentalSegmentDefinition[] = [
+  {
+    segmentIndex: 1,
+    label: 'Maxilla',
+    color: [233, 214, 166, 255],
+    category: ANATOMICAL_STRUCTURE,
+    type: MAXILLA,
+  },
+  {
+    segmentIndex: 2,
+    label: 'Mandible',
+    color: [214, 186, 135, 255],
+    category: ANATOMICAL_STRUCTURE,
+    type: MANDIBLE,
+  },
+  {
+    segmentIndex: 3,
+    label: 'Right mandibular canal',
+    color: [255, 221, 0, 255],
+    category: ANATOMICAL_STRUCTURE,
+    type: MANDIBULAR_CANAL,
+    typeModifier: RIGHT,
+    anatomicRegion: MANDIBLE,
+  },
+  {
+    segmentIndex: 4,
+    label: 'Left mandibular canal',
+    color: [255, 170, 0, 255],
+    category: ANATOMICAL_STRUCTURE,
+    type: MANDIBULAR_CANAL,
+    typeModifier: LEFT,
+    anatomicRegion: MANDIBLE,
+  },
+  {
+    segmentIndex: 5,
+    label: 'Right maxillary sinus',
+    color: [110, 190, 255, 255],
+    category: ANATOMICAL_STRUCTURE,
+    type: MAXILLARY_SINUS,
+    typeModifier: RIGHT,
+  },
+  {
+    segmentIndex: 6,
+    label: 'Left maxillary sinus',
+    color: [70, 140, 230, 255],
+    category: ANATOMICAL_STRUCTURE,
+    type: MAXILLARY_SINUS,
+    typeModifier: LEFT,
+  },
+];
+
+// Each quadrant has its own hue; teeth get lighter from the midline to the back
+const QUADRANT_HUES: Record<number, number> = {
+  1: 0,
+  2: 95,
+  3: 200,
+  4: 290,
+  5: 20,
+  6: 115,
+  7: 220,
+  8: 310,
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number): DentalSegmentColor => {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (offset: number) => {
+    const k = (offset + hue / 30) % 12;
+    return Math.round(255 * (lightness - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4), 255];
+};
+
+export const getDentalToothSegmentColor = (tooth: DentalToothDefinition): DentalSegmentColor =>
+  hslToRgb(QUADRANT_HUES[tooth.quadrant], 0.7, 0.35 + tooth.position * 0.05);
+
+/**
+ * The segment index of a tooth: its FDI code, e.g. 36 for Universal 19. Returns null when the
+ * selection is not a known tooth.
+ */
+export const getDentalSegmentIndex = (
+  tooth: DentalToothSelection | null | undefined
+): number | null => {
+  const definition = findTooth(tooth);
+  return definition ? Number(definition.fdi) : null;
+};
+
+const toToothSegment = (
+  tooth: DentalToothDefinition,
+  system: DentalNumberingSystem
+): DentalSegmentDefinition => {
+  const selection = { system: 'FDI' as DentalNumberingSystem, value: tooth.fdi };
+  return {
+    segmentIndex: Number(tooth.fdi),
+    label: `Tooth ${formatToothSelection(selection, system)}`,
+    color: getDentalToothSegmentColor(tooth),
+    tooth: selection,
+    category: ANATOMICAL_STRUCTURE,
+    type: TOOTH,
+    // The tooth number is coded in ISO 3950, the FDI notation
+    typeModifier: getToothFindingSite(selection),
+    anatomicRegion: tooth.arch === 'upper' ? MAXILLA : MANDIBLE,
+  };
+};
+
+/**
+ * The segments of a dental labelmap: jaw bones, mandibular canals and maxillary sinuses, then one
+ * segment per tooth of the dentitions, labelled in `system`.
+ */
+export const getDentalSegmentDefinitions = (
+  system: DentalNumberingSystem = 'FDI',
+  dentitions: Array<'permanent' | 'primary'> = ['permanent']
+): DentalSegmentDefinition[] => [
+  ...ANATOMY_SEGMENTS,
+  ...(dentitions.includes('permanent') ? PERMANENT_TEETH : []).map(tooth =>
+    toToothSegment(tooth, system)
+  ),
+  ...(dentitions.includes('primary') ? PRIMARY_TEETH : []).map(tooth =>
+    toToothSegment(tooth, system)
+  ),
+];
+
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : value ? [value] : []);
+
+/**
+ * Replaces the generic tissue codes of a generated DICOM SEG with the anatomic codes of the
+ * dental segments: the category, the property type with its modifier (the side, or the ISO 3950
+ * tooth number) and the jaw as anatomic region. Segments without a definition are left as is.
+ */
+export const applyDentalSegmentCodes = (dataset: any, definitions: DentalSegmentDefinition[]) => {
+  toArray(dataset?.SegmentSequence).forEach(segment => {
+    const definition = definitions.find(
+      candidate => candidate.segmentIndex === Number(segment.SegmentNumber)
+    );
+    if (!definition) {
+      return;
+    }
+
+    segment.SegmentedPropertyCategoryCodeSequence = { ...definition.category };
+    segment.SegmentedPropertyTypeCodeSequence = definition.typeModifier
+      ? {
+          ...definition.type,
+          SegmentedPropertyTypeModifierCodeSequence: { ...definition.typeModifier },
+        }
+      : { ...definition.type };
+    if (definition.anatomicRegion) {
+      segment.AnatomicRegionSequence = { ...definition.anatomicRegion };
+    }
+  });
+
+  return dataset;
+};
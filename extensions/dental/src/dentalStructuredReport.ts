@@ -0,0 +1,323 @@
+import type { DentalNumberingSystem, DentalToothSelection } from './dentalMeasurementsManager';
+import {
+  findTooth,
+  formatToothSelection,
+  getToothLabel,
+  normalizeNumberingSystem,
+} from './dentalTeeth';
+import { DentalFinding, DENTAL_TOOTH_SURFACES, getFindingCondition } from './dentalFindings';
+import { getConfirmedDentalTooth } from './dentalToothSuggestion';
+
+export const SR_MEASUREMENT_HYDRATION_CUSTOMIZATION_ID = 'onSRMeasurementHydration';
+
+export type DentalSRCode = {
+  CodeValue: string;
+  CodingSchemeDesignator: string;
+  CodeMeaning: string;
+};
+
+// Private coding scheme for the dental presets, conditions and surfaces without a standard code
+export const DENTAL_CODING_SCHEME = '99OHIFDENTAL';
+
+// FDI is ISO 3950; the Universal and Palmer notations have no registered scheme
+const TOOTH_CODING_SCHEMES: Record<DentalNumberingSystem, string> = {
+  FDI: 'ISO3950',
+  UNIVERSAL: '99UNIVERSAL',
+  PALMER: '99PALMER',
+};
+
+// Code values are limited to 16 characters, so presets and conditions get short codes
+const PRESET_CODES: Record<string, string> = {
+  'periapical-length': 'PA-LENGTH',
+  'canal-angle': 'CANAL-ANGLE',
+  'crown-width': 'CROWN-WIDTH',
+  'crown-length': 'CROWN-LENGTH',
+  'root-length': 'ROOT-LENGTH',
+  'cej-crest': 'CEJ-CREST',
+  implant: 'IMPLANT',
+  'mandibular-canal': 'MAND-CANAL',
+};
+
+const CONDITION_CODES: Record<string, string> = {
+  caries: 'CARIES',
+  'periapical-lesion': 'PA-LESION',
+  restoration: 'RESTORATION',
+  missing: 'MISSING',
+  implant: 'IMPLANT-PRESENT',
+  'root-canal-treated': 'RCT',
+};
+
+const SEVERITY_CODES: Record<string, DentalSRCode> = {
+  mild: { CodeValue: '255604002', CodingSchemeDesignator: 'SCT', CodeMeaning: 'Mild' },
+  moderate: { CodeValue: '6736007', CodingSchemeDesignator: 'SCT', CodeMeaning: 'Moderate' },
+  severe: { CodeValue: '24484000', CodingSchemeDesignator: 'SCT', CodeMeaning: 'Severe' },
+};
+
+const FINDING: DentalSRCode = {
+  CodeValue: '121071',
+  CodingSchemeDesignator: 'DCM',
+  CodeMeaning: 'Finding',
+};
+const FINDING_SITE: DentalSRCode = {
+  CodeValue: '363698007',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Finding Site',
+};
+const TOPOGRAPHICAL_MODIFIER: DentalSRCode = {
+  CodeValue: '106233006',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Topographical modifier',
+};
+const SEVERITY: DentalSRCode = {
+  CodeValue: '246112005',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Severity',
+};
+const PROCEDURE: DentalSRCode = {
+  CodeValue: '71388002',
+  CodingSchemeDesignator: 'SCT',
+  CodeMeaning: 'Procedure',
+};
+// Finding sites written by older versions of the adapters use the SNOMED RT code
+const FINDING_SITE_CODE_VALUES = [FINDING_SITE.CodeValue, 'G-C0E3'];
+const MEASUREMENT_GROUP_CODE_VALUE = '125007';
+const QUALITATIVE_EVALUATIONS: DentalSRCode = {
+  CodeValue: 'C0034375',
+  CodingSchemeDesignator: 'UMLS',
+  CodeMeaning: 'Qualitative Evaluations',
+};
+
+export type DentalSRObservation = {
+  tooth: DentalToothSelection;
+  presetId: string;
+  value: number;
+  unit?: string;
+  trackingUID?: string;
+};
+
+const findKey = (codes: Record<string, string>, codeValue: string) =>
+  Object.keys(codes).find(key => codes[key] === codeValue);
+
+// Naturalized datasets hold a sequence with a single item as that item
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : value ? [value] : []);
+
+const getConceptNameCodeValue = (item: any) => toArray(item?.ConceptNameCodeSequence)[0]?.CodeValue;
+
+const codeItem = (
+  relationshipType: string,
+  conceptName: DentalSRCode,
+  code: DentalSRCode,
+  children: any[] = []
+) => ({
+  RelationshipType: relationshipType,
+  ValueType: 'CODE',
+  ConceptNameCodeSequence: [conceptName],
+  ConceptCodeSequence: [code],
+  ...(children.length ? { ContentSequence: children } : {}),
+});
+
+/**
+ * The tooth as a finding site, coded in the numbering system it was tagged with, e.g. ISO 3950
+ * code 11 for FDI 11. Returns null when the selection is not a known tooth.
+ */
+export const getToothFindingSite = (
+  tooth: DentalToothSelection | null | undefined
+): DentalSRCode | null => {
+  const definition = findTooth(tooth);
+  if (!definition) {
+    return null;
+  }
+
+  const system = normalizeNumberingSystem(tooth.system);
+  const value = getToothLabel(definition, system);
+  return {
+    CodeValue: value,
+    CodingSchemeDesignator: TOOTH_CODING_SCHEMES[system],
+    CodeMeaning: `Tooth ${formatToothSelection({ system, value })}`,
+  };
+};
+
+/**
+ * Reads a tooth finding site back into a selection in its original numbering system.
+ */
+export const getToothFromFindingSite = (
+  code: Partial<DentalSRCode> | null | undefined
+): DentalToothSelection | null => {
+  const system = Object.keys(TOOTH_CODING_SCHEMES).find(
+    key => TOOTH_CODING_SCHEMES[key] === code?.CodingSchemeDesignator
+  ) as DentalNumberingSystem | undefined;
+  if (!system || !code.CodeValue) {
+    return null;
+  }
+
+  const selection = { system, value: `${code.CodeValue}`.trim().toUpperCase() };
+  return findTooth(selection) ? selection : null;
+};
+
+/**
+ * The preset a measurement was taken with, recorded as the finding of its measurement group.
+ */
+export const getPresetFindingCode = (
+  presetId: string,
+  presetLabel?: string
+): DentalSRCode | null =>
+  PRESET_CODES[presetId]
+    ? {
+        CodeValue: PRESET_CODES[presetId],
+        CodingSchemeDesignator: DENTAL_CODING_SCHEME,
+        CodeMeaning: presetLabel || presetId,
+      }
+    : null;
+
+/**
+ * Adds the dental finding and tooth finding site to a measurement from the measurement service,
+ * so that the SR measurement group carries them alongside the label. A suggested tooth is only
+ * coded once confirmed.
+ */
+export const toDentalSRMeasurement = (measurement: any) => {
+  const { dentalPresetId, dentalPresetLabel } = measurement?.metadata ?? {};
+  const finding = dentalPresetId ? getPresetFindingCode(dentalPresetId, dentalPresetLabel) : null;
+  const toothSite = getToothFindingSite(getConfirmedDentalTooth(measurement));
+
+  return {
+    ...measurement,
+    finding: finding ?? measurement.finding,
+    findingSites: [...(measurement.findingSites ?? []), ...(toothSite ? [toothSite] : [])],
+  };
+};
+
+/**
+ * Restores the dental metadata of a measurement re-loaded from an SR: the tooth from its finding
+ * sites and the preset from its finding. Codes from other schemes are ignored.
+ */
+export const getDentalMetadataFromCodes = (
+  finding: Partial<DentalSRCode> | null | undefined,
+  findingSites: Array<Partial<DentalSRCode>> | null | undefined
+) => {
+  const dentalTooth = (findingSites ?? []).map(getToothFromFindingSite).find(Boolean);
+  const dentalPresetId =
+    finding?.CodingSchemeDesignator === DENTAL_CODING_SCHEME
+      ? findKey(PRESET_CODES, finding.CodeValue)
+      : undefined;
+
+  return {
+    ...(dentalTooth ? { dentalTooth } : {}),
+    ...(dentalPresetId ? { dentalPresetId } : {}),
+  };
+};
+
+/**
+ * The code of a finding's condition: its SNOMED CT code when one was recorded, otherwise the
+ * private code of the condition.
+ */
+export const getConditionCode = (finding: DentalFinding): DentalSRCode => {
+  const label = getFindingCondition(finding.condition)?.label ?? finding.condition;
+  return finding.codes?.snomedCT
+    ? { CodeValue: finding.codes.snomedCT, CodingSchemeDesignator: 'SCT', CodeMeaning: label }
+    : {
+        CodeValue: CONDITION_CODES[finding.condition],
+        CodingSchemeDesignator: DENTAL_CODING_SCHEME,
+        CodeMeaning: label,
+      };
+};
+
+/**
+ * Builds the "Qualitative Evaluations" container of a TID 1500 report from the coded findings on
+ * each tooth: one Finding per condition, with the tooth as finding site, the surfaces as
+ * topographical modifiers of the site, the severity and the CDT procedure code. Returns null
+ * when there are no findings.
+ */
+export const createQualitativeEvaluations = (
+  toothFindings: Array<{ tooth: DentalToothSelection; findings: DentalFinding[] }>
+) => {
+  const evaluations = toothFindings.flatMap(({ tooth, findings }) => {
+    const toothSite = getToothFindingSite(tooth);
+    if (!toothSite) {
+      return [];
+    }
+
+    return findings.map(finding => {
+      const surfaces = DENTAL_TOOTH_SURFACES.filter(({ code }) =>
+        finding.surfaces?.includes(code)
+      ).map(({ code, label }) =>
+        codeItem('HAS CONCEPT MOD', TOPOGRAPHICAL_MODIFIER, {
+          CodeValue: code,
+          CodingSchemeDesignator: DENTAL_CODING_SCHEME,
+          CodeMeaning: label,
+        })
+      );
+
+      return codeItem('CONTAINS', FINDING, getConditionCode(finding), [
+        codeItem('HAS CONCEPT MOD', FINDING_SITE, toothSite, surfaces),
+        ...(finding.severity
+          ? [codeItem('HAS PROPERTIES', SEVERITY, SEVERITY_CODES[finding.severity])]
+          : []),
+        ...(finding.codes?.cdt
+          ? [
+              codeItem('HAS PROPERTIES', PROCEDURE, {
+                CodeValue: finding.codes.cdt,
+                CodingSchemeDesignator: 'CDT',
+                CodeMeaning: `CDT ${finding.codes.cdt}`,
+              }),
+            ]
+          : []),
+      ]);
+    });
+  });
+
+  if (!evaluations.length) {
+    return null;
+  }
+
+  return {
+    RelationshipType: 'CONTAINS',
+    ValueType: 'CONTAINER',
+    ConceptNameCodeSequence: [QUALITATIVE_EVALUATIONS],
+    ContinuityOfContent: 'SEPARATE',
+    ContentSequence: evaluations,
+  };
+};
+
+/**
+ * Reads the dental measurements back from the content of an SR: every measurement group with a
+ * dental preset as its finding and a tooth as finding site gives its first numeric value. Used
+ * for reports of prior studies, whose measurements are not loaded into the viewer.
+ */
+export const getDentalSRObservations = (contentSequence: any): DentalSRObservation[] => {
+  const observations: DentalSRObservation[] = [];
+
+  const visit = (items: any) =>
+    toArray(items).forEach(item => {
+      if (getConceptNameCodeValue(item) !== MEASUREMENT_GROUP_CODE_VALUE) {
+        visit(item.ContentSequence);
+        return;
+      }
+
+      const children = toArray(item.ContentSequence);
+      const getCodes = (codeValues: string[]) =>
+        children
+          .filter(child => codeValues.includes(getConceptNameCodeValue(child)))
+          .map(child => toArray(child.ConceptCodeSequence)[0]);
+      const { dentalTooth, dentalPresetId } = getDentalMetadataFromCodes(
+        getCodes([FINDING.CodeValue])[0],
+        getCodes(FINDING_SITE_CODE_VALUES)
+      );
+      const measuredValue = children
+        .filter(child => child.ValueType === 'NUM')
+        .map(child => toArray(child.MeasuredValueSequence)[0])
+        .find(measured => Number.isFinite(parseFloat(measured?.NumericValue)));
+
+      if (dentalTooth && dentalPresetId && measuredValue) {
+        observations.push({
+          tooth: dentalTooth,
+          presetId: dentalPresetId,
+          value: parseFloat(measuredValue.NumericValue),
+          unit: toArray(measuredValue.MeasurementUnitsCodeSequence)[0]?.CodeValue,
+          trackingUID: children.find(child => child.ValueType === 'UIDREF')?.UID,
+        });
+      }
+    });
+
+  visit(contentSequence);
+  return observations;
+};
@@ -0,0 +1,242 @@
+import type { DentalNumberingSystem, DentalToothSelection } from './dentalMeasurementsManager';
+
+export type DentalArch = 'upper' | 'lower';
+export type DentalDentition = 'permanent' | 'primary';
+export type DentalToothType = 'incisor' | 'canine' | 'premolar' | 'molar';
+
+export type DentalToothDefinition = {
+  fdi: string;
+  universal: string;
+  palmer: string;
+  quadrant: number;
+  position: number;
+  arch: DentalArch;
+  dentition: DentalDentition;
+  type: DentalToothType;
+};
+
+const PERMANENT_TYPES: DentalToothType[] = [
+  'incisor',
+  'incisor',
+  'canine',
+  'premolar',
+  'premolar',
+  'molar',
+  'molar',
+  'molar',
+];
+
+const PRIMARY_TYPES: DentalToothType[] = ['incisor', 'incisor', 'canine', 'molar', 'molar'];
+
+const PRIMARY_LETTERS = 'ABCDEFGHIJKLMNOPQRST';
+
+const PALMER_QUADRANTS = ['UR', 'UL', 'LL', 'LR'];
+
+export const DENTAL_NUMBERING_SYSTEMS: Array<{ id: DentalNumberingSystem; label: string }> = [
+  { id: 'FDI', label: 'FDI' },
+  { id: 'UNIVERSAL', label: 'Universal' },
+  { id: 'PALMER', label: 'Palmer' },
+];
+
+// Universal numbering runs clockwise from the upper right third molar (1) to the lower right
+// third molar (32); primary teeth follow the same path with the letters A-T.
+const getUniversalValue = (quadrant: number, position: number): string => {
+  switch (quadrant) {
+    case 1:
+      return `${9 - position}`;
+    case 2:
+      return `${8 + position}`;
+    case 3:
+      return `${25 - position}`;
+    case 4:
+      return `${24 + position}`;
+    case 5:
+      return PRIMARY_LETTERS[5 - position];
+    case 6:
+      return PRIMARY_LETTERS[4 + position];
+    case 7:
+      return PRIMARY_LETTERS[15 - position];
+    case 8:
+      return PRIMARY_LETTERS[14 + position];
+    default:
+      return '';
+  }
+};
+
+// Palmer notation is written here as the quadrant (UR, UL, LL, LR) followed by the tooth
+// position, 1-8 for permanent teeth and A-E for primary teeth, e.g. UR1 or LLD.
+const getPalmerValue = (quadrant: number, position: number): string => {
+  const quadrantCode = PALMER_QUADRANTS[(quadrant - 1) % 4];
+  return quadrant > 4
+    ? `${quadrantCode}${PRIMARY_LETTERS[position - 1]}`
+    : `${quadrantCode}${position}`;
+};
+
+const buildQuadrant = (quadrant: number): DentalToothDefinition[] => {
+  const dentition: DentalDentition = quadrant > 4 ? 'primary' : 'permanent';
+  const types = dentition === 'primary' ? PRIMARY_TYPES : PERMANENT_TYPES;
+  const arch: DentalArch = quadrant % 4 === 1 || quadrant % 4 === 2 ? 'upper' : 'lower';
+
+  return types.map((type, index) => {
+    const position = index + 1;
+    return {
+      fdi: `${quadrant}${position}`,
+      universal: getUniversalValue(quadrant, position),
+      palmer: getPalmerValue(quadrant, position),
+      quadrant,
+      position,
+      arch,
+      dentition,
+      type,
+    };
+  });
+};
+
+export const PERMANENT_TEETH: DentalToothDefinition[] = [1, 2, 3, 4].flatMap(buildQuadrant);
+export const PRIMARY_TEETH: DentalToothDefinition[] = [5, 6, 7, 8].flatMap(buildQuadrant);
+
+const ALL_TEETH = [...PERMANENT_TEETH, ...PRIMARY_TEETH];
+
+const byQuadrant = (teeth: DentalToothDefinition[], quadrant: number) =>
+  teeth.filter(tooth => tooth.quadrant === quadrant);
+
+/**
+ * Returns the teeth in chart order, as seen when facing the patient: the patient's right
+ * side is drawn on the left of each row.
+ */
+export const getOdontogramRows = (
+  dentition: DentalDentition
+): { upper: DentalToothDefinition[]; lower: DentalToothDefinition[] } => {
+  const teeth = dentition === 'primary' ? PRIMARY_TEETH : PERMANENT_TEETH;
+  const [upperRight, upperLeft, lowerLeft, lowerRight] =
+    dentition === 'primary' ? [5, 6, 7, 8] : [1, 2, 3, 4];
+
+  return {
+    upper: [...byQuadrant(teeth, upperRight).reverse(), ...byQuadrant(teeth, upperLeft)],
+    lower: [...byQuadrant(teeth, lowerRight).reverse(), ...byQuadrant(teeth, lowerLeft)],
+  };
+};
+
+/**
+ * Maps the system names used across the extension and the backend ('UNIVERSAL', 'Universal',
+ * 'palmer', ...) onto a `DentalNumberingSystem`.
+ */
+export const normalizeNumberingSystem = (
+  system: string | null | undefined
+): DentalNumberingSystem | null => {
+  const normalized = `${system ?? ''}`.trim().toUpperCase();
+  return DENTAL_NUMBERING_SYSTEMS.some(({ id }) => id === normalized)
+    ? (normalized as DentalNumberingSystem)
+    : null;
+};
+
+export const getNumberingSystemLabel = (system: string) =>
+  DENTAL_NUMBERING_SYSTEMS.find(({ id }) => id === normalizeNumberingSystem(system))?.label ??
+  system;
+
+export const getToothLabel = (tooth: DentalToothDefinition, system: DentalNumberingSystem) => {
+  switch (system) {
+    case 'UNIVERSAL':
+      return tooth.universal;
+    case 'PALMER':
+      return tooth.palmer;
+    case 'FDI':
+    default:
+      return tooth.fdi;
+  }
+};
+
+export const findTooth = (
+  selection: DentalToothSelection | null | undefined
+): DentalToothDefinition | undefined => {
+  const system = normalizeNumberingSystem(selection?.system);
+  if (!system || !selection?.value) {
+    return undefined;
+  }
+
+  const value = `${selection.value}`.trim().toUpperCase();
+  return ALL_TEETH.find(tooth => getToothLabel(tooth, system) === value);
+};
+
+/**
+ * Canonical key for a tooth regardless of the numbering system it was tagged with, so that
+ * references recorded in different systems are counted against the same tooth.
+ */
+export const getToothKey = (selection: DentalToothSelection | null | undefined): string | null =>
+  findTooth(selection)?.fdi ?? null;
+
+/**
+ * Converts a selection between numbering systems, e.g. FDI 11 to Universal 8 or Palmer UR1.
+ * Returns null when the selection does not identify a known tooth.
+ */
+export const convertToothSelection = (
+  selection: DentalToothSelection | null | undefined,
+  system: DentalNumberingSystem
+): DentalToothSelection | null => {
+  const tooth = findTooth(selection);
+  return tooth ? { system, value: getToothLabel(tooth, system) } : null;
+};
+
+/**
+ * Formats a selection for display, converting it into `displaySystem` when given, e.g.
+ * "Universal 8" for a tooth tagged as FDI 11.
+ */
+export const formatToothSelection = (
+  selection: DentalToothSelection | null | undefined,
+  displaySystem?: DentalNumberingSystem
+): string => {
+  if (!selection) {
+    return '';
+  }
+
+  const converted = displaySystem ? convertToothSelection(selection, displaySystem) : null;
+  const { system, value } = converted ?? selection;
+  return `${getNumberingSystemLabel(system)} ${value}`;
+};
+
+/**
+ * Lists the tooth values of a dentition in the numbering order of the given system.
+ */
+export const getToothValues = (
+  system: DentalNumberingSystem,
+  dentition: DentalDentition
+): string[] => {
+  const teeth = dentition === 'primary' ? PRIMARY_TEETH : PERMANENT_TEETH;
+  const values = teeth.map(tooth => getToothLabel(tooth, system));
+
+  if (system === 'UNIVERSAL') {
+    return values.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+
+  return values;
+};
+
+/**
+ * Parses labels such as "FDI 11", "UNIVERSAL 8" or "PALMER UR1" back into a selection.
+ */
+export const parseToothLabel = (label: string | null | undefined): DentalToothSelection | null => {
+  const match = `${label ?? ''}`.trim().match(/^(FDI|UNIVERSAL|PALMER)[\s-]+([0-9A-Z]+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    system: normalizeNumberingSystem(match[1]),
+    value: match[2].toUpperCase(),
+  };
+};
+
+/**
+ * Extracts the tooth from a measurement label suffix such as "PA length (Universal 8)".
+ */
+export const parseMeasurementLabelTooth = (
+  label: string | null | undefined
+): DentalToothSelection | null => {
+  const match = `${label ?? ''}`.match(/\((FDI|Universal|Palmer) ([0-9A-Z]+)\)/i);
+  if (!match) {
+    return null;
+  }
+
+  const selection = { system: normalizeNumberingSystem(match[1]), value: match[2].toUpperCase() };
+  return findTooth(selection) ? selection : null;
+};
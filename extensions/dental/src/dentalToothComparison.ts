@@ -0,0 +1,221 @@
+import type { DentalMeasurementPreset } from './dentalMeasurementsManager';
+import { DENTAL_FINDING_SEVERITIES, DentalFinding } from './dentalFindings';
+
+export type DentalObservationSource = 'viewer' | 'sr' | 'backend';
+
+/**
+ * A study of the patient, current or prior. As with the tracked study of measurement tracking,
+ * the current study is the one being read and the others are compared against it.
+ */
+export type DentalTimepoint = {
+  studyInstanceUID: string;
+  // DICOM date (YYYYMMDD), missing for studies without one
+  studyDate?: string;
+  description?: string;
+  isCurrent?: boolean;
+};
+
+/**
+ * A value of a preset measured on the compared tooth in one of the studies.
+ */
+export type DentalToothObservation = {
+  studyInstanceUID: string;
+  presetId: string;
+  value: number;
+  source: DentalObservationSource;
+  createdAt?: number;
+};
+
+export type DentalTrendPoint = {
+  studyInstanceUID: string;
+  studyDate?: string;
+  value: number;
+  source: DentalObservationSource | 'derived';
+  // Change from the previous study with a value of the preset
+  change?: number;
+  isSignificant: boolean;
+};
+
+export type DentalToothTrend = {
+  preset: DentalMeasurementPreset;
+  points: DentalTrendPoint[];
+  // The latest value changed significantly from the one before
+  isSignificant: boolean;
+};
+
+export type DentalFindingsTimepoint = {
+  studyInstanceUID: string;
+  studyDate?: string;
+  findings: DentalFinding[];
+  // Compared with the previous study the tooth was annotated in
+  added: DentalFinding[];
+  resolved: DentalFinding[];
+  worsened: DentalFinding[];
+};
+
+/**
+ * Smallest change between two studies flagged as significant, in the unit of the preset. A
+ * 1 mm change in bone level or root length is beyond the error of radiographic measurement.
+ * Presets without a threshold are flagged from a relative change of 20%.
+ */
+export const SIGNIFICANT_TOOTH_CHANGES: Record<string, number> = {
+  'periapical-length': 1,
+  'canal-angle': 5,
+  'crown-width': 1,
+  'crown-length': 1,
+  'root-length': 1,
+  'cej-crest': 1,
+  'bone-loss': 10,
+  'crown-root-ratio': 0.2,
+};
+
+const SIGNIFICANT_RELATIVE_CHANGE = 0.2;
+
+// Measurements in the viewer are the most recent edits; synced copies may lag behind
+const SOURCE_PRIORITY: DentalObservationSource[] = ['viewer', 'sr', 'backend'];
+
+export const isSignificantToothChange = (presetId: string, previous: number, value: number) => {
+  const change = Math.abs(value - previous);
+  const threshold = SIGNIFICANT_TOOTH_CHANGES[presetId];
+  if (threshold !== undefined) {
+    return change >= threshold;
+  }
+  return previous !== 0 && change / Math.abs(previous) >= SIGNIFICANT_RELATIVE_CHANGE;
+};
+
+/**
+ * Orders the studies from the oldest to the most recent, keeping the first of any duplicates.
+ * Studies without a date are listed last.
+ */
+export const sortTimepoints = (timepoints: DentalTimepoint[]): DentalTimepoint[] => {
+  const unique = timepoints.filter(
+    (timepoint, index) =>
+      timepoint?.studyInstanceUID &&
+      timepoints.findIndex(other => other?.studyInstanceUID === timepoint.studyInstanceUID) ===
+        index
+  );
+
+  return unique
+    .map((timepoint, index) => ({ timepoint, index }))
+    .sort((a, b) => {
+      const dateA = a.timepoint.studyDate || '99999999';
+      const dateB = b.timepoint.studyDate || '99999999';
+      return dateA.localeCompare(dateB) || a.index - b.index;
+    })
+    .map(({ timepoint }) => timepoint);
+};
+
+const pickObservation = (a: DentalToothObservation, b: DentalToothObservation) => {
+  const priority = SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source);
+  if (priority !== 0) {
+    return priority < 0 ? a : b;
+  }
+  return (b.createdAt ?? 0) >= (a.createdAt ?? 0) ? b : a;
+};
+
+/**
+ * Charts each preset measured on the tooth across the studies, in study order. A study with
+ * several values of a preset contributes the one from the preferred source, then the latest.
+ * Derived presets are computed per study from the values of that study.
+ */
+export const getToothTrends = (
+  timepoints: DentalTimepoint[],
+  observations: DentalToothObservation[],
+  presets: DentalMeasurementPreset[]
+): DentalToothTrend[] => {
+  const valuesByStudy = new Map<string, Map<string, DentalToothObservation>>();
+  observations.forEach(observation => {
+    if (!Number.isFinite(observation.value)) {
+      return;
+    }
+    const values = valuesByStudy.get(observation.studyInstanceUID) ?? new Map();
+    const existing = values.get(observation.presetId);
+    values.set(
+      observation.presetId,
+      existing ? pickObservation(existing, observation) : observation
+    );
+    valuesByStudy.set(observation.studyInstanceUID, values);
+  });
+
+  return presets
+    .map(preset => {
+      const points: DentalTrendPoint[] = [];
+
+      timepoints.forEach(({ studyInstanceUID, studyDate }) => {
+        const values = valuesByStudy.get(studyInstanceUID);
+        const observation = values?.get(preset.id);
+        let value = observation?.value;
+        let source: DentalTrendPoint['source'] = observation?.source;
+
+        if (value === undefined && preset.derivedFrom?.every(id => values?.has(id))) {
+          value = preset.compute?.(
+            Object.fromEntries(preset.derivedFrom.map(id => [id, values.get(id).value]))
+          );
+          source = 'derived';
+        }
+        if (!Number.isFinite(value)) {
+          return;
+        }
+
+        const previous = points[points.length - 1];
+        points.push({
+          studyInstanceUID,
+          studyDate,
+          value,
+          source,
+          change: previous ? value - previous.value : undefined,
+          isSignificant: previous
+            ? isSignificantToothChange(preset.id, previous.value, value)
+            : false,
+        });
+      });
+
+      return {
+        preset,
+        points,
+        isSignificant: Boolean(points[points.length - 1]?.isSignificant),
+      };
+    })
+    .filter(trend => trend.points.length > 0);
+};
+
+const getSeverityRank = (finding: DentalFinding) =>
+  DENTAL_FINDING_SEVERITIES.indexOf(finding.severity);
+
+/**
+ * Lists the coded findings of the tooth per study it was annotated in, with the conditions that
+ * are new, no longer recorded or more severe than at the previous of those studies.
+ */
+export const getToothFindingsHistory = (
+  timepoints: DentalTimepoint[],
+  findingsByStudy: Record<string, DentalFinding[]>
+): DentalFindingsTimepoint[] => {
+  const history: DentalFindingsTimepoint[] = [];
+
+  timepoints.forEach(({ studyInstanceUID, studyDate }) => {
+    const findings = findingsByStudy[studyInstanceUID];
+    if (!findings) {
+      return;
+    }
+
+    const previous = history[history.length - 1]?.findings;
+    const findPrevious = (finding: DentalFinding) =>
+      previous?.find(other => other.condition === finding.condition);
+
+    history.push({
+      studyInstanceUID,
+      studyDate,
+      findings,
+      added: previous ? findings.filter(finding => !findPrevious(finding)) : [],
+      resolved: previous
+        ? previous.filter(finding => !findings.some(other => other.condition === finding.condition))
+        : [],
+      worsened: findings.filter(finding => {
+        const prior = findPrevious(finding);
+        return prior && getSeverityRank(finding) > getSeverityRank(prior);
+      }),
+    });
+  });
+
+  return history;
+};
@@ -0,0 +1,186 @@
+import type { DentalToothSelection } from './dentalMeasurementsManager';
+import { FMX_MOUNT_SLOTS, FmxRegion, getFmxSlotForImage } from './dentalFmxMount';
+import { findTooth } from './dentalTeeth';
+
+export type DentalToothSuggestionSource = 'segmentation' | 'panoramic-position' | 'view-code';
+
+/**
+ * A tooth proposed for a new measurement, with how sure the suggestion is (0 to 1) and where it
+ * comes from. It is kept in the `dentalToothSuggestion` metadata until the user confirms it.
+ */
+export type DentalToothSuggestion = {
+  tooth: DentalToothSelection;
+  confidence: number;
+  source: DentalToothSuggestionSource;
+};
+
+/**
+ * What is known about where a new measurement lies: the image it is drawn on, with its DICOM
+ * attributes, its position as fractions of the image width and height from the top left, and
+ * the segment of a dental segmentation under it.
+ */
+export type DentalToothSuggestionInput = {
+  image?: any;
+  position?: { x: number; y: number };
+  segmentIndex?: number;
+};
+
+export const TOOTH_SUGGESTION_SOURCE_LABELS: Record<DentalToothSuggestionSource, string> = {
+  segmentation: 'tooth segmentation',
+  'panoramic-position': 'position on the panoramic',
+  'view-code': 'intraoral view',
+};
+
+// Mean mesiodistal crown widths in mm, from the central incisor to the third molar
+const TOOTH_WIDTHS = [8.5, 6.5, 7.5, 7, 6.5, 10, 9, 8.5];
+const TOTAL_TOOTH_WIDTH = TOOTH_WIDTHS.reduce((sum, width) => sum + width, 0);
+
+// Share of a panoramic width taken by the teeth on each side of the midline; the rami and
+// condyles lie outside it
+const PANORAMIC_ARCH_HALF_WIDTH = 0.34;
+// Where the upper and lower teeth meet, and how far from it the arch is certain
+const PANORAMIC_OCCLUSAL_PLANE = 0.5;
+const PANORAMIC_ARCH_MARGIN = 0.15;
+
+// Teeth shown by each region of an intraoral view, from the midline outward
+const VIEW_REGION_POSITIONS: Record<FmxRegion, number[]> = {
+  incisor: [1, 2],
+  canine: [3],
+  premolar: [4, 5],
+  molar: [6, 7, 8],
+};
+
+const roundConfidence = (confidence: number) => Math.round(confidence * 100) / 100;
+
+const toPermanentTooth = (
+  upper: boolean,
+  patientRight: boolean,
+  position: number
+): DentalToothSelection => {
+  const quadrant = upper ? (patientRight ? 1 : 2) : patientRight ? 4 : 3;
+  return { system: 'FDI', value: `${quadrant}${position}` };
+};
+
+const isPosition = (position: { x: number; y: number } | undefined) =>
+  Number.isFinite(position?.x) &&
+  Number.isFinite(position?.y) &&
+  position.x >= 0 &&
+  position.x <= 1 &&
+  position.y >= 0 &&
+  position.y <= 1;
+
+/**
+ * The tooth of a measurement once the user confirmed it: a suggested tooth is only shown until
+ * then, and left out of the values derived per tooth and of the exports.
+ */
+export const getConfirmedDentalTooth = (measurement: any): DentalToothSelection | undefined =>
+  measurement?.metadata?.dentalToothSuggestion ? undefined : measurement?.metadata?.dentalTooth;
+
+/**
+ * The tooth of a dental segmentation segment: tooth segments take their FDI number as index.
+ * Painted teeth are trusted most, so the confidence is high.
+ */
+export const suggestToothFromSegment = (segmentIndex: number): DentalToothSuggestion | null => {
+  const tooth = findTooth({ system: 'FDI', value: `${segmentIndex}` });
+  return tooth
+    ? { tooth: { system: 'FDI', value: tooth.fdi }, confidence: 0.95, source: 'segmentation' }
+    : null;
+};
+
+/**
+ * The permanent tooth at a position on a panoramic radiograph, viewed from the front with the
+ * patient's right on the left: the side from the midline, the arch from the occlusal plane and
+ * the tooth from the crown widths along the arch. The confidence drops near tooth boundaries and
+ * the occlusal plane, and stays under that of the intraoral views as the panoramic magnifies
+ * unevenly. Returns null outside the teeth.
+ */
+export const suggestToothFromPanoramicPosition = (position: {
+  x: number;
+  y: number;
+}): DentalToothSuggestion | null => {
+  const distance = Math.abs(position?.x - 0.5) / PANORAMIC_ARCH_HALF_WIDTH;
+  if (!isPosition(position) || distance > 1) {
+    return null;
+  }
+
+  const along = Math.min(distance, 0.999) * TOTAL_TOOTH_WIDTH;
+  let start = 0;
+  const index = TOOTH_WIDTHS.findIndex(width => {
+    if (along < start + width) {
+      return true;
+    }
+    start += width;
+    return false;
+  });
+
+  // 1 in the middle of the tooth, 0 on its edges
+  const centred = 1 - Math.abs(((along - start) / TOOTH_WIDTHS[index]) * 2 - 1);
+  const archDistance = Math.min(
+    Math.abs(position.y - PANORAMIC_OCCLUSAL_PLANE) / PANORAMIC_ARCH_MARGIN,
+    1
+  );
+
+  return {
+    tooth: toPermanentTooth(position.y < PANORAMIC_OCCLUSAL_PLANE, position.x < 0.5, index + 1),
+    confidence: roundConfidence(0.3 + 0.15 * centred + 0.15 * archDistance),
+    source: 'panoramic-position',
+  };
+};
+
+/**
+ * The permanent tooth at a position on an intraoral image, from its view codes and laterality
+ * as for the FMX mount: the arch from the view (from the position on bitewings, maxillary teeth
+ * on top), the side from the laterality (from the position on anterior views), and the tooth
+ * among those of the region from the position, the midline side being mesial. The confidence
+ * drops with the number of teeth the region shows. Returns null for images that cannot be placed.
+ */
+export const suggestToothFromViewCode = (
+  image: any,
+  position: { x: number; y: number }
+): DentalToothSuggestion | null => {
+  const slot = FMX_MOUNT_SLOTS.find(mountSlot => mountSlot.id === getFmxSlotForImage(image));
+  if (!slot || !isPosition(position)) {
+    return null;
+  }
+
+  const upper = slot.row === 'bitewing' ? position.y < 0.5 : slot.row === 'maxillary';
+  // Intraoral images are mounted as seen from the front, with the patient's right on the left
+  const patientRight = slot.side ? slot.side === 'R' : position.x < 0.5;
+  const positions = VIEW_REGION_POSITIONS[slot.region];
+  const fromMidline = slot.side
+    ? patientRight
+      ? 1 - position.x
+      : position.x
+    : Math.abs(position.x - 0.5) * 2;
+  const index = Math.min(Math.floor(fromMidline * positions.length), positions.length - 1);
+
+  return {
+    tooth: toPermanentTooth(upper, patientRight, positions[index]),
+    confidence: roundConfidence(0.7 - 0.1 * (positions.length - 1)),
+    source: 'view-code',
+  };
+};
+
+/**
+ * Proposes the tooth of a new measurement: the tooth segment under it when the image has a
+ * dental segmentation, otherwise its position on a panoramic radiograph (PX), otherwise the view
+ * codes of an intraoral image. Returns null when none of them places the measurement.
+ */
+export const suggestDentalTooth = ({
+  image,
+  position,
+  segmentIndex,
+}: DentalToothSuggestionInput): DentalToothSuggestion | null => {
+  const fromSegment = segmentIndex > 0 ? suggestToothFromSegment(segmentIndex) : null;
+  if (fromSegment) {
+    return fromSegment;
+  }
+
+  if (!position) {
+    return null;
+  }
+
+  return image?.Modality === 'PX'
+    ? suggestToothFromPanoramicPosition(position)
+    : suggestToothFromViewCode(image, position);
+};
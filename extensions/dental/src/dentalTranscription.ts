@@ -0,0 +1,237 @@
+import type { DentalNumberingSystem, DentalToothSelection } from './dentalMeasurementsManager';
+import { formatToothSelection, getToothValues, normalizeNumberingSystem } from './dentalTeeth';
+
+export const SPEECH_TO_TEXT_CUSTOMIZATION_ID = 'dental.speechToTextProvider';
+
+/**
+ * Words a speech-to-text engine should expect in a dental voice note, for engines that take
+ * phrase or vocabulary boosting.
+ */
+export type DentalVocabularyHints = {
+  numberingSystem: DentalNumberingSystem;
+  teeth: string[];
+  surfaces: string[];
+  conditions: string[];
+  // The above flattened into the phrases to boost, e.g. "tooth 36", "mesial", "caries"
+  phrases: string[];
+};
+
+export type DentalTranscriptionRequest = {
+  vocabulary: DentalVocabularyHints;
+  tooth: DentalToothSelection | null;
+  durationSeconds?: number;
+  language?: string;
+};
+
+export type DentalTranscriptionResult = {
+  text: string;
+  confidence?: number;
+};
+
+/**
+ * Turns a recorded voice note into text. Deployments plug in their engine through the
+ * `dental.speechToTextProvider` customization.
+ */
+export type DentalSpeechToTextProvider = {
+  id: string;
+  label: string;
+  transcribe: (
+    audio: Blob,
+    request: DentalTranscriptionRequest
+  ) => Promise<DentalTranscriptionResult>;
+};
+
+export type DentalTranscriptionDraft = DentalTranscriptionResult & {
+  providerId: string;
+};
+
+export const DENTAL_SURFACES = [
+  { code: 'M', name: 'mesial' },
+  { code: 'O', name: 'occlusal' },
+  { code: 'D', name: 'distal' },
+  { code: 'B', name: 'buccal' },
+  { code: 'L', name: 'lingual' },
+  { code: 'F', name: 'facial' },
+  { code: 'I', name: 'incisal' },
+  { code: 'P', name: 'palatal' },
+];
+
+export const DENTAL_CONDITIONS = [
+  'caries',
+  'secondary caries',
+  'periapical lesion',
+  'periapical radiolucency',
+  'bone loss',
+  'calculus',
+  'fracture',
+  'root resorption',
+  'impacted',
+  'missing',
+  'restoration',
+  'crown',
+  'root canal treatment',
+  'implant',
+  'abscess',
+  'furcation involvement',
+];
+
+const UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const TEENS = [
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+const TENS = ['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+/**
+ * Vocabulary for a voice note on `tooth`, with the tooth numbers of the system it is numbered in.
+ */
+export const getDentalVocabularyHints = (
+  tooth: DentalToothSelection | null
+): DentalVocabularyHints => {
+  const numberingSystem = normalizeNumberingSystem(tooth?.system) ?? 'FDI';
+  const teeth = [
+    ...getToothValues(numberingSystem, 'permanent'),
+    ...getToothValues(numberingSystem, 'primary'),
+  ];
+  const surfaces = DENTAL_SURFACES.map(surface => surface.name);
+
+  return {
+    numberingSystem,
+    teeth,
+    surfaces,
+    conditions: DENTAL_CONDITIONS,
+    phrases: [
+      ...(tooth ? [formatToothSelection(tooth)] : []),
+      ...teeth.map(value => `tooth ${value}`),
+      ...surfaces,
+      ...DENTAL_CONDITIONS,
+    ],
+  };
+};
+
+const parseNumberWords = (words: string[]): { value: string; length: number } | null => {
+  const [first, second] = words.map(word => word.toLowerCase());
+  if (/^\d+$/.test(first ?? '')) {
+    return { value: first, length: 1 };
+  }
+
+  const tens = TENS.indexOf(first);
+  if (tens !== -1) {
+    const unit = UNITS.indexOf(second);
+    return unit > 0
+      ? { value: `${(tens + 2) * 10 + unit}`, length: 2 }
+      : { value: `${(tens + 2) * 10}`, length: 1 };
+  }
+
+  if (TEENS.includes(first)) {
+    return { value: `${TEENS.indexOf(first) + 10}`, length: 1 };
+  }
+
+  return UNITS.includes(first) ? { value: `${UNITS.indexOf(first)}`, length: 1 } : null;
+};
+
+/**
+ * Rewrites spoken tooth numbers as digits: "tooth thirty six" and "tooth three six" become
+ * "tooth 36" in FDI, where each tooth has a two digit number.
+ */
+const normalizeToothNumbers = (text: string, vocabulary: DentalVocabularyHints) =>
+  text.replace(
+    /\b(tooth|teeth|number)((?:[\s,-]+[a-z0-9]+){1,2})/gi,
+    (match, keyword: string, spoken: string) => {
+      const words = spoken.split(/[\s,-]+/).filter(Boolean);
+      const first = parseNumberWords(words);
+      if (!first) {
+        return match;
+      }
+
+      let value = first.value;
+      let length = first.length;
+      const second = length < words.length ? parseNumberWords(words.slice(length)) : null;
+      // FDI numbers are read digit by digit, e.g. "three six"
+      if (
+        vocabulary.numberingSystem === 'FDI' &&
+        value.length === 1 &&
+        second?.value.length === 1 &&
+        vocabulary.teeth.includes(`${value}${second.value}`)
+      ) {
+        value = `${value}${second.value}`;
+        length += second.length;
+      }
+
+      if (!vocabulary.teeth.includes(value)) {
+        return match;
+      }
+
+      return `${keyword} ${value}${words
+        .slice(length)
+        .map(word => ` ${word}`)
+        .join('')}`;
+    }
+  );
+
+const SURFACE_CODES = DENTAL_SURFACES.map(surface => surface.code).join('');
+
+/**
+ * Joins surface codes spelled out letter by letter, e.g. "M O D" or "M.O.D." into "MOD".
+ */
+const normalizeSurfaceCodes = (text: string) =>
+  text.replace(new RegExp(`\\b[${SURFACE_CODES}](?:[ .]+[${SURFACE_CODES}]\\b)+\\.?`, 'g'), match =>
+    match.replace(/[ .]/g, '')
+  );
+
+/**
+ * Tidies a raw transcript for the annotation text: collapses whitespace, writes tooth numbers
+ * as digits and surface codes as one word, and capitalizes the first letter.
+ */
+export const normalizeDentalTranscript = (text: string, vocabulary: DentalVocabularyHints) => {
+  const normalized = normalizeSurfaceCodes(
+    normalizeToothNumbers(`${text ?? ''}`.replace(/\s+/g, ' ').trim(), vocabulary)
+  );
+  return normalized.charAt(0).toUpperCase() + normalized.slice(1);
+};
+
+/**
+ * Transcribes a recorded voice note into a draft for the user to review before it is saved.
+ */
+export const transcribeDentalVoiceNote = async (
+  provider: DentalSpeechToTextProvider,
+  audio: Blob,
+  { tooth, durationSeconds }: { tooth: DentalToothSelection | null; durationSeconds?: number }
+): Promise<DentalTranscriptionDraft> => {
+  const vocabulary = getDentalVocabularyHints(tooth);
+  const result = await provider.transcribe(audio, { vocabulary, tooth, durationSeconds });
+
+  return {
+    ...result,
+    text: normalizeDentalTranscript(result.text, vocabulary),
+    providerId: provider.id,
+  };
+};
+
+/**
+ * Offline stand-in for a speech-to-text engine. It does not recognise speech: it returns the
+ * scripted transcripts in turn, e.g. in tests and demos, and otherwise an empty draft naming
+ * the tooth for the user to complete.
+ */
+export const createStandInSpeechToTextProvider = (
+  transcripts: string[] = []
+): DentalSpeechToTextProvider => {
+  const queue = [...transcripts];
+
+  return {
+    id: 'stand-in',
+    label: 'Offline stand-in',
+    transcribe: async (_audio, { tooth }) =>
+      queue.length
+        ? { text: queue.shift(), confidence: 1 }
+        : { text: tooth ? `${formatToothSelection(tooth)}: ` : '', confidence: 0 },
+  };
+};
@@ -0,0 +1,342 @@
+import { DentalCalibration } from './dentalCalibration';
+import type { DentalToothSelection } from './dentalMeasurementsManager';
+import { toMeasurementRecord } from './dentalMeasurementsSync';
+import { getNumberingSystemLabel } from './dentalTeeth';
+
+type Point3 = [number, number, number];
+
+export type ViewportCameraState = {
+  position: Point3;
+  focalPoint: Point3;
+  viewUp: Point3;
+  viewPlaneNormal: Point3;
+  parallelScale: number;
+  flipHorizontal?: boolean;
+  flipVertical?: boolean;
+};
+
+export type ViewportState = {
+  viewportId: string;
+  displaySetInstanceUID: string;
+  // Display set UIDs change between sessions, so viewports are restored from their series
+  seriesInstanceUIDs?: string[];
+  viewportType?: string;
+  imageIndex: number;
+  zoom: number;
+  pan: { x: number; y: number };
+  rotation: number;
+  flip: { horizontal: boolean; vertical: boolean };
+  windowLevel?: { width: number; center: number };
+  colormap?: string;
+  invert: boolean;
+  camera?: ViewportCameraState;
+};
+
+export interface ViewerState {
+  viewports: ViewportState[];
+  layout: {
+    numRows: number;
+    numCols: number;
+    activeViewportId: string;
+  };
+  tools: {
+    activeTool: string;
+    // Active primary tool of each tool group
+    toolStates: Record<string, string>;
+  };
+  measurements: Array<{
+    id: string;
+    toolName: string;
+    // The measurement record stored by the measurement sync, with its measurement UID
+    data: any;
+    metadata: {
+      tooth?: string;
+      category?: string;
+      notes?: string;
+    };
+  }>;
+  dental: {
+    // States saved before the system id was stored hold its label, e.g. "Universal"
+    selectedTooth: DentalToothSelection | null;
+    theme: 'standard' | 'dental';
+    hangingProtocol: string;
+    hangingProtocolStageIndex?: number;
+    // Image calibrations keyed by SOPInstanceUID
+    calibrations?: Record<string, DentalCalibration>;
+  };
+  metadata?: any;
+}
+
+type ViewerStateCapture = {
+  services: any;
+  selectedTooth?: DentalToothSelection | null;
+  calibrations?: Record<string, DentalCalibration>;
+  theme?: 'standard' | 'dental';
+};
+
+const toArray = (point): Point3 => Array.from(point ?? [0, 0, 0]) as Point3;
+
+/**
+ * Reads the presentation of a cornerstone viewport: slice, camera, VOI and display properties.
+ * The zoom, pan, rotation and flips are kept for reading; the camera restores them all.
+ */
+export const captureViewportState = (
+  viewportId: string,
+  gridViewport: any,
+  viewport: any,
+  displaySetService: any
+): ViewportState => {
+  const displaySetInstanceUIDs: string[] = gridViewport?.displaySetInstanceUIDs ?? [];
+  const displaySets = displaySetInstanceUIDs
+    .map(displaySetInstanceUID => displaySetService.getDisplaySetByUID(displaySetInstanceUID))
+    .filter(displaySet => displaySet && !displaySet.madeInClient);
+  const camera = viewport?.getCamera?.();
+  const properties = viewport?.getProperties?.() ?? {};
+  const { voiRange } = properties;
+  const [panX = 0, panY = 0] = viewport?.getPan?.() ?? [];
+
+  return {
+    viewportId,
+    displaySetInstanceUID: displaySetInstanceUIDs[0],
+    seriesInstanceUIDs: displaySets.map(displaySet => displaySet.SeriesInstanceUID),
+    viewportType: gridViewport?.viewportOptions?.viewportType ?? 'stack',
+    imageIndex: viewport?.getCurrentImageIdIndex?.() ?? 0,
+    zoom: viewport?.getZoom?.() ?? 1,
+    pan: { x: panX, y: panY },
+    rotation: viewport?.getViewPresentation?.()?.rotation ?? 0,
+    flip: {
+      horizontal: Boolean(camera?.flipHorizontal),
+      vertical: Boolean(camera?.flipVertical),
+    },
+    windowLevel: voiRange
+      ? { width: voiRange.upper - voiRange.lower, center: (voiRange.upper + voiRange.lower) / 2 }
+      : undefined,
+    colormap: properties.colormap?.name,
+    invert: Boolean(properties.invert),
+    camera: camera && {
+      position: toArray(camera.position),
+      focalPoint: toArray(camera.focalPoint),
+      viewUp: toArray(camera.viewUp),
+      viewPlaneNormal: toArray(camera.viewPlaneNormal),
+      parallelScale: camera.parallelScale,
+      flipHorizontal: Boolean(camera.flipHorizontal),
+      flipVertical: Boolean(camera.flipVertical),
+    },
+  };
+};
+
+/**
+ * Captures the viewer from the OHIF services: the hanging protocol and layout, each viewport's
+ * presentation, the active tools, the measurements and the dental selection.
+ */
+export const captureViewerState = ({
+  services,
+  selectedTooth = null,
+  calibrations,
+  theme = 'dental',
+}: ViewerStateCapture): ViewerState => {
+  const {
+    viewportGridService,
+    cornerstoneViewportService,
+    displaySetService,
+    toolGroupService,
+    measurementService,
+    hangingProtocolService,
+  } = services;
+
+  const { layout, activeViewportId, viewports } = viewportGridService.getState();
+  const toolStates: Record<string, string> = Object.fromEntries(
+    (toolGroupService.getToolGroupIds?.() ?? [])
+      .map(toolGroupId => [
+        toolGroupId,
+        toolGroupService.getToolGroup(toolGroupId)?.getActivePrimaryMouseButtonTool?.(),
+      ])
+      .filter(([, toolName]) => toolName)
+  );
+  const activeProtocol = hangingProtocolService?.getActiveProtocol?.();
+
+  return {
+    viewports: Array.from(viewports.entries() as Iterable<[string, any]>)
+      .filter(([, gridViewport]) => gridViewport.displaySetInstanceUIDs?.length)
+      .map(([viewportId, gridViewport]) =>
+        captureViewportState(
+          viewportId,
+          gridViewport,
+          cornerstoneViewportService.getCornerstoneViewport(viewportId),
+          displaySetService
+        )
+      ),
+    layout: {
+      numRows: layout?.numRows ?? 1,
+      numCols: layout?.numCols ?? 1,
+      activeViewportId,
+    },
+    tools: {
+      activeTool:
+        toolGroupService
+          .getToolGroupForViewport?.(activeViewportId)
+          ?.getActivePrimaryMouseButtonTool?.() ?? '',
+      toolStates,
+    },
+    measurements: (measurementService.getMeasurements?.() ?? [])
+      .filter(measurement => measurement.referenceStudyUID && measurement.points?.length)
+      .map(measurement => {
+        const record = toMeasurementRecord(measurement);
+        return {
+          id: measurement.uid,
+          toolName: measurement.toolName,
+          data: { ...record, measurementUID: measurement.uid },
+          metadata: {
+            tooth: record.tooth ? `${record.tooth.system} ${record.tooth.value}` : undefined,
+            category: record.preset?.id,
+          },
+        };
+      }),
+    dental: {
+      selectedTooth: selectedTooth
+        ? { system: selectedTooth.system, value: selectedTooth.value }
+        : null,
+      theme,
+      hangingProtocol: activeProtocol?.protocol?.id,
+      hangingProtocolStageIndex: activeProtocol?.stageIndex,
+      calibrations,
+    },
+  };
+};
+
+/**
+ * Finds the display sets to show again in a saved viewport, from its series in this session.
+ */
+export const findViewportDisplaySets = (viewportState: ViewportState, displaySetService: any) =>
+  (viewportState.seriesInstanceUIDs ?? [])
+    .map(
+      SeriesInstanceUID =>
+        (displaySetService.getDisplaySetsForSeries(SeriesInstanceUID) ?? []).find(
+          displaySet => !displaySet.madeInClient
+        )?.displaySetInstanceUID
+    )
+    .filter(Boolean);
+
+/**
+ * Restores the presentation of a viewport once its display sets are loaded: the slice for
+ * stacks, then the camera (which also holds the slice of volumes), the VOI and properties.
+ */
+export const applyViewportState = async (viewport: any, viewportState: ViewportState) => {
+  if (!viewport) {
+    return;
+  }
+
+  const isStack = typeof viewport.setStack === 'function';
+  if (isStack && Number.isInteger(viewportState.imageIndex)) {
+    await viewport.setImageIdIndex(viewportState.imageIndex);
+  }
+
+  if (viewportState.camera) {
+    viewport.setCamera(viewportState.camera);
+  }
+
+  const { windowLevel, invert, colormap } = viewportState;
+  viewport.setProperties({
+    ...(windowLevel && {
+      voiRange: {
+        lower: windowLevel.center - windowLevel.width / 2,
+        upper: windowLevel.center + windowLevel.width / 2,
+      },
+    }),
+    invert: Boolean(invert),
+    ...(colormap && { colormap: { name: colormap } }),
+  });
+  viewport.render();
+};
+
+export type ViewerStateChange = { from: string; to: string };
+
+export type ViewerStateMeasurementChange = { id: string; label: string };
+
+export type ViewerStateDiff = {
+  measurements: {
+    added: ViewerStateMeasurementChange[];
+    removed: ViewerStateMeasurementChange[];
+    changed: ViewerStateMeasurementChange[];
+  };
+  layout: ViewerStateChange | null;
+  hangingProtocol: ViewerStateChange | null;
+  selectedTooth: ViewerStateChange | null;
+  activeTool: ViewerStateChange | null;
+};
+
+const describeLayout = (state: ViewerState) =>
+  state?.layout ? `${state.layout.numRows}×${state.layout.numCols}` : 'none';
+
+const describeHangingProtocol = (state: ViewerState) => {
+  const { hangingProtocol, hangingProtocolStageIndex } = state?.dental ?? ({} as any);
+  if (!hangingProtocol) {
+    return 'none';
+  }
+
+  return Number.isInteger(hangingProtocolStageIndex)
+    ? `${hangingProtocol} (stage ${hangingProtocolStageIndex + 1})`
+    : hangingProtocol;
+};
+
+const describeTooth = (state: ViewerState) => {
+  const selectedTooth = state?.dental?.selectedTooth;
+  return selectedTooth?.value
+    ? `${getNumberingSystemLabel(selectedTooth.system)} ${selectedTooth.value}`
+    : 'none';
+};
+
+const describeChange = (from: string, to: string): ViewerStateChange | null =>
+  from === to ? null : { from, to };
+
+const describeMeasurement = (measurement: ViewerState['measurements'][number]) => ({
+  id: measurement.id,
+  label: measurement.data?.label || measurement.toolName,
+});
+
+// Measurements are compared on what a reader sees: label, tooth, value and handle positions
+const getMeasurementSignature = (measurement: ViewerState['measurements'][number]) =>
+  JSON.stringify([
+    measurement.data?.label,
+    measurement.data?.tooth,
+    measurement.data?.value,
+    measurement.data?.annotation?.points,
+  ]);
+
+/**
+ * Lists what changed from one saved viewer state to another: measurements added, removed or
+ * edited, and the layout, hanging protocol, selected tooth and active tool.
+ */
+export const diffViewerStates = (from: ViewerState, to: ViewerState): ViewerStateDiff => {
+  const fromMeasurements = new Map((from?.measurements ?? []).map(m => [m.id, m]));
+  const toMeasurements = new Map((to?.measurements ?? []).map(m => [m.id, m]));
+
+  return {
+    measurements: {
+      added: [...toMeasurements.values()]
+        .filter(measurement => !fromMeasurements.has(measurement.id))
+        .map(describeMeasurement),
+      removed: [...fromMeasurements.values()]
+        .filter(measurement => !toMeasurements.has(measurement.id))
+        .map(describeMeasurement),
+      changed: [...toMeasurements.values()]
+        .filter(
+          measurement =>
+            fromMeasurements.has(measurement.id) &&
+            getMeasurementSignature(fromMeasurements.get(measurement.id)) !==
+              getMeasurementSignature(measurement)
+        )
+        .map(describeMeasurement),
+    },
+    layout: describeChange(describeLayout(from), describeLayout(to)),
+    hangingProtocol: describeChange(describeHangingProtocol(from), describeHangingProtocol(to)),
+    selectedTooth: describeChange(describeTooth(from), describeTooth(to)),
+    activeTool: describeChange(from?.tools?.activeTool || 'none', to?.tools?.activeTool || 'none'),
+  };
+};
+
+export const countViewerStateChanges = (diff: ViewerStateDiff) =>
+  diff.measurements.added.length +
+  diff.measurements.removed.length +
+  diff.measurements.changed.length +
+  [diff.layout, diff.hangingProtocol, diff.selectedTooth, diff.activeTool].filter(Boolean).length;
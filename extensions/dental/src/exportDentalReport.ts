@@ -0,0 +1,201 @@
+import html2canvas from 'html2canvas';
+import dcmjs from 'dcmjs';
+import { DicomMetadataStore } from '@ohif/core';
+import { getPracticeName } from './components/DentalPracticeHeader';
+import { getStoredToothFindings } from './dentalAnnotationsStore';
+import {
+  DENTAL_MEASUREMENT_PRESETS,
+  getActiveDentalTooth,
+  getDentalNumberingSystem,
+  getDentalValuesByTooth,
+  getDerivedDentalValues,
+} from './dentalMeasurementsManager';
+import {
+  DentalReport,
+  DentalReportImage,
+  createDentalReportPdf,
+  createEncapsulatedPdfDataset,
+  formatPersonName,
+  getReportFindingRows,
+  getReportMeasurementRows,
+} from './dentalReport';
+import { formatToothSelection } from './dentalTeeth';
+
+const { DicomMetaDictionary } = dcmjs.data;
+
+const getActiveDisplaySet = servicesManager => {
+  const { viewportGridService, displaySetService } = servicesManager.services;
+  const { activeViewportId, viewports } = viewportGridService.getState();
+  const [displaySetInstanceUID] = viewports.get(activeViewportId)?.displaySetInstanceUIDs ?? [];
+
+  return {
+    viewportId: activeViewportId,
+    displaySet: displaySetInstanceUID
+      ? displaySetService.getDisplaySetByUID(displaySetInstanceUID)
+      : undefined,
+  };
+};
+
+// The instance the report is made for, from the active viewport or else the first series loaded
+export const getStudyInstance = servicesManager => {
+  const { displaySet } = getActiveDisplaySet(servicesManager);
+  const [firstDisplaySet] = servicesManager.services.displaySetService.getActiveDisplaySets();
+
+  return (
+    displaySet?.instance ??
+    displaySet?.instances?.[0] ??
+    firstDisplaySet?.instance ??
+    firstDisplaySet?.instances?.[0]
+  );
+};
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+const getReportFilename = (report: DentalReport, extension: string) =>
+  `dental-report-${report.patient.id || 'patient'}.${extension}`;
+
+/**
+ * Collects the report contents for the study shown in the active viewport: patient and study
+ * details, the practice name, the per-tooth measurements and the coded findings of the notes.
+ * Key images and the impression are added in the report builder.
+ */
+export const createDentalReport = ({ servicesManager, extensionManager }): DentalReport => {
+  const { measurementService } = servicesManager.services;
+  const instance = getStudyInstance(servicesManager) ?? {};
+  const numberingSystem = getDentalNumberingSystem();
+  // Prior studies shown alongside keep their values out of this study's report
+  const measurements = measurementService
+    .getMeasurements()
+    .filter(
+      measurement =>
+        measurement.metadata?.dentalPresetId &&
+        measurement.referenceStudyUID === instance.StudyInstanceUID
+    );
+
+  return {
+    title: 'Dental radiology report',
+    practiceName: getPracticeName(extensionManager.appConfig),
+    createdAt: new Date(),
+    patient: {
+      name: formatPersonName(instance.PatientName),
+      id: instance.PatientID,
+      birthDate: instance.PatientBirthDate,
+      sex: instance.PatientSex,
+    },
+    study: {
+      date: instance.StudyDate,
+      description: instance.StudyDescription,
+      accessionNumber: instance.AccessionNumber,
+      referringPhysician: formatPersonName(instance.ReferringPhysicianName),
+    },
+    keyImages: [],
+    measurements: getReportMeasurementRows(
+      measurements,
+      getDerivedDentalValues(getDentalValuesByTooth(measurements)),
+      DENTAL_MEASUREMENT_PRESETS,
+      numberingSystem
+    ),
+    findings: getReportFindingRows(
+      getStoredToothFindings(instance.StudyInstanceUID),
+      numberingSystem
+    ),
+  };
+};
+
+/**
+ * Captures the active viewport with its annotations as a key image, captioned with the series
+ * and the selected tooth.
+ */
+export const captureDentalKeyImage = async (servicesManager): Promise<DentalReportImage | null> => {
+  const { viewportId, displaySet } = getActiveDisplaySet(servicesManager);
+  const element = document.querySelector(`div[data-viewport-uid="${viewportId}"]`);
+  if (!element) {
+    return null;
+  }
+
+  const canvas = await html2canvas(element as HTMLElement);
+  const tooth = getActiveDentalTooth();
+
+  return {
+    dataUrl: canvas.toDataURL('image/jpeg', 0.92),
+    width: canvas.width,
+    height: canvas.height,
+    caption: [
+      displaySet?.SeriesDescription,
+      tooth && formatToothSelection(tooth, getDentalNumberingSystem()),
+    ]
+      .filter(Boolean)
+      .join(' - '),
+  };
+};
+
+export const downloadDentalReportPdf = (report: DentalReport) => {
+  download(
+    new Blob([createDentalReportPdf(report) as BlobPart], { type: 'application/pdf' }),
+    getReportFilename(report, 'pdf')
+  );
+};
+
+/**
+ * Stores the report as an Encapsulated PDF instance in the study, where the PDF viewport shows
+ * it as a new series. Data sources that cannot store instances get the DICOM file downloaded.
+ */
+export const storeDentalReport = async (
+  { servicesManager, extensionManager },
+  report: DentalReport
+) => {
+  const { uiNotificationService } = servicesManager.services;
+  const studyInstance = getStudyInstance(servicesManager);
+
+  if (!studyInstance?.StudyInstanceUID) {
+    uiNotificationService?.show({
+      title: 'Dental report',
+      message: 'Open a study before saving the report to it',
+      type: 'warning',
+    });
+    return;
+  }
+
+  const dataset = createEncapsulatedPdfDataset(createDentalReportPdf(report), {
+    report,
+    studyInstance,
+    SeriesInstanceUID: DicomMetaDictionary.uid(),
+    SOPInstanceUID: DicomMetaDictionary.uid(),
+  });
+
+  const dataSource = extensionManager.getActiveDataSource()[0];
+  if (!dataSource?.store?.dicom) {
+    download(dcmjs.data.datasetToBlob(dataset), getReportFilename(report, 'dcm'));
+    uiNotificationService?.show({
+      title: 'Dental report',
+      message: 'This data source cannot store instances, so the report was downloaded instead',
+      type: 'info',
+    });
+    return;
+  }
+
+  try {
+    await dataSource.store.dicom(dataset);
+    dataSource.deleteStudyMetadataPromise?.(studyInstance.StudyInstanceUID);
+    DicomMetadataStore.addInstances([dataset], true);
+    uiNotificationService?.show({
+      title: 'Dental report',
+      message: 'The report was saved to the study',
+      type: 'success',
+    });
+  } catch (error) {
+    console.warn('Failed to store the dental report:', error);
+    uiNotificationService?.show({
+      title: 'Dental report',
+      message: `The report could not be saved: ${error.message}`,
+      type: 'error',
+    });
+  }
+};
@@ -0,0 +1,55 @@
+import dcmjs from 'dcmjs';
+import { getStoredToothFindings } from './dentalAnnotationsStore';
+import { createQualitativeEvaluations, toDentalSRMeasurement } from './dentalStructuredReport';
+import { getStudyInstance } from './exportDentalReport';
+
+/**
+ * Downloads the dental measurements and the coded findings of the notes on the study shown in
+ * the active viewport as a TID 1500 measurement report. Each measurement group carries the
+ * tooth as a finding site and the preset as its finding, so that re-loading the report restores
+ * the tooth and preset.
+ */
+export default function exportDentalStructuredReport({ servicesManager, commandsManager }) {
+  const { measurementService, uiNotificationService } = servicesManager.services;
+
+  // Prior studies shown alongside keep their measurements and findings out of this report
+  const studyInstanceUID = getStudyInstance(servicesManager)?.StudyInstanceUID;
+  const measurements = measurementService
+    .getMeasurements()
+    .filter(
+      measurement =>
+        measurement.metadata?.dentalPresetId && measurement.referenceStudyUID === studyInstanceUID
+    );
+  const qualitativeEvaluations = createQualitativeEvaluations(
+    getStoredToothFindings(studyInstanceUID)
+  );
+
+  if (!measurements.length && !qualitativeEvaluations) {
+    uiNotificationService?.show({
+      title: 'Structured report',
+      message: 'There are no dental measurements or coded findings to export',
+      type: 'warning',
+    });
+    return;
+  }
+
+  const dataset = commandsManager.runCommand(
+    'generateReport',
+    {
+      measurementData: measurements.map(toDentalSRMeasurement),
+      options: { SeriesDescription: 'Dental measurements' },
+    },
+    'CORNERSTONE_STRUCTURED_REPORT'
+  );
+
+  if (qualitativeEvaluations) {
+    dataset.ContentSequence.push(qualitativeEvaluations);
+  }
+
+  const url = URL.createObjectURL(dcmjs.data.datasetToBlob(dataset));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = 'dental-measurements.dcm';
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,7 +1,27 @@
 import DentalMeasurementsPalette from './components/DentalMeasurementsPalette';
-import { selectDentalMeasurementPreset } from './dentalMeasurementsManager';
+import DentalReportBuilder from './components/DentalReportBuilder';
+import {
+  getDentalImplantLibrary,
+  selectDentalMeasurementPreset,
+  startDentalCalibration,
+  startDentalImplantPlacement,
+} from './dentalMeasurementsManager';
+import createDentalCurvedReformation from './createDentalCurvedReformation';
+import createDentalSegmentation, { exportDentalSegmentation } from './createDentalSegmentation';
+import runDentalInference from './runDentalInference';
+import exportDentalStructuredReport from './exportDentalStructuredReport';
+import {
+  captureDentalKeyImage,
+  createDentalReport,
+  downloadDentalReportPdf,
+  storeDentalReport,
+} from './exportDentalReport';
 
-export default function getCommandsModule({ servicesManager }: any) {
+export default function getCommandsModule({
+  servicesManager,
+  extensionManager,
+  commandsManager,
+}: any) {
   const { uiModalService } = servicesManager.services;
 
   const actions = {
@@ -16,6 +36,11 @@ export default function getCommandsModule({ servicesManager }: any) {
         contentProps: {
           onSelectPreset: (presetId: string) =>
             actions.selectDentalMeasurementPreset({ presetId }),
+          onStartCalibration: (referenceLabel: string, referenceLength: number) =>
+            actions.startDentalCalibration({ referenceLabel, referenceLength }),
+          implantLibrary: getDentalImplantLibrary(),
+          onStartImplantPlacement: (implantId: string) =>
+            actions.startDentalImplantPlacement({ implantId }),
         },
         title: 'Dental Measurements',
         containerClassName: 'max-w-2xl',
@@ -27,6 +52,48 @@ export default function getCommandsModule({ servicesManager }: any) {
       selectDentalMeasurementPreset(presetId);
       uiModalService?.hide();
     },
+    startDentalCalibration: ({
+      referenceLabel,
+      referenceLength,
+    }: {
+      referenceLabel: string;
+      referenceLength: number;
+    }) => {
+      startDentalCalibration({ referenceLabel, referenceLength });
+      uiModalService?.hide();
+    },
+    startDentalImplantPlacement: ({ implantId }: { implantId: string }) => {
+      const implant = getDentalImplantLibrary().find(item => item.id === implantId);
+      if (implant) {
+        startDentalImplantPlacement(implant);
+      }
+      uiModalService?.hide();
+    },
+    createDentalCurvedReformation: () => {
+      createDentalCurvedReformation({ servicesManager, extensionManager });
+    },
+    exportDentalStructuredReport: () => {
+      exportDentalStructuredReport({ servicesManager, commandsManager });
+    },
+    createDentalSegmentation: () => createDentalSegmentation({ servicesManager }),
+    runDentalInference: () => runDentalInference({ servicesManager, extensionManager }),
+    exportDentalSegmentation: () => {
+      exportDentalSegmentation({ servicesManager, commandsManager });
+    },
+    openDentalReportBuilder: () => {
+      uiModalService?.show({
+        content: DentalReportBuilder,
+        contentProps: {
+          report: createDentalReport({ servicesManager, extensionManager }),
+          onCaptureKeyImage: () => captureDentalKeyImage(servicesManager),
+          onDownloadPdf: downloadDentalReportPdf,
+          onSaveToStudy: report => storeDentalReport({ servicesManager, extensionManager }, report),
+        },
+        title: 'Dental Report',
+        containerClassName: 'max-w-2xl',
+        shouldCloseOnEsc: true,
+      });
+    },
   };
 
   const definitions = {
@@ -36,6 +103,30 @@ export default function getCommandsModule({ servicesManager }: any) {
     selectDentalMeasurementPreset: {
       commandFn: actions.selectDentalMeasurementPreset,
     },
+    startDentalCalibration: {
+      commandFn: actions.startDentalCalibration,
+    },
+    startDentalImplantPlacement: {
+      commandFn: actions.startDentalImplantPlacement,
+    },
+    createDentalCurvedReformation: {
+      commandFn: actions.createDentalCurvedReformation,
+    },
+    exportDentalStructuredReport: {
+      commandFn: actions.exportDentalStructuredReport,
+    },
+    createDentalSegmentation: {
+      commandFn: actions.createDentalSegmentation,
+    },
+    runDentalInference: {
+      commandFn: actions.runDentalInference,
+    },
+    exportDentalSegmentation: {
+      commandFn: actions.exportDentalSegmentation,
+    },
+    openDentalReportBuilder: {
+      commandFn: actions.openDentalReportBuilder,
+    },
   };
 
   return {
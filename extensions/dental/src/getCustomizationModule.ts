@@ -1,4 +1,14 @@
 import DentalPracticeHeader from './components/DentalPracticeHeader';
+import { DENTAL_IMPLANT_LIBRARY, IMPLANT_LIBRARY_CUSTOMIZATION_ID } from './dentalImplants';
+import { INFERENCE_PROVIDER_CUSTOMIZATION_ID } from './dentalInference';
+import {
+  SR_MEASUREMENT_HYDRATION_CUSTOMIZATION_ID,
+  getDentalMetadataFromCodes,
+} from './dentalStructuredReport';
+import {
+  SPEECH_TO_TEXT_CUSTOMIZATION_ID,
+  createStandInSpeechToTextProvider,
+} from './dentalTranscription';
 
 export default function getCustomizationModule() {
   return [
@@ -6,6 +16,12 @@ export default function getCustomizationModule() {
       name: 'dental',
       value: {
         'ohif.viewerHeaderComponent': DentalPracticeHeader,
+        [IMPLANT_LIBRARY_CUSTOMIZATION_ID]: DENTAL_IMPLANT_LIBRARY,
+        [SPEECH_TO_TEXT_CUSTOMIZATION_ID]: createStandInSpeechToTextProvider(),
+        // No model is bundled; deployments set a provider or `{ url, headers }` of an endpoint
+        [INFERENCE_PROVIDER_CUSTOMIZATION_ID]: null,
+        [SR_MEASUREMENT_HYDRATION_CUSTOMIZATION_ID]: ({ annotation }) =>
+          getDentalMetadataFromCodes(annotation.data.finding, annotation.data.findingSites),
       },
     },
   ];
@@ -1,11 +1,23 @@
 import { Types } from '@ohif/core';
+import { FMX_MOUNT_SLOTS, FmxRow } from './dentalFmxMount';
+import { FMX_MIN_IMAGES } from './dentalHangingProtocolAttributes';
 
 const currentDisplaySetId = 'dentalCurrentDisplaySet';
 const priorDisplaySetId = 'dentalPriorDisplaySet';
 const bitewingLeftDisplaySetId = 'dentalBitewingLeft';
 const bitewingRightDisplaySetId = 'dentalBitewingRight';
 
-const stackViewport = (displaySetId: string, options: Record<string, unknown> = {}) => ({
+const panoramicCurrentDisplaySetId = 'dentalPanoramicCurrent';
+const panoramicPriorDisplaySetId = 'dentalPanoramicPrior';
+const cbctVolumeDisplaySetId = 'dentalCbctVolume';
+const curvedPanoramicDisplaySetId = 'dentalCurvedPanoramic';
+const crossSectionsDisplaySetId = 'dentalCrossSections';
+
+const stackViewport = (
+  displaySetId: string,
+  options: Record<string, unknown> = {},
+  matchedDisplaySetsIndex = -1
+) => ({
   viewportOptions: {
     viewportType: 'stack',
     toolGroupId: 'dental',
@@ -15,7 +27,7 @@ const stackViewport = (displaySetId: string, options: Record<string, unknown> =
   displaySets: [
     {
       id: displaySetId,
-      matchedDisplaySetsIndex: -1,
+      matchedDisplaySetsIndex,
     },
   ],
 });
@@ -125,11 +137,298 @@ const dentalProtocol: Types.HangingProtocol.Protocol = {
   ],
 };
 
+const currentStudyMatchingRules =
+  dentalProtocol.displaySetSelectors[currentDisplaySetId].studyMatchingRules;
+
+const fmxDisplaySetId = (slotId: string) => `dentalFmx-${slotId}`;
+
+// Each row of the mount takes a third of the height and splits its width evenly
+const FMX_ROWS: FmxRow[] = ['maxillary', 'bitewing', 'mandibular'];
+const fmxRowSlots = FMX_ROWS.map(row => FMX_MOUNT_SLOTS.filter(slot => slot.row === row));
+const fmxLayoutOptions = fmxRowSlots.flatMap((slots, rowIndex) =>
+  slots.map((slot, column) => ({
+    x: column / slots.length,
+    y: rowIndex / FMX_ROWS.length,
+    width: 1 / slots.length,
+    height: 1 / FMX_ROWS.length,
+  }))
+);
+
+const fmxProtocol: Types.HangingProtocol.Protocol = {
+  id: '@ohif/hpDentalFMX',
+  name: 'Dental FMX',
+  description: 'Full-mouth intraoral series in the anatomic mount',
+  numberOfPriorsReferenced: 0,
+  protocolMatchingRules: [
+    {
+      id: 'FullMouthSeries',
+      weight: 2000,
+      attribute: 'dentalIntraoralImageCount',
+      required: true,
+      constraint: {
+        greaterThan: { value: FMX_MIN_IMAGES - 1 },
+      },
+    },
+  ],
+  toolGroupIds: ['dental'],
+  displaySetSelectors: Object.fromEntries(
+    FMX_MOUNT_SLOTS.map(slot => [
+      fmxDisplaySetId(slot.id),
+      {
+        studyMatchingRules: currentStudyMatchingRules,
+        seriesMatchingRules: [
+          {
+            attribute: 'dentalFmxSlots',
+            required: true,
+            constraint: {
+              contains: { value: slot.id },
+            },
+          },
+        ],
+      },
+    ])
+  ),
+  defaultViewport: stackViewport(fmxDisplaySetId(FMX_MOUNT_SLOTS[0].id)),
+  stages: [
+    {
+      name: 'FMX',
+      viewportStructure: {
+        layoutType: 'grid',
+        properties: {
+          rows: FMX_ROWS.length,
+          columns: Math.max(...fmxRowSlots.map(slots => slots.length)),
+          layoutOptions: fmxLayoutOptions,
+        },
+      },
+      // Several slots can show images of the same stack, so each viewport takes the first match
+      viewports: FMX_MOUNT_SLOTS.map(slot =>
+        stackViewport(
+          fmxDisplaySetId(slot.id),
+          {
+            viewportId: `dental-fmx-${slot.id}`,
+            initialImageOptions: { custom: 'dentalFmxImageOptions', slotId: slot.id },
+          },
+          0
+        )
+      ),
+    },
+  ],
+};
+
+const priorStudyMatchingRules =
+  dentalProtocol.displaySetSelectors[priorDisplaySetId].studyMatchingRules;
+
+const panoramicSeriesMatchingRules = [
+  {
+    attribute: 'Modality',
+    required: true,
+    constraint: {
+      equals: { value: 'PX' },
+    },
+  },
+];
+
+const panoramicProtocol: Types.HangingProtocol.Protocol = {
+  id: '@ohif/hpDentalPanoramic',
+  name: 'Dental Panoramic',
+  description: 'Panoramic radiograph, side by side with the prior panoramic when there is one',
+  numberOfPriorsReferenced: 1,
+  protocolMatchingRules: [
+    {
+      id: 'PanoramicStudy',
+      weight: 1500,
+      attribute: 'dentalModalities',
+      required: true,
+      constraint: {
+        contains: { value: 'PX' },
+      },
+    },
+  ],
+  toolGroupIds: ['dental'],
+  displaySetSelectors: {
+    [panoramicCurrentDisplaySetId]: {
+      studyMatchingRules: currentStudyMatchingRules,
+      seriesMatchingRules: panoramicSeriesMatchingRules,
+    },
+    [panoramicPriorDisplaySetId]: {
+      studyMatchingRules: priorStudyMatchingRules,
+      seriesMatchingRules: panoramicSeriesMatchingRules,
+    },
+  },
+  defaultViewport: stackViewport(panoramicCurrentDisplaySetId),
+  // The comparison stage needs both panoramics, otherwise the single view is used
+  stages: [
+    {
+      name: 'Panoramic comparison',
+      stageActivation: {
+        enabled: { minViewportsMatched: 2 },
+      },
+      viewportStructure: {
+        layoutType: 'grid',
+        properties: {
+          rows: 2,
+          columns: 1,
+        },
+      },
+      viewports: [
+        stackViewport(panoramicCurrentDisplaySetId, { viewportId: 'dental-panoramic-current' }),
+        stackViewport(panoramicPriorDisplaySetId, { viewportId: 'dental-panoramic-prior' }),
+      ],
+    },
+    {
+      name: 'Panoramic',
+      viewportStructure: {
+        layoutType: 'grid',
+        properties: {
+          rows: 1,
+          columns: 1,
+        },
+      },
+      viewports: [
+        stackViewport(panoramicCurrentDisplaySetId, { viewportId: 'dental-panoramic-current' }),
+      ],
+    },
+  ],
+};
+
+const CBCT_VOI_SYNC_GROUP = {
+  type: 'voi',
+  id: 'dentalCbct',
+  source: true,
+  target: true,
+};
+
+const cbctViewport = (orientation: 'axial' | 'coronal' | 'sagittal') => ({
+  viewportOptions: {
+    viewportId: `dental-cbct-${orientation}`,
+    viewportType: 'volume',
+    toolGroupId: 'dentalMPR',
+    orientation,
+    initialImageOptions: {
+      preset: 'middle',
+    },
+    syncGroups: [CBCT_VOI_SYNC_GROUP],
+  },
+  displaySets: [
+    {
+      id: cbctVolumeDisplaySetId,
+    },
+  ],
+});
+
+const cbctProtocol: Types.HangingProtocol.Protocol = {
+  id: '@ohif/hpDentalCBCT',
+  name: 'Dental CBCT',
+  description: 'CBCT volume in axial, coronal and sagittal MPR with a curved panoramic view',
+  numberOfPriorsReferenced: 0,
+  protocolMatchingRules: [
+    {
+      id: 'CbctVolume',
+      weight: 3000,
+      attribute: 'dentalCbctVolumeCount',
+      required: true,
+      constraint: {
+        greaterThan: { value: 0 },
+      },
+    },
+  ],
+  toolGroupIds: ['dentalMPR', 'dental'],
+  displaySetSelectors: {
+    [cbctVolumeDisplaySetId]: {
+      studyMatchingRules: currentStudyMatchingRules,
+      seriesMatchingRules: [
+        {
+          attribute: 'dentalIsCbctVolume',
+          required: true,
+          constraint: {
+            equals: { value: true },
+          },
+        },
+        {
+          weight: 1,
+          attribute: 'numImageFrames',
+          constraint: {
+            greaterThan: { value: 0 },
+          },
+        },
+      ],
+    },
+    [curvedPanoramicDisplaySetId]: {
+      studyMatchingRules: currentStudyMatchingRules,
+      seriesMatchingRules: [
+        {
+          attribute: 'dentalIsCurvedPanoramic',
+          required: true,
+          constraint: {
+            equals: { value: true },
+          },
+        },
+      ],
+    },
+    [crossSectionsDisplaySetId]: {
+      studyMatchingRules: currentStudyMatchingRules,
+      seriesMatchingRules: [
+        {
+          attribute: 'dentalIsCrossSection',
+          required: true,
+          constraint: {
+            equals: { value: true },
+          },
+        },
+      ],
+    },
+  },
+  defaultViewport: cbctViewport('axial'),
+  stages: [
+    {
+      name: 'CBCT MPR',
+      // The volume alone is enough; the reformation viewports stay empty until the arch is
+      // reformatted or the study brings its own reconstructions
+      stageActivation: {
+        enabled: { minViewportsMatched: 3 },
+      },
+      viewportStructure: {
+        layoutType: 'grid',
+        properties: {
+          rows: 2,
+          columns: 3,
+          layoutOptions: [
+            { x: 0, y: 0, width: 2 / 3, height: 1 / 2 },
+            { x: 2 / 3, y: 0, width: 1 / 3, height: 1 / 2 },
+            { x: 0, y: 1 / 2, width: 1 / 3, height: 1 / 2 },
+            { x: 1 / 3, y: 1 / 2, width: 1 / 3, height: 1 / 2 },
+            { x: 2 / 3, y: 1 / 2, width: 1 / 3, height: 1 / 2 },
+          ],
+        },
+      },
+      viewports: [
+        stackViewport(curvedPanoramicDisplaySetId, { viewportId: 'dental-cbct-curved-panoramic' }),
+        stackViewport(crossSectionsDisplaySetId, { viewportId: 'dental-cbct-cross-sections' }),
+        cbctViewport('axial'),
+        cbctViewport('coronal'),
+        cbctViewport('sagittal'),
+      ],
+    },
+  ],
+};
+
 export default function getHangingProtocolModule() {
   return [
     {
       name: dentalProtocol.id,
       protocol: dentalProtocol,
     },
+    {
+      name: fmxProtocol.id,
+      protocol: fmxProtocol,
+    },
+    {
+      name: panoramicProtocol.id,
+      protocol: panoramicProtocol,
+    },
+    {
+      name: cbctProtocol.id,
+      protocol: cbctProtocol,
+    },
   ];
 }
@@ -1,36 +1,116 @@
+import React from 'react';
 import DentalMeasurementsPanel from './components/DentalMeasurementsPanel';
 import DentalAnnotationPanel from './components/DentalAnnotationPanel';
-import { getActiveDentalTooth } from './dentalMeasurementsManager';
+import DentalOdontogramPanel from './components/DentalOdontogramPanel';
+import DentalPeriodontalPanel from './components/DentalPeriodontalPanel';
+import DentalReviewQueuePanel from './components/DentalReviewQueuePanel';
+import DentalSearchPanel from './components/DentalSearchPanel';
+import DentalStateHistoryPanel from './components/DentalStateHistoryPanel';
+import DentalToothComparisonPanel from './components/DentalToothComparisonPanel';
+import { loadToothAnnotations, saveToothAnnotations } from './dentalAnnotationsStore';
+import {
+  loadDentalNoteHistory,
+  loadDentalNoteReviews,
+  loadDentalReviewQueue,
+  pushDentalNote,
+  removeDentalNote,
+  reviewDentalNote,
+  submitDentalNote,
+  subscribeToDentalNoteLinks,
+  updateDentalNote,
+} from './dentalNotesSync';
+import { SPEECH_TO_TEXT_CUSTOMIZATION_ID } from './dentalTranscription';
+import stateService from './services/stateService';
+import { getToothKey, parseToothLabel } from './dentalTeeth';
+import { acceptDentalAISuggestion, rejectDentalAISuggestion } from './runDentalInference';
+import useActiveDentalTooth from './hooks/useActiveDentalTooth';
+import useDentalAISuggestions from './hooks/useDentalAISuggestions';
+
+export default function getPanelModule({
+  servicesManager,
+  commandsManager,
+  extensionManager,
+}: any) {
+  const { customizationService } = servicesManager.services;
+
+  const WrappedMeasurementsPanel = () => (
+    <DentalMeasurementsPanel
+      servicesManager={servicesManager}
+      onExportStructuredReport={() => commandsManager.runCommand('exportDentalStructuredReport')}
+    />
+  );
+
+  const WrappedOdontogramPanel = () => <DentalOdontogramPanel />;
+
+  const WrappedPeriodontalPanel = () => (
+    <DentalPeriodontalPanel servicesManager={servicesManager} />
+  );
+
+  const WrappedStateHistoryPanel = () => <DentalStateHistoryPanel />;
+
+  const WrappedSearchPanel = () => <DentalSearchPanel />;
+
+  const WrappedReviewQueuePanel = () => (
+    <DentalReviewQueuePanel
+      onLoadQueue={loadDentalReviewQueue}
+      onReview={(annotationId, review) => reviewDentalNote(servicesManager, annotationId, review)}
+    />
+  );
+
+  const WrappedToothComparisonPanel = () => (
+    <DentalToothComparisonPanel
+      servicesManager={servicesManager}
+      extensionManager={extensionManager}
+    />
+  );
 
-export default function getPanelModule({ servicesManager }: any) {
-  const WrappedMeasurementsPanel = () => <DentalMeasurementsPanel />;
-  
   const WrappedAnnotationPanel = () => {
-    const currentTooth = getActiveDentalTooth();
+    const currentTooth = useActiveDentalTooth();
     const toothLabel = currentTooth ? `${currentTooth.system} ${currentTooth.value}` : 'FDI 11';
-    
+    const tooth = parseToothLabel(toothLabel);
+    const aiSuggestions = useDentalAISuggestions(servicesManager).filter(
+      suggestion => !suggestion.tooth || getToothKey(suggestion.tooth) === getToothKey(tooth)
+    );
+
     return (
-      <DentalAnnotationPanel 
+      <DentalAnnotationPanel
+        key={toothLabel}
         currentTooth={toothLabel}
-        onSave={(annotations) => {
-          // Save annotations to local storage or backend
-          const key = `dental-annotations-${toothLabel.replace(' ', '-')}`;
-          localStorage.setItem(key, JSON.stringify(annotations));
-        }}
-        initialAnnotations={(() => {
-          try {
-            const key = `dental-annotations-${toothLabel.replace(' ', '-')}`;
-            const stored = localStorage.getItem(key);
-            return stored ? JSON.parse(stored) : [];
-          } catch {
-            return [];
-          }
-        })()}
+        onSave={annotations =>
+          saveToothAnnotations(toothLabel, annotations, stateService.getCurrentStudyUID())
+        }
+        onNoteAdded={note => pushDentalNote(servicesManager, note)}
+        subscribeToNoteLinks={subscribeToDentalNoteLinks}
+        onNoteUpdated={updateDentalNote}
+        onNoteDeleted={removeDentalNote}
+        onLoadHistory={loadDentalNoteHistory}
+        onSubmitForReview={note => submitDentalNote(servicesManager, note)}
+        onLoadReviews={() => loadDentalNoteReviews(servicesManager)}
+        aiSuggestions={aiSuggestions}
+        onAcceptAISuggestion={(suggestion, { findings, edited }) =>
+          acceptDentalAISuggestion(servicesManager, suggestion, {
+            tooth,
+            condition: findings[0]?.condition ?? suggestion.condition,
+            edited,
+          })
+        }
+        onRejectAISuggestion={suggestion => rejectDentalAISuggestion(servicesManager, suggestion)}
+        initialAnnotations={loadToothAnnotations(toothLabel)}
+        speechToTextProvider={customizationService?.getCustomization(
+          SPEECH_TO_TEXT_CUSTOMIZATION_ID
+        )}
       />
     );
   };
 
   return [
+    {
+      name: 'dentalOdontogram',
+      iconName: 'TabPatientInfo',
+      iconLabel: 'Odontogram',
+      label: 'Odontogram',
+      component: WrappedOdontogramPanel,
+    },
     {
       name: 'dentalMeasurements',
       iconName: 'TabLinear',
@@ -45,5 +125,40 @@ export default function getPanelModule({ servicesManager }: any) {
       label: 'Dental Annotations',
       component: WrappedAnnotationPanel,
     },
+    {
+      name: 'dentalPeriodontal',
+      iconName: 'TabLinear',
+      iconLabel: 'Periodontal',
+      label: 'Periodontal Chart',
+      component: WrappedPeriodontalPanel,
+    },
+    {
+      name: 'dentalStateHistory',
+      iconName: 'TabStudies',
+      iconLabel: 'History',
+      label: 'State History',
+      component: WrappedStateHistoryPanel,
+    },
+    {
+      name: 'dentalToothComparison',
+      iconName: 'TabStudies',
+      iconLabel: 'Tooth History',
+      label: 'Tooth History',
+      component: WrappedToothComparisonPanel,
+    },
+    {
+      name: 'dentalSearch',
+      iconName: 'TabStudies',
+      iconLabel: 'Search',
+      label: 'Annotation Search',
+      component: WrappedSearchPanel,
+    },
+    {
+      name: 'dentalReviewQueue',
+      iconName: 'TabStudies',
+      iconLabel: 'Review',
+      label: 'Review Queue',
+      component: WrappedReviewQueuePanel,
+    },
   ];
 }
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import {
+  DentalToothSelection,
+  getActiveDentalTooth,
+  subscribeToActiveDentalTooth,
+} from '../dentalMeasurementsManager';
+
+/**
+ * Tracks the tooth selected through `setActiveDentalTooth`, re-rendering when it changes.
+ */
+export default function useActiveDentalTooth(): DentalToothSelection | null {
+  const [activeTooth, setActiveTooth] = useState<DentalToothSelection | null>(() =>
+    getActiveDentalTooth()
+  );
+
+  useEffect(() => {
+    setActiveTooth(getActiveDentalTooth());
+    return subscribeToActiveDentalTooth(setActiveTooth);
+  }, []);
+
+  return activeTooth;
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+
+// The study of the active viewport, or else of the first series loaded
+const getActiveStudyInstanceUID = servicesManager => {
+  const { viewportGridService, displaySetService } = servicesManager?.services ?? {};
+  if (!viewportGridService || !displaySetService) {
+    return undefined;
+  }
+
+  const { activeViewportId, viewports } = viewportGridService.getState();
+  const [displaySetInstanceUID] = viewports.get(activeViewportId)?.displaySetInstanceUIDs ?? [];
+  const displaySet = displaySetInstanceUID
+    ? displaySetService.getDisplaySetByUID(displaySetInstanceUID)
+    : displaySetService.getActiveDisplaySets()[0];
+
+  return displaySet?.StudyInstanceUID as string | undefined;
+};
+
+/**
+ * Tracks the StudyInstanceUID of the active viewport, re-rendering when another viewport is
+ * activated or the grid shows another study.
+ */
+export default function useActiveStudyInstanceUID(servicesManager): string | undefined {
+  const [studyInstanceUID, setStudyInstanceUID] = useState<string | undefined>(() =>
+    getActiveStudyInstanceUID(servicesManager)
+  );
+
+  useEffect(() => {
+    const viewportGridService = servicesManager?.services?.viewportGridService;
+    if (!viewportGridService) {
+      return;
+    }
+
+    const refresh = () => setStudyInstanceUID(getActiveStudyInstanceUID(servicesManager));
+    const { ACTIVE_VIEWPORT_ID_CHANGED, GRID_STATE_CHANGED } = viewportGridService.EVENTS;
+    const subscriptions = [ACTIVE_VIEWPORT_ID_CHANGED, GRID_STATE_CHANGED].map(event =>
+      viewportGridService.subscribe(event, refresh)
+    );
+
+    refresh();
+    return () => subscriptions.forEach(subscription => subscription.unsubscribe());
+  }, [servicesManager]);
+
+  return studyInstanceUID;
+}
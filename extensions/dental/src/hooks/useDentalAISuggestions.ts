@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { DentalAISuggestion, getDentalAISuggestions } from '../dentalInference';
+
+/**
+ * Tracks the pending AI suggestions among the measurements, re-rendering when measurements are
+ * added, accepted or removed.
+ */
+export default function useDentalAISuggestions(servicesManager): DentalAISuggestion[] {
+  const measurementService = servicesManager?.services?.measurementService;
+  const [suggestions, setSuggestions] = useState<DentalAISuggestion[]>(() =>
+    getDentalAISuggestions(measurementService?.getMeasurements())
+  );
+
+  useEffect(() => {
+    if (!measurementService) {
+      return;
+    }
+
+    const refresh = () =>
+      setSuggestions(getDentalAISuggestions(measurementService.getMeasurements()));
+    const {
+      MEASUREMENT_ADDED,
+      RAW_MEASUREMENT_ADDED,
+      MEASUREMENT_UPDATED,
+      MEASUREMENT_REMOVED,
+      MEASUREMENTS_CLEARED,
+    } = measurementService.EVENTS;
+    const subscriptions = [
+      MEASUREMENT_ADDED,
+      RAW_MEASUREMENT_ADDED,
+      MEASUREMENT_UPDATED,
+      MEASUREMENT_REMOVED,
+      MEASUREMENTS_CLEARED,
+    ].map(event => measurementService.subscribe(event, refresh));
+
+    refresh();
+    return () => subscriptions.forEach(subscription => subscription.unsubscribe());
+  }, [measurementService]);
+
+  return suggestions;
+}
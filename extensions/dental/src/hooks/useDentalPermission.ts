@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import authService from '../services/authService';
+import { DentalPermission, isDentalActionAllowed } from '../dentalPermissions';
+
+/**
+ * Whether the signed-in user may perform an action, re-rendering when they sign in or out.
+ * Actions are always allowed when nobody is signed in, as the work then stays local.
+ */
+export default function useDentalPermission(permission: DentalPermission): boolean {
+  const [isAllowed, setIsAllowed] = useState(() =>
+    isDentalActionAllowed(authService.getCurrentUser(), permission)
+  );
+
+  useEffect(
+    () => authService.onAuthChange(user => setIsAllowed(isDentalActionAllowed(user, permission))),
+    [permission]
+  );
+
+  return isAllowed;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import apiClient from '../services/apiClient';
+import type { SyncStatus } from '../services/offlineQueue';
+
+/**
+ * Tracks the writes waiting in the offline queue, re-rendering as they are sent or conflict.
+ */
+export default function useDentalSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(() => apiClient.getSyncStatus());
+
+  useEffect(() => {
+    setStatus(apiClient.getSyncStatus());
+    return apiClient.subscribeToSyncStatus(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import {
+  DentalValuesByStudy,
+  getDerivedDentalValuesByStudy,
+  subscribeToDerivedDentalValues,
+} from '../dentalMeasurementsManager';
+
+/**
+ * Tracks the derived preset values per tooth of a study, keyed by FDI number and preset id,
+ * re-rendering when a source measurement changes them.
+ */
+export default function useDerivedDentalValues(
+  studyInstanceUID: string | undefined
+): Record<string, Record<string, number>> {
+  const [derivedValues, setDerivedValues] = useState<DentalValuesByStudy>(() =>
+    getDerivedDentalValuesByStudy()
+  );
+
+  useEffect(() => {
+    setDerivedValues(getDerivedDentalValuesByStudy());
+    return subscribeToDerivedDentalValues(setDerivedValues);
+  }, []);
+
+  return (studyInstanceUID && derivedValues[studyInstanceUID]) || {};
+}
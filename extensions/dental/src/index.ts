@@ -19,3 +19,17 @@ const dentalExtension: Types.Extensions.Extension = {
 export default dentalExtension;
 export { id };
 export { initializeDentalMeasurements, teardownDentalMeasurements } from './dentalMeasurementsManager';
+export {
+  initializeDentalMeasurementsSync,
+  teardownDentalMeasurementsSync,
+} from './dentalMeasurementsSync';
+export {
+  initializeDentalSegmentation,
+  teardownDentalSegmentation,
+} from './createDentalSegmentation';
+export {
+  initializeDentalToothSuggestions,
+  teardownDentalToothSuggestions,
+} from './suggestDentalToothForMeasurement';
+export { DENTAL_IMPLANT_TOOL_NAME } from './dentalImplants';
+export { default as dentalStateService } from './services/stateService';
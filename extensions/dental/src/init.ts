@@ -3,6 +3,15 @@ import {
   initializeDentalMeasurements,
   teardownDentalMeasurements,
 } from './dentalMeasurementsManager';
+import { initializeDentalNoteLinks } from './dentalNotesSync';
+import registerDentalHangingProtocolAttributes from './dentalHangingProtocolAttributes';
+import { addTool } from '@cornerstonejs/tools';
+import { Enums as CSExtensionEnums } from '@ohif/extension-cornerstone';
+import type { Types as CornerstoneTypes } from '@ohif/extension-cornerstone';
+import DentalImplantTool from './tools/DentalImplantTool';
+import dentalImplantMeasurementMapping from './tools/dentalImplantMeasurementMapping';
+
+const { CORNERSTONE_3D_TOOLS_SOURCE_NAME, CORNERSTONE_3D_TOOLS_SOURCE_VERSION } = CSExtensionEnums;
 
 export default function init({
   servicesManager,
@@ -11,7 +20,8 @@ export default function init({
   servicesManager: ServicesManager;
   commandsManager: CommandsManager;
 }): void {
-  const { toolGroupService } = servicesManager.services;
+  const { toolGroupService, measurementService } =
+    servicesManager.services as CornerstoneTypes.CornerstoneServices;
   const existing = toolGroupService?.getToolGroupIds?.() || [];
   const toolGroupIds = Array.from(new Set([...existing, 'dental', 'default']));
 
@@ -20,6 +30,21 @@ export default function init({
     commandsManager,
     toolGroupIds,
   });
+
+  registerDentalHangingProtocolAttributes({ servicesManager });
+  initializeDentalNoteLinks();
+
+  addTool(DentalImplantTool);
+  measurementService.addMapping(
+    measurementService.getSource(
+      CORNERSTONE_3D_TOOLS_SOURCE_NAME,
+      CORNERSTONE_3D_TOOLS_SOURCE_VERSION
+    ),
+    DentalImplantTool.toolName,
+    dentalImplantMeasurementMapping.matchingCriteria,
+    dentalImplantMeasurementMapping.toAnnotation,
+    dentalImplantMeasurementMapping.toMeasurement
+  );
 }
 
 export function onDentalModeExit(): void {
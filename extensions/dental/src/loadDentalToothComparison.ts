@@ -0,0 +1,182 @@
+import apiClient from './services/apiClient';
+import { getStoredToothFindings } from './dentalAnnotationsStore';
+import type { DentalFinding } from './dentalFindings';
+import { DENTAL_MEASUREMENT_PRESETS, DentalToothSelection } from './dentalMeasurementsManager';
+import { getDentalSRObservations } from './dentalStructuredReport';
+import { getToothKey } from './dentalTeeth';
+import {
+  DentalFindingsTimepoint,
+  DentalTimepoint,
+  DentalToothObservation,
+  DentalToothTrend,
+  getToothFindingsHistory,
+  getToothTrends,
+  sortTimepoints,
+} from './dentalToothComparison';
+import { getConfirmedDentalTooth } from './dentalToothSuggestion';
+
+export type DentalToothComparison = {
+  timepoints: DentalTimepoint[];
+  trends: DentalToothTrend[];
+  findings: DentalFindingsTimepoint[];
+  // Set when the backend could not be reached, so only the studies in the viewer are compared
+  backendError?: string;
+};
+
+const getInstance = displaySet => displaySet?.instance ?? displaySet?.instances?.[0];
+
+const getCurrentStudyInstanceUID = servicesManager => {
+  const { viewportGridService, displaySetService } = servicesManager.services;
+  const { activeViewportId, viewports } = viewportGridService.getState();
+  const [displaySetInstanceUID] = viewports.get(activeViewportId)?.displaySetInstanceUIDs ?? [];
+  const displaySet = displaySetInstanceUID
+    ? displaySetService.getDisplaySetByUID(displaySetInstanceUID)
+    : displaySetService.getActiveDisplaySets()[0];
+
+  return displaySet?.StudyInstanceUID;
+};
+
+// The studies loaded in the viewer, and the other studies of the patient in the data source
+const getTimepoints = async ({ servicesManager, extensionManager }) => {
+  const displaySets = servicesManager.services.displaySetService.getActiveDisplaySets();
+  const timepoints: DentalTimepoint[] = displaySets.map(displaySet => {
+    const instance = getInstance(displaySet);
+    return {
+      studyInstanceUID: displaySet.StudyInstanceUID,
+      studyDate: instance?.StudyDate,
+      description: instance?.StudyDescription,
+    };
+  });
+
+  const patientId = displaySets.map(getInstance).find(instance => instance?.PatientID)?.PatientID;
+  const dataSource = extensionManager.getActiveDataSource()[0];
+  if (patientId && dataSource?.query?.studies?.search) {
+    try {
+      const studies = await dataSource.query.studies.search({ patientId, disableWildcard: true });
+      studies.forEach(study =>
+        timepoints.push({
+          studyInstanceUID: study.studyInstanceUid,
+          studyDate: study.date,
+          description: study.description,
+        })
+      );
+    } catch (error) {
+      console.warn('Failed to find the prior studies of the patient:', error);
+    }
+  }
+
+  return sortTimepoints(timepoints);
+};
+
+const getViewerObservations = (servicesManager, toothKey: string): DentalToothObservation[] =>
+  servicesManager.services.measurementService
+    .getMeasurements()
+    .filter(
+      measurement =>
+        getToothKey(getConfirmedDentalTooth(measurement)) === toothKey &&
+        measurement.metadata?.dentalPresetId
+    )
+    .map(measurement => ({
+      studyInstanceUID: measurement.referenceStudyUID,
+      presetId: measurement.metadata.dentalPresetId,
+      value: measurement.metadata.dentalValue,
+      source: 'viewer' as const,
+      createdAt: measurement.metadata.dentalCreatedAt,
+    }));
+
+// Reports of studies whose measurements were not loaded into the viewer are read directly
+const getStructuredReportObservations = (
+  servicesManager,
+  toothKey: string
+): DentalToothObservation[] =>
+  servicesManager.services.displaySetService
+    .getActiveDisplaySets()
+    .filter(displaySet => displaySet.Modality === 'SR')
+    .flatMap(displaySet =>
+      getDentalSRObservations(getInstance(displaySet)?.ContentSequence)
+        .filter(observation => getToothKey(observation.tooth) === toothKey)
+        .map(observation => ({
+          studyInstanceUID: displaySet.StudyInstanceUID,
+          presetId: observation.presetId,
+          value: observation.value,
+          source: 'sr' as const,
+        }))
+    );
+
+/**
+ * Gathers the measurements and coded findings of a tooth in the current study and all prior
+ * studies of the patient, from the viewer, the structured reports loaded and the dental backend,
+ * and charts them over time.
+ */
+export const loadDentalToothComparison = async (
+  { servicesManager, extensionManager },
+  tooth: DentalToothSelection
+): Promise<DentalToothComparison> => {
+  const toothKey = getToothKey(tooth);
+  const currentStudyInstanceUID = getCurrentStudyInstanceUID(servicesManager);
+  const timepoints = (await getTimepoints({ servicesManager, extensionManager })).map(
+    timepoint => ({
+      ...timepoint,
+      isCurrent: timepoint.studyInstanceUID === currentStudyInstanceUID,
+    })
+  );
+  const studyInstanceUIDs = new Set(timepoints.map(timepoint => timepoint.studyInstanceUID));
+
+  const observations: DentalToothObservation[] = [
+    ...getViewerObservations(servicesManager, toothKey),
+    ...getStructuredReportObservations(servicesManager, toothKey),
+  ];
+  const findingsByStudy: Record<string, DentalFinding[]> = {};
+  let backendError: string;
+
+  // The backend keeps every patient's measurements, so only this patient's studies are used
+  if (apiClient.isAuthenticated()) {
+    try {
+      const [measurementData, annotationData] = await Promise.all([
+        apiClient.getMeasurementsByTooth(tooth.system, tooth.value),
+        apiClient.getAnnotationsByTooth(tooth.system, tooth.value),
+      ]);
+
+      (measurementData?.measurements ?? [])
+        .filter(record => studyInstanceUIDs.has(record.studyInstanceUID) && record.preset?.id)
+        .forEach(record =>
+          observations.push({
+            studyInstanceUID: record.studyInstanceUID,
+            presetId: record.preset.id,
+            value: record.value,
+            source: 'backend',
+            createdAt: record.createdAt ? Date.parse(record.createdAt) : undefined,
+          })
+        );
+
+      (annotationData?.annotations ?? [])
+        .filter(annotation => studyInstanceUIDs.has(annotation.studyInstanceUID))
+        .forEach(annotation => {
+          findingsByStudy[annotation.studyInstanceUID] = [
+            ...(findingsByStudy[annotation.studyInstanceUID] ?? []),
+            ...(annotation.findings ?? []),
+          ];
+        });
+    } catch (error) {
+      console.warn('Failed to load the tooth history from the dental backend:', error);
+      backendError = error.message;
+    }
+  }
+
+  // Notes written on this study are kept locally until they are synced
+  if (currentStudyInstanceUID && !findingsByStudy[currentStudyInstanceUID]) {
+    const localFindings = getStoredToothFindings(currentStudyInstanceUID)
+      .filter(stored => getToothKey(stored.tooth) === toothKey)
+      .flatMap(stored => stored.findings);
+    if (localFindings.length) {
+      findingsByStudy[currentStudyInstanceUID] = localFindings;
+    }
+  }
+
+  return {
+    timepoints,
+    trends: getToothTrends(timepoints, observations, DENTAL_MEASUREMENT_PRESETS),
+    findings: getToothFindingsHistory(timepoints, findingsByStudy),
+    backendError,
+  };
+};
@@ -0,0 +1,181 @@
+import { utils } from '@ohif/core';
+import { getActiveDentalTooth } from './dentalMeasurementsManager';
+import {
+  DENTAL_INFERENCE_CONDITIONS,
+  DentalAISuggestion,
+  INFERENCE_PROVIDER_CUSTOMIZATION_ID,
+  getDentalInferenceProvider,
+  toDentalAIRawMeasurement,
+} from './dentalInference';
+import type { DentalToothSelection } from './dentalMeasurementsManager';
+import { DentalFindingCondition, getFindingCondition } from './dentalFindings';
+import { findTooth, formatToothSelection } from './dentalTeeth';
+
+// Source registered by the cornerstone extension for its annotation tools
+const CORNERSTONE_SOURCE_NAME = 'Cornerstone3DTools';
+const CORNERSTONE_SOURCE_VERSION = '0.1';
+
+const getCornerstoneLibraries = extensionManager =>
+  extensionManager
+    .getModuleEntry('@ohif/extension-cornerstone.utilityModule.common')
+    .exports.getCornerstoneLibraries();
+
+const notify = (servicesManager, message: string, type = 'warning') =>
+  servicesManager.services.uiNotificationService?.show({
+    title: 'AI findings',
+    message,
+    type,
+  });
+
+// The image is rendered at its own size, so that detections come back in image pixels
+const renderImage = async (cornerstone, imageId: string): Promise<Blob> => {
+  const { columns, rows } = cornerstone.metaData.get('imagePixelModule', imageId) ?? {};
+  const canvas = document.createElement('canvas');
+  canvas.width = columns;
+  canvas.height = rows;
+  await cornerstone.utilities.loadImageToCanvas({ canvas, imageId });
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Unable to encode the image'))),
+      'image/png'
+    )
+  );
+};
+
+/**
+ * Sends the image of the active viewport to the configured model and adds its detections as
+ * measurements marked as pending AI suggestions, tagged with the tooth the model named or the
+ * selected tooth. Suggestions are reviewed in the Dental Annotations panel.
+ */
+export default async function runDentalInference({ servicesManager, extensionManager }) {
+  const {
+    customizationService,
+    viewportGridService,
+    displaySetService,
+    cornerstoneViewportService,
+    measurementService,
+  } = servicesManager.services;
+
+  const provider = getDentalInferenceProvider(
+    customizationService?.getCustomization(INFERENCE_PROVIDER_CUSTOMIZATION_ID)
+  );
+  if (!provider) {
+    notify(servicesManager, 'No AI inference endpoint is configured for this viewer');
+    return;
+  }
+
+  const { activeViewportId, viewports } = viewportGridService.getState();
+  const [displaySetInstanceUID] = viewports.get(activeViewportId)?.displaySetInstanceUIDs ?? [];
+  const displaySet = displaySetInstanceUID
+    ? displaySetService.getDisplaySetByUID(displaySetInstanceUID)
+    : undefined;
+  const viewport = cornerstoneViewportService.getCornerstoneViewport(activeViewportId);
+  const imageId = viewport?.getCurrentImageId?.();
+  if (!imageId || !displaySet || displaySet.madeInClient) {
+    notify(servicesManager, 'Open an image of the study in the active viewport first');
+    return;
+  }
+
+  const { cornerstone } = getCornerstoneLibraries(extensionManager);
+  const { columns, rows } = cornerstone.metaData.get('imagePixelModule', imageId) ?? {};
+  const instance = cornerstone.metaData.get('instance', imageId) ?? {};
+  const tooth = getActiveDentalTooth();
+  const toothDefinition = findTooth(tooth);
+
+  let result;
+  try {
+    result = await provider.infer(await renderImage(cornerstone, imageId), {
+      width: columns,
+      height: rows,
+      modality: displaySet.Modality,
+      studyInstanceUID: displaySet.StudyInstanceUID,
+      seriesInstanceUID: displaySet.SeriesInstanceUID,
+      sopInstanceUID: instance.SOPInstanceUID,
+      tooth: toothDefinition?.fdi,
+      conditions: DENTAL_INFERENCE_CONDITIONS,
+    });
+  } catch (error) {
+    console.warn('Dental AI inference failed:', error);
+    notify(servicesManager, `${provider.label} could not analyse this image`, 'error');
+    return;
+  }
+
+  const source = measurementService.getSource(CORNERSTONE_SOURCE_NAME, CORNERSTONE_SOURCE_VERSION);
+  const mappings =
+    measurementService.getSourceMappings(CORNERSTONE_SOURCE_NAME, CORNERSTONE_SOURCE_VERSION) || [];
+  const dataSource = extensionManager.getActiveDataSource()[0];
+  const { FrameOfReferenceUID } = cornerstone.metaData.get('imagePlaneModule', imageId) ?? {};
+
+  result.detections.forEach(detection => {
+    const { toolName, rawMeasurement } = toDentalAIRawMeasurement(detection, {
+      uid: utils.uuidv4(),
+      toWorld: point => cornerstone.utilities.imageToWorldCoords(imageId, point),
+      referencedImageId: imageId,
+      FrameOfReferenceUID,
+      providerId: provider.id,
+      model: result.model,
+      tooth,
+    });
+    const mapping = mappings.find(mapping => mapping.annotationType === toolName);
+    if (!source || !mapping) {
+      console.warn(`Unable to add an AI suggestion drawn with ${toolName}`);
+      return;
+    }
+
+    measurementService.addRawMeasurement(
+      source,
+      toolName,
+      rawMeasurement,
+      mapping.toMeasurementSchema,
+      dataSource
+    );
+  });
+
+  notify(
+    servicesManager,
+    result.detections.length
+      ? `${result.detections.length} suggestion${result.detections.length === 1 ? '' : 's'} to review in the Dental Annotations panel`
+      : 'No findings were detected on this image',
+    'info'
+  );
+}
+
+/**
+ * Accepts a suggestion as a finding of `condition` on `tooth`: its measurement loses the pending
+ * mark, so it is saved with the clinician's measurements.
+ */
+export const acceptDentalAISuggestion = (
+  servicesManager,
+  suggestion: DentalAISuggestion,
+  {
+    tooth,
+    condition,
+    edited,
+  }: { tooth: DentalToothSelection; condition?: DentalFindingCondition; edited: boolean }
+) => {
+  const { measurementService } = servicesManager.services;
+  const measurement = measurementService.getMeasurement(suggestion.measurementUID);
+  if (!measurement) {
+    return;
+  }
+
+  const label = getFindingCondition(condition)?.label ?? suggestion.label;
+  measurementService.update(
+    measurement.uid,
+    {
+      ...measurement,
+      label: `${label} (${formatToothSelection(tooth)})`,
+      metadata: {
+        ...measurement.metadata,
+        dentalTooth: tooth,
+        dentalAI: { ...measurement.metadata.dentalAI, condition, status: 'accepted', edited },
+      },
+    },
+    true
+  );
+};
+
+export const rejectDentalAISuggestion = (servicesManager, suggestion: DentalAISuggestion) => {
+  servicesManager.services.measurementService.remove(suggestion.measurementUID);
+};
@@ -1,3 +1,8 @@
+import { ApiRequestError, NetworkError, isAuthRejection } from './apiErrors';
+import OfflineQueue from './offlineQueue';
+import type { NewQueuedRequest, QueuedRequest, SyncStatus } from './offlineQueue';
+import type { DentalFinding, DentalFindingCondition, DentalToothSurface } from '../dentalFindings';
+
 interface ApiResponse<T = any> {
   data?: T;
   message?: string;
@@ -15,10 +20,22 @@ class ApiClient {
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
   private refreshPromise: Promise<AuthTokens> | null = null;
+  // Last version seen of each stored resource, sent as the base version of queued writes
+  private knownVersions = new Map<string, number>();
+  private offlineQueue: OfflineQueue;
+  private sentWriteListeners: Array<(request: QueuedRequest, data: any) => void> = [];
 
   constructor(baseURL: string = 'http://localhost:3001/api') {
     this.baseURL = baseURL;
     this.loadTokensFromStorage();
+    this.offlineQueue = new OfflineQueue(
+      request => this.sendQueuedRequest(request),
+      () => this.getUserId()
+    );
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.offlineQueue.retryNow());
+    }
   }
 
   private loadTokensFromStorage(): void {
@@ -75,22 +92,55 @@ class ApiClient {
       return tokens;
     }).catch(error => {
       this.refreshPromise = null;
-      this.clearTokensFromStorage();
+      // Only a rejected refresh token signs the user out. A network drop keeps the tokens, so
+      // the queued writes of the user are retried once the backend is reachable again.
+      if (isAuthRejection(error)) {
+        this.clearTokensFromStorage();
+      }
       throw error;
     });
 
     return this.refreshPromise;
   }
 
+  private getUserId(): string | null {
+    const token = this.accessToken || this.refreshToken;
+    if (!token) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(atob(token.split('.')[1])).userId ?? null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async fetchResponse(url: string, config: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, config);
+    } catch (error) {
+      throw new NetworkError();
+    }
+
+    // A proxy in front of the backend answers for it while it is down
+    if ([502, 503, 504].includes(response.status)) {
+      throw new NetworkError(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response;
+  }
+
   private async makeRequest<T = any>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseURL}${endpoint}`;
     
-    const defaultHeaders: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
+    // Multipart bodies need the boundary the browser adds to their Content-Type
+    const defaultHeaders: HeadersInit =
+      options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' };
 
     if (this.accessToken && !options.headers?.['Authorization']) {
       defaultHeaders['Authorization'] = `Bearer ${this.accessToken}`;
@@ -105,34 +155,51 @@ class ApiClient {
     };
 
     try {
-      const response = await fetch(url, config);
+      const response = await this.fetchResponse(url, config);
       const data = await response.json();
 
       if (!response.ok) {
         // Handle token expiration
-        if (response.status === 401 && data.error?.includes('expired') && this.refreshToken) {
+        if (
+          response.status === 401 &&
+          data.error?.includes('expired') &&
+          this.refreshToken &&
+          endpoint !== '/auth/refresh'
+        ) {
           try {
             await this.refreshAccessToken();
-            // Retry the original request with new token
-            config.headers = {
-              ...config.headers,
-              'Authorization': `Bearer ${this.accessToken}`,
-            };
-            const retryResponse = await fetch(url, config);
-            const retryData = await retryResponse.json();
-            
-            if (!retryResponse.ok) {
-              throw new Error(retryData.error || 'Request failed after token refresh');
-            }
-            
-            return { data: retryData };
           } catch (refreshError) {
-            this.clearTokensFromStorage();
-            throw new Error('Authentication failed. Please log in again.');
+            if (!isAuthRejection(refreshError)) {
+              throw refreshError;
+            }
+            // Still a 401, so queued writes wait for the user to sign in again
+            throw new ApiRequestError('Authentication failed. Please log in again.', 401);
+          }
+
+          // Retry the original request with new token
+          config.headers = {
+            ...config.headers,
+            'Authorization': `Bearer ${this.accessToken}`,
+          };
+          const retryResponse = await this.fetchResponse(url, config);
+          const retryData = await retryResponse.json();
+
+          if (!retryResponse.ok) {
+            throw new ApiRequestError(
+              retryData.error || 'Request failed after token refresh',
+              retryResponse.status,
+              retryData
+            );
           }
+
+          return { data: retryData };
         }
 
-        throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+        throw new ApiRequestError(
+          data.error || `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          data
+        );
       }
 
       return { data };
@@ -140,8 +207,96 @@ class ApiClient {
       if (error instanceof Error) {
         throw error;
       }
-      throw new Error('Network error occurred');
+      throw new NetworkError();
+    }
+  }
+
+  /**
+   * Records the version of the resource a write returned, so a later queued write can be
+   * checked against it.
+   */
+  private rememberWrite(request: NewQueuedRequest, data: any): number | undefined {
+    if (request.method === 'DELETE') {
+      this.knownVersions.delete(request.key);
+      return undefined;
+    }
+
+    const version = data?.measurement?.version ?? data?.annotation?.version ?? data?.version;
+    const key = data?.annotation?._id ? `annotation:${data.annotation._id}` : request.key;
+    if (typeof version === 'number') {
+      this.knownVersions.set(key, version);
+    }
+    return version;
+  }
+
+  private rememberVersions(prefix: string, documents: any[] = [], idField: string): void {
+    documents.forEach(document => {
+      if (typeof document?.version === 'number') {
+        this.knownVersions.set(`${prefix}:${document[idField]}`, document.version);
+      }
+    });
+  }
+
+  // Writes with files are sent as multipart form data, objects of the body as JSON fields
+  private getRequestBody(request: NewQueuedRequest): BodyInit | undefined {
+    if (!request.files) {
+      return request.body;
+    }
+
+    const formData = new FormData();
+    Object.entries(JSON.parse(request.body ?? '{}')).forEach(([key, value]) => {
+      formData.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    });
+    Object.entries(request.files).forEach(([key, file]) => formData.append(key, file));
+    return formData;
+  }
+
+  /**
+   * Sends a write to the backend, queueing it for later when the backend is unreachable or
+   * earlier writes to the same resource are still queued. Queued writes resolve with
+   * `{ queued: true }`; `subscribeToSentWrites` tells when they are sent.
+   */
+  private async sendWrite(request: NewQueuedRequest): Promise<any> {
+    if (!this.offlineQueue.hasPending(request.key)) {
+      try {
+        const response = await this.makeRequest(request.endpoint, {
+          method: request.method,
+          body: this.getRequestBody(request),
+        });
+        this.rememberWrite(request, response.data);
+        return response.data;
+      } catch (error) {
+        if (!(error instanceof NetworkError)) {
+          throw error;
+        }
+      }
+    }
+
+    this.offlineQueue.enqueue({ ...request, baseVersion: this.knownVersions.get(request.key) });
+    return { queued: true };
+  }
+
+  private async sendQueuedRequest(request: QueuedRequest): Promise<number | undefined> {
+    const headers: Record<string, string> = {};
+    if (request.baseVersion !== undefined) {
+      headers['X-Base-Version'] = String(request.baseVersion);
     }
+
+    const response = await this.makeRequest(request.endpoint, {
+      method: request.method,
+      body: this.getRequestBody(request),
+      headers,
+    });
+    const version = this.rememberWrite(request, response.data);
+
+    this.sentWriteListeners.forEach(listener => {
+      try {
+        listener(request, response.data);
+      } catch (error) {
+        console.error('Sent write listener error:', error);
+      }
+    });
+    return version;
   }
 
   // Authentication methods
@@ -153,6 +308,8 @@ class ApiClient {
 
     if (response.data?.tokens) {
       this.saveTokensToStorage(response.data.tokens);
+      // Writes queued before the session expired can be sent now
+      this.offlineQueue.retryNow();
     }
 
     return response.data;
@@ -166,8 +323,12 @@ class ApiClient {
       firstName: string;
       lastName: string;
       licenseNumber?: string;
+      practice?: {
+        name?: string;
+        address?: string;
+        phone?: string;
+      };
     };
-    role?: string;
   }): Promise<any> {
     const response = await this.makeRequest('/auth/register', {
       method: 'POST',
@@ -214,11 +375,14 @@ class ApiClient {
     state: any;
     autoSaved?: boolean;
   }): Promise<any> {
-    const response = await this.makeRequest('/viewer-state/save', {
+    return this.sendWrite({
+      key: `viewerState:${stateData.studyInstanceUID}:${stateData.sessionId}`,
+      kind: 'viewerState',
+      label: 'Viewer state',
+      endpoint: '/viewer-state/save',
       method: 'POST',
       body: JSON.stringify(stateData),
     });
-    return response.data;
   }
 
   async getViewerState(studyInstanceUID: string, sessionId?: string): Promise<any> {
@@ -228,6 +392,40 @@ class ApiClient {
     }
 
     const response = await this.makeRequest(`/viewer-state?${params.toString()}`);
+    if (typeof response.data?.version === 'number') {
+      this.knownVersions.set(
+        `viewerState:${studyInstanceUID}:${response.data.sessionId}`,
+        response.data.version
+      );
+    }
+    return response.data;
+  }
+
+  async getViewerStateHistory(
+    studyInstanceUID: string,
+    options: { limit?: number; skip?: number } = {}
+  ): Promise<any> {
+    const params = new URLSearchParams({ studyInstanceUID });
+    if (options.limit) {
+      params.append('limit', String(options.limit));
+    }
+    if (options.skip) {
+      params.append('skip', String(options.skip));
+    }
+
+    const response = await this.makeRequest(`/viewer-state/history?${params.toString()}`);
+    return response.data;
+  }
+
+  async getViewerStateById(stateId: string): Promise<any> {
+    const response = await this.makeRequest(`/viewer-state/${encodeURIComponent(stateId)}`);
+    return response.data;
+  }
+
+  async deleteViewerState(stateId: string): Promise<any> {
+    const response = await this.makeRequest(`/viewer-state/${encodeURIComponent(stateId)}`, {
+      method: 'DELETE',
+    });
     return response.data;
   }
 
@@ -236,11 +434,14 @@ class ApiClient {
     sessionId: string;
     state: any;
   }): Promise<any> {
-    const response = await this.makeRequest('/viewer-state/auto-save', {
+    return this.sendWrite({
+      key: `viewerState:${stateData.studyInstanceUID}:${stateData.sessionId}`,
+      kind: 'viewerState',
+      label: 'Viewer state',
+      endpoint: '/viewer-state/auto-save',
       method: 'POST',
       body: JSON.stringify(stateData),
     });
-    return response.data;
   }
 
   async getRecentStudies(limit: number = 10): Promise<any> {
@@ -256,36 +457,24 @@ class ApiClient {
     tooth: { system: string; value: string };
     category: string;
     content: { text: string };
+    findings?: DentalFinding[];
     metadata?: any;
     priority?: string;
     tags?: string[];
     isPrivate?: boolean;
-  }, audioFile?: File): Promise<any> {
-    const formData = new FormData();
-    
-    // Add text fields
-    Object.entries(annotationData).forEach(([key, value]) => {
-      if (typeof value === 'object') {
-        formData.append(key, JSON.stringify(value));
-      } else {
-        formData.append(key, String(value));
-      }
-    });
-
-    // Add audio file if provided
-    if (audioFile) {
-      formData.append('audio', audioFile);
-    }
-
-    const response = await this.makeRequest('/annotations', {
+  }, audioFile?: File, localId?: string): Promise<any> {
+    // Annotations queued offline are told apart by the id of the note they were written as
+    const createId = localId ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    return this.sendWrite({
+      key: `annotation-create:${createId}`,
+      kind: 'annotation',
+      label: `Annotation on tooth ${annotationData.tooth.value}`,
+      endpoint: '/annotations',
       method: 'POST',
-      body: formData,
-      headers: {
-        // Don't set Content-Type for FormData, let browser set it with boundary
-        'Authorization': `Bearer ${this.accessToken}`,
-      },
+      body: JSON.stringify(annotationData),
+      files: audioFile ? { audio: audioFile } : undefined,
     });
-    return response.data;
   }
 
   async getAnnotations(filters: {
@@ -296,7 +485,13 @@ class ApiClient {
     status?: string;
     priority?: string;
     tags?: string[];
+    condition?: DentalFindingCondition;
+    surface?: DentalToothSurface;
     search?: string;
+    authorId?: string;
+    from?: string;
+    to?: string;
+    facets?: boolean;
     limit?: number;
     skip?: number;
   } = {}): Promise<any> {
@@ -313,18 +508,26 @@ class ApiClient {
     });
 
     const response = await this.makeRequest(`/annotations?${params.toString()}`);
+    this.rememberVersions('annotation', response.data?.annotations, '_id');
     return response.data;
   }
 
   async getAnnotationsByTooth(
     system: string,
     value: string,
-    studyInstanceUID?: string
+    studyInstanceUID?: string,
+    findingFilters: { condition?: DentalFindingCondition; surface?: DentalToothSurface } = {}
   ): Promise<any> {
     const params = new URLSearchParams();
     if (studyInstanceUID) {
       params.append('studyInstanceUID', studyInstanceUID);
     }
+    if (findingFilters.condition) {
+      params.append('condition', findingFilters.condition);
+    }
+    if (findingFilters.surface) {
+      params.append('surface', findingFilters.surface);
+    }
 
     const response = await this.makeRequest(
       `/annotations/tooth/${system}/${value}?${params.toString()}`
@@ -333,17 +536,61 @@ class ApiClient {
   }
 
   async updateAnnotation(id: string, updates: any): Promise<any> {
-    const response = await this.makeRequest(`/annotations/${id}`, {
+    return this.sendWrite({
+      key: `annotation:${id}`,
+      kind: 'annotation',
+      label: 'Annotation update',
+      endpoint: `/annotations/${id}`,
       method: 'PUT',
       body: JSON.stringify(updates),
     });
-    return response.data;
   }
 
   async deleteAnnotation(id: string): Promise<any> {
-    const response = await this.makeRequest(`/annotations/${id}`, {
+    return this.sendWrite({
+      key: `annotation:${id}`,
+      kind: 'annotation',
+      label: 'Annotation deletion',
+      endpoint: `/annotations/${id}`,
       method: 'DELETE',
     });
+  }
+
+  async getAnnotationHistory(id: string): Promise<any> {
+    const response = await this.makeRequest(`/annotations/${id}/history`);
+    return response.data;
+  }
+
+  // Review workflow; reviewing needs a connection, so these are not queued offline
+  async submitAnnotationForReview(id: string): Promise<any> {
+    const response = await this.makeRequest(`/annotations/${id}/submit`, { method: 'POST' });
+    return response.data;
+  }
+
+  async getReviewQueue(filters: {
+    studyInstanceUID?: string;
+    limit?: number;
+    skip?: number;
+  } = {}): Promise<any> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    });
+
+    const response = await this.makeRequest(`/annotations/review-queue?${params.toString()}`);
+    return response.data;
+  }
+
+  async reviewAnnotation(
+    id: string,
+    review: { decision: 'approve' | 'reject'; comments?: string }
+  ): Promise<any> {
+    const response = await this.makeRequest(`/annotations/${id}/review`, {
+      method: 'POST',
+      body: JSON.stringify(review),
+    });
     return response.data;
   }
 
@@ -352,6 +599,128 @@ class ApiClient {
     return response.data;
   }
 
+  // Audit trail of the practice, for administrators
+  async getAuditEvents(filters: {
+    resourceType?: 'annotation' | 'measurement' | 'viewerState';
+    resourceId?: string;
+    studyInstanceUID?: string;
+    actorId?: string;
+    action?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    skip?: number;
+  } = {}): Promise<any> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    });
+
+    const response = await this.makeRequest(`/audit?${params.toString()}`);
+    return response.data;
+  }
+
+  // Measurement methods
+  async saveMeasurement(measurementUID: string, measurementData: {
+    studyInstanceUID: string;
+    seriesInstanceUID?: string;
+    sopInstanceUID?: string;
+    frameOfReferenceUID?: string;
+    toolName: string;
+    label?: string;
+    tooth?: { system: string; value: string } | null;
+    preset?: { id: string; label: string };
+    value?: number | null;
+    unit?: string;
+    annotation?: any;
+  }): Promise<any> {
+    return this.sendWrite({
+      key: `measurement:${measurementUID}`,
+      kind: 'measurement',
+      label: measurementData.label || measurementData.toolName,
+      endpoint: `/measurements/${encodeURIComponent(measurementUID)}`,
+      method: 'PUT',
+      body: JSON.stringify(measurementData),
+    });
+  }
+
+  async getMeasurements(filters: {
+    studyInstanceUID?: string;
+    toothSystem?: string;
+    toothValue?: string;
+    presetId?: string;
+    limit?: number;
+    skip?: number;
+  } = {}): Promise<any> {
+    const params = new URLSearchParams();
+
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    });
+
+    const response = await this.makeRequest(`/measurements?${params.toString()}`);
+    this.rememberVersions('measurement', response.data?.measurements, 'measurementUID');
+    return response.data;
+  }
+
+  async getMeasurementsByTooth(
+    system: string,
+    value: string,
+    studyInstanceUID?: string
+  ): Promise<any> {
+    const params = new URLSearchParams();
+    if (studyInstanceUID) {
+      params.append('studyInstanceUID', studyInstanceUID);
+    }
+
+    const response = await this.makeRequest(
+      `/measurements/tooth/${system}/${value}?${params.toString()}`
+    );
+    return response.data;
+  }
+
+  async deleteMeasurement(measurementUID: string): Promise<any> {
+    return this.sendWrite({
+      key: `measurement:${measurementUID}`,
+      kind: 'measurement',
+      label: 'Measurement deletion',
+      endpoint: `/measurements/${encodeURIComponent(measurementUID)}`,
+      method: 'DELETE',
+    });
+  }
+
+  // Offline sync methods
+  getSyncStatus(): SyncStatus {
+    return this.offlineQueue.getStatus();
+  }
+
+  subscribeToSyncStatus(listener: (status: SyncStatus) => void): () => void {
+    return this.offlineQueue.subscribe(listener);
+  }
+
+  /**
+   * Calls `listener` with each queued write once the backend accepted it, and the response, e.g.
+   * to link notes written offline to the annotation they were saved as.
+   */
+  subscribeToSentWrites(listener: (request: QueuedRequest, data: any) => void): () => void {
+    this.sentWriteListeners.push(listener);
+    return () => {
+      this.sentWriteListeners = this.sentWriteListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  retrySync(): Promise<void> {
+    return this.offlineQueue.retryNow();
+  }
+
+  resolveSyncConflict(requestId: string, resolution: 'local' | 'server'): Promise<void> {
+    return this.offlineQueue.resolveConflict(requestId, resolution);
+  }
+
   // Utility methods
   isAuthenticated(): boolean {
     return !!this.accessToken;
@@ -0,0 +1,31 @@
+/**
+ * The backend could not be reached: the request failed before a response, or a gateway in
+ * front of the backend answered that it is down.
+ */
+export class NetworkError extends Error {
+  constructor(message: string = 'Network error occurred') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The backend answered with an error status, e.g. 404 or 409 for a version conflict.
+ */
+export class ApiRequestError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data?: any) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * The backend refused the credentials of the request, so the user has to sign in again.
+ */
+export const isAuthRejection = (error: unknown): boolean =>
+  error instanceof ApiRequestError && (error.status === 401 || error.status === 403);
@@ -1,10 +1,18 @@
 import apiClient from './apiClient';
+import {
+  DentalPermission,
+  DentalRole,
+  getDentalPermissions,
+} from '../dentalPermissions';
 
 interface User {
   _id: string;
   username: string;
   email: string;
-  role: string;
+  role: DentalRole;
+  // The practice the user belongs to; missing for accounts that predate practices
+  practiceId?: string;
+  permissions?: DentalPermission[];
   profile: {
     firstName: string;
     lastName: string;
@@ -17,7 +25,7 @@ interface User {
   };
   preferences: {
     theme: 'standard' | 'dental';
-    defaultToothSystem: 'FDI' | 'Universal';
+    defaultToothSystem: 'FDI' | 'Universal' | 'Palmer';
     autoSave: boolean;
     notifications: {
       email: boolean;
@@ -43,8 +51,13 @@ interface RegisterData {
     firstName: string;
     lastName: string;
     licenseNumber?: string;
+    // Registering opens a new practice, administered by the registrant
+    practice?: {
+      name?: string;
+      address?: string;
+      phone?: string;
+    };
   };
-  role?: 'dentist' | 'hygienist' | 'assistant' | 'admin';
 }
 
 class AuthService {
@@ -200,6 +213,10 @@ class AuthService {
     return !!this.currentUser && roles.includes(this.currentUser.role);
   }
 
+  hasPermission(permission: DentalPermission): boolean {
+    return !!this.currentUser && getDentalPermissions(this.currentUser).includes(permission);
+  }
+
   getFullName(): string {
     if (!this.currentUser) return 'Unknown User';
     const { firstName, lastName } = this.currentUser.profile;
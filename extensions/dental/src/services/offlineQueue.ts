@@ -0,0 +1,368 @@
+import { ApiRequestError, NetworkError } from './apiErrors';
+
+export type QueuedRequestKind = 'annotation' | 'measurement' | 'viewerState';
+
+export type QueuedRequest = {
+  id: string;
+  // Writes to the same resource replace each other, e.g. `measurement:<uid>`
+  key: string;
+  kind: QueuedRequestKind;
+  label: string;
+  // Requests are only replayed for the user who made them
+  userId: string | null;
+  endpoint: string;
+  method: string;
+  body?: string;
+  // Files sent as multipart form data with the fields of the JSON body, e.g. the recording of a
+  // voice note. IndexedDB stores them as they are.
+  files?: Record<string, Blob>;
+  // Version of the resource the change was made on, checked by the backend on replay
+  baseVersion?: number;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  conflict?: { currentVersion?: number };
+};
+
+export type NewQueuedRequest = Pick<
+  QueuedRequest,
+  'key' | 'kind' | 'label' | 'endpoint' | 'method' | 'body' | 'files' | 'baseVersion'
+>;
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'conflict';
+
+export type SyncStatus = {
+  state: SyncState;
+  pending: number;
+  conflicts: QueuedRequest[];
+};
+
+export type QueueStorage = {
+  load: () => Promise<QueuedRequest[]>;
+  put: (request: QueuedRequest) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+};
+
+/**
+ * Sends a queued request, resolving with the version of the resource after the write.
+ */
+export type QueuedRequestSender = (request: QueuedRequest) => Promise<number | undefined>;
+
+const DB_NAME = 'dental-offline-queue';
+const STORE_NAME = 'requests';
+
+export const RETRY_BASE_DELAY_MS = 2000;
+export const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Delay before retrying a request that failed `attempts` times: doubling from two seconds up
+ * to five minutes.
+ */
+export const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+const generateRequestId = () => `request-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = <T>(
+  database: IDBDatabase,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+export const createIndexedDBStorage = (): QueueStorage => {
+  const database = openDatabase();
+
+  return {
+    load: async () => runTransaction(await database, 'readonly', store => store.getAll()),
+    put: async request => {
+      await runTransaction(await database, 'readwrite', store => store.put(request));
+    },
+    remove: async id => {
+      await runTransaction(await database, 'readwrite', store => store.delete(id));
+    },
+  };
+};
+
+export const createMemoryStorage = (): QueueStorage => {
+  const requests = new Map<string, QueuedRequest>();
+
+  return {
+    load: async () => Array.from(requests.values()).map(request => ({ ...request })),
+    put: async request => {
+      requests.set(request.id, { ...request });
+    },
+    remove: async id => {
+      requests.delete(id);
+    },
+  };
+};
+
+// Browsers without IndexedDB, and tests, keep the queue for the page lifetime only
+const createQueueStorage = (): QueueStorage =>
+  typeof indexedDB !== 'undefined' ? createIndexedDBStorage() : createMemoryStorage();
+
+/**
+ * Outbound queue for writes made while the backend is unreachable. Requests are stored in
+ * IndexedDB so they survive a reload, replayed in order with exponential backoff, and kept
+ * aside as conflicts when the backend reports that the resource changed since it was edited.
+ */
+class OfflineQueue {
+  private requests: QueuedRequest[] = [];
+  private listeners: Array<(status: SyncStatus) => void> = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
+  private isOffline = false;
+  private loaded: Promise<void>;
+
+  constructor(
+    private send: QueuedRequestSender,
+    private getUserId: () => string | null,
+    private storage: QueueStorage = createQueueStorage()
+  ) {
+    this.loaded = this.storage
+      .load()
+      .then(requests => {
+        this.requests = [...requests, ...this.requests].sort((a, b) => a.createdAt - b.createdAt);
+        this.notify();
+        this.scheduleFlush();
+      })
+      .catch(error => console.warn('Failed to load the offline queue:', error));
+  }
+
+  private persist(request: QueuedRequest): void {
+    this.storage
+      .put(request)
+      .catch(error => console.warn('Failed to store queued request:', error));
+  }
+
+  private forget(request: QueuedRequest): void {
+    this.requests = this.requests.filter(existing => existing !== request);
+    this.storage
+      .remove(request.id)
+      .catch(error => console.warn('Failed to remove queued request:', error));
+  }
+
+  private getUserRequests(): QueuedRequest[] {
+    const userId = this.getUserId();
+    return this.requests.filter(request => request.userId === userId);
+  }
+
+  hasPending(key: string): boolean {
+    return this.getUserRequests().some(request => request.key === key);
+  }
+
+  /**
+   * Queues a write, replacing a queued write to the same resource. The replacement keeps the
+   * version the first queued change was based on, since the server has not seen either.
+   */
+  enqueue(newRequest: NewQueuedRequest): void {
+    const userId = this.getUserId();
+    const existing = this.requests.find(
+      request => request.key === newRequest.key && request.userId === userId && !request.conflict
+    );
+    const request: QueuedRequest = {
+      ...newRequest,
+      id: existing?.id ?? generateRequestId(),
+      userId,
+      baseVersion: existing ? existing.baseVersion : newRequest.baseVersion,
+      attempts: existing?.attempts ?? 0,
+      nextAttemptAt: existing?.nextAttemptAt ?? Date.now(),
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+
+    if (existing) {
+      this.requests[this.requests.indexOf(existing)] = request;
+    } else {
+      this.requests.push(request);
+    }
+
+    this.persist(request);
+    this.notify();
+    this.scheduleFlush();
+  }
+
+  /**
+   * Replays the queued requests of the current user that are due, in order. A network
+   * failure stops the replay and backs off; rejected requests other than conflicts are
+   * dropped, since sending them again would fail the same way.
+   */
+  async flush(): Promise<void> {
+    await this.loaded;
+    if (this.isFlushing) {
+      return;
+    }
+
+    this.isFlushing = true;
+    this.notify();
+
+    try {
+      const now = Date.now();
+      const dueRequests = this.getUserRequests().filter(
+        request => !request.conflict && request.nextAttemptAt <= now
+      );
+
+      for (const request of dueRequests) {
+        try {
+          const version = await this.send(request);
+          this.isOffline = false;
+
+          const current = this.requests.find(existing => existing.id === request.id);
+          if (current === request) {
+            this.forget(request);
+          } else if (current) {
+            // Replaced while it was being sent: the replacement now builds on this version
+            current.baseVersion = version;
+            this.persist(current);
+          }
+        } catch (error) {
+          if (error instanceof NetworkError) {
+            this.isOffline = true;
+            request.attempts += 1;
+            request.nextAttemptAt = Date.now() + getRetryDelay(request.attempts);
+            this.persist(request);
+            break;
+          }
+
+          if (error instanceof ApiRequestError && error.status === 409) {
+            request.conflict = { currentVersion: error.data?.currentVersion };
+            this.persist(request);
+          } else if (error instanceof ApiRequestError && error.status === 401) {
+            // Signed out: kept until the user signs in again
+            break;
+          } else if (
+            error instanceof ApiRequestError &&
+            error.status === 404 &&
+            request.method === 'DELETE'
+          ) {
+            this.forget(request);
+          } else {
+            console.warn(`Dropping queued ${request.kind} request:`, error);
+            this.forget(request);
+          }
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+      this.notify();
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const nextAttemptAt = Math.min(
+      ...this.getUserRequests()
+        .filter(request => !request.conflict)
+        .map(request => request.nextAttemptAt)
+    );
+    if (Number.isFinite(nextAttemptAt)) {
+      this.flushTimer = setTimeout(
+        () => {
+          this.flushTimer = null;
+          this.flush();
+        },
+        Math.max(nextAttemptAt - Date.now(), 0)
+      );
+    }
+  }
+
+  /**
+   * Retries every queued request of the current user now, e.g. when the browser is back online.
+   */
+  retryNow(): Promise<void> {
+    this.getUserRequests().forEach(request => {
+      request.nextAttemptAt = Date.now();
+    });
+    return this.flush();
+  }
+
+  /**
+   * Resolves a conflict by sending the local change over the server version, or by dropping
+   * the local change and keeping what is on the server.
+   */
+  resolveConflict(id: string, resolution: 'local' | 'server'): Promise<void> {
+    const request = this.requests.find(existing => existing.id === id && existing.conflict);
+    if (!request) {
+      return Promise.resolve();
+    }
+
+    if (resolution === 'server') {
+      this.forget(request);
+      this.notify();
+      return Promise.resolve();
+    }
+
+    delete request.conflict;
+    delete request.baseVersion;
+    request.nextAttemptAt = Date.now();
+    this.persist(request);
+    return this.flush();
+  }
+
+  getStatus(): SyncStatus {
+    const requests = this.getUserRequests();
+    const conflicts = requests.filter(request => request.conflict);
+    const pending = requests.length - conflicts.length;
+
+    let state: SyncState = 'synced';
+    if (conflicts.length) {
+      state = 'conflict';
+    } else if (this.isOffline && pending) {
+      state = 'offline';
+    } else if (this.isFlushing) {
+      state = 'syncing';
+    } else if (pending) {
+      state = 'pending';
+    }
+
+    return { state, pending, conflicts };
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.warn('Failed to notify sync status listener', error);
+      }
+    });
+  }
+
+  dispose(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.listeners = [];
+  }
+}
+
+export default OfflineQueue;
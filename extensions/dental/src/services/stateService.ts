@@ -1,48 +1,34 @@
+import type { CommandsManager, ServicesManager } from '@ohif/core';
+import type { Types as CornerstoneTypes } from '@ohif/extension-cornerstone';
 import apiClient from './apiClient';
 import authService from './authService';
-
-interface ViewerState {
-  viewports: Array<{
-    viewportId: string;
-    displaySetInstanceUID: string;
-    imageIndex: number;
-    zoom: number;
-    pan: { x: number; y: number };
-    rotation: number;
-    flip: { horizontal: boolean; vertical: boolean };
-    windowLevel: { width: number; center: number };
-    colormap?: string;
-    invert: boolean;
-  }>;
-  layout: {
-    numRows: number;
-    numCols: number;
-    activeViewportId: string;
-  };
-  tools: {
-    activeTool: string;
-    toolStates: any;
-  };
-  measurements: Array<{
-    id: string;
-    toolName: string;
-    data: any;
-    metadata: {
-      tooth?: string;
-      category?: string;
-      notes?: string;
-    };
-  }>;
-  dental: {
-    selectedTooth: {
-      system: 'FDI' | 'Universal';
-      value: string;
-    };
-    theme: 'standard' | 'dental';
-    hangingProtocol: string;
-  };
-  metadata?: any;
-}
+import {
+  getDentalCalibrations,
+  restoreDentalCalibrations,
+  subscribeToDentalCalibrations,
+} from '../dentalCalibration';
+import {
+  getActiveDentalTooth,
+  setActiveDentalTooth,
+  subscribeToActiveDentalTooth,
+} from '../dentalMeasurementsManager';
+import { restoreDentalMeasurementRecords } from '../dentalMeasurementsSync';
+import { normalizeNumberingSystem } from '../dentalTeeth';
+import {
+  ViewerState,
+  ViewportState,
+  applyViewportState,
+  captureViewerState,
+  findViewportDisplaySets,
+} from '../dentalViewerState';
+
+type StateServiceContext = {
+  servicesManager: ServicesManager;
+  commandsManager: CommandsManager;
+};
+
+// Longest wait for the viewport grid to settle after switching hanging protocol
+const GRID_CHANGE_TIMEOUT_MS = 2000;
 
 interface SavedState {
   stateId: string;
@@ -52,8 +38,18 @@ interface SavedState {
   createdAt: Date;
   updatedAt: Date;
   state: ViewerState;
+  // Author of the state, listed in the history along with the states of colleagues
+  author?: { id: string; name: string };
 }
 
+const getStateAuthor = (user: any): SavedState['author'] =>
+  user?._id && {
+    id: user._id,
+    name:
+      [user.profile?.firstName, user.profile?.lastName].filter(Boolean).join(' ') ||
+      'Unknown author',
+  };
+
 class StateService {
   private autoSaveInterval: NodeJS.Timeout | null = null;
   private autoSaveDelay: NodeJS.Timeout | null = null;
@@ -61,9 +57,16 @@ class StateService {
   private currentStudyUID: string | null = null;
   private currentSessionId: string | null = null;
   private isAutoSaveEnabled: boolean = true;
+  private context: StateServiceContext | null = null;
+  private subscriptions: Array<() => void> = [];
+  // Presentations waiting for their viewport to load the restored display sets
+  private pendingViewportStates = new Map<string, ViewportState>();
+  private isRestoring = false;
+  private saveListeners: Array<() => void> = [];
 
   constructor() {
     this.initializeAutoSave();
+    subscribeToDentalCalibrations(() => this.onStateChange());
   }
 
   private initializeAutoSave(): void {
@@ -84,7 +87,7 @@ class StateService {
   }
 
   private async performAutoSave(): Promise<void> {
-    if (!this.currentStudyUID || !this.currentSessionId || !authService.isAuthenticated()) {
+    if (!this.currentStudyUID || !this.currentSessionId || !this.canSaveState()) {
       return;
     }
 
@@ -106,6 +109,7 @@ class StateService {
       });
 
       this.lastSavedState = stateString;
+      this.notifyStateHistoryChanged();
       console.log('Auto-saved viewer state');
     } catch (error) {
       console.warn('Auto-save failed:', error);
@@ -113,60 +117,115 @@ class StateService {
   }
 
   private getCurrentViewerState(): ViewerState | null {
-    // This would integrate with OHIF's state management
-    // For now, we'll return a mock state structure
+    const services = this.context?.servicesManager?.services;
+    if (!services) {
+      return null;
+    }
+
     try {
-      // In a real implementation, this would extract state from:
-      // - ViewportService for viewport configurations
-      // - ToolGroupService for tool states
-      // - MeasurementService for measurements
-      // - CustomizationService for dental-specific state
-      
-      return {
-        viewports: [],
-        layout: {
-          numRows: 2,
-          numCols: 2,
-          activeViewportId: 'viewport-1',
-        },
-        tools: {
-          activeTool: 'Length',
-          toolStates: {},
-        },
-        measurements: [],
-        dental: {
-          selectedTooth: {
-            system: 'FDI',
-            value: '11',
-          },
-          theme: 'dental',
-          hangingProtocol: '@ohif/hpDental2x2',
-        },
-      };
+      return captureViewerState({
+        services,
+        selectedTooth: getActiveDentalTooth(),
+        calibrations: getDentalCalibrations(),
+        theme: document.body.classList.contains('dental-theme') ? 'dental' : 'standard',
+      });
     } catch (error) {
       console.error('Failed to get current viewer state:', error);
       return null;
     }
   }
 
+  /**
+   * Connects the service to the viewer services. The state is saved when the layout, tools,
+   * measurements or selected tooth change, and the saved state of a study is restored when a
+   * hanging protocol first shows it.
+   */
+  initialize({ servicesManager, commandsManager }: StateServiceContext): void {
+    const {
+      hangingProtocolService,
+      viewportGridService,
+      cornerstoneViewportService,
+      toolGroupService,
+      measurementService,
+    } = servicesManager?.services || ({} as any);
+    if (!hangingProtocolService || !viewportGridService || !cornerstoneViewportService) {
+      return;
+    }
+
+    this.cleanup();
+    this.context = { servicesManager, commandsManager };
+    this.setAutoSaveEnabled(this.isAutoSaveEnabled);
+
+    const onStateChange = () => this.onStateChange();
+    const { MEASUREMENT_ADDED, MEASUREMENT_UPDATED, MEASUREMENT_REMOVED } = measurementService.EVENTS;
+    this.subscriptions = [
+      hangingProtocolService.subscribe(
+        hangingProtocolService.EVENTS.PROTOCOL_CHANGED,
+        ({ activeStudyUID }) => this.handleProtocolChanged(activeStudyUID)
+      ).unsubscribe,
+      cornerstoneViewportService.subscribe(
+        cornerstoneViewportService.EVENTS.VIEWPORT_DATA_CHANGED,
+        ({ viewportId }) => this.applyPendingViewportState(viewportId)
+      ).unsubscribe,
+      viewportGridService.subscribe(viewportGridService.EVENTS.GRID_STATE_CHANGED, onStateChange)
+        .unsubscribe,
+      viewportGridService.subscribe(
+        viewportGridService.EVENTS.ACTIVE_VIEWPORT_ID_CHANGED,
+        onStateChange
+      ).unsubscribe,
+      toolGroupService.subscribe(toolGroupService.EVENTS.PRIMARY_TOOL_ACTIVATED, onStateChange)
+        .unsubscribe,
+      measurementService.subscribe(MEASUREMENT_ADDED, onStateChange).unsubscribe,
+      measurementService.subscribe(MEASUREMENT_UPDATED, onStateChange).unsubscribe,
+      measurementService.subscribe(MEASUREMENT_REMOVED, onStateChange).unsubscribe,
+      subscribeToActiveDentalTooth(onStateChange),
+    ];
+  }
+
+  private handleProtocolChanged(activeStudyUID?: string): void {
+    const studyInstanceUID =
+      activeStudyUID ??
+      this.context?.servicesManager.services.hangingProtocolService.getActiveProtocol()
+        ?.activeStudy?.StudyInstanceUID;
+
+    // Protocol changes made while restoring, or within the same study, keep the session
+    if (this.isRestoring || !studyInstanceUID || studyInstanceUID === this.currentStudyUID) {
+      return;
+    }
+
+    this.initializeForStudy(studyInstanceUID);
+  }
+
+  /**
+   * Restores the latest saved state of a study and starts a new session for it. Auto-saves
+   * update the document of the session, so each opening of the study leaves a version of its
+   * own in the history instead of overwriting the one it was restored from.
+   */
   async initializeForStudy(studyInstanceUID: string): Promise<void> {
     this.currentStudyUID = studyInstanceUID;
     this.currentSessionId = this.generateSessionId();
     this.lastSavedState = null;
+    this.notifyStateHistoryChanged();
 
     // Try to load existing state
     try {
       const savedState = await this.loadViewerState(studyInstanceUID);
       if (savedState) {
         await this.applyViewerState(savedState.state);
-        this.currentSessionId = savedState.sessionId;
+        this.lastSavedState = JSON.stringify(savedState.state);
         console.log('Loaded saved viewer state');
       }
     } catch (error) {
       console.warn('Failed to load saved state:', error);
     }
+
+    this.notifyStateHistoryChanged();
   }
 
+  /**
+   * Saves the state, by default the current one, as a snapshot: a version with a session of its
+   * own, which later auto-saves do not overwrite.
+   */
   async saveViewerState(studyInstanceUID: string, state?: ViewerState): Promise<SavedState> {
     if (!authService.isAuthenticated()) {
       throw new Error('Authentication required to save state');
@@ -177,7 +236,7 @@ class StateService {
       throw new Error('No state to save');
     }
 
-    const sessionId = this.currentSessionId || this.generateSessionId();
+    const sessionId = this.generateSessionId();
 
     try {
       const response = await apiClient.saveViewerState({
@@ -187,17 +246,17 @@ class StateService {
         autoSaved: false,
       });
 
-      this.lastSavedState = JSON.stringify(stateToSave);
-      this.currentStudyUID = studyInstanceUID;
-      this.currentSessionId = sessionId;
+      this.notifyStateHistoryChanged();
 
+      // Saves made while the backend is unreachable are queued and have no id until sent
+      const savedAt = new Date(response.timestamp ?? Date.now());
       return {
         stateId: response.stateId,
         version: response.version,
         sessionId,
         autoSaved: false,
-        createdAt: new Date(response.timestamp),
-        updatedAt: new Date(response.timestamp),
+        createdAt: savedAt,
+        updatedAt: savedAt,
         state: stateToSave,
       };
     } catch (error) {
@@ -232,27 +291,144 @@ class StateService {
     }
   }
 
-  private async applyViewerState(state: ViewerState): Promise<void> {
+  private waitForGridChange(): Promise<void> {
+    const { viewportGridService } = this.context.servicesManager.services;
+
+    return new Promise(resolve => {
+      const subscription = viewportGridService.subscribe(
+        viewportGridService.EVENTS.GRID_STATE_CHANGED,
+        () => {
+          clearTimeout(timeout);
+          subscription.unsubscribe();
+          resolve();
+        }
+      );
+      const timeout = setTimeout(() => {
+        subscription.unsubscribe();
+        resolve();
+      }, GRID_CHANGE_TIMEOUT_MS);
+    });
+  }
+
+  private applyPendingViewportState(viewportId: string): void {
+    const viewportState = this.pendingViewportStates.get(viewportId);
+    if (!viewportState) {
+      return;
+    }
+
+    this.pendingViewportStates.delete(viewportId);
+    const { cornerstoneViewportService } = this.context.servicesManager
+      .services as CornerstoneTypes.CornerstoneServices;
+    applyViewportState(
+      cornerstoneViewportService.getCornerstoneViewport(viewportId),
+      viewportState
+    ).catch(error => console.warn('Failed to restore viewport presentation:', error));
+  }
+
+  /**
+   * Puts the saved series back in their viewports, after switching to the saved hanging
+   * protocol stage. Viewports already showing their series get their presentation at once;
+   * the others get it when cornerstone has loaded the new display sets.
+   */
+  private async restoreViewports(state: ViewerState): Promise<void> {
+    const { hangingProtocolService, viewportGridService, displaySetService } =
+      this.context.servicesManager.services;
+    const { hangingProtocol, hangingProtocolStageIndex } = state.dental ?? ({} as any);
+    const activeProtocol = hangingProtocolService.getActiveProtocol();
+
+    if (
+      hangingProtocol &&
+      (activeProtocol?.protocol?.id !== hangingProtocol ||
+        (Number.isInteger(hangingProtocolStageIndex) &&
+          activeProtocol?.stageIndex !== hangingProtocolStageIndex))
+    ) {
+      const gridChanged = this.waitForGridChange();
+      hangingProtocolService.setProtocol(hangingProtocol, {
+        stageIndex: hangingProtocolStageIndex ?? 0,
+      });
+      await gridChanged;
+    }
+
+    const { viewports } = viewportGridService.getState();
+    const viewportsToUpdate = [];
+    this.pendingViewportStates = new Map();
+
+    (state.viewports ?? []).forEach(viewportState => {
+      const gridViewport = viewports.get(viewportState.viewportId);
+      const displaySetInstanceUIDs = findViewportDisplaySets(viewportState, displaySetService);
+      if (!gridViewport || !displaySetInstanceUIDs.length) {
+        return;
+      }
+
+      const isShown =
+        displaySetInstanceUIDs.length === gridViewport.displaySetInstanceUIDs?.length &&
+        displaySetInstanceUIDs.every(uid => gridViewport.displaySetInstanceUIDs.includes(uid));
+      this.pendingViewportStates.set(viewportState.viewportId, viewportState);
+      if (isShown) {
+        this.applyPendingViewportState(viewportState.viewportId);
+      } else {
+        viewportsToUpdate.push({ viewportId: viewportState.viewportId, displaySetInstanceUIDs });
+      }
+    });
+
+    if (viewportsToUpdate.length) {
+      await viewportGridService.setDisplaySetsForViewports(viewportsToUpdate);
+    }
+
+    if (viewports.has(state.layout?.activeViewportId)) {
+      viewportGridService.setActiveViewportId(state.layout.activeViewportId);
+    }
+  }
+
+  private restoreTools(state: ViewerState): void {
+    const { commandsManager } = this.context;
+
+    Object.entries(state.tools?.toolStates ?? {}).forEach(([toolGroupId, toolName]) => {
+      if (typeof toolName === 'string' && toolName) {
+        commandsManager.runCommand('setToolActive', { toolName, toolGroupId }, 'CORNERSTONE');
+      }
+    });
+  }
+
+  private async applyViewerState(
+    state: ViewerState,
+    { replaceMeasurements = false }: { replaceMeasurements?: boolean } = {}
+  ): Promise<void> {
+    this.isRestoring = true;
     try {
-      // This would integrate with OHIF services to apply the state
-      // For now, we'll just apply dental-specific state
-      
       if (state.dental) {
-        // Apply theme
         if (state.dental.theme === 'dental') {
           document.body.classList.add('dental-theme');
         } else {
           document.body.classList.remove('dental-theme');
         }
 
-        // Apply selected tooth (this would integrate with dental measurements manager)
-        // setActiveDentalTooth(state.dental.selectedTooth);
+        if (state.dental.calibrations) {
+          restoreDentalCalibrations(state.dental.calibrations);
+        }
       }
 
+      if (this.context) {
+        await this.restoreViewports(state);
+        this.restoreTools(state);
+        restoreDentalMeasurementRecords(
+          (state.measurements ?? []).map(measurement => measurement.data),
+          { replace: replaceMeasurements }
+        );
+      }
+
+      const { selectedTooth } = state.dental ?? ({} as any);
+      const system = normalizeNumberingSystem(selectedTooth?.system);
+      setActiveDentalTooth(
+        system && selectedTooth.value ? { system, value: selectedTooth.value } : null
+      );
+
       console.log('Applied viewer state');
     } catch (error) {
       console.error('Failed to apply viewer state:', error);
       throw error;
+    } finally {
+      this.isRestoring = false;
     }
   }
 
@@ -262,15 +438,16 @@ class StateService {
     }
 
     try {
-      const response = await apiClient.makeRequest(`/viewer-state/history?studyInstanceUID=${studyInstanceUID}&limit=${limit}`);
+      const response = await apiClient.getViewerStateHistory(studyInstanceUID, { limit });
       
-      return response.data.states.map((state: any) => ({
+      return response.states.map((state: any) => ({
         stateId: state._id,
         version: state.version,
         sessionId: state.sessionId,
         autoSaved: state.autoSaved,
         createdAt: new Date(state.createdAt),
         updatedAt: new Date(state.updatedAt),
+        author: getStateAuthor(state.userId),
       }));
     } catch (error) {
       console.error('Failed to get state history:', error);
@@ -278,6 +455,80 @@ class StateService {
     }
   }
 
+  async getStateVersion(stateId: string): Promise<SavedState | null> {
+    if (!authService.isAuthenticated()) {
+      return null;
+    }
+
+    try {
+      const response = await apiClient.getViewerStateById(stateId);
+
+      return {
+        stateId: response.stateId,
+        version: response.version,
+        sessionId: response.sessionId,
+        autoSaved: response.autoSaved,
+        createdAt: new Date(response.createdAt),
+        updatedAt: new Date(response.updatedAt),
+        state: response.state,
+      };
+    } catch (error) {
+      if (error.message?.includes('not found')) {
+        return null;
+      }
+      console.error('Failed to load viewer state version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restores a saved version into the viewer, replacing the measurements added or edited
+   * since, and saves it as a new snapshot. The version rolled back from stays in the history.
+   */
+  async rollbackToVersion(stateId: string): Promise<SavedState> {
+    if (!this.currentStudyUID) {
+      throw new Error('No study to roll back');
+    }
+
+    const savedState = await this.getStateVersion(stateId);
+    if (!savedState) {
+      throw new Error('Viewer state not found');
+    }
+
+    await this.applyViewerState(savedState.state, { replaceMeasurements: true });
+    return this.saveViewerState(this.currentStudyUID, savedState.state);
+  }
+
+  async deleteStateVersion(stateId: string): Promise<void> {
+    if (!authService.isAuthenticated()) {
+      throw new Error('Authentication required to delete state');
+    }
+
+    await apiClient.deleteViewerState(stateId);
+    this.notifyStateHistoryChanged();
+  }
+
+  /**
+   * Subscribes to changes in the saved versions of the current study: a study being opened,
+   * saves, auto-saves, rollbacks and deletions. Returns the unsubscribe function.
+   */
+  subscribeToStateHistory(listener: () => void): () => void {
+    this.saveListeners.push(listener);
+    return () => {
+      this.saveListeners = this.saveListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  private notifyStateHistoryChanged(): void {
+    this.saveListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('Failed to notify viewer state listener', error);
+      }
+    });
+  }
+
   async getRecentStudies(limit: number = 10): Promise<Array<{
     studyInstanceUID: string;
     lastAccessed: Date;
@@ -305,7 +556,7 @@ class StateService {
 
   // Debounced state change handler
   onStateChange(): void {
-    if (!this.isAutoSaveEnabled || !authService.isAuthenticated()) {
+    if (this.isRestoring || !this.isAutoSaveEnabled || !this.canSaveState()) {
       return;
     }
 
@@ -334,7 +585,12 @@ class StateService {
   }
 
   isAutoSaveActive(): boolean {
-    return this.isAutoSaveEnabled && authService.isAuthenticated();
+    return this.isAutoSaveEnabled && this.canSaveState();
+  }
+
+  // Referrers have read-only access and their viewer states are not saved
+  private canSaveState(): boolean {
+    return authService.isAuthenticated() && authService.hasPermission('viewerState:write');
   }
 
   getCurrentStudyUID(): string | null {
@@ -346,6 +602,20 @@ class StateService {
   }
 
   cleanup(): void {
+    this.subscriptions.forEach(unsubscribe => {
+      try {
+        unsubscribe?.();
+      } catch (error) {
+        console.warn('Failed to clear viewer state subscription', error);
+      }
+    });
+    this.subscriptions = [];
+
+    // Save the latest changes rather than dropping them with the pending auto-save
+    if (this.autoSaveDelay) {
+      this.performAutoSave();
+    }
+
     if (this.autoSaveInterval) {
       clearInterval(this.autoSaveInterval);
       this.autoSaveInterval = null;
@@ -359,6 +629,9 @@ class StateService {
     this.currentStudyUID = null;
     this.currentSessionId = null;
     this.lastSavedState = null;
+    this.pendingViewportStates = new Map();
+    this.context = null;
+    this.notifyStateHistoryChanged();
   }
 }
 
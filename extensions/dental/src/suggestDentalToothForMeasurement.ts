@@ -0,0 +1,51 @@
+import { metaData, utilities } from '@cornerstonejs/core';
+import { setDentalToothSuggester } from './dentalMeasurementsManager';
+import { DentalToothSuggestion, suggestDentalTooth } from './dentalToothSuggestion';
+import { getDentalSegmentIndexAtPoint } from './createDentalSegmentation';
+
+const getCentre = (points: number[][]): [number, number, number] | null =>
+  points?.length
+    ? ([0, 1, 2].map(
+        axis => points.reduce((sum, point) => sum + point[axis], 0) / points.length
+      ) as [number, number, number])
+    : null;
+
+/**
+ * Proposes the tooth of a measurement from the image it is drawn on: the tooth segment under its
+ * centre, the position of its centre on a panoramic, or the view codes and laterality of an
+ * intraoral image.
+ */
+export default function suggestDentalToothForMeasurement(
+  servicesManager,
+  measurement: any
+): DentalToothSuggestion | null {
+  const imageId = measurement?.referencedImageId ?? measurement?.metadata?.referencedImageId;
+  const centre = getCentre(measurement?.points);
+  if (!imageId || !centre) {
+    return null;
+  }
+
+  const image = metaData.get('instance', imageId);
+  const [column, row] = utilities.worldToImageCoords(imageId, centre) ?? [];
+  const position =
+    image?.Columns > 0 && image?.Rows > 0 && Number.isFinite(column) && Number.isFinite(row)
+      ? { x: column / image.Columns, y: row / image.Rows }
+      : undefined;
+  const segmentIndex = servicesManager.services.segmentationService
+    ? getDentalSegmentIndexAtPoint(servicesManager, measurement.displaySetInstanceUID, centre)
+    : undefined;
+
+  return suggestDentalTooth({ image, position, segmentIndex });
+}
+
+/**
+ * Suggests the tooth of new dental measurements from their image, for the user to confirm in the
+ * Measurements panel.
+ */
+export const initializeDentalToothSuggestions = servicesManager => {
+  setDentalToothSuggester(measurement =>
+    suggestDentalToothForMeasurement(servicesManager, measurement)
+  );
+};
+
+export const teardownDentalToothSuggestions = () => setDentalToothSuggester(null);
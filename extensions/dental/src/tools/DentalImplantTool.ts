@@ -0,0 +1,120 @@
+import { LengthTool, Types, annotation as csAnnotation, drawing } from '@cornerstonejs/tools';
+import {
+  DENTAL_IMPLANT_LIBRARY,
+  DENTAL_IMPLANT_TOOL_NAME,
+  DentalImplantSpec,
+  formatImplantSpec,
+  getImplantAxis,
+  getImplantOutline,
+} from '../dentalImplants';
+
+type DentalImplantAnnotation = Types.Annotation & {
+  metadata: Types.Annotation['metadata'] & { dentalImplant?: DentalImplantSpec };
+};
+
+// Apex handles closer than this to the implant length are left where they are
+const SNAP_TOLERANCE_MM = 0.01;
+
+const distanceBetween = (a: number[], b: number[]) =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+/**
+ * Keeps the second handle of a placement at the implant length, so dragging it only tilts the
+ * implant around its platform.
+ */
+const snapApexToImplantLength = (annotation, implant: DentalImplantSpec) => {
+  const { points } = annotation.data.handles;
+  if (points.length < 2 || distanceBetween(points[0], points[1]) < SNAP_TOLERANCE_MM) {
+    return;
+  }
+
+  const { apex } = getImplantAxis(points, implant);
+  if (distanceBetween(points[1], apex) > SNAP_TOLERANCE_MM) {
+    points[1][0] = apex[0];
+    points[1][1] = apex[1];
+    points[1][2] = apex[2];
+    annotation.invalidated = true;
+  }
+};
+
+/**
+ * Places a virtual implant from its platform (first click) along the direction of the second
+ * handle. The implant chosen from the library in the tool configuration is stored on the
+ * annotation, and its body is drawn around the axis as a cylinder or a tapered outline.
+ */
+class DentalImplantTool extends LengthTool {
+  static toolName = DENTAL_IMPLANT_TOOL_NAME;
+
+  private implantsByData = new WeakMap<object, DentalImplantSpec>();
+
+  constructor(toolProps = {}) {
+    super(toolProps);
+
+    this.configuration = {
+      implant: DENTAL_IMPLANT_LIBRARY[0],
+      ...this.configuration,
+      getTextLines: data => {
+        const implant = this.implantsByData.get(data);
+        return implant ? [formatImplantSpec(implant)] : undefined;
+      },
+    };
+
+    const addLengthAnnotation = this.addNewAnnotation;
+    this.addNewAnnotation = evt => {
+      const annotation = addLengthAnnotation(evt);
+      (annotation as DentalImplantAnnotation).metadata.dentalImplant = {
+        ...this.configuration.implant,
+      };
+      return annotation;
+    };
+
+    const renderLengthAnnotation = this.renderAnnotation;
+    this.renderAnnotation = (enabledElement, svgDrawingHelper) => {
+      const { viewport } = enabledElement;
+      const annotations = this.filterInteractableAnnotationsForElement(
+        viewport.element,
+        csAnnotation.state.getAnnotations(this.getToolName(), viewport.element) || []
+      );
+      const { viewPlaneNormal } = viewport.getCamera();
+
+      annotations?.forEach((annotation: DentalImplantAnnotation) => {
+        const implant = annotation.metadata?.dentalImplant;
+        if (!implant) {
+          return;
+        }
+
+        this.implantsByData.set(annotation.data, implant);
+        snapApexToImplantLength(annotation, implant);
+        if (!csAnnotation.visibility.isAnnotationVisible(annotation.annotationUID)) {
+          return;
+        }
+
+        const { color, lineWidth, lineDash } = this.getAnnotationStyle({
+          annotation,
+          styleSpecifier: {
+            toolGroupId: this.toolGroupId,
+            toolName: this.getToolName(),
+            viewportId: viewport.id,
+            annotationUID: annotation.annotationUID,
+          },
+        });
+        const outline = getImplantOutline(
+          annotation.data.handles.points,
+          implant,
+          viewPlaneNormal
+        ).map(point => viewport.worldToCanvas(point));
+
+        drawing.drawPolyline(svgDrawingHelper, annotation.annotationUID, 'implant', outline, {
+          color: color as string,
+          width: lineWidth as number,
+          lineDash: lineDash as string,
+          closePath: true,
+        });
+      });
+
+      return renderLengthAnnotation(enabledElement, svgDrawingHelper);
+    };
+  }
+}
+
+export default DentalImplantTool;
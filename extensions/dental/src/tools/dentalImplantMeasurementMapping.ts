@@ -0,0 +1,77 @@
+import { MeasurementService } from '@ohif/core';
+import { annotation as csAnnotation } from '@cornerstonejs/tools';
+import { getSOPInstanceAttributes } from '@ohif/extension-cornerstone';
+import { formatImplantSpec } from '../dentalImplants';
+
+/**
+ * Maps implant annotations to measurements like the cornerstone Length mapping does, keeping
+ * the implant on the measurement metadata and showing it as the measurement text.
+ */
+const dentalImplantMeasurementMapping = {
+  toAnnotation: () => {},
+
+  toMeasurement: (csToolsEventDetail, displaySetService) => {
+    const { annotation } = csToolsEventDetail;
+    const { metadata, data, annotationUID } = annotation;
+
+    if (!metadata || !data) {
+      console.warn('DentalImplant tool: Missing metadata or data');
+      return null;
+    }
+
+    const { toolName, referencedImageId, FrameOfReferenceUID } = metadata;
+    const { SOPInstanceUID, SeriesInstanceUID, StudyInstanceUID, frameNumber } =
+      getSOPInstanceAttributes(referencedImageId, displaySetService, annotation);
+
+    const displaySet = SOPInstanceUID
+      ? displaySetService.getDisplaySetForSOPInstanceUID(SOPInstanceUID, SeriesInstanceUID)
+      : displaySetService.getDisplaySetsForSeries(SeriesInstanceUID)[0];
+
+    const { points, textBox } = data.handles;
+    const implant = metadata.dentalImplant;
+
+    return {
+      uid: annotationUID,
+      SOPInstanceUID,
+      FrameOfReferenceUID,
+      points,
+      textBox,
+      isLocked: csAnnotation.locking.isAnnotationLocked(annotationUID),
+      isVisible: csAnnotation.visibility.isAnnotationVisible(annotationUID),
+      metadata,
+      referenceSeriesUID: SeriesInstanceUID,
+      referenceStudyUID: StudyInstanceUID,
+      referencedImageId,
+      frameNumber: frameNumber || 1,
+      toolName,
+      displaySetInstanceUID: displaySet?.displaySetInstanceUID,
+      label: data.label,
+      displayText: {
+        primary: implant ? [formatImplantSpec(implant)] : [],
+        secondary: displaySet ? [`S: ${displaySet.SeriesNumber}`] : [],
+      },
+      data: data.cachedStats,
+      type: MeasurementService.VALUE_TYPES.POLYLINE,
+      getReport: () => ({
+        columns: ['AnnotationType', 'Implant', 'Diameter', 'Length', 'Unit', 'points'],
+        values: [
+          'Dental:Implant',
+          implant?.label,
+          implant?.diameter,
+          implant?.length,
+          'mm',
+          points.map(point => point.join(' ')).join(';'),
+        ],
+      }),
+    };
+  },
+
+  matchingCriteria: [
+    {
+      valueType: MeasurementService.VALUE_TYPES.POLYLINE,
+      points: 2,
+    },
+  ],
+};
+
+export default dentalImplantMeasurementMapping;
@@ -2,7 +2,17 @@ import i18n from 'i18next';
 import toolbarButtons from './toolbarButtons';
 import initToolGroups from './initToolGroups';
 import { id } from './id';
-import { initializeDentalMeasurements, teardownDentalMeasurements } from '@ohif/extension-dental';
+import {
+  initializeDentalMeasurements,
+  teardownDentalMeasurements,
+  initializeDentalMeasurementsSync,
+  teardownDentalMeasurementsSync,
+  initializeDentalSegmentation,
+  teardownDentalSegmentation,
+  initializeDentalToothSuggestions,
+  teardownDentalToothSuggestions,
+  dentalStateService,
+} from '@ohif/extension-dental';
 
 const ohif = {
   layout: '@ohif/extension-default.layoutTemplateModule.viewerLayout',
@@ -12,17 +22,43 @@ const ohif = {
 
 const cornerstone = {
   viewport: '@ohif/extension-cornerstone.viewportModule.cornerstone',
+  segmentationPanel: '@ohif/extension-cornerstone.panelModule.panelSegmentationWithTools',
+};
+
+// Lets exported dental structured reports be opened and their measurements re-loaded
+const dicomsr = {
+  sopClassHandler: '@ohif/extension-cornerstone-dicom-sr.sopClassHandlerModule.dicom-sr',
+  viewport: '@ohif/extension-cornerstone-dicom-sr.viewportModule.dicom-sr',
+};
+
+// Shows dental reports saved to the study as Encapsulated PDF
+const dicompdf = {
+  sopClassHandler: '@ohif/extension-dicom-pdf.sopClassHandlerModule.dicom-pdf',
+  viewport: '@ohif/extension-dicom-pdf.viewportModule.dicom-pdf',
+};
+
+// Lets exported tooth segmentations be opened again
+const dicomseg = {
+  sopClassHandler: '@ohif/extension-cornerstone-dicom-seg.sopClassHandlerModule.dicom-seg',
+  viewport: '@ohif/extension-cornerstone-dicom-seg.viewportModule.dicom-seg',
 };
 
 const dental = {
+  odontogramPanel: '@ohif/extension-dental.panelModule.dentalOdontogram',
   measurementsPanel: '@ohif/extension-dental.panelModule.dentalMeasurements',
   annotationsPanel: '@ohif/extension-dental.panelModule.dentalAnnotations',
+  periodontalPanel: '@ohif/extension-dental.panelModule.dentalPeriodontal',
+  stateHistoryPanel: '@ohif/extension-dental.panelModule.dentalStateHistory',
+  toothComparisonPanel: '@ohif/extension-dental.panelModule.dentalToothComparison',
+  reviewQueuePanel: '@ohif/extension-dental.panelModule.dentalReviewQueue',
+  searchPanel: '@ohif/extension-dental.panelModule.dentalSearch',
 };
 
 const extensionDependencies = {
   '@ohif/extension-default': '^3.0.0',
   '@ohif/extension-cornerstone': '^3.0.0',
   '@ohif/extension-cornerstone-dicom-sr': '^3.0.0',
+  '@ohif/extension-cornerstone-dicom-seg': '^3.0.0',
   '@ohif/extension-dicom-pdf': '^3.0.1',
   '@ohif/extension-dicom-video': '^3.0.1',
   '@ohif/extension-dental': '^0.1.0',
@@ -48,6 +84,18 @@ function modeFactory() {
         toolGroupIds: [...toolGroupIds, 'dental'],
       });
 
+      // Save measurements to the dental backend and restore them when a study is reopened
+      initializeDentalMeasurementsSync({ servicesManager, extensionManager });
+
+      // Auto-save the viewer state and restore it when a study is reopened
+      dentalStateService.initialize({ servicesManager, commandsManager });
+
+      // Activate the segment of the selected tooth in tooth segmentations
+      initializeDentalSegmentation(servicesManager);
+
+      // Suggest the tooth of new measurements from the image they are drawn on
+      initializeDentalToothSuggestions(servicesManager);
+
       customizationService.setCustomizations([
         '@ohif/extension-dental.customizationModule.dental',
       ]);
@@ -59,17 +107,32 @@ function modeFactory() {
         'Pan',
         'Zoom',
         'WindowLevel',
+        'Crosshairs',
+        'DentalArch',
+        'CurvedPanoramic',
+        'DentalAI',
+        'DentalSegmentation',
+        'DentalSegmentationExport',
         'Layout',
         'Capture',
+        'DentalReport',
         'Reset',
       ]);
       toolbarService.updateSection('MeasurementTools', ['Length', 'Angle']);
+      toolbarService.updateSection(toolbarService.sections.segmentationToolbox, ['BrushTools']);
+      toolbarService.updateSection('BrushTools', ['Brush', 'Eraser']);
     },
     onModeExit: ({ servicesManager }: any) => {
       const { toolGroupService, uiDialogService, uiModalService } = servicesManager.services;
       
+      // Save the viewer state before the measurements and tooth selection are torn down
+      dentalStateService.cleanup();
+
       // Teardown dental measurements manager
       teardownDentalMeasurements();
+      teardownDentalMeasurementsSync();
+      teardownDentalSegmentation();
+      teardownDentalToothSuggestions();
       
       uiDialogService.hideAll();
       uiModalService.hide();
@@ -99,7 +162,17 @@ function modeFactory() {
             props: {
               leftPanels: [ohif.thumbnailList],
               leftPanelResizable: true,
-              rightPanels: [dental.measurementsPanel, dental.annotationsPanel],
+              rightPanels: [
+                dental.odontogramPanel,
+                dental.measurementsPanel,
+                dental.annotationsPanel,
+                dental.periodontalPanel,
+                dental.toothComparisonPanel,
+                dental.stateHistoryPanel,
+                dental.reviewQueuePanel,
+                dental.searchPanel,
+                cornerstone.segmentationPanel,
+              ],
               rightPanelResizable: true,
               rightPanelInitialExpandedWidth: 340,
               viewports: [
@@ -107,6 +180,9 @@ function modeFactory() {
                 { namespace: cornerstone.viewport, displaySetsToDisplay: [ohif.sopClassHandler] },
                 { namespace: cornerstone.viewport, displaySetsToDisplay: [ohif.sopClassHandler] },
                 { namespace: cornerstone.viewport, displaySetsToDisplay: [ohif.sopClassHandler] },
+                { namespace: dicomsr.viewport, displaySetsToDisplay: [dicomsr.sopClassHandler] },
+                { namespace: dicompdf.viewport, displaySetsToDisplay: [dicompdf.sopClassHandler] },
+                { namespace: dicomseg.viewport, displaySetsToDisplay: [dicomseg.sopClassHandler] },
               ],
             },
           };
@@ -114,8 +190,19 @@ function modeFactory() {
       },
     ],
     extensions: extensionDependencies,
-    hangingProtocol: '@ohif/hpDental2x2',
-    sopClassHandlers: [ohif.sopClassHandler],
+    // The 2x2 layout is the fallback when no dental study layout matches
+    hangingProtocol: [
+      '@ohif/hpDental2x2',
+      '@ohif/hpDentalFMX',
+      '@ohif/hpDentalPanoramic',
+      '@ohif/hpDentalCBCT',
+    ],
+    sopClassHandlers: [
+      dicomsr.sopClassHandler,
+      dicompdf.sopClassHandler,
+      dicomseg.sopClassHandler,
+      ohif.sopClassHandler,
+    ],
   };
 }
 
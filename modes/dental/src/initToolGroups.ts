@@ -1,4 +1,6 @@
-const createDentalToolGroup = (extensionManager, toolGroupService) => {
+import { DENTAL_IMPLANT_TOOL_NAME } from '@ohif/extension-dental';
+
+const getDentalTools = extensionManager => {
   const utilityModule = extensionManager.getModuleEntry(
     '@ohif/extension-cornerstone.utilityModule.tools'
   );
@@ -31,13 +33,62 @@ const createDentalToolGroup = (extensionManager, toolGroupService) => {
       { toolName: toolNames.ArrowAnnotate },
       { toolName: toolNames.EllipticalROI },
       { toolName: toolNames.CircleROI },
+      // AI suggestions are drawn as rectangles and outlines
+      { toolName: toolNames.RectangleROI },
+      { toolName: toolNames.PlanarFreehandROI },
+      {
+        toolName: 'CircularBrush',
+        parentTool: 'Brush',
+        configuration: { activeStrategy: 'FILL_INSIDE_CIRCLE' },
+      },
+      {
+        toolName: 'CircularEraser',
+        parentTool: 'Brush',
+        configuration: { activeStrategy: 'ERASE_INSIDE_CIRCLE' },
+      },
     ],
     enabled: [{ toolName: toolNames.ImageOverlayViewer }],
   };
 
+  return { tools, toolNames };
+};
+
+const createDentalToolGroup = (extensionManager, toolGroupService) => {
+  const { tools } = getDentalTools(extensionManager);
+
   toolGroupService.createToolGroupAndAddTools('dental', tools);
 };
 
+// CBCT volumes open in MPR viewports, which add crosshairs, the arch spline used for the
+// curved panoramic and the implant planning tool on top of the dental tools
+const createDentalMPRToolGroup = (extensionManager, toolGroupService) => {
+  const { tools, toolNames } = getDentalTools(extensionManager);
+
+  toolGroupService.createToolGroupAndAddTools('dentalMPR', {
+    ...tools,
+    passive: [
+      ...tools.passive,
+      { toolName: toolNames.SplineROI },
+      { toolName: DENTAL_IMPLANT_TOOL_NAME },
+    ],
+    disabled: [
+      {
+        toolName: toolNames.Crosshairs,
+        configuration: {
+          viewportIndicators: true,
+          disableOnPassive: true,
+          autoPan: {
+            enabled: false,
+            panSize: 10,
+          },
+        },
+      },
+      { toolName: toolNames.ReferenceLines },
+    ],
+  });
+};
+
 export default function initToolGroups(extensionManager, toolGroupService) {
   createDentalToolGroup(extensionManager, toolGroupService);
+  createDentalMPRToolGroup(extensionManager, toolGroupService);
 }
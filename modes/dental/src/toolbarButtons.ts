@@ -3,7 +3,7 @@ import type { Button } from '@ohif/core/types';
 export const setToolActiveToolbar = {
   commandName: 'setToolActive',
   commandOptions: {
-    toolGroupIds: ['dental'],
+    toolGroupIds: ['dental', 'dentalMPR'],
   },
   context: 'CORNERSTONE',
 };
@@ -109,6 +109,188 @@ const toolbarButtons: Button[] = [
       evaluate: 'evaluate.cornerstoneTool',
     },
   },
+  {
+    id: 'Crosshairs',
+    uiType: 'ohif.toolButton',
+    props: {
+      icon: 'tool-crosshair',
+      label: 'Crosshairs',
+      tooltip: 'CBCT crosshairs',
+      commands: {
+        ...setToolActiveToolbar,
+        commandOptions: {
+          toolGroupIds: ['dentalMPR'],
+          toolName: 'Crosshairs',
+        },
+      },
+      evaluate: {
+        name: 'evaluate.cornerstoneTool',
+        disabledText: 'Open a CBCT volume to enable this tool',
+      },
+    },
+  },
+  {
+    id: 'DentalArch',
+    uiType: 'ohif.toolButton',
+    props: {
+      icon: 'icon-tool-spline-roi',
+      label: 'Dental arch',
+      tooltip: 'Draw the dental arch on an axial CBCT slice, double-click to finish',
+      commands: {
+        ...setToolActiveToolbar,
+        commandOptions: {
+          toolGroupIds: ['dentalMPR'],
+          toolName: 'SplineROI',
+        },
+      },
+      evaluate: {
+        name: 'evaluate.cornerstoneTool',
+        disabledText: 'Open a CBCT volume to enable this tool',
+      },
+    },
+  },
+  {
+    id: 'CurvedPanoramic',
+    uiType: 'ohif.toolButton',
+    props: {
+      icon: 'icon-mpr',
+      label: 'Curved panoramic',
+      tooltip: 'Reformat the CBCT volume along the dental arch',
+      commands: {
+        commandName: 'createDentalCurvedReformation',
+        context: 'DENTAL',
+      },
+      evaluate: 'evaluate.action',
+    },
+  },
+  {
+    id: 'DentalReport',
+    uiType: 'ohif.toolButton',
+    props: {
+      icon: 'clipboard',
+      label: 'Report',
+      tooltip: 'Build a printable dental report',
+      commands: {
+        commandName: 'openDentalReportBuilder',
+        context: 'DENTAL',
+      },
+      evaluate: 'evaluate.action',
+    },
+  },
+  {
+    id: 'DentalAI',
+    uiType: 'ohif.toolButton',
+    props: {
+      icon: 'icon-tool-click-segment',
+      label: 'AI findings',
+      tooltip: 'Detect caries and periapical lesions on the active image for review',
+      commands: {
+        commandName: 'runDentalInference',
+        context: 'DENTAL',
+      },
+      evaluate: 'evaluate.action',
+    },
+  },
+  {
+    id: 'DentalSegmentation',
+    uiType: 'ohif.toolButton',
+    props: {
+      icon: 'tab-segmentation',
+      label: 'Tooth segmentation',
+      tooltip: 'Create a labelmap with a segment per tooth, the jaws, canals and sinuses',
+      commands: {
+        commandName: 'createDentalSegmentation',
+        context: 'DENTAL',
+      },
+      evaluate: 'evaluate.action',
+    },
+  },
+  {
+    id: 'DentalSegmentationExport',
+    uiType: 'ohif.toolButton',
+    props: {
+      icon: 'external-link',
+      label: 'Export segmentation',
+      tooltip: 'Download the tooth segmentation as DICOM SEG',
+      commands: {
+        commandName: 'exportDentalSegmentation',
+        context: 'DENTAL',
+      },
+      evaluate: 'evaluate.action',
+    },
+  },
+  // Painting tools of the segmentation panel; the segment of the selected tooth is painted
+  { id: 'BrushTools', uiType: 'ohif.toolBoxButtonGroup', props: { buttonSection: true } },
+  {
+    id: 'Brush',
+    uiType: 'ohif.toolBoxButton',
+    props: {
+      icon: 'icon-tool-brush',
+      label: 'Brush',
+      commands: {
+        ...setToolActiveToolbar,
+        commandOptions: {
+          ...setToolActiveToolbar.commandOptions,
+          toolName: 'CircularBrush',
+        },
+      },
+      evaluate: {
+        name: 'evaluate.cornerstone.segmentation',
+        toolNames: ['CircularBrush'],
+        disabledText: 'Create a tooth segmentation to enable this tool',
+      },
+      options: [
+        {
+          name: 'Radius (mm)',
+          id: 'brush-radius',
+          type: 'range',
+          min: 0.5,
+          max: 20,
+          step: 0.5,
+          value: 2,
+          commands: {
+            commandName: 'setBrushSize',
+            commandOptions: { toolNames: ['CircularBrush'] },
+          },
+        },
+      ],
+    },
+  },
+  {
+    id: 'Eraser',
+    uiType: 'ohif.toolBoxButton',
+    props: {
+      icon: 'icon-tool-eraser',
+      label: 'Eraser',
+      commands: {
+        ...setToolActiveToolbar,
+        commandOptions: {
+          ...setToolActiveToolbar.commandOptions,
+          toolName: 'CircularEraser',
+        },
+      },
+      evaluate: {
+        name: 'evaluate.cornerstone.segmentation',
+        toolNames: ['CircularEraser'],
+        disabledText: 'Create a tooth segmentation to enable this tool',
+      },
+      options: [
+        {
+          name: 'Radius (mm)',
+          id: 'eraser-radius',
+          type: 'range',
+          min: 0.5,
+          max: 20,
+          step: 0.5,
+          value: 2,
+          commands: {
+            commandName: 'setBrushSize',
+            commandOptions: { toolNames: ['CircularEraser'] },
+          },
+        },
+      ],
+    },
+  },
   {
     id: 'Capture',
     uiType: 'ohif.toolButton',